@@ -4,6 +4,25 @@ import path from 'path';
 // Load environment variables
 dotenv.config();
 
+export type LLMProviderName = 'anthropic' | 'mock';
+
+export type LLMTask =
+  | 'intent-analysis'
+  | 'component-recommendations'
+  | 'compatibility-response'
+  | 'comparison-response'
+  | 'project-response'
+  | 'troubleshooting-response'
+  | 'general-response'
+  | 'agent'
+  | 'sketch-refinement';
+
+export interface LLMTaskSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
 interface Config {
   env: string;
   port: number;
@@ -30,10 +49,40 @@ interface Config {
       token: string;
     };
   };
+  admin: {
+    apiKey: string;
+  };
+  llm: {
+    provider: LLMProviderName;
+    fixturesDir: string;
+    tasks: Record<LLMTask, LLMTaskSettings>;
+  };
+  agent: {
+    enabled: boolean;
+    maxSteps: number;
+    sessionToolBudget: number;
+  };
+  chatSessions: {
+    cacheTtlSeconds: number;
+    cacheMessages: number;
+    retentionDays: number;
+    retentionIntervalMs: number;
+  };
   scraping: {
     delayMs: number;
     maxConcurrent: number;
     timeoutMs: number;
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+    retryBaseMs: number;
+    offline: boolean;
+    userAgent: string;
+    maxResponseBytes: number;
+    robotsCacheMs: number;
+  };
+  ingest: {
+    maxFileBytes: number;
+    maxFiles: number;
   };
   cache: {
     ttlSeconds: number;
@@ -51,6 +100,20 @@ interface Config {
     language: string;
     dpi: number;
     psm: number;
+    langPath: string;
+  };
+}
+
+const DEFAULT_LLM_MODEL = process.env.LLM_MODEL || 'claude-3-5-sonnet-20241022';
+
+// Per-task overrides, e.g. LLM_INTENT_ANALYSIS_MODEL, LLM_PROJECT_RESPONSE_TEMPERATURE, LLM_GENERAL_RESPONSE_MAX_TOKENS
+function llmTaskSettings(task: LLMTask, temperature: number, maxTokens: number): LLMTaskSettings {
+  const prefix = `LLM_${task.toUpperCase().replace(/-/g, '_')}`;
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || DEFAULT_LLM_MODEL,
+    temperature: parseFloat(process.env[`${prefix}_TEMPERATURE`] || String(temperature)),
+    maxTokens: parseInt(process.env[`${prefix}_MAX_TOKENS`] || String(maxTokens), 10),
   };
 }
 
@@ -84,10 +147,59 @@ const config: Config = {
     },
   },
 
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || '',
+  },
+
+  llm: {
+    // Without an Anthropic key the fixture-driven mock answers instead
+    provider: (process.env.LLM_PROVIDER || (process.env.ANTHROPIC_API_KEY ? 'anthropic' : 'mock')) as LLMProviderName,
+    fixturesDir: process.env.LLM_FIXTURES_DIR || path.resolve(__dirname, '../../fixtures/llm'),
+    tasks: {
+      'intent-analysis': llmTaskSettings('intent-analysis', 0.1, 1000),
+      'component-recommendations': llmTaskSettings('component-recommendations', 0.3, 1500),
+      'compatibility-response': llmTaskSettings('compatibility-response', 0.2, 1200),
+      'comparison-response': llmTaskSettings('comparison-response', 0.2, 1200),
+      'project-response': llmTaskSettings('project-response', 0.4, 1800),
+      'troubleshooting-response': llmTaskSettings('troubleshooting-response', 0.2, 1600),
+      'general-response': llmTaskSettings('general-response', 0.5, 1000),
+      'agent': llmTaskSettings('agent', 0.2, 2000),
+      'sketch-refinement': llmTaskSettings('sketch-refinement', 0.1, 4000),
+    },
+  },
+
+  agent: {
+    enabled: process.env.AGENT_ENABLED !== 'false',
+    maxSteps: parseInt(process.env.AGENT_MAX_STEPS || '5', 10),
+    sessionToolBudget: parseInt(process.env.AGENT_SESSION_TOOL_BUDGET || '40', 10),
+  },
+
+  chatSessions: {
+    cacheTtlSeconds: parseInt(process.env.CHAT_SESSION_CACHE_TTL_SECONDS || '3600', 10),
+    cacheMessages: parseInt(process.env.CHAT_SESSION_CACHE_MESSAGES || '20', 10),
+    // Sessions idle for longer than this are deleted; 0 keeps them forever
+    retentionDays: parseInt(process.env.CHAT_SESSION_RETENTION_DAYS || '90', 10),
+    retentionIntervalMs: parseInt(process.env.CHAT_SESSION_RETENTION_INTERVAL_MS || '86400000', 10), // daily
+  },
+
   scraping: {
     delayMs: parseInt(process.env.SCRAPE_DELAY_MS || '1000', 10),
     maxConcurrent: parseInt(process.env.MAX_CONCURRENT_SCRAPES || '3', 10),
     timeoutMs: parseInt(process.env.SCRAPE_TIMEOUT_MS || '30000', 10),
+    workerEnabled: process.env.SCRAPE_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.SCRAPE_POLL_INTERVAL_MS || '5000', 10),
+    retryBaseMs: parseInt(process.env.SCRAPE_RETRY_BASE_MS || '60000', 10),
+    // No Apify token or queue worker; content arrives through /api/ingest and `npm run ingest`
+    offline: process.env.SCRAPE_OFFLINE === 'true',
+    // Sent on every scraper request; its first word is the token robots.txt rules are matched against
+    userAgent: process.env.SCRAPE_USER_AGENT || 'ProtoBuddy/1.0 (Component Analysis Bot)',
+    maxResponseBytes: parseInt(process.env.SCRAPE_MAX_RESPONSE_BYTES || String(25 * 1024 * 1024), 10),
+    robotsCacheMs: parseInt(process.env.SCRAPE_ROBOTS_CACHE_MS || String(24 * 60 * 60 * 1000), 10),
+  },
+
+  ingest: {
+    maxFileBytes: parseInt(process.env.INGEST_MAX_FILE_BYTES || String(25 * 1024 * 1024), 10),
+    maxFiles: parseInt(process.env.INGEST_MAX_FILES || '20', 10),
   },
 
   cache: {
@@ -109,16 +221,23 @@ const config: Config = {
     language: process.env.TESSERACT_LANG || 'eng',
     dpi: parseInt(process.env.OCR_DPI || '300', 10),
     psm: parseInt(process.env.OCR_PSM || '6', 10),
+    // Directory holding <lang>.traineddata; tesseract.js downloads it from a CDN when unset
+    langPath: process.env.TESSERACT_LANG_PATH || '',
   },
 };
 
 // Validation
 function validateConfig(): void {
   const requiredEnvVars = [
-    'ANTHROPIC_API_KEY',
-    'APIFY_API_TOKEN',
+    ...(config.llm.provider === 'anthropic' ? ['ANTHROPIC_API_KEY'] : []),
+    ...(config.scraping.offline ? [] : ['APIFY_API_TOKEN']),
   ];
 
+  if (!['anthropic', 'mock'].includes(config.llm.provider)) {
+    console.error(`Unknown LLM_PROVIDER "${config.llm.provider}". Use "anthropic" or "mock"`);
+    process.exit(1);
+  }
+
   const missingVars = requiredEnvVars.filter(
     (varName) => !process.env[varName] || process.env[varName] === ''
   );
@@ -173,18 +292,19 @@ export function isTest(): boolean {
 export const cacheKeys = {
   component: (id: string) => `component:${id}`,
   compatibility: (boardId: string, componentId: string) => `compat:${boardId}:${componentId}`,
+  systemCompatibility: (boardId: string, signature: string) =>
+    `compat:${boardId}:system:${Buffer.from(signature).toString('base64')}`,
   project: (type: string) => `project:${type}`,
   scrape: (url: string) => `scrape:${Buffer.from(url).toString('base64')}`,
   search: (query: string) => `search:${Buffer.from(query).toString('base64')}`,
   session: (sessionId: string) => `session:${sessionId}`,
+  compatibilityRules: () => 'rules:compatibility',
+  libraryCheck: (architecture: string, libraries: string) =>
+    `libraries:check:${architecture}:${Buffer.from(libraries).toString('base64')}`,
 };
 
-// Common regular expressions
+// Common regular expressions; voltages, currents, frequencies and temperatures are read by utils/quantity
 export const patterns = {
-  voltage: /(\d+(?:\.\d+)?)\s*(?:V|v|volt|volts)/gi,
-  current: /(\d+(?:\.\d+)?)\s*(?:mA|ma|A|amp|amps)/gi,
-  frequency: /(\d+(?:\.\d+)?)\s*(?:Hz|hz|MHz|mhz|GHz|ghz|kHz|khz)/gi,
-  temperature: /(-?\d+(?:\.\d+)?)\s*(?:°C|°F|C|F|celsius|fahrenheit)/gi,
   dimensions: /(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches)\s*x\s*(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches)(?:\s*x\s*(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches))?/gi,
 };
 
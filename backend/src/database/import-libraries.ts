@@ -0,0 +1,43 @@
+import { readFile } from 'fs/promises';
+import { initializeConnections, closeConnections } from './connection';
+import { LibraryService } from '../services/libraries';
+import { logger } from '../utils/logger';
+import { LibraryIndexEntry } from '../types';
+
+/**
+ * Imports an Arduino library_index.json (https://downloads.arduino.cc/libraries/library_index.json)
+ * from disk, so the index can be refreshed without network access from the server.
+ *
+ *   npm run libraries:import -- ./library_index.json
+ */
+export async function importLibraryIndex(path: string): Promise<{ releases: number; libraries: number }> {
+  const index = JSON.parse(await readFile(path, 'utf8')) as { libraries?: LibraryIndexEntry[] };
+
+  if (!Array.isArray(index.libraries)) {
+    throw new Error(`${path} is not a library index: missing "libraries" array`);
+  }
+
+  return new LibraryService().importIndex(index.libraries);
+}
+
+// Run import if this file is executed directly
+if (require.main === module) {
+  const path = process.argv[2];
+
+  (async () => {
+    if (!path) {
+      logger.error('Usage: npm run libraries:import -- <path to library_index.json>');
+      process.exit(1);
+    }
+
+    try {
+      await initializeConnections();
+      await importLibraryIndex(path);
+      await closeConnections();
+      process.exit(0);
+    } catch (error) {
+      logger.error('Library import failed:', error);
+      process.exit(1);
+    }
+  })();
+}
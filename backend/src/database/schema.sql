@@ -89,8 +89,10 @@ CREATE TABLE compatibility_cache (
 CREATE TABLE chat_sessions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     session_id VARCHAR(255) UNIQUE NOT NULL,
+    title VARCHAR(255),
     messages JSONB DEFAULT '[]',
     context JSONB DEFAULT '{}',
+    tool_calls_used INTEGER DEFAULT 0,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -98,7 +100,7 @@ CREATE TABLE chat_sessions (
 -- Scraping queue table
 CREATE TABLE scraping_queue (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-    url TEXT NOT NULL,
+    url TEXT NOT NULL UNIQUE,
     type VARCHAR(50) NOT NULL,
     priority INTEGER DEFAULT 5,
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
@@ -112,6 +114,62 @@ CREATE TABLE scraping_queue (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Arduino sketch templates, one or more per component category
+CREATE TABLE sketch_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    category VARCHAR(100) NOT NULL,
+    -- Regular expression tested against the component name; NULL covers the whole category
+    name_pattern VARCHAR(255),
+    includes TEXT[] DEFAULT '{}',
+    globals TEXT DEFAULT '',
+    setup TEXT DEFAULT '',
+    loop TEXT DEFAULT '',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Custom compatibility rules; built-ins ship in src/rules/compatibility-rules.json
+CREATE TABLE compatibility_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Rule id; matching a built-in id overrides that rule
+    rule_key VARCHAR(100) UNIQUE NOT NULL,
+    definition JSONB NOT NULL,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Arduino library index, one row per release (imported from library_index.json)
+CREATE TABLE arduino_libraries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    version VARCHAR(50) NOT NULL,
+    author TEXT,
+    sentence TEXT,
+    category VARCHAR(100),
+    website TEXT,
+    architectures TEXT[] DEFAULT '{*}',
+    dependencies JSONB DEFAULT '[]',
+    provides_includes TEXT[] DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(name, version)
+);
+
+-- Component specs extracted from scraped datasheets, reviewed before they are added to components
+CREATE TABLE component_drafts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scraped_data_id UUID REFERENCES scraped_data(id) ON DELETE SET NULL,
+    source_url TEXT NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    manufacturer VARCHAR(255) DEFAULT '',
+    specifications JSONB NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    component_id UUID REFERENCES components(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Indexes for performance
 CREATE INDEX idx_components_name ON components USING gin(name gin_trgm_ops);
 CREATE INDEX idx_components_category ON components(category);
@@ -135,10 +193,20 @@ CREATE INDEX idx_compatibility_cache_board_component ON compatibility_cache(boar
 CREATE INDEX idx_compatibility_cache_compatible ON compatibility_cache(compatible);
 
 CREATE INDEX idx_chat_sessions_session_id ON chat_sessions(session_id);
+CREATE INDEX idx_chat_sessions_updated_at ON chat_sessions(updated_at DESC);
+
+CREATE INDEX idx_sketch_templates_category ON sketch_templates(category);
+
+CREATE INDEX idx_arduino_libraries_name ON arduino_libraries USING gin(name gin_trgm_ops);
+CREATE INDEX idx_arduino_libraries_lower_name ON arduino_libraries(lower(name));
+CREATE INDEX idx_arduino_libraries_includes ON arduino_libraries USING gin(provides_includes);
+
+CREATE INDEX idx_component_drafts_status ON component_drafts(status, created_at DESC);
 
 CREATE INDEX idx_scraping_queue_status ON scraping_queue(status);
 CREATE INDEX idx_scraping_queue_priority ON scraping_queue(priority DESC);
 CREATE INDEX idx_scraping_queue_scheduled ON scraping_queue(scheduled_at);
+CREATE INDEX idx_scraping_queue_claim ON scraping_queue(priority DESC, scheduled_at) WHERE status = 'pending';
 
 -- Functions for updating timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -157,6 +225,10 @@ CREATE TRIGGER update_scraped_data_updated_at BEFORE UPDATE ON scraped_data FOR
 CREATE TRIGGER update_compatibility_cache_updated_at BEFORE UPDATE ON compatibility_cache FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_chat_sessions_updated_at BEFORE UPDATE ON chat_sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_scraping_queue_updated_at BEFORE UPDATE ON scraping_queue FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sketch_templates_updated_at BEFORE UPDATE ON sketch_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_compatibility_rules_updated_at BEFORE UPDATE ON compatibility_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_arduino_libraries_updated_at BEFORE UPDATE ON arduino_libraries FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_component_drafts_updated_at BEFORE UPDATE ON component_drafts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Views for common queries
 CREATE VIEW component_summary AS
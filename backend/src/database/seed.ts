@@ -8,6 +8,7 @@ const sampleBoards = [
     type: 'microcontroller',
     specifications: {
       processor: 'ATmega328P',
+      architecture: 'avr',
       clockSpeed: '16 MHz',
       memory: {
         flash: '32KB',
@@ -20,8 +21,22 @@ const sampleBoards = [
       },
       current: {
         input: { max: 20, unit: 'mA' },
-        output: { perPin: 20, total: 200, unit: 'mA' }
-      }
+        output: { perPin: 20, total: 200, unit: 'mA' },
+        consumption: { typical: 45, peak: 50, unit: 'mA' }
+      },
+      dimensions: { length: 68.6, width: 53.4, height: 15, unit: 'mm' },
+      mountingHoles: [
+        { x: 14, y: 2.5, diameter: 3.2 },
+        { x: 15.3, y: 50.7, diameter: 3.2 },
+        { x: 66.1, y: 7.6, diameter: 3.2 },
+        { x: 66.1, y: 35.5, diameter: 3.2 }
+      ],
+      headers: [
+        { name: 'Digital 0-7', pins: 8, rows: 1, pitch: 2.54, gender: 'female', x: 48.3, y: 50.8 },
+        { name: 'Digital 8-13', pins: 10, rows: 1, pitch: 2.54, gender: 'female', x: 21.6, y: 50.8 },
+        { name: 'Power', pins: 8, rows: 1, pitch: 2.54, gender: 'female', x: 25.4, y: 2.5 },
+        { name: 'Analog', pins: 6, rows: 1, pitch: 2.54, gender: 'female', x: 48.3, y: 2.5 }
+      ]
     },
     supportedProtocols: [
       { type: 'I2C', details: { pins: ['A4', 'A5'] } },
@@ -30,8 +45,8 @@ const sampleBoards = [
       { type: 'PWM', details: { pins: ['3', '5', '6', '9', '10', '11'] } }
     ],
     pins: [
-      { number: 0, digitalPin: 0, name: 'RX', functions: ['UART', 'digital'], voltage: 5, currentMax: 20 },
-      { number: 1, digitalPin: 1, name: 'TX', functions: ['UART', 'digital'], voltage: 5, currentMax: 20 },
+      { number: 0, digitalPin: 0, name: 'RX', functions: ['UART', 'digital', 'RX'], voltage: 5, currentMax: 20 },
+      { number: 1, digitalPin: 1, name: 'TX', functions: ['UART', 'digital', 'TX'], voltage: 5, currentMax: 20 },
       { number: 2, digitalPin: 2, name: 'D2', functions: ['digital', 'interrupt'], voltage: 5, currentMax: 20 },
       { number: 3, digitalPin: 3, name: 'D3', functions: ['digital', 'PWM', 'interrupt'], voltage: 5, currentMax: 20 },
       { number: 4, digitalPin: 4, name: 'D4', functions: ['digital'], voltage: 5, currentMax: 20 },
@@ -40,16 +55,16 @@ const sampleBoards = [
       { number: 7, digitalPin: 7, name: 'D7', functions: ['digital'], voltage: 5, currentMax: 20 },
       { number: 8, digitalPin: 8, name: 'D8', functions: ['digital'], voltage: 5, currentMax: 20 },
       { number: 9, digitalPin: 9, name: 'D9', functions: ['digital', 'PWM'], voltage: 5, currentMax: 20 },
-      { number: 10, digitalPin: 10, name: 'D10', functions: ['digital', 'PWM', 'SPI'], voltage: 5, currentMax: 20 },
-      { number: 11, digitalPin: 11, name: 'D11', functions: ['digital', 'PWM', 'SPI'], voltage: 5, currentMax: 20 },
-      { number: 12, digitalPin: 12, name: 'D12', functions: ['digital', 'SPI'], voltage: 5, currentMax: 20 },
-      { number: 13, digitalPin: 13, name: 'D13', functions: ['digital', 'SPI', 'LED'], voltage: 5, currentMax: 20 },
+      { number: 10, digitalPin: 10, name: 'D10', functions: ['digital', 'PWM', 'SPI', 'SS'], voltage: 5, currentMax: 20 },
+      { number: 11, digitalPin: 11, name: 'D11', functions: ['digital', 'PWM', 'SPI', 'MOSI'], voltage: 5, currentMax: 20 },
+      { number: 12, digitalPin: 12, name: 'D12', functions: ['digital', 'SPI', 'MISO'], voltage: 5, currentMax: 20 },
+      { number: 13, digitalPin: 13, name: 'D13', functions: ['digital', 'SPI', 'SCK', 'LED'], voltage: 5, currentMax: 20 },
       { number: 14, digitalPin: 14, analogPin: 0, name: 'A0', functions: ['analog', 'digital'], voltage: 5, currentMax: 20 },
       { number: 15, digitalPin: 15, analogPin: 1, name: 'A1', functions: ['analog', 'digital'], voltage: 5, currentMax: 20 },
       { number: 16, digitalPin: 16, analogPin: 2, name: 'A2', functions: ['analog', 'digital'], voltage: 5, currentMax: 20 },
       { number: 17, digitalPin: 17, analogPin: 3, name: 'A3', functions: ['analog', 'digital'], voltage: 5, currentMax: 20 },
-      { number: 18, digitalPin: 18, analogPin: 4, name: 'A4', functions: ['analog', 'digital', 'I2C'], voltage: 5, currentMax: 20 },
-      { number: 19, digitalPin: 19, analogPin: 5, name: 'A5', functions: ['analog', 'digital', 'I2C'], voltage: 5, currentMax: 20 }
+      { number: 18, digitalPin: 18, analogPin: 4, name: 'A4', functions: ['analog', 'digital', 'I2C', 'SDA'], voltage: 5, currentMax: 20 },
+      { number: 19, digitalPin: 19, analogPin: 5, name: 'A5', functions: ['analog', 'digital', 'I2C', 'SCL'], voltage: 5, currentMax: 20 }
     ]
   },
   {
@@ -58,6 +73,7 @@ const sampleBoards = [
     type: 'microcontroller',
     specifications: {
       processor: 'ESP32',
+      architecture: 'esp32',
       clockSpeed: '240 MHz',
       memory: {
         flash: '4MB',
@@ -70,22 +86,50 @@ const sampleBoards = [
       },
       current: {
         input: { max: 12, unit: 'mA' },
-        output: { perPin: 12, total: 120, unit: 'mA' }
-      }
+        output: { perPin: 12, total: 120, unit: 'mA' },
+        consumption: { typical: 80, peak: 240, unit: 'mA' }
+      },
+      dimensions: { length: 51.5, width: 28.4, height: 12, unit: 'mm' },
+      // 30-pin version; its pin rows are 1" apart, so one side has no free breadboard holes
+      headers: [
+        { name: 'Left', pins: 15, rows: 1, pitch: 2.54, gender: 'male', x: 7.6, y: 1.5 },
+        { name: 'Right', pins: 15, rows: 1, pitch: 2.54, gender: 'male', x: 7.6, y: 26.9 }
+      ]
     },
     supportedProtocols: [
       { type: 'I2C', details: { pins: ['21', '22'] } },
       { type: 'SPI', details: { pins: ['5', '18', '19', '23'] } },
       { type: 'UART', details: { pins: ['1', '3'] } },
+      { type: 'UART', details: { pins: ['16', '17'] } },
       { type: 'PWM', details: { pins: ['2', '4', '5', '12', '13', '14', '15', '16', '17', '18', '19', '21', '22', '23'] } }
     ],
     pins: [
       { number: 1, name: 'EN', functions: ['enable'], voltage: 3.3, currentMax: 12 },
-      { number: 2, name: 'VP', functions: ['analog'], voltage: 3.3, currentMax: 12 },
-      { number: 3, name: 'VN', functions: ['analog'], voltage: 3.3, currentMax: 12 },
-      { number: 4, name: 'D34', functions: ['analog', 'digital'], voltage: 3.3, currentMax: 12 },
-      { number: 5, name: 'D35', functions: ['analog', 'digital'], voltage: 3.3, currentMax: 12 }
-      // Simplified for brevity - would include all 30 pins in real implementation
+      { number: 2, digitalPin: 36, analogPin: 0, name: 'VP', functions: ['analog', 'input-only'], voltage: 3.3, currentMax: 12 },
+      { number: 3, digitalPin: 39, analogPin: 3, name: 'VN', functions: ['analog', 'input-only'], voltage: 3.3, currentMax: 12 },
+      { number: 4, digitalPin: 34, analogPin: 6, name: 'D34', functions: ['analog', 'digital', 'interrupt', 'input-only'], voltage: 3.3, currentMax: 12 },
+      { number: 5, digitalPin: 35, analogPin: 7, name: 'D35', functions: ['analog', 'digital', 'interrupt', 'input-only'], voltage: 3.3, currentMax: 12 },
+      { number: 6, digitalPin: 32, analogPin: 4, name: 'D32', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12 },
+      { number: 7, digitalPin: 33, analogPin: 5, name: 'D33', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12 },
+      { number: 8, digitalPin: 25, name: 'D25', functions: ['analog', 'digital', 'PWM', 'interrupt', 'DAC'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 9, digitalPin: 26, name: 'D26', functions: ['analog', 'digital', 'PWM', 'interrupt', 'DAC'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 10, digitalPin: 27, name: 'D27', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 11, digitalPin: 14, name: 'D14', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 12, digitalPin: 12, name: 'D12', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'Strapping pin - must be low at boot' },
+      { number: 13, digitalPin: 13, name: 'D13', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 18, digitalPin: 15, name: 'D15', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'Strapping pin' },
+      { number: 19, digitalPin: 2, name: 'D2', functions: ['analog', 'digital', 'PWM', 'interrupt', 'LED'], voltage: 3.3, currentMax: 12, notes: 'Onboard LED, strapping pin' },
+      { number: 20, digitalPin: 4, name: 'D4', functions: ['analog', 'digital', 'PWM', 'interrupt', 'touch'], voltage: 3.3, currentMax: 12, notes: 'ADC2 - analog unavailable while WiFi is active' },
+      { number: 21, digitalPin: 16, name: 'RX2', functions: ['UART', 'digital', 'PWM', 'interrupt', 'RX'], voltage: 3.3, currentMax: 12 },
+      { number: 22, digitalPin: 17, name: 'TX2', functions: ['UART', 'digital', 'PWM', 'interrupt', 'TX'], voltage: 3.3, currentMax: 12 },
+      { number: 23, digitalPin: 5, name: 'D5', functions: ['digital', 'PWM', 'interrupt', 'SPI', 'SS'], voltage: 3.3, currentMax: 12 },
+      { number: 24, digitalPin: 18, name: 'D18', functions: ['digital', 'PWM', 'interrupt', 'SPI', 'SCK'], voltage: 3.3, currentMax: 12 },
+      { number: 25, digitalPin: 19, name: 'D19', functions: ['digital', 'PWM', 'interrupt', 'SPI', 'MISO'], voltage: 3.3, currentMax: 12 },
+      { number: 26, digitalPin: 21, name: 'D21', functions: ['digital', 'PWM', 'interrupt', 'I2C', 'SDA'], voltage: 3.3, currentMax: 12 },
+      { number: 27, digitalPin: 3, name: 'RX0', functions: ['UART', 'digital', 'RX'], voltage: 3.3, currentMax: 12, notes: 'Shared with USB serial' },
+      { number: 28, digitalPin: 1, name: 'TX0', functions: ['UART', 'digital', 'TX'], voltage: 3.3, currentMax: 12, notes: 'Shared with USB serial' },
+      { number: 29, digitalPin: 22, name: 'D22', functions: ['digital', 'PWM', 'interrupt', 'I2C', 'SCL'], voltage: 3.3, currentMax: 12 },
+      { number: 30, digitalPin: 23, name: 'D23', functions: ['digital', 'PWM', 'interrupt', 'SPI', 'MOSI'], voltage: 3.3, currentMax: 12 }
     ]
   }
 ];
@@ -112,6 +156,9 @@ const sampleComponents = [
         { number: 3, name: 'NC', type: 'nc', function: 'Not connected' },
         { number: 4, name: 'GND', type: 'ground', function: 'Ground', voltage: 0 }
       ],
+      dimensions: {
+        length: 25.1, width: 15.1, height: 7.7, unit: 'mm'
+      },
       temperature: {
         operating: { min: -40, max: 80, unit: 'C' }
       }
@@ -182,7 +229,10 @@ const sampleComponents = [
         { number: 2, name: 'TRIG', type: 'digital', function: 'Trigger pulse input', voltage: 5 },
         { number: 3, name: 'ECHO', type: 'digital', function: 'Echo pulse output', voltage: 5 },
         { number: 4, name: 'GND', type: 'ground', function: 'Ground', voltage: 0 }
-      ]
+      ],
+      dimensions: {
+        length: 45, width: 20, height: 15, unit: 'mm'
+      }
     },
     compatibility: {
       boards: ['arduino-uno'],
@@ -217,7 +267,10 @@ const sampleComponents = [
         { number: 10, name: 'VSS', type: 'ground', function: 'Ground' },
         { number: 12, name: 'SCL', type: 'communication', function: 'I2C Clock' },
         { number: 13, name: 'SDA', type: 'communication', function: 'I2C Data' }
-      ]
+      ],
+      dimensions: {
+        length: 35.6, width: 7.6, height: 4.5, unit: 'mm'
+      }
     },
     compatibility: {
       boards: ['arduino-uno', 'esp32', 'raspberry-pi'],
@@ -229,6 +282,128 @@ const sampleComponents = [
     price: 4.95,
     availability: 'in-stock',
     tags: ['interface', 'i2c', 'gpio', 'expander']
+  },
+  {
+    name: 'BSS138 Bi-Directional Logic Level Converter',
+    manufacturer: 'SparkFun',
+    category: 'interface',
+    description: '4-channel bi-directional level shifter, safe for I2C and other open-drain buses',
+    specifications: {
+      voltage: {
+        operating: { min: 1.8, max: 5.5, unit: 'V' }
+      },
+      current: {
+        operating: { typical: 0.1, max: 0.5, unit: 'mA' }
+      },
+      communication: [],
+      pins: [
+        { number: 1, name: 'LV', type: 'power', function: 'Low-voltage side supply', voltage: 3.3 },
+        { number: 2, name: 'GND', type: 'ground', function: 'Ground', voltage: 0 }
+      ],
+      dimensions: {
+        length: 15.2, width: 13.5, height: 10, unit: 'mm'
+      }
+    },
+    compatibility: {
+      boards: ['arduino-uno', 'esp32', 'raspberry-pi'],
+      voltageCompatible: ['3.3V', '5V'],
+      conflictingComponents: [],
+      requiredLibraries: [],
+      notes: ['Connect HV to the 5V rail and LV to 3.3V', 'Channels LV1-LV4 map to HV1-HV4']
+    },
+    price: 3.95,
+    availability: 'in-stock',
+    tags: ['interface', 'level-shifter', 'i2c', 'bidirectional']
+  },
+  {
+    name: 'Voltage Divider Resistor Pair (1kΩ / 2kΩ)',
+    manufacturer: 'Various',
+    category: 'passive',
+    description: 'Resistor pair that drops a 5V output signal to 3.3V for a single input pin',
+    specifications: {
+      voltage: {
+        operating: { min: 0, max: 12, unit: 'V' }
+      },
+      current: {
+        operating: { typical: 1.7, max: 1.7, unit: 'mA' }
+      },
+      communication: [],
+      pins: [
+        { number: 1, name: 'GND', type: 'ground', function: 'Bottom of the 2kΩ resistor', voltage: 0 }
+      ]
+    },
+    compatibility: {
+      boards: ['arduino-uno', 'esp32', 'raspberry-pi'],
+      voltageCompatible: ['3.3V', '5V'],
+      conflictingComponents: [],
+      requiredLibraries: [],
+      notes: ['One-way only: fine for echo and TX lines, not for I2C', 'Not suitable above a few hundred kHz']
+    },
+    price: 0.10,
+    availability: 'in-stock',
+    tags: ['passive', 'resistor', 'voltage-divider']
+  },
+  {
+    name: 'IRLZ44N Logic-Level MOSFET Driver Module',
+    manufacturer: 'Various',
+    category: 'driver',
+    description: 'Low-side N-channel MOSFET switch for motors, LED strips and other DC loads up to 5A, PWM capable',
+    specifications: {
+      voltage: {
+        operating: { min: 3.3, max: 5.5, unit: 'V' }
+      },
+      current: {
+        operating: { typical: 0.5, max: 1, unit: 'mA' }
+      },
+      communication: [],
+      pins: [
+        { number: 1, name: 'GND', type: 'ground', function: 'Ground shared with the load supply', voltage: 0 }
+      ],
+      dimensions: {
+        length: 34, width: 20, height: 15, unit: 'mm'
+      }
+    },
+    compatibility: {
+      boards: ['arduino-uno', 'esp32', 'raspberry-pi'],
+      voltageCompatible: ['3.3V', '5V'],
+      conflictingComponents: [],
+      requiredLibraries: [],
+      notes: ['Drive SIG from the pin that controlled the load', 'Add a flyback diode for inductive loads']
+    },
+    price: 2.95,
+    availability: 'in-stock',
+    tags: ['driver', 'mosfet-driver', 'pwm', 'switch']
+  },
+  {
+    name: '1-Channel Relay Module (3.3V/5V trigger)',
+    manufacturer: 'Various',
+    category: 'driver',
+    description: 'Opto-isolated 10A relay module with a transistor driver, triggered from a GPIO pin',
+    specifications: {
+      voltage: {
+        operating: { min: 3.3, max: 5.0, unit: 'V' }
+      },
+      current: {
+        operating: { typical: 2, max: 5, unit: 'mA' }
+      },
+      communication: [],
+      pins: [
+        { number: 1, name: 'GND', type: 'ground', function: 'Ground', voltage: 0 }
+      ],
+      dimensions: {
+        length: 50, width: 26, height: 19, unit: 'mm'
+      }
+    },
+    compatibility: {
+      boards: ['arduino-uno', 'esp32', 'raspberry-pi'],
+      voltageCompatible: ['3.3V', '5V'],
+      conflictingComponents: [],
+      requiredLibraries: [],
+      notes: ['Current is the trigger input; the coil draws about 70mA from its own VCC', 'On/off switching only, no PWM']
+    },
+    price: 1.95,
+    availability: 'in-stock',
+    tags: ['driver', 'relay', 'switch']
   }
 ];
 
@@ -274,6 +449,55 @@ const sampleProjects = [
   }
 ];
 
+// Arduino sketch templates; see CodegenService for the placeholders
+const sampleSketchTemplates = [
+  {
+    category: 'sensor',
+    namePattern: 'DHT22',
+    includes: ['DHT.h'],
+    globals: 'DHT {{var}}({{pin:DATA}}, DHT22);',
+    setup: '{{var}}.begin();',
+    loop: [
+      'float {{var}}Temperature = {{var}}.readTemperature();',
+      'float {{var}}Humidity = {{var}}.readHumidity();',
+      'if (isnan({{var}}Temperature) || isnan({{var}}Humidity)) {',
+      '  Serial.println(F("{{label}}: read failed"));',
+      '} else {',
+      '  Serial.print(F("{{label}}: "));',
+      '  Serial.print({{var}}Temperature);',
+      '  Serial.print(F(" C, "));',
+      '  Serial.print({{var}}Humidity);',
+      '  Serial.println(F(" %RH"));',
+      '}'
+    ].join('\n')
+  },
+  {
+    category: 'sensor',
+    namePattern: 'HC-SR04|ultrasonic',
+    includes: ['NewPing.h'],
+    globals: 'NewPing {{var}}({{pin:TRIG}}, {{pin:ECHO}}, 400);',
+    setup: '',
+    loop: [
+      'Serial.print(F("{{label}} distance: "));',
+      'Serial.print({{var}}.ping_cm());',
+      'Serial.println(F(" cm"));'
+    ].join('\n')
+  },
+  {
+    category: 'actuator',
+    namePattern: 'servo',
+    includes: ['Servo.h'],
+    globals: 'Servo {{var}};\nint {{var}}Angle = 0;',
+    setup: '{{var}}.attach({{pin:SIGNAL}});',
+    loop: [
+      '{{var}}Angle = {{var}}Angle == 0 ? 180 : 0;',
+      '{{var}}.write({{var}}Angle);',
+      'Serial.print(F("{{label}} angle: "));',
+      'Serial.println({{var}}Angle);'
+    ].join('\n')
+  }
+];
+
 export async function seedDatabase(): Promise<void> {
   try {
     logger.info('Starting database seeding...');
@@ -283,6 +507,7 @@ export async function seedDatabase(): Promise<void> {
     await query('DELETE FROM projects');
     await query('DELETE FROM components');
     await query('DELETE FROM boards');
+    await query('DELETE FROM sketch_templates');
 
     logger.info('Cleared existing data');
 
@@ -350,6 +575,23 @@ export async function seedDatabase(): Promise<void> {
 
     logger.info(`Inserted ${sampleProjects.length} projects`);
 
+    // Insert sketch templates
+    for (const template of sampleSketchTemplates) {
+      await query(`
+        INSERT INTO sketch_templates (category, name_pattern, includes, globals, setup, loop)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `, [
+        template.category,
+        template.namePattern,
+        template.includes,
+        template.globals,
+        template.setup,
+        template.loop
+      ]);
+    }
+
+    logger.info(`Inserted ${sampleSketchTemplates.length} sketch templates`);
+
     // Create some compatibility cache entries
     const boardsResult = await query('SELECT id, name FROM boards');
     const componentsResult = await query('SELECT id, name FROM components');
@@ -4,8 +4,12 @@ import { logger } from './utils/logger';
 import { setupMiddleware, errorHandler, notFoundHandler } from './middleware';
 import { initializeConnections, closeConnections } from './database/connection';
 import apiRoutes from './routes';
+import { ScrapingQueueWorker } from './scraping/queue-worker';
+import { SessionRetentionJob } from './services/sessions';
 
 const app = express();
+const scrapingQueueWorker = new ScrapingQueueWorker();
+const sessionRetentionJob = new SessionRetentionJob();
 
 // Setup middleware
 setupMiddleware(app);
@@ -22,6 +26,14 @@ async function startServer(): Promise<void> {
     // Initialize database connections
     await initializeConnections();
 
+    // Start draining the scraping queue
+    if (config.scraping.workerEnabled && !config.scraping.offline) {
+      await scrapingQueueWorker.start();
+    }
+
+    // Delete chat sessions past the retention period
+    sessionRetentionJob.start();
+
     // Start server
     const server = app.listen(config.port, () => {
       logger.info(`ProtoBuddy backend server started`, {
@@ -40,6 +52,8 @@ async function startServer(): Promise<void> {
       logger.info('SIGTERM received, shutting down gracefully');
 
       server.close(async () => {
+        sessionRetentionJob.stop();
+        await scrapingQueueWorker.stop();
         await closeConnections();
         process.exit(0);
       });
@@ -49,6 +63,8 @@ async function startServer(): Promise<void> {
       logger.info('SIGINT received, shutting down gracefully');
 
       server.close(async () => {
+        sessionRetentionJob.stop();
+        await scrapingQueueWorker.stop();
         await closeConnections();
         process.exit(0);
       });
@@ -2,11 +2,12 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
+import Joi from 'joi';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
 import { redis } from '../database/connection';
 import { config } from '../config';
 import { logger, requestLogger, logError } from '../utils/logger';
-import { ApiResponse } from '../types';
+import { ApiResponse, FieldError } from '../types';
 
 // CORS configuration
 export const corsMiddleware = cors({
@@ -96,16 +97,25 @@ export const rateLimitMiddleware = async (
   }
 };
 
+// Flattens Joi details into per-field errors, e.g. { field: 'specifications.voltage.operating.max', ... }
+export const toFieldErrors = (error: Joi.ValidationError): FieldError[] =>
+  error.details.map(detail => ({
+    field: detail.path.join('.'),
+    message: detail.message,
+    type: detail.type,
+  }));
+
 // Request validation middleware
 export const validateRequest = (schema: any) => {
   return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    const { error } = schema.validate(req.body);
+    const { error } = schema.validate(req.body, { abortEarly: false });
 
     if (error) {
       const response: ApiResponse = {
         success: false,
         error: 'Validation error',
         message: error.details.map((detail: any) => detail.message).join(', '),
+        errors: toFieldErrors(error),
         timestamp: new Date(),
       };
 
@@ -122,6 +132,34 @@ export const validateRequest = (schema: any) => {
   };
 };
 
+// Guards admin-only write endpoints. Without ADMIN_API_KEY they stay open in development only.
+export const requireAdmin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const { apiKey } = config.admin;
+
+  if (!apiKey && config.env !== 'production') {
+    return next();
+  }
+
+  if (apiKey && req.get('Authorization') === `Bearer ${apiKey}`) {
+    return next();
+  }
+
+  logger.warn('Admin request rejected', {
+    path: req.path,
+    method: req.method,
+    ip: req.ip,
+  });
+
+  const response: ApiResponse = {
+    success: false,
+    error: 'Unauthorized',
+    message: 'Admin API key required',
+    timestamp: new Date(),
+  };
+
+  return res.status(401).json(response);
+};
+
 // Error handling middleware
 export const errorHandler = (
   error: any,
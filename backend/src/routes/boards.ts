@@ -0,0 +1,405 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest, requireAdmin } from '../middleware';
+import { BoardService, BoardFilters } from '../services/boards';
+import { BoardComparisonService } from '../services/comparison';
+import { logger } from '../utils/logger';
+import { ApiResponse, BoardComparison } from '../types';
+
+const router = Router();
+const boardService = new BoardService();
+const comparisonService = new BoardComparisonService();
+
+// Validation schemas
+const protocolSchema = Joi.object({
+  type: Joi.string().valid('I2C', 'SPI', 'UART', 'PWM', 'GPIO', 'ADC', 'OneWire', 'CAN').required(),
+  details: Joi.object({
+    address: Joi.string().optional(),
+    speed: Joi.string().optional(),
+    pins: Joi.array().items(Joi.string()).optional(),
+    notes: Joi.string().optional(),
+  }).required(),
+});
+
+const pinSchema = Joi.object({
+  number: Joi.number().integer().min(0).required(),
+  digitalPin: Joi.number().integer().min(0).optional(),
+  analogPin: Joi.number().integer().min(0).optional(),
+  name: Joi.string().required().max(50),
+  functions: Joi.array().items(Joi.string().max(50)).required(),
+  voltage: Joi.number().min(0).max(50).required(),
+  currentMax: Joi.number().min(0).required(),
+  notes: Joi.string().optional().max(500),
+});
+
+const specificationsSchema = Joi.object({
+  processor: Joi.string().required().max(100),
+  architecture: Joi.string().max(50).optional(),
+  clockSpeed: Joi.string().required().max(50),
+  memory: Joi.object({
+    flash: Joi.string().required(),
+    sram: Joi.string().required(),
+    eeprom: Joi.string().optional(),
+  }).required(),
+  voltage: Joi.object({
+    operating: Joi.number().min(0).max(50).required(),
+    io: Joi.number().min(0).max(50).required(),
+  }).required(),
+  current: Joi.object({
+    input: Joi.object({
+      max: Joi.number().min(0).required(),
+      unit: Joi.string().required(),
+    }).required(),
+    output: Joi.object({
+      perPin: Joi.number().min(0).required(),
+      total: Joi.number().min(0).required(),
+      unit: Joi.string().required(),
+    }).required(),
+    consumption: Joi.object({
+      typical: Joi.number().min(0).required(),
+      peak: Joi.number().min(0).required(),
+      unit: Joi.string().required(),
+    }).optional(),
+  }).required(),
+  dimensions: Joi.object({
+    length: Joi.number().positive().required(),
+    width: Joi.number().positive().required(),
+    height: Joi.number().positive().required(),
+    unit: Joi.string().valid('mm', 'cm', 'in').required(),
+  }).optional(),
+  mountingHoles: Joi.array().items(Joi.object({
+    x: Joi.number().min(0).required(),
+    y: Joi.number().min(0).required(),
+    diameter: Joi.number().positive().required(),
+  })).max(20).optional(),
+  headers: Joi.array().items(Joi.object({
+    name: Joi.string().max(100).required(),
+    pins: Joi.number().integer().min(1).max(200).required(),
+    rows: Joi.number().integer().min(1).max(4).required(),
+    pitch: Joi.number().positive().required(),
+    gender: Joi.string().valid('male', 'female').required(),
+    x: Joi.number().min(0).required(),
+    y: Joi.number().min(0).required(),
+  })).max(20).optional(),
+});
+
+const boardFields = {
+  name: Joi.string().max(255),
+  manufacturer: Joi.string().max(255),
+  type: Joi.string().valid('microcontroller', 'sbc', 'dev-board'),
+  specifications: specificationsSchema,
+  supportedProtocols: Joi.array().items(protocolSchema),
+  pins: Joi.array().items(pinSchema).max(200),
+  compatibility: Joi.array().items(Joi.string().max(255)),
+};
+
+const createBoardSchema = Joi.object(boardFields).fork(
+  ['name', 'manufacturer', 'type', 'specifications', 'supportedProtocols', 'pins'],
+  field => field.required()
+);
+
+const updateBoardSchema = Joi.object(boardFields).min(1);
+
+const listQuerySchema = Joi.object({
+  type: Joi.string().valid('microcontroller', 'sbc', 'dev-board').optional(),
+  manufacturer: Joi.string().max(100).optional(),
+  ioVoltage: Joi.number().min(0).max(50).optional(),
+  protocol: Joi.string().max(20).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const compareQuerySchema = Joi.object({
+  ids: Joi.array().items(Joi.string().max(255)).min(2).max(5).required(),
+  components: Joi.array().items(Joi.string().max(255)).max(20).default([]),
+});
+
+// Query lists arrive comma-separated, e.g. ?ids=arduino-uno,esp32
+const splitList = (value: unknown) =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+
+// GET /api/boards - List boards with optional filters
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await boardService.listBoards(value as BoardFilters);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('List boards error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to list boards',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/boards/compare - Side-by-side specs for 2-5 boards, scored against optional components
+router.get('/compare', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = compareQuerySchema.validate(
+      { ids: splitList(req.query.ids), components: splitList(req.query.components) },
+      { convert: true }
+    );
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const comparison = await comparisonService.compareBoards(value.ids, value.components);
+
+    const response: ApiResponse<BoardComparison> = {
+      success: true,
+      data: comparison,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Compare boards error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to compare boards',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/boards/:id - Get board by ID or name
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const board = await boardService.getBoard(id);
+
+    if (!board) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Board not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof board> = {
+      success: true,
+      data: board,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get board error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to get board',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/boards/:id/pins - Get the board pinout, optionally filtered by function (e.g. ?function=PWM)
+router.get('/:id/pins', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+    const pinFunction = req.query.function as string | undefined;
+
+    const pins = await boardService.getBoardPins(id, pinFunction);
+
+    if (!pins) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Board not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof pins> = {
+      success: true,
+      data: pins,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get board pins error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to get board pins',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/boards - Add a board (admin)
+router.post('/', requireAdmin, validateRequest(createBoardSchema), async (req: Request, res: Response) => {
+  try {
+    const board = await boardService.addBoard(req.body);
+
+    const response: ApiResponse<typeof board> = {
+      success: true,
+      data: board,
+      message: 'Board created',
+      timestamp: new Date(),
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    logger.error('Create board error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to create board',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// PUT /api/boards/:id - Update a board (admin)
+router.put('/:id', requireAdmin, validateRequest(updateBoardSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const board = await boardService.updateBoard(id, req.body);
+
+    if (!board) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Board not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof board> = {
+      success: true,
+      data: board,
+      message: 'Board updated',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Update board error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to update board',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/boards/:id - Delete a board (admin)
+router.delete('/:id', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = await boardService.deleteBoard(id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Board not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Board deleted',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Delete board error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BoardError',
+      message: 'Failed to delete board',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { BomService } from '../services/bom';
+import { logger } from '../utils/logger';
+import { ApiResponse, PartsBom, SystemComponentInput } from '../types';
+
+const router = Router();
+const bomService = new BomService();
+
+// Validation schemas
+const bomSchema = Joi.object({
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(1000).optional(),
+  })).min(1).max(200).required(),
+  format: Joi.string().valid('json', 'csv', 'kicad').optional(),
+});
+
+// POST /api/bom - Bill of materials for an explicit list of parts (format: csv|json|kicad to download)
+router.post('/', validateRequest(bomSchema), async (req: Request, res: Response) => {
+  try {
+    const { components, format } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+    }));
+
+    const bom = await bomService.buildBom(items);
+
+    if (format) {
+      const file = bomService.exportBom(bom, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+      return;
+    }
+
+    const response: ApiResponse<PartsBom> = {
+      success: true,
+      data: bom,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('BOM error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'BomError',
+      message: 'Failed to build bill of materials',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -1,19 +1,26 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
-import { validateRequest } from '../middleware';
-import { ClaudeService } from '../services/claude';
+import { validateRequest, requireAdmin } from '../middleware';
+import { ClaudeService, IntentAnalysis } from '../services/claude';
+import { AgentService } from '../services/agent';
+import { ChatSessionService } from '../services/sessions';
+import { BomService } from '../services/bom';
 import { ComponentService } from '../services/components';
 import { CompatibilityService } from '../services/compatibility';
-import { cache } from '../database/connection';
-import { cacheKeys } from '../config';
+import { BoardComparisonService } from '../services/comparison';
+import { config } from '../config';
 import { logger, logUserInteraction } from '../utils/logger';
-import { ApiResponse, ChatMessage } from '../types';
+import { AgentStep, ApiResponse, BoardComparison, ChatMessage, ChatSession, ChatStreamEvent, CompatibilityCheck, PartsBom, Recommendation } from '../types';
 
 const router = Router();
 const claudeService = new ClaudeService();
+const sessionService = new ChatSessionService();
+const agentService = new AgentService();
 const componentService = new ComponentService();
 const compatibilityService = new CompatibilityService();
+const comparisonService = new BoardComparisonService();
+const bomService = new BomService(sessionService);
 
 // Validation schemas
 const chatMessageSchema = Joi.object({
@@ -26,166 +33,315 @@ const chatMessageSchema = Joi.object({
   }).optional(),
 });
 
-// POST /api/chat - Main chat endpoint
-router.post('/', validateRequest(chatMessageSchema), async (req: Request, res: Response) => {
+interface ChatTurn {
+  sessionId: string;
+  sessionData: ChatSession;
+  userMessage: ChatMessage;
+  // Recent history (from the hot cache) ending with the user's message
+  messages: ChatMessage[];
+}
+
+// Everything the reply is generated from, gathered once per turn for both endpoints
+interface IntentData {
+  recommendations: Recommendation[];
+  compatibilityCheck: CompatibilityCheck | null;
+  comparison: BoardComparison | null;
+  projectComponents: Array<Record<string, unknown>>;
+  helpText?: string;
+  steps: AgentStep[];
+  toolCallsUsed: number;
+}
+
+// Answers with the tool-calling agent; null means the turn should use the intent switch instead
+async function runAgent(
+  turn: ChatTurn,
+  intent: IntentAnalysis,
+  message: string,
+  onStep?: (step: AgentStep) => void
+): Promise<{ data: IntentData; content: string } | null> {
+  const toolBudget = config.agent.sessionToolBudget - turn.sessionData.toolCallsUsed;
+
+  if (!config.agent.enabled || toolBudget <= 0) {
+    return null;
+  }
+
   try {
-    const { message, sessionId: providedSessionId, context } = req.body;
-    const sessionId = providedSessionId || uuidv4();
+    const result = await agentService.run({
+      message,
+      history: turn.messages.slice(0, -1),
+      intent,
+      toolBudget,
+      ...(onStep ? { onStep } : {}),
+    });
+
+    return {
+      content: result.content,
+      data: {
+        recommendations: result.recommendations,
+        compatibilityCheck: result.compatibility,
+        comparison: result.comparison,
+        projectComponents: [],
+        steps: result.steps,
+        toolCallsUsed: result.toolCallsUsed,
+      },
+    };
+  } catch (error) {
+    logger.warn('Chat agent failed, falling back to intent handling', { sessionId: turn.sessionId, error });
+    return null;
+  }
+}
+
+// Loads (or starts) the session and appends the user's message to its history
+async function startTurn(sessionId: string, message: string): Promise<ChatTurn> {
+  logUserInteraction(sessionId, 'chat_message', { message: message.substring(0, 100) });
+
+  let sessionData: ChatSession | null = null;
+
+  try {
+    sessionData = await sessionService.loadSession(sessionId);
+  } catch (error) {
+    logger.warn('Failed to load session data', { sessionId, error });
+  }
+
+  sessionData = sessionData || { sessionId, title: null, messages: [], context: {}, toolCallsUsed: 0 };
+
+  const userMessage: ChatMessage = {
+    id: uuidv4(),
+    content: message,
+    sender: 'user',
+    timestamp: new Date(),
+  };
+
+  return { sessionId, sessionData, userMessage, messages: [...sessionData.messages, userMessage] };
+}
+
+async function gatherIntentData(intent: IntentAnalysis): Promise<IntentData> {
+  const data: IntentData = {
+    recommendations: [],
+    compatibilityCheck: null,
+    comparison: null,
+    projectComponents: [],
+    steps: [],
+    toolCallsUsed: 0,
+  };
+
+  switch (intent.type) {
+    case 'component_search': {
+      const searchResults = await componentService.searchComponents(
+        intent.parameters.query,
+        intent.parameters.filters
+      );
+
+      data.recommendations = await Promise.all(
+        searchResults.slice(0, 5).map(async (component) => {
+          const check = await compatibilityService.checkCompatibility(
+            intent.parameters.board || 'arduino-uno',
+            component.id
+          ).catch((error) => {
+            logger.warn('Failed to check recommendation compatibility:', error);
+            return null;
+          });
+
+          const recommendation: Recommendation = {
+            component,
+            score: check?.score ?? 0,
+            reason: `Compatible ${component.category} with ${component.specifications?.communication?.length || 0} communication protocols`,
+            alternatives: [],
+          };
+          if (check?.wiringInfo) {
+            recommendation.wiringInfo = check.wiringInfo;
+          }
+          return recommendation;
+        })
+      );
+      break;
+    }
 
-    logUserInteraction(sessionId, 'chat_message', { message: message.substring(0, 100) });
+    case 'compatibility_check':
+      if (intent.parameters.board && intent.parameters.component) {
+        data.compatibilityCheck = await compatibilityService.checkCompatibility(
+          intent.parameters.board,
+          intent.parameters.component
+        );
+      } else {
+        data.helpText = 'I need more information about the board and component you want to check for compatibility. Could you specify both?';
+      }
+      break;
 
-    // Get or create session
-    const sessionKey = cacheKeys.session(sessionId);
-    let sessionData: any = {};
+    case 'comparison': {
+      const boards: string[] = intent.parameters.boards || [];
+      if (boards.length < 2) {
+        data.helpText = 'Which boards would you like to compare? Name at least two, for example "Arduino Uno vs ESP32".';
+        break;
+      }
 
-    try {
-      const cachedSession = await cache.get(sessionKey);
-      if (cachedSession) {
-        sessionData = JSON.parse(cachedSession);
+      try {
+        data.comparison = await comparisonService.compareBoards(boards.slice(0, 5));
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'NotFoundError')) {
+          throw error;
+        }
+        data.helpText = `${error.message}. Could you check the board names? Try the full name, e.g. "Arduino Uno R3".`;
       }
-    } catch (error) {
-      logger.warn('Failed to load session data', { sessionId, error });
+      break;
     }
 
-    // Build conversation history
-    const messages: ChatMessage[] = sessionData.messages || [];
-    const userMessage: ChatMessage = {
-      id: uuidv4(),
-      content: message,
-      sender: 'user',
-      timestamp: new Date(),
-    };
+    case 'project_help':
+      data.projectComponents = await componentService.getProjectRecommendations(
+        intent.parameters.projectType,
+        intent.parameters.difficulty
+      );
+      break;
+  }
 
-    messages.push(userMessage);
+  return data;
+}
+
+async function generateReply(
+  turn: ChatTurn,
+  intent: IntentAnalysis,
+  data: IntentData,
+  message: string,
+  context?: Record<string, unknown>
+): Promise<ChatMessage> {
+  if (data.helpText) {
+    return claudeService.generateHelpResponse(message, data.helpText);
+  }
 
-    // Analyze user intent and gather context
-    const intent = await claudeService.analyzeIntent(message, context);
-    logger.info('User intent analyzed', { sessionId, intent: intent.type });
+  switch (intent.type) {
+    case 'component_search':
+      return claudeService.generateComponentRecommendations(message, data.recommendations, intent.parameters);
 
-    let assistantResponse: ChatMessage;
-    let recommendations: any[] = [];
-    let compatibilityCheck: any = null;
-
-    // Handle different types of requests
-    switch (intent.type) {
-      case 'component_search':
-        const searchResults = await componentService.searchComponents(
-          intent.parameters.query,
-          intent.parameters.filters
-        );
+    case 'compatibility_check':
+      return claudeService.generateCompatibilityResponse(message, data.compatibilityCheck as CompatibilityCheck, intent.parameters);
 
-        recommendations = await Promise.all(
-          searchResults.slice(0, 5).map(async (component) => {
-            const score = await compatibilityService.calculateCompatibilityScore(
-              intent.parameters.board || 'arduino-uno',
-              component.id
-            );
-            return {
-              component,
-              score,
-              reason: `Compatible ${component.category} with ${component.specifications?.communication?.length || 0} communication protocols`,
-            };
-          })
-        );
+    case 'comparison':
+      return claudeService.generateComparisonResponse(message, data.comparison as BoardComparison, intent.parameters);
 
-        assistantResponse = await claudeService.generateComponentRecommendations(
-          message,
-          recommendations,
-          intent.parameters
-        );
-        break;
+    case 'project_help':
+      return claudeService.generateProjectResponse(message, data.projectComponents, intent.parameters);
 
-      case 'compatibility_check':
-        if (intent.parameters.board && intent.parameters.component) {
-          compatibilityCheck = await compatibilityService.checkCompatibility(
-            intent.parameters.board,
-            intent.parameters.component
-          );
-
-          assistantResponse = await claudeService.generateCompatibilityResponse(
-            message,
-            compatibilityCheck,
-            intent.parameters
-          );
-        } else {
-          assistantResponse = await claudeService.generateHelpResponse(
-            message,
-            'I need more information about the board and component you want to check for compatibility. Could you specify both?'
-          );
-        }
-        break;
+    case 'troubleshooting':
+      return claudeService.generateTroubleshootingResponse(message, intent.parameters, turn.sessionData.context);
 
-      case 'project_help':
-        const projectComponents = await componentService.getProjectRecommendations(
-          intent.parameters.projectType,
-          intent.parameters.difficulty
-        );
+    default:
+      // General conversation, with the last 5 messages for context
+      return claudeService.generateGeneralResponse(message, turn.messages.slice(-5), context);
+  }
+}
+
+function streamReply(
+  turn: ChatTurn,
+  intent: IntentAnalysis,
+  data: IntentData,
+  message: string,
+  context?: Record<string, unknown>
+): AsyncGenerator<string> {
+  if (data.helpText) {
+    return claudeService.streamHelpResponse(data.helpText);
+  }
 
-        assistantResponse = await claudeService.generateProjectResponse(
-          message,
-          projectComponents,
-          intent.parameters
-        );
-        break;
+  switch (intent.type) {
+    case 'component_search':
+      return claudeService.streamComponentRecommendations(message, data.recommendations, intent.parameters);
 
-      case 'troubleshooting':
-        assistantResponse = await claudeService.generateTroubleshootingResponse(
-          message,
-          intent.parameters,
-          sessionData.context
-        );
-        break;
+    case 'compatibility_check':
+      return claudeService.streamCompatibilityResponse(message, data.compatibilityCheck as CompatibilityCheck, intent.parameters);
 
-      default:
-        // General conversation
-        assistantResponse = await claudeService.generateGeneralResponse(
-          message,
-          messages.slice(-5), // Last 5 messages for context
-          context
-        );
-    }
+    case 'comparison':
+      return claudeService.streamComparisonResponse(message, data.comparison as BoardComparison, intent.parameters);
 
-    // Add context to response
-    assistantResponse.context = {
-      recommendations,
-      compatibility: compatibilityCheck,
-    };
+    case 'project_help':
+      return claudeService.streamProjectResponse(message, data.projectComponents, intent.parameters);
 
-    messages.push(assistantResponse);
+    case 'troubleshooting':
+      return claudeService.streamTroubleshootingResponse(message, intent.parameters, turn.sessionData.context);
 
-    // Update session
-    sessionData = {
-      sessionId,
-      messages: messages.slice(-20), // Keep last 20 messages
-      context: { ...sessionData.context, ...context },
-      lastActive: new Date(),
-    };
+    default:
+      return claudeService.streamGeneralResponse(message, turn.messages.slice(-5), context);
+  }
+}
+
+// Attaches the gathered context to the reply and saves the session
+async function finishTurn(
+  turn: ChatTurn,
+  intent: IntentAnalysis,
+  data: IntentData,
+  assistantResponse: ChatMessage,
+  context?: Record<string, unknown>
+): Promise<void> {
+  assistantResponse.context = { recommendations: data.recommendations };
+  if (data.compatibilityCheck) {
+    assistantResponse.context.compatibility = data.compatibilityCheck;
+  }
+  if (data.comparison) {
+    assistantResponse.context.comparison = data.comparison;
+  }
+  if (data.steps.length > 0) {
+    assistantResponse.context.steps = data.steps;
+  }
+
+  turn.messages.push(assistantResponse);
+
+  await sessionService.saveTurn({
+    ...turn.sessionData,
+    messages: turn.messages,
+    context: { ...turn.sessionData.context, ...context },
+    toolCallsUsed: turn.sessionData.toolCallsUsed + data.toolCallsUsed,
+  }, [turn.userMessage, assistantResponse]);
+
+  logUserInteraction(turn.sessionId, 'response_generated', {
+    intent: intent.type,
+    recommendationCount: data.recommendations.length,
+    hasCompatibilityCheck: !!data.compatibilityCheck,
+    hasComparison: !!data.comparison,
+    agentSteps: data.steps.length,
+  });
+}
+
+// POST /api/chat - Main chat endpoint
+router.post('/', validateRequest(chatMessageSchema), async (req: Request, res: Response) => {
+  try {
+    const { message, sessionId: providedSessionId, context } = req.body;
+    const turn = await startTurn(providedSessionId || uuidv4(), message);
+
+    // Analyze user intent and gather context
+    const intent = await claudeService.analyzeIntent(message, context);
+    logger.info('User intent analyzed', { sessionId: turn.sessionId, intent: intent.type });
+
+    let data: IntentData;
+    let assistantResponse: ChatMessage;
 
-    // Cache session data
-    try {
-      await cache.set(sessionKey, JSON.stringify(sessionData), 3600); // 1 hour TTL
-    } catch (error) {
-      logger.warn('Failed to cache session data', { sessionId, error });
+    const agent = await runAgent(turn, intent, message);
+    if (agent) {
+      data = agent.data;
+      assistantResponse = {
+        id: `msg-${Date.now()}`,
+        content: agent.content,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+    } else {
+      data = await gatherIntentData(intent);
+      assistantResponse = await generateReply(turn, intent, data, message, context);
     }
 
-    logUserInteraction(sessionId, 'response_generated', {
-      intent: intent.type,
-      recommendationCount: recommendations.length,
-      hasCompatibilityCheck: !!compatibilityCheck,
-    });
+    await finishTurn(turn, intent, data, assistantResponse, context);
 
     const response: ApiResponse<{
       message: ChatMessage;
       sessionId: string;
-      recommendations?: any[];
-      compatibility?: any;
+      recommendations?: Recommendation[] | undefined;
+      compatibility?: CompatibilityCheck | undefined;
+      comparison?: BoardComparison | undefined;
     }> = {
       success: true,
       data: {
         message: assistantResponse,
-        sessionId,
-        recommendations: recommendations.length > 0 ? recommendations : undefined,
-        compatibility: compatibilityCheck || undefined,
+        sessionId: turn.sessionId,
+        recommendations: data.recommendations.length > 0 ? data.recommendations : undefined,
+        compatibility: data.compatibilityCheck || undefined,
+        comparison: data.comparison || undefined,
       },
       timestamp: new Date(),
     };
@@ -206,29 +362,148 @@ router.post('/', validateRequest(chatMessageSchema), async (req: Request, res: R
   }
 });
 
-// GET /api/chat/sessions/:sessionId - Get session history
-router.get('/sessions/:sessionId', async (req: Request, res: Response) => {
+// POST /api/chat/stream - Same as POST /api/chat, streamed as Server-Sent Events
+router.post('/stream', validateRequest(chatMessageSchema), async (req: Request, res: Response) => {
+  // req 'close' fires once the body has been read, so watch the response for client disconnects
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const send = (event: ChatStreamEvent) => {
+    if (closed) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    // compression buffers the body unless told to flush
+    (res as Response & { flush?: () => void }).flush?.();
+  };
+
+  try {
+    const { message, sessionId: providedSessionId, context } = req.body;
+    const turn = await startTurn(providedSessionId || uuidv4(), message);
+
+    const intent = await claudeService.analyzeIntent(message, context);
+    logger.info('User intent analyzed', { sessionId: turn.sessionId, intent: intent.type });
+    send({ type: 'intent', sessionId: turn.sessionId, intent: intent.type, confidence: intent.confidence });
+
+    const agent = await runAgent(turn, intent, message, step => send({ type: 'step', step }));
+    const data = agent ? agent.data : await gatherIntentData(intent);
+
+    if (data.recommendations.length > 0) {
+      send({ type: 'recommendations', recommendations: data.recommendations });
+    }
+    if (data.compatibilityCheck) {
+      send({ type: 'compatibility', compatibility: data.compatibilityCheck });
+    }
+    if (data.comparison) {
+      send({ type: 'comparison', comparison: data.comparison });
+    }
+
+    let content = '';
+    if (agent) {
+      // The agent's answer arrives whole once its tool calls are done
+      content = agent.content;
+      send({ type: 'delta', text: content });
+    } else {
+      for await (const text of streamReply(turn, intent, data, message, context)) {
+        if (closed) break; // stops the generator, which aborts the Claude request
+        content += text;
+        send({ type: 'delta', text });
+      }
+    }
+
+    const assistantResponse: ChatMessage = {
+      id: `msg-${Date.now()}`,
+      content,
+      sender: 'assistant',
+      timestamp: new Date(),
+    };
+
+    // Partial replies from a disconnected client are still kept in the session history
+    await finishTurn(turn, intent, data, assistantResponse, context);
+    send({ type: 'done', sessionId: turn.sessionId, message: assistantResponse });
+
+  } catch (error) {
+    logger.error('Chat stream error', error);
+    send({ type: 'error', error: 'ChatError', message: 'Failed to process chat message' });
+  } finally {
+    res.end();
+  }
+});
+
+const listSessionsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+// GET /api/chat/sessions - List every user's sessions, most recently active first (admin only)
+router.get('/sessions', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSessionsQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await sessionService.listSessions(value.limit || 20, value.offset || 0);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('List sessions error', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'SessionError',
+      message: 'Failed to list sessions',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/chat/sessions/:sessionId - Get the full session history
+router.get('/sessions/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const sessionKey = cacheKeys.session(sessionId);
 
-    const cachedSession = await cache.get(sessionKey);
+    const session = await sessionService.getSession(sessionId);
 
-    if (!cachedSession) {
+    if (!session) {
       const response: ApiResponse = {
         success: false,
         error: 'SessionNotFound',
         message: 'Session not found',
         timestamp: new Date(),
       };
-      return res.status(404).json(response);
+      res.status(404).json(response);
+      return;
     }
 
-    const sessionData = JSON.parse(cachedSession);
-
-    const response: ApiResponse<any> = {
+    const response: ApiResponse<ChatSession> = {
       success: true,
-      data: sessionData,
+      data: session,
       timestamp: new Date(),
     };
 
@@ -248,13 +523,75 @@ router.get('/sessions/:sessionId', async (req: Request, res: Response) => {
   }
 });
 
-// DELETE /api/chat/sessions/:sessionId - Clear session
-router.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
+const bomQuerySchema = Joi.object({
+  format: Joi.string().valid('json', 'csv', 'kicad').optional(),
+});
+
+// GET /api/chat/sessions/:sessionId/bom - Bill of materials for the parts recommended in a session (?format=csv|json|kicad to download)
+router.get('/sessions/:sessionId/bom', async (req: Request<{ sessionId: string }>, res: Response) => {
+  try {
+    const { error, value } = bomQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const bom = await bomService.buildSessionBom(req.params.sessionId);
+
+    if (!bom) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'SessionNotFound',
+        message: 'Session not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (value.format) {
+      const file = bomService.exportBom(bom, value.format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+      return;
+    }
+
+    const response: ApiResponse<PartsBom> = {
+      success: true,
+      data: bom,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Session BOM error', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'SessionError',
+      message: 'Failed to build bill of materials',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/chat/sessions/:sessionId - Delete a session and its history
+router.delete('/sessions/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
   try {
     const { sessionId } = req.params;
-    const sessionKey = cacheKeys.session(sessionId);
 
-    await cache.del(sessionKey);
+    await sessionService.deleteSession(sessionId);
 
     logUserInteraction(sessionId, 'session_cleared');
 
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { CompatibilityService } from '../services/compatibility';
+import { WiringService } from '../services/wiring';
+import { CodegenService } from '../services/codegen';
+import { logger } from '../utils/logger';
+import { ApiResponse, Connection, GeneratedSketch, SystemComponentInput } from '../types';
+
+const router = Router();
+const compatibilityService = new CompatibilityService();
+const wiringService = new WiringService();
+const codegenService = new CodegenService();
+
+// Validation schemas
+const sketchSchema = Joi.object({
+  boardId: Joi.string().required().max(255),
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(100).optional(),
+  })).min(1).max(50).required(),
+  // Usually the connections from POST /api/wiring/plan; planned here when left out
+  connections: Joi.array().items(Joi.object({
+    fromComponent: Joi.string().required().max(255),
+    fromPin: Joi.string().required().max(100),
+    toComponent: Joi.string().required().max(255),
+    toPin: Joi.string().required().max(100),
+    wireType: Joi.string().max(50).optional(),
+    notes: Joi.string().max(500).optional(),
+  })).max(500).optional(),
+  refine: Joi.boolean().optional(),
+});
+
+// POST /api/codegen/sketch - Generate an Arduino sketch for a wired build
+router.post('/sketch', validateRequest(sketchSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, components, connections, refine } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+    }));
+
+    const { board, parts } = await compatibilityService.resolveBuild(boardId, items);
+
+    let wiring: Connection[] = connections;
+    const planWarnings: string[] = [];
+    if (!wiring) {
+      const plan = wiringService.planWiring(board, parts);
+      wiring = plan.connections;
+      planWarnings.push(...plan.unassigned.map(item => `${item.component} ${item.pin} was not assigned: ${item.reason}`));
+    }
+
+    const sketch = await codegenService.generateSketch(board, parts, wiring, { refine: refine === true });
+    sketch.warnings.unshift(...planWarnings);
+
+    const response: ApiResponse<GeneratedSketch> = {
+      success: true,
+      data: sketch,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Sketch generation error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'CodegenError',
+      message: 'Failed to generate sketch',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
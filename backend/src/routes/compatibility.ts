@@ -0,0 +1,95 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { CompatibilityService } from '../services/compatibility';
+import { PowerService, POWER_SUPPLIES } from '../services/power';
+import { PhysicalService, BREADBOARDS } from '../services/physical';
+import { logger } from '../utils/logger';
+import { ApiResponse, SystemComponentInput } from '../types';
+
+const router = Router();
+const compatibilityService = new CompatibilityService();
+const powerService = new PowerService();
+const physicalService = new PhysicalService();
+
+// Validation schemas
+const systemCheckSchema = Joi.object({
+  boardId: Joi.string().required().max(255),
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(100).optional(),
+    dutyCycle: Joi.number().min(0).max(1).optional(),
+  })).min(1).max(50).required(),
+  // A preset id from GET /api/power/supplies or a custom supply; USB power when omitted
+  supply: Joi.alternatives().try(
+    Joi.string().valid(...Object.keys(POWER_SUPPLIES)),
+    Joi.object({
+      name: Joi.string().max(100).default('Custom supply'),
+      voltage: Joi.number().positive().max(48).required(),
+      maxCurrent: Joi.number().positive().max(100000).required(),
+      capacity: Joi.number().positive().max(1000000).optional(),
+    })
+  ).optional(),
+  // How the parts are built up for the physical fit; a half-size breadboard when omitted
+  mounting: Joi.string().valid('breadboard', 'shield').optional(),
+  breadboard: Joi.string().valid(...Object.keys(BREADBOARDS)).optional(),
+  enclosure: Joi.object({
+    length: Joi.number().positive().max(2000).required(),
+    width: Joi.number().positive().max(2000).required(),
+    height: Joi.number().positive().max(2000).required(),
+    unit: Joi.string().valid('mm', 'cm', 'in').optional(),
+  }).optional(),
+});
+
+// POST /api/compatibility/system - Check a whole build (board + parts) for conflicts
+router.post('/system', validateRequest(systemCheckSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, components, supply, mounting, breadboard, enclosure } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number; dutyCycle?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+      dutyCycle: c.dutyCycle,
+    }));
+
+    const result = await compatibilityService.checkSystemCompatibility(
+      boardId,
+      items,
+      powerService.resolveSupply(supply),
+      physicalService.resolveOptions({ mounting, breadboard, enclosure })
+    );
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('System compatibility check error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'CompatibilityError',
+      message: 'Failed to check system compatibility',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -1,10 +1,10 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
-import { validateRequest } from '../middleware';
+import { validateRequest, requireAdmin, toFieldErrors } from '../middleware';
 import { ComponentService } from '../services/components';
 import { CompatibilityService } from '../services/compatibility';
 import { logger } from '../utils/logger';
-import { ApiResponse } from '../types';
+import { ApiResponse, FieldError } from '../types';
 
 const router = Router();
 const componentService = new ComponentService();
@@ -41,6 +41,96 @@ const advancedSearchSchema = Joi.object({
   offset: Joi.number().min(0).optional(),
 });
 
+const rangeSchema = (units: string[]) => Joi.object({
+  min: Joi.number().required(),
+  max: Joi.number().min(Joi.ref('min')).required(),
+  unit: Joi.string().valid(...units).required(),
+});
+
+const protocolSchema = Joi.object({
+  type: Joi.string().valid('I2C', 'SPI', 'UART', 'PWM', 'GPIO', 'ADC', 'OneWire', 'CAN').required(),
+  details: Joi.object({
+    address: Joi.string().max(100).optional(),
+    speed: Joi.string().max(100).optional(),
+    pins: Joi.array().items(Joi.string().max(50)).optional(),
+    notes: Joi.string().max(500).optional(),
+  }).unknown(true).required(), // protocol-specific extras such as PWM frequency
+});
+
+const pinConfigurationSchema = Joi.object({
+  number: Joi.number().integer().min(0).required(),
+  name: Joi.string().required().max(50),
+  type: Joi.string().valid('power', 'ground', 'digital', 'analog', 'communication', 'nc').required(),
+  function: Joi.string().required().max(200),
+  voltage: Joi.number().min(0).max(50).optional(),
+  notes: Joi.string().max(500).optional(),
+});
+
+const componentSpecSchema = Joi.object({
+  voltage: Joi.object({
+    operating: rangeSchema(['V', 'mV']).required(),
+    input: rangeSchema(['V', 'mV']).optional(),
+    output: rangeSchema(['V', 'mV']).optional(),
+  }).required(),
+  current: Joi.object({
+    operating: Joi.object({
+      typical: Joi.number().min(0).required(),
+      max: Joi.number().min(Joi.ref('typical')).required(),
+      unit: Joi.string().valid('A', 'mA', 'uA', 'µA').required(),
+    }).required(),
+    standby: Joi.object({
+      typical: Joi.number().min(0).required(),
+      unit: Joi.string().valid('A', 'mA', 'uA', 'µA').required(),
+    }).optional(),
+  }).required(),
+  communication: Joi.array().items(protocolSchema).required(),
+  pins: Joi.array().items(pinConfigurationSchema).max(200).required(),
+  dimensions: Joi.object({
+    length: Joi.number().min(0).required(),
+    width: Joi.number().min(0).required(),
+    height: Joi.number().min(0).required(),
+    unit: Joi.string().valid('mm', 'cm', 'in').required(),
+  }).optional(),
+  temperature: Joi.object({
+    operating: rangeSchema(['C', 'F']).required(),
+  }).optional(),
+  additional: Joi.object().unknown(true).optional(),
+});
+
+const compatibilityInfoSchema = Joi.object({
+  boards: Joi.array().items(Joi.string().max(255)).required(),
+  voltageCompatible: Joi.array().items(Joi.string().max(50)).required(),
+  conflictingComponents: Joi.array().items(Joi.string().max(255)).required(),
+  requiredLibraries: Joi.array().items(Joi.string().max(255)).required(),
+  notes: Joi.array().items(Joi.string().max(1000)).required(),
+});
+
+const componentFields = {
+  name: Joi.string().max(255),
+  manufacturer: Joi.string().max(255),
+  category: Joi.string().max(100),
+  description: Joi.string().allow('').max(5000),
+  specifications: componentSpecSchema,
+  compatibility: compatibilityInfoSchema,
+  datasheetUrl: Joi.string().uri().optional(),
+  imageUrl: Joi.string().uri().optional(),
+  price: Joi.number().min(0).optional(),
+  availability: Joi.string().max(50),
+  tags: Joi.array().items(Joi.string().max(100)).max(50),
+};
+
+export const createComponentSchema = Joi.object(componentFields).fork(
+  ['name', 'manufacturer', 'category', 'description', 'specifications', 'compatibility', 'availability', 'tags'],
+  field => field.required()
+);
+
+const updateComponentSchema = Joi.object(componentFields).min(1);
+
+// Rows are validated one by one in the handler so failures can be reported per row
+const bulkImportSchema = Joi.object({
+  components: Joi.array().items(Joi.object().unknown(true)).min(1).max(500).required(),
+});
+
 // GET /api/components/search - Basic component search
 router.get('/search', async (req: Request, res: Response) => {
   try {
@@ -326,4 +416,165 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/components - Add a component (admin)
+router.post('/', requireAdmin, validateRequest(createComponentSchema), async (req: Request, res: Response) => {
+  try {
+    const component = await componentService.addComponent(req.body);
+
+    const response: ApiResponse<typeof component> = {
+      success: true,
+      data: component,
+      message: 'Component created',
+      timestamp: new Date(),
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    logger.error('Create component error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ComponentError',
+      message: 'Failed to create component',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/components/bulk - Import many components, reporting failures per row (admin)
+router.post('/bulk', requireAdmin, validateRequest(bulkImportSchema), async (req: Request, res: Response) => {
+  try {
+    const rows: unknown[] = req.body.components;
+    const valid: Array<{ index: number; component: Parameters<ComponentService['addComponent']>[0] }> = [];
+    const failed: Array<{ index: number; name?: string | undefined; errors: FieldError[] }> = [];
+
+    rows.forEach((row, index) => {
+      const { error, value } = createComponentSchema.validate(row, { abortEarly: false });
+      if (error) {
+        failed.push({ index, name: (row as { name?: string }).name, errors: toFieldErrors(error) });
+      } else {
+        valid.push({ index, component: value });
+      }
+    });
+
+    const result = await componentService.importComponents(valid.map(v => v.component));
+
+    const created = result.created.map(row => ({ ...row, index: valid[row.index]?.index ?? row.index }));
+    for (const row of result.failed) {
+      failed.push({
+        index: valid[row.index]?.index ?? row.index,
+        name: row.name,
+        errors: [{ field: '', message: row.error, type: 'insert' }],
+      });
+    }
+    failed.sort((a, b) => a.index - b.index);
+
+    const data = { created, failed, total: rows.length };
+    const response: ApiResponse<typeof data> = {
+      success: created.length > 0,
+      data,
+      message: `Imported ${created.length} of ${rows.length} components`,
+      timestamp: new Date(),
+    };
+
+    res.status(created.length > 0 ? 200 : 400).json(response);
+
+  } catch (error) {
+    logger.error('Bulk component import error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ComponentError',
+      message: 'Failed to import components',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// PATCH /api/components/:id - Update a component (admin)
+router.patch('/:id', requireAdmin, validateRequest(updateComponentSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const component = await componentService.updateComponent(id, req.body);
+
+    if (!component) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Component not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof component> = {
+      success: true,
+      data: component,
+      message: 'Component updated',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Update component error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ComponentError',
+      message: 'Failed to update component',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/components/:id - Delete a component (admin)
+router.delete('/:id', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = await componentService.deleteComponent(id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Component not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Component deleted',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Delete component error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ComponentError',
+      message: 'Failed to delete component',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 export default router;
\ No newline at end of file
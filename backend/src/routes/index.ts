@@ -1,15 +1,39 @@
 import { Router } from 'express';
 import chatRoutes from './chat';
 import componentRoutes from './components';
+import boardRoutes from './boards';
+import projectRoutes from './projects';
 import scrapeRoutes from './scrape';
 import cacheRoutes from './cache';
+import compatibilityRoutes from './compatibility';
+import wiringRoutes from './wiring';
+import codegenRoutes from './codegen';
+import bomRoutes from './bom';
+import powerRoutes from './power';
+import physicalRoutes from './physical';
+import ruleRoutes from './rules';
+import libraryRoutes from './libraries';
+import reviewRoutes from './review';
+import ingestRoutes from './ingest';
 
 const router = Router();
 
 // API Routes
 router.use('/chat', chatRoutes);
 router.use('/components', componentRoutes);
+router.use('/boards', boardRoutes);
+router.use('/projects', projectRoutes);
 router.use('/scrape', scrapeRoutes);
 router.use('/cache', cacheRoutes);
+router.use('/compatibility/rules', ruleRoutes);
+router.use('/compatibility', compatibilityRoutes);
+router.use('/wiring', wiringRoutes);
+router.use('/codegen', codegenRoutes);
+router.use('/bom', bomRoutes);
+router.use('/power', powerRoutes);
+router.use('/physical', physicalRoutes);
+router.use('/libraries', libraryRoutes);
+router.use('/review', reviewRoutes);
+router.use('/ingest', ingestRoutes);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import multer from 'multer';
+import { requireAdmin } from '../middleware';
+import { LocalIngester } from '../scraping/local-ingest';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { ApiResponse, IngestedFile } from '../types';
+
+const router = Router();
+const ingester = new LocalIngester();
+
+// Files are kept in memory; the processors never need them on disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.ingest.maxFileBytes, files: config.ingest.maxFiles },
+});
+
+// Validation schemas
+const uploadSchema = Joi.object({
+  type: Joi.string().valid('datasheet', 'tutorial', 'product', 'documentation').optional(),
+});
+
+// Multer's own errors (too many files, too large) become 400s in the usual envelope
+const uploadFiles = (req: Request, res: Response, next: NextFunction) => {
+  upload.array('files')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.code === 'LIMIT_FILE_SIZE'
+          ? `Files must be under ${config.ingest.maxFileBytes} bytes`
+          : error.code === 'LIMIT_FILE_COUNT'
+            ? `At most ${config.ingest.maxFiles} files per upload`
+            : error.message,
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    next(error);
+  });
+};
+
+// POST /api/ingest/upload - Ingest uploaded PDFs, images and saved HTML pages (multipart "files", admin)
+router.post('/upload', requireAdmin, uploadFiles, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = uploadSchema.validate(req.body);
+    const files = Array.isArray(req.files) ? req.files : [];
+
+    if (error || files.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error ? error.details.map(detail => detail.message).join(', ') : 'Attach at least one file as "files"',
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const results = await ingester.ingestFiles(
+      files.map(file => ({ name: file.originalname, buffer: file.buffer, mimeType: file.mimetype })),
+      { source: 'upload', ...(value.type ? { type: value.type } : {}) }
+    );
+    const ingested = results.filter(result => result.status === 'ingested').length;
+
+    // Per-file outcomes are in data; skipped and failed files carry a message
+    const response: ApiResponse<IngestedFile[]> = {
+      success: true,
+      data: results,
+      message: `Ingested ${ingested} of ${results.length} files`,
+      timestamp: new Date(),
+    };
+
+    res.status(ingested > 0 ? 201 : 200).json(response);
+
+  } catch (error) {
+    logger.error('Ingest upload error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'IngestError',
+      message: 'Failed to ingest files',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { LibraryService } from '../services/libraries';
+import { logger } from '../utils/logger';
+import { ApiResponse, ArduinoLibrary } from '../types';
+
+const router = Router();
+const libraryService = new LibraryService();
+
+// Validation schemas
+const searchQuerySchema = Joi.object({
+  q: Joi.string().allow('').max(100).default(''),
+  architecture: Joi.string().max(50).optional(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+});
+
+// GET /api/libraries/search - Search the imported Arduino library index by name or description
+router.get('/search', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = searchQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const { q, architecture, limit, offset } = value;
+    const { libraries, total } = await libraryService.searchLibraries(q, { architecture, limit, offset });
+
+    const response: ApiResponse<{ libraries: ArduinoLibrary[]; total: number; limit: number; offset: number }> = {
+      success: true,
+      data: { libraries, total, limit, offset },
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Library search error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'LibraryError',
+      message: 'Failed to search libraries',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { CompatibilityService } from '../services/compatibility';
+import { PhysicalService, BREADBOARDS } from '../services/physical';
+import { logger } from '../utils/logger';
+import { ApiResponse, Breadboard, PhysicalFit, SystemComponentInput } from '../types';
+
+const router = Router();
+const compatibilityService = new CompatibilityService();
+const physicalService = new PhysicalService();
+
+// Validation schemas
+const physicalFitSchema = Joi.object({
+  boardId: Joi.string().required().max(255),
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(100).optional(),
+  })).min(1).max(50).required(),
+  mounting: Joi.string().valid('breadboard', 'shield').optional(),
+  breadboard: Joi.string().valid(...Object.keys(BREADBOARDS)).optional(),
+  // Inside dimensions
+  enclosure: Joi.object({
+    length: Joi.number().positive().max(2000).required(),
+    width: Joi.number().positive().max(2000).required(),
+    height: Joi.number().positive().max(2000).required(),
+    unit: Joi.string().valid('mm', 'cm', 'in').optional(),
+  }).optional(),
+});
+
+// GET /api/physical/breadboards - Breadboard sizes accepted by the fit check
+router.get('/breadboards', (req: Request, res: Response) => {
+  const response: ApiResponse<Breadboard[]> = {
+    success: true,
+    data: Object.values(BREADBOARDS),
+    timestamp: new Date(),
+  };
+
+  res.json(response);
+});
+
+// POST /api/physical/fit - Whether a build fits a breadboard or shield, and optionally an enclosure
+router.post('/fit', validateRequest(physicalFitSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, components, mounting, breadboard, enclosure } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+    }));
+
+    const { board, parts } = await compatibilityService.resolveBuild(boardId, items);
+    const fit = physicalService.checkFit(board, parts, physicalService.resolveOptions({ mounting, breadboard, enclosure }));
+
+    const response: ApiResponse<PhysicalFit> = {
+      success: true,
+      data: fit,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Physical fit error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'PhysicalError',
+      message: 'Failed to check physical fit',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { CompatibilityService } from '../services/compatibility';
+import { PowerService, POWER_SUPPLIES } from '../services/power';
+import { logger } from '../utils/logger';
+import { ApiResponse, PowerBudget, PowerSupply, SystemComponentInput } from '../types';
+
+const router = Router();
+const compatibilityService = new CompatibilityService();
+const powerService = new PowerService();
+
+// Validation schemas
+const powerBudgetSchema = Joi.object({
+  boardId: Joi.string().required().max(255),
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(100).optional(),
+    dutyCycle: Joi.number().min(0).max(1).optional(),
+  })).min(1).max(50).required(),
+  supply: Joi.alternatives().try(
+    Joi.string().valid(...Object.keys(POWER_SUPPLIES)),
+    Joi.object({
+      name: Joi.string().max(100).optional(),
+      voltage: Joi.number().positive().max(48).required(),
+      maxCurrent: Joi.number().positive().max(100000).required(),
+      capacity: Joi.number().positive().max(1000000).optional(),
+    })
+  ).optional(),
+});
+
+// GET /api/power/supplies - Preset supplies accepted by the power budget
+router.get('/supplies', (req: Request, res: Response) => {
+  const response: ApiResponse<PowerSupply[]> = {
+    success: true,
+    data: Object.values(POWER_SUPPLIES),
+    timestamp: new Date(),
+  };
+
+  res.json(response);
+});
+
+// POST /api/power/budget - Current per rail, regulator and supply headroom, and battery life for a build
+router.post('/budget', validateRequest(powerBudgetSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, components, supply } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number; dutyCycle?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+      dutyCycle: c.dutyCycle,
+    }));
+
+    const { board, parts } = await compatibilityService.resolveBuild(boardId, items);
+    const budget = powerService.calculateBudget(board, parts, powerService.resolveSupply(supply));
+
+    const response: ApiResponse<PowerBudget> = {
+      success: true,
+      data: budget,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Power budget error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'PowerError',
+      message: 'Failed to calculate power budget',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,276 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest, requireAdmin } from '../middleware';
+import { ProjectService, ProjectFilters } from '../services/projects';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../types';
+
+const router = Router();
+const projectService = new ProjectService();
+
+// Validation schemas
+const projectFields = {
+  title: Joi.string().max(255),
+  description: Joi.string().max(5000),
+  difficulty: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+  components: Joi.array().items(Joi.string().max(255)).max(100),
+  board: Joi.string().max(255),
+  tags: Joi.array().items(Joi.string().max(100)).max(50),
+  tutorialUrl: Joi.string().uri().optional(),
+  sourceUrl: Joi.string().uri().optional(),
+  estimatedTime: Joi.string().max(100),
+  cost: Joi.object({
+    min: Joi.number().min(0).required(),
+    max: Joi.number().min(Joi.ref('min')).required(),
+    currency: Joi.string().length(3).required(),
+  }),
+};
+
+const createProjectSchema = Joi.object(projectFields).fork(
+  ['title', 'description', 'difficulty', 'components', 'board', 'tags', 'estimatedTime', 'cost'],
+  field => field.required()
+);
+
+const updateProjectSchema = Joi.object(projectFields).min(1);
+
+const searchQuerySchema = Joi.object({
+  query: Joi.string().max(200).optional(),
+  tag: Joi.string().max(100).optional(),
+  difficulty: Joi.string().valid('beginner', 'intermediate', 'advanced').optional(),
+  board: Joi.string().max(255).optional(),
+  costMin: Joi.number().min(0).optional(),
+  costMax: Joi.number().min(0).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+// GET /api/projects - Search projects by tag, difficulty, board and cost range
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = searchQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await projectService.searchProjects(value as ProjectFilters);
+
+    const response: ApiResponse<typeof result> = {
+      success: true,
+      data: result,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Project search error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'SearchError',
+      message: 'Failed to search projects',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/projects/:id - Get project by ID
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const project = await projectService.getProject(id);
+
+    if (!project) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Project not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof project> = {
+      success: true,
+      data: project,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get project error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ProjectError',
+      message: 'Failed to get project',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/projects/:id/bom - Bill of materials with prices and a build compatibility check
+router.get('/:id/bom', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const bom = await projectService.getProjectBom(id);
+
+    if (!bom) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Project not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof bom> = {
+      success: true,
+      data: bom,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get project BOM error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ProjectError',
+      message: 'Failed to build bill of materials',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/projects - Add a curated project (admin)
+router.post('/', requireAdmin, validateRequest(createProjectSchema), async (req: Request, res: Response) => {
+  try {
+    const project = await projectService.addProject(req.body);
+
+    const response: ApiResponse<typeof project> = {
+      success: true,
+      data: project,
+      message: 'Project created',
+      timestamp: new Date(),
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    logger.error('Create project error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ProjectError',
+      message: 'Failed to create project',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// PUT /api/projects/:id - Update a project (admin)
+router.put('/:id', requireAdmin, validateRequest(updateProjectSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const project = await projectService.updateProject(id, req.body);
+
+    if (!project) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Project not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof project> = {
+      success: true,
+      data: project,
+      message: 'Project updated',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Update project error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ProjectError',
+      message: 'Failed to update project',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/projects/:id - Delete a project (admin)
+router.delete('/:id', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = await projectService.deleteProject(id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Project not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Project deleted',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Delete project error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ProjectError',
+      message: 'Failed to delete project',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
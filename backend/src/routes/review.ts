@@ -0,0 +1,270 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest, requireAdmin, toFieldErrors } from '../middleware';
+import { ComponentDraftService } from '../services/drafts';
+import { createComponentSchema } from './components';
+import { logger } from '../utils/logger';
+import { ApiResponse, Component, ComponentDraft } from '../types';
+
+const router = Router();
+const draftService = new ComponentDraftService();
+
+// Validation schemas
+const listQuerySchema = Joi.object({
+  status: Joi.string().valid('pending', 'approved', 'rejected').default('pending'),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+});
+
+// The assembled component is validated against the components schema, so overrides are only shaped here
+const approveSchema = Joi.object({
+  name: Joi.string().max(255).optional(),
+  manufacturer: Joi.string().max(255).optional(),
+  category: Joi.string().max(100).required(),
+  description: Joi.string().allow('').max(5000).optional(),
+  price: Joi.number().min(0).optional(),
+  availability: Joi.string().max(50).optional(),
+  tags: Joi.array().items(Joi.string().max(100)).max(50).optional(),
+  specifications: Joi.object().unknown(true).optional(),
+});
+
+const extractSchema = Joi.object({
+  scrapedDataId: Joi.string().required().max(255),
+});
+
+// GET /api/review/drafts - Components extracted from datasheets (?status=pending|approved|rejected)
+router.get('/drafts', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listQuerySchema.validate(req.query, { convert: true });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const { status, limit, offset } = value;
+    const { drafts, total } = await draftService.listDrafts({ status, limit, offset });
+
+    const response: ApiResponse<{ drafts: ComponentDraft[]; total: number; limit: number; offset: number }> = {
+      success: true,
+      data: { drafts, total, limit, offset },
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('List drafts error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ReviewError',
+      message: 'Failed to list drafts',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/review/drafts/extract - Re-run extraction on a stored scrape (admin)
+router.post('/drafts/extract', requireAdmin, validateRequest(extractSchema), async (req: Request, res: Response) => {
+  try {
+    const drafts = await draftService.extractScrapedData(req.body.scrapedDataId);
+
+    const response: ApiResponse<ComponentDraft[]> = {
+      success: true,
+      data: drafts,
+      message: `Extracted ${drafts.length} drafts`,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Extract drafts error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ReviewError',
+      message: 'Failed to extract drafts',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/review/drafts/:id - One draft with per-field confidence and source page
+router.get('/drafts/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const draft = await draftService.getDraft(req.params.id);
+
+    if (!draft) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Draft not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<ComponentDraft> = {
+      success: true,
+      data: draft,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get draft error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ReviewError',
+      message: 'Failed to get draft',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/review/drafts/:id/approve - Add the draft to components, with the reviewer's corrections (admin)
+router.post('/drafts/:id/approve', requireAdmin, validateRequest(approveSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const draft = await draftService.getDraft(req.params.id);
+
+    if (!draft) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Draft not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (draft.status !== 'pending') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: `Draft is already ${draft.status}`,
+        timestamp: new Date(),
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    // Missing voltage or current shows up here, as specifications.* errors the reviewer can fill in
+    const { error, value } = createComponentSchema.validate(draftService.toComponent(draft, req.body), { abortEarly: false });
+
+    if (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: error.details.map(detail => detail.message).join(', '),
+        errors: toFieldErrors(error),
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const component = await draftService.approveDraft(draft.id, value);
+
+    const response: ApiResponse<Component> = {
+      success: true,
+      data: component,
+      message: 'Draft approved',
+      timestamp: new Date(),
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    logger.error('Approve draft error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ReviewError',
+      message: 'Failed to approve draft',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/review/drafts/:id/reject - Drop a draft from the queue (admin)
+router.post('/drafts/:id/reject', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const draft = await draftService.getDraft(req.params.id);
+
+    if (!draft) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Draft not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (draft.status !== 'pending') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: `Draft is already ${draft.status}`,
+        timestamp: new Date(),
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const response: ApiResponse<ComponentDraft> = {
+      success: true,
+      data: await draftService.rejectDraft(draft.id),
+      message: 'Draft rejected',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Reject draft error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ReviewError',
+      message: 'Failed to reject draft',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
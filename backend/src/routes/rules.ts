@@ -0,0 +1,362 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest, requireAdmin } from '../middleware';
+import { RuleService } from '../services/rules';
+import { CompatibilityService } from '../services/compatibility';
+import { logger } from '../utils/logger';
+import { ApiResponse, CompatibilityRule } from '../types';
+
+const router = Router();
+const ruleService = new RuleService();
+const compatibilityService = new CompatibilityService();
+
+// Validation schemas - conditions and operands nest, so they refer to each other by id
+const pathSchema = Joi.string().pattern(/^[\w]+(\.[\w]+)*$/).max(200);
+const remediationKinds = ['level-shifter', 'voltage-divider', 'mosfet-driver', 'relay'];
+
+// `matches` patterns are fixed strings, compiled here so a bad one is rejected when the rule is saved
+const patternSchema = Joi.string().max(200).custom((pattern: string, helpers) => {
+  try {
+    new RegExp(pattern, 'i');
+    return pattern;
+  } catch (error) {
+    return helpers.message({ custom: `{{#label}} is not a valid pattern: ${(error as Error).message}` });
+  }
+});
+
+// Each kind of condition is picked out by its key, so errors deep inside one (e.g. a bad pattern) are
+// reported where they are rather than as "does not match any of the allowed types"
+const hasKey = (key: string) => Joi.object({ [key]: Joi.exist() }).unknown();
+
+const conditionSchema = Joi.alternatives()
+  .conditional(hasKey('all'), {
+    then: Joi.object({ all: Joi.array().items(Joi.link('#condition')).min(1).max(20).required() }),
+  })
+  .conditional(hasKey('any'), {
+    then: Joi.object({ any: Joi.array().items(Joi.link('#condition')).min(1).max(20).required() }),
+  })
+  .conditional(hasKey('not'), {
+    then: Joi.object({ not: Joi.link('#condition').required() }),
+  })
+  .conditional(hasKey('exists'), {
+    then: Joi.object({ exists: pathSchema.required() }),
+  })
+  .conditional(hasKey('some'), {
+    then: Joi.object({
+      some: pathSchema.required(),
+      as: Joi.string().pattern(/^\w+$/).max(50).optional(),
+      where: Joi.link('#condition').required(),
+    }),
+  })
+  .conditional(Joi.any(), {
+    then: Joi.object({
+      op: Joi.string().valid('eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'includes', 'matches').required(),
+      left: Joi.link('#operand').required(),
+      right: Joi.when('op', { is: 'matches', then: patternSchema, otherwise: Joi.link('#operand') }).required(),
+    }),
+  })
+  .id('condition');
+
+const operandSchema = Joi.alternatives().try(
+  Joi.number(),
+  Joi.string().allow('').max(500),
+  Joi.boolean(),
+  Joi.valid(null),
+  Joi.array().items(Joi.alternatives().try(Joi.number(), Joi.string().max(200))).max(100),
+  Joi.object({ path: pathSchema.required() }),
+  Joi.object({
+    count: pathSchema.required(),
+    as: Joi.string().pattern(/^\w+$/).max(50).optional(),
+    where: Joi.link('#condition').optional(),
+  }),
+  Joi.object({
+    fn: Joi.string().valid('abs', 'add', 'sub', 'mul', 'div', 'min', 'max', 'concat', 'lower').required(),
+    args: Joi.array().items(Joi.link('#operand')).min(1).max(10).required(),
+  }),
+  Joi.object({
+    if: Joi.link('#condition').required(),
+    then: Joi.link('#operand').required(),
+    else: Joi.link('#operand').required(),
+  })
+).id('operand');
+
+const textSchema = Joi.alternatives().try(
+  Joi.string().max(500),
+  Joi.array().items(Joi.object({
+    text: Joi.string().max(500).required(),
+    when: Joi.link('#condition').optional(),
+  })).min(1).max(20)
+);
+
+const ruleFields = {
+  name: Joi.string().max(255),
+  description: Joi.string().max(1000),
+  enabled: Joi.boolean(),
+  each: Joi.object({
+    path: pathSchema.required(),
+    as: Joi.string().pattern(/^\w+$/).max(50).required(),
+  }),
+  let: Joi.object().pattern(Joi.string().pattern(/^\w+$/).max(50), Joi.link('#operand')).max(20),
+  when: Joi.link('#condition'),
+  issue: Joi.object({
+    type: Joi.string().valid('voltage', 'current', 'protocol', 'pins', 'library', 'physical').required(),
+    severity: Joi.string().valid('error', 'warning', 'info').required(),
+    message: textSchema.required(),
+    solution: textSchema.optional(),
+  }),
+  penalty: Joi.number().integer().min(0).max(100),
+  suggestions: Joi.array().items(Joi.object({
+    text: Joi.string().max(500).required(),
+    when: Joi.link('#condition').optional(),
+  })).max(20),
+  remedies: Joi.array().items(Joi.object({
+    kind: Joi.string().valid(...remediationKinds).required(),
+    reason: textSchema.required(),
+    when: Joi.link('#condition').optional(),
+  })).max(10),
+  mitigatedBy: Joi.array().items(Joi.string().valid(...remediationKinds)).max(10),
+};
+
+const createRuleSchema = Joi.object({
+  ...ruleFields,
+  id: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/).max(100).required(),
+  enabled: ruleFields.enabled.default(true),
+}).fork(['name', 'when', 'penalty'], field => field.required())
+  .shared(conditionSchema)
+  .shared(operandSchema);
+
+const updateRuleSchema = Joi.object(ruleFields).min(1)
+  .shared(conditionSchema)
+  .shared(operandSchema);
+
+const evaluateRuleSchema = Joi.object({
+  rule: createRuleSchema.required(),
+  boardId: Joi.string().required().max(255),
+  componentId: Joi.string().required().max(255),
+});
+
+// GET /api/compatibility/rules - Built-in and custom rules, disabled ones included
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const rules = await ruleService.listRules();
+
+    const response: ApiResponse<CompatibilityRule[]> = {
+      success: true,
+      data: rules,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('List rules error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to list compatibility rules',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// GET /api/compatibility/rules/:id - Get a rule
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const rule = await ruleService.getRule(req.params.id);
+
+    if (!rule) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Rule not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<CompatibilityRule> = {
+      success: true,
+      data: rule,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to get compatibility rule',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/compatibility/rules/evaluate - Dry-run a rule against a board and component
+router.post('/evaluate', requireAdmin, validateRequest(evaluateRuleSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, componentId } = req.body;
+    const { value: rule } = createRuleSchema.validate(req.body.rule);
+
+    const evaluation = await compatibilityService.dryRunRule(rule, boardId, componentId);
+
+    const response: ApiResponse<typeof evaluation> = {
+      success: true,
+      data: evaluation,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Evaluate rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to evaluate compatibility rule',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// POST /api/compatibility/rules - Add a rule, or override a built-in by reusing its id (admin)
+router.post('/', requireAdmin, validateRequest(createRuleSchema), async (req: Request, res: Response) => {
+  try {
+    // validateRequest doesn't apply defaults
+    const { value } = createRuleSchema.validate(req.body);
+    const rule = await ruleService.createRule(value);
+
+    const response: ApiResponse<CompatibilityRule> = {
+      success: true,
+      data: rule,
+      message: 'Rule created',
+      timestamp: new Date(),
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: 'A custom rule with this id already exists',
+        timestamp: new Date(),
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    logger.error('Create rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to create compatibility rule',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// PUT /api/compatibility/rules/:id - Update a rule; built-ins get an override (admin)
+router.put('/:id', requireAdmin, validateRequest(updateRuleSchema), async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const rule = await ruleService.updateRule(req.params.id, req.body);
+
+    if (!rule) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Rule not found',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<CompatibilityRule> = {
+      success: true,
+      data: rule,
+      message: 'Rule updated',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Update rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to update compatibility rule',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+// DELETE /api/compatibility/rules/:id - Delete a custom rule or override (admin)
+router.delete('/:id', requireAdmin, async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const deleted = await ruleService.deleteRule(req.params.id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: 'Custom rule not found; built-in rules can only be disabled',
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Rule deleted',
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Delete rule error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'RuleError',
+      message: 'Failed to delete compatibility rule',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -1,13 +1,13 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import { validateRequest } from '../middleware';
-import { ArduinoScraper } from '../scraping/actors/arduino-scraper';
+import { createScraperRegistry, DiscoveredUrl } from '../scraping/sources';
 import { query } from '../database/connection';
 import { logger } from '../utils/logger';
 import { ApiResponse } from '../types';
 
 const router = Router();
-const arduinoScraper = new ArduinoScraper();
+const scrapers = createScraperRegistry();
 
 // Validation schemas
 const scrapeUrlSchema = Joi.object({
@@ -24,22 +24,48 @@ const scrapeMultipleSchema = Joi.object({
   })).min(1).max(50).required(),
 });
 
+const scrapeSourceSchema = Joi.object({
+  section: Joi.string().optional(),
+  query: Joi.string().trim().min(2).max(100).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  priority: Joi.number().min(1).max(10).optional(),
+});
+
+// Re-queueing a known URL resets it to pending with the new type and priority. A URL a
+// worker is scraping right now is left alone; returns false when that happened.
+async function enqueue(url: string, type: string, priority: number): Promise<boolean> {
+  const result = await query(`
+    INSERT INTO scraping_queue (url, type, priority, status)
+    VALUES ($1, $2, $3, 'pending')
+    ON CONFLICT (url) DO UPDATE SET
+      type = EXCLUDED.type,
+      priority = EXCLUDED.priority,
+      status = 'pending',
+      attempts = 0,
+      error_message = NULL,
+      scheduled_at = CURRENT_TIMESTAMP
+    WHERE scraping_queue.status <> 'processing'
+  `, [url, type, priority]);
+
+  return result.rowCount > 0;
+}
+
 // POST /api/scrape/url - Scrape a specific URL
 router.post('/url', validateRequest(scrapeUrlSchema), async (req: Request, res: Response) => {
   try {
     const { url, type, priority = 5 } = req.body;
 
     // Add to scraping queue
-    await query(`
-      INSERT INTO scraping_queue (url, type, priority, status)
-      VALUES ($1, $2, $3, 'pending')
-      ON CONFLICT (url) DO UPDATE SET
-        priority = EXCLUDED.priority,
-        status = 'pending',
-        attempts = 0,
-        error_message = NULL,
-        scheduled_at = CURRENT_TIMESTAMP
-    `, [url, type, priority]);
+    if (!(await enqueue(url, type, priority))) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Conflict',
+        message: 'URL is already being scraped',
+        timestamp: new Date(),
+      };
+      res.status(409).json(response);
+      return;
+    }
 
     const response: ApiResponse = {
       success: true,
@@ -68,22 +94,17 @@ router.post('/multiple', validateRequest(scrapeMultipleSchema), async (req: Requ
   try {
     const { urls } = req.body;
 
+    let skipped = 0;
     for (const urlData of urls) {
-      await query(`
-        INSERT INTO scraping_queue (url, type, priority, status)
-        VALUES ($1, $2, $3, 'pending')
-        ON CONFLICT (url) DO UPDATE SET
-          priority = EXCLUDED.priority,
-          status = 'pending',
-          attempts = 0,
-          error_message = NULL,
-          scheduled_at = CURRENT_TIMESTAMP
-      `, [urlData.url, urlData.type, urlData.priority || 5]);
+      if (!(await enqueue(urlData.url, urlData.type, urlData.priority || 5))) {
+        skipped++;
+      }
     }
 
     const response: ApiResponse = {
       success: true,
-      message: `${urls.length} URLs added to scraping queue`,
+      message: `${urls.length - skipped} URLs added to scraping queue` +
+        (skipped ? `, ${skipped} already being scraped` : ''),
       timestamp: new Date(),
     };
 
@@ -103,127 +124,20 @@ router.post('/multiple', validateRequest(scrapeMultipleSchema), async (req: Requ
   }
 });
 
-// POST /api/scrape/arduino - Trigger Arduino documentation scraping
-router.post('/arduino', async (req: Request, res: Response) => {
-  try {
-    // Start Arduino scraping in background
-    const scrapePromise = arduinoScraper.scrapeArduinoDocumentation()
-      .then(results => {
-        logger.info('Arduino documentation scraping completed', {
-          resultsCount: results.length
-        });
-        return results;
-      })
-      .catch(error => {
-        logger.error('Arduino documentation scraping failed:', error);
-        throw error;
-      });
-
-    const response: ApiResponse = {
-      success: true,
-      message: 'Arduino documentation scraping started',
-      timestamp: new Date(),
-    };
-
-    res.json(response);
-
-    // Don't await - let it run in background
-    scrapePromise;
-
-  } catch (error) {
-    logger.error('Start Arduino scraping error:', error);
-
-    const response: ApiResponse = {
-      success: false,
-      error: 'ScrapeError',
-      message: 'Failed to start Arduino scraping',
-      timestamp: new Date(),
-    };
-
-    res.status(500).json(response);
-  }
-});
-
-// POST /api/scrape/arduino/hardware - Trigger Arduino hardware scraping
-router.post('/arduino/hardware', async (req: Request, res: Response) => {
-  try {
-    // Start Arduino hardware scraping in background
-    const scrapePromise = arduinoScraper.scrapeArduinoHardware()
-      .then(results => {
-        logger.info('Arduino hardware scraping completed', {
-          resultsCount: results.length
-        });
-        return results;
-      })
-      .catch(error => {
-        logger.error('Arduino hardware scraping failed:', error);
-        throw error;
-      });
-
-    const response: ApiResponse = {
-      success: true,
-      message: 'Arduino hardware scraping started',
-      timestamp: new Date(),
-    };
-
-    res.json(response);
-
-    // Don't await - let it run in background
-    scrapePromise;
-
-  } catch (error) {
-    logger.error('Start Arduino hardware scraping error:', error);
-
-    const response: ApiResponse = {
-      success: false,
-      error: 'ScrapeError',
-      message: 'Failed to start Arduino hardware scraping',
-      timestamp: new Date(),
-    };
-
-    res.status(500).json(response);
-  }
-});
-
-// POST /api/scrape/arduino/tutorials - Trigger Arduino tutorials scraping
-router.post('/arduino/tutorials', async (req: Request, res: Response) => {
-  try {
-    // Start Arduino tutorials scraping in background
-    const scrapePromise = arduinoScraper.scrapeArduinoTutorials()
-      .then(results => {
-        logger.info('Arduino tutorials scraping completed', {
-          resultsCount: results.length
-        });
-        return results;
-      })
-      .catch(error => {
-        logger.error('Arduino tutorials scraping failed:', error);
-        throw error;
-      });
-
-    const response: ApiResponse = {
-      success: true,
-      message: 'Arduino tutorials scraping started',
-      timestamp: new Date(),
-    };
-
-    res.json(response);
-
-    // Don't await - let it run in background
-    scrapePromise;
-
-  } catch (error) {
-    logger.error('Start Arduino tutorials scraping error:', error);
-
-    const response: ApiResponse = {
-      success: false,
-      error: 'ScrapeError',
-      message: 'Failed to start Arduino tutorials scraping',
-      timestamp: new Date(),
-    };
-
-    res.status(500).json(response);
-  }
+// GET /api/scrape/sources - Registered scraper sources and their sections
+router.get('/sources', (req: Request, res: Response) => {
+  const response: ApiResponse = {
+    success: true,
+    data: scrapers.list().map(source => ({
+      name: source.name,
+      label: source.label,
+      hosts: source.hosts,
+      sections: source.sections,
+    })),
+    timestamp: new Date(),
+  };
+
+  res.json(response);
 });
 
 // GET /api/scrape/queue - Get scraping queue status
@@ -437,4 +351,70 @@ router.post('/queue/retry/:id', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/scrape/:source - Queue the pages a source discovers (all sections, one section or a search query)
+router.post('/:source', validateRequest(scrapeSourceSchema), async (req: Request, res: Response) => {
+  try {
+    const source = scrapers.get(req.params.source || '');
+
+    if (!source) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: `Unknown scraper source; available: ${scrapers.list().map(candidate => candidate.name).join(', ')}`,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const { section, query: search, limit, priority = 5 } = req.body;
+
+    if (section && !source.sections.includes(section)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Validation error',
+        message: `"section" must be one of [${source.sections.join(', ')}]`,
+        timestamp: new Date(),
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const urls = await source.discover({
+      ...(section ? { section } : {}),
+      ...(search ? { query: search } : {}),
+      ...(limit ? { limit } : {}),
+    });
+
+    let skipped = 0;
+    for (const discovered of urls) {
+      if (!(await enqueue(discovered.url, discovered.type, priority))) {
+        skipped++;
+      }
+    }
+
+    const response: ApiResponse<{ source: string; urls: DiscoveredUrl[] }> = {
+      success: true,
+      data: { source: source.name, urls },
+      message: `${urls.length - skipped} ${source.label} URLs added to scraping queue` +
+        (skipped ? `, ${skipped} already being scraped` : ''),
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Queue scraper source error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'ScrapeError',
+      message: 'Failed to queue source for scraping',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
 export default router;
\ No newline at end of file
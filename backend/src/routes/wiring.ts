@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { validateRequest } from '../middleware';
+import { CompatibilityService } from '../services/compatibility';
+import { WiringService } from '../services/wiring';
+import { logger } from '../utils/logger';
+import { ApiResponse, SystemComponentInput } from '../types';
+
+const router = Router();
+const compatibilityService = new CompatibilityService();
+const wiringService = new WiringService();
+
+// Validation schemas
+const wiringPlanSchema = Joi.object({
+  boardId: Joi.string().required().max(255),
+  components: Joi.array().items(Joi.object({
+    id: Joi.string().required().max(255),
+    quantity: Joi.number().integer().min(1).max(100).optional(),
+  })).min(1).max(50).required(),
+});
+
+// POST /api/wiring/plan - Assign board pins to every part of a build
+router.post('/plan', validateRequest(wiringPlanSchema), async (req: Request, res: Response) => {
+  try {
+    const { boardId, components } = req.body;
+
+    const items: SystemComponentInput[] = components.map((c: { id: string; quantity?: number }) => ({
+      componentId: c.id,
+      quantity: c.quantity || 1,
+    }));
+
+    const { board, parts } = await compatibilityService.resolveBuild(boardId, items);
+    const plan = wiringService.planWiring(board, parts);
+
+    const response: ApiResponse<typeof plan> = {
+      success: true,
+      data: plan,
+      timestamp: new Date(),
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFoundError') {
+      const response: ApiResponse = {
+        success: false,
+        error: 'NotFound',
+        message: error.message,
+        timestamp: new Date(),
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    logger.error('Wiring plan error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'WiringError',
+      message: 'Failed to generate wiring plan',
+      timestamp: new Date(),
+    };
+
+    res.status(500).json(response);
+  }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RobotsPolicy } from './robots';
+
+// How long an unreachable robots.txt keeps its host blocked before it is asked for again
+const ROBOTS_RETRY_MS = 10 * 60 * 1000;
+
+// robots.txt beyond this is ignored; RFC 9309 asks crawlers to read at least 500 KiB
+const ROBOTS_MAX_BYTES = 500 * 1024;
+
+export type FetchErrorReason = 'robots' | 'status' | 'content-type' | 'too-large';
+
+export class FetchError extends Error {
+  readonly reason: FetchErrorReason;
+  readonly status: number | null;
+
+  constructor(message: string, reason: FetchErrorReason, status: number | null = null) {
+    super(message);
+    this.name = 'FetchError';
+    this.reason = reason;
+    this.status = status;
+  }
+
+  // Retrying won't help unless the site changes; timeouts, 408, 429 and 5xx may clear up
+  get permanent(): boolean {
+    if (this.reason !== 'status' || this.status === null) return true;
+    return this.status < 500 && this.status !== 408 && this.status !== 429;
+  }
+}
+
+export interface FetchOptions {
+  // Accepted media types; one ending in '/' accepts the whole family, e.g. 'image/'
+  accept: string[];
+  // Validators from the last fetch of this URL, for a conditional GET
+  etag?: string;
+  lastModified?: string;
+  maxBytes?: number;
+}
+
+export interface FetchResponse {
+  // The server answered 304; body is empty and the stored copy is current
+  notModified: boolean;
+  body: Buffer;
+  contentType: string;
+  charset?: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetcherOptions {
+  userAgent: string;
+  // Minimum gap between requests to one host; a longer robots.txt Crawl-delay wins
+  delayMs: number;
+  timeoutMs: number;
+  maxBytes: number;
+  robotsCacheMs: number;
+}
+
+/**
+ * The scraper's HTTP client. Every request is checked against the host's robots.txt (cached per origin),
+ * spaced out per host, sent with the scraper's own User-Agent and cut off when the response has the wrong
+ * content type or grows past the size limit. Passing the validators from the last fetch makes it a
+ * conditional GET, so an unchanged page comes back as notModified without a body.
+ */
+export class PoliteFetcher {
+  private options: FetcherOptions;
+  private robots = new Map<string, { policy: Promise<RobotsPolicy>; expiresAt: number }>();
+  private nextRequestAt = new Map<string, number>();
+
+  constructor(options: Partial<FetcherOptions> = {}) {
+    this.options = {
+      userAgent: config.scraping.userAgent,
+      delayMs: config.scraping.delayMs,
+      timeoutMs: config.scraping.timeoutMs,
+      maxBytes: config.scraping.maxResponseBytes,
+      robotsCacheMs: config.scraping.robotsCacheMs,
+      ...options,
+    };
+  }
+
+  async fetch(url: string, options: FetchOptions): Promise<FetchResponse> {
+    const target = new URL(url);
+    const policy = await this.robotsFor(target);
+
+    if (!policy.isAllowed(url)) {
+      throw new FetchError(`Disallowed by robots.txt: ${url}`, 'robots');
+    }
+
+    await this.waitTurn(target.host, policy.crawlDelayMs);
+
+    const response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      timeout: this.options.timeoutMs,
+      maxRedirects: 5,
+      validateStatus: () => true,
+      headers: {
+        'User-Agent': this.options.userAgent,
+        ...(options.etag ? { 'If-None-Match': options.etag } : {}),
+        ...(options.lastModified ? { 'If-Modified-Since': options.lastModified } : {}),
+      },
+    });
+
+    const etag = headerValue(response.headers.etag);
+    const lastModified = headerValue(response.headers['last-modified']);
+    const validators = { ...(etag ? { etag } : {}), ...(lastModified ? { lastModified } : {}) };
+
+    if (response.status === 304) {
+      response.data.destroy();
+      return { notModified: true, body: Buffer.alloc(0), contentType: '', ...validators };
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      response.data.destroy();
+      throw new FetchError(`HTTP ${response.status} for ${url}`, 'status', response.status);
+    }
+
+    // No Content-Type is taken as arbitrary bytes, which only callers expecting binaries accept
+    const [mediaType = '', ...parameters] = (headerValue(response.headers['content-type']) || 'application/octet-stream').split(';');
+    const contentType = mediaType.trim().toLowerCase();
+    const charset = parameters.map(parameter => parameter.trim().match(/^charset="?([^"]+)"?$/i)?.[1]).find(Boolean);
+
+    if (!options.accept.some(accepted => accepted.endsWith('/') ? contentType.startsWith(accepted) : contentType === accepted)) {
+      response.data.destroy();
+      throw new FetchError(`Unexpected content type ${contentType} for ${url}`, 'content-type');
+    }
+
+    const maxBytes = options.maxBytes ?? this.options.maxBytes;
+    const declaredLength = parseInt(headerValue(response.headers['content-length']) || '', 10);
+
+    if (declaredLength > maxBytes) {
+      response.data.destroy();
+      throw new FetchError(`Response of ${declaredLength} bytes is over the ${maxBytes} byte limit: ${url}`, 'too-large');
+    }
+
+    const body = await readLimited(response.data, maxBytes, url);
+
+    return { notModified: false, body, contentType, ...(charset ? { charset } : {}), ...validators };
+  }
+
+  private robotsFor(target: URL): Promise<RobotsPolicy> {
+    const cached = this.robots.get(target.origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    const policy = this.loadRobots(target);
+    this.robots.set(target.origin, { policy, expiresAt: Date.now() + this.options.robotsCacheMs });
+    return policy;
+  }
+
+  private async loadRobots(target: URL): Promise<RobotsPolicy> {
+    const robotsUrl = `${target.origin}/robots.txt`;
+
+    try {
+      await this.waitTurn(target.host, null);
+
+      const response = await axios.get<string>(robotsUrl, {
+        responseType: 'text',
+        timeout: this.options.timeoutMs,
+        maxRedirects: 5,
+        maxContentLength: ROBOTS_MAX_BYTES,
+        validateStatus: () => true,
+        headers: { 'User-Agent': this.options.userAgent },
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return RobotsPolicy.parse(String(response.data), this.options.userAgent);
+      }
+
+      if (response.status >= 400 && response.status < 500) {
+        return RobotsPolicy.allowAll();
+      }
+
+      throw new Error(`HTTP ${response.status}`);
+
+    } catch (error) {
+      logger.warn(`robots.txt unavailable, skipping ${target.origin} for now:`, { robotsUrl, error });
+      this.robots.set(target.origin, { policy: Promise.resolve(RobotsPolicy.disallowAll()), expiresAt: Date.now() + ROBOTS_RETRY_MS });
+      return RobotsPolicy.disallowAll();
+    }
+  }
+
+  // Reserves the host's next request slot, then waits for it
+  private async waitTurn(host: string, crawlDelayMs: number | null): Promise<void> {
+    const delay = Math.max(this.options.delayMs, crawlDelayMs ?? 0);
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+
+    this.nextRequestAt.set(host, startAt + delay);
+
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+}
+
+// Shared so that every part of the scraper paces the same hosts together
+export const politeFetcher = new PoliteFetcher();
+
+function headerValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : undefined;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+async function readLimited(stream: Readable, maxBytes: number, url: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new FetchError(`Response is over the ${maxBytes} byte limit: ${url}`, 'too-large');
+    }
+
+    chunks.push(buffer);
+  }
+
+  return Buffer.concat(chunks, size);
+}
@@ -0,0 +1,293 @@
+import { createHash } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { initializeConnections, closeConnections } from '../database/connection';
+import { ComponentDraftService } from '../services/drafts';
+import { logger } from '../utils/logger';
+import { findQuantities } from '../utils/quantity';
+import { IngestedFile, ScrapedData, ScrapedImage } from '../types';
+import { PDFProcessor } from './processors/pdf-processor';
+import { ImageProcessor } from './processors/image-processor';
+import { HTMLProcessor } from './processors/html-processor';
+import { saveScrapedData } from './storage';
+
+export interface LocalFile {
+  // File name, or the path relative to the imported directory
+  name: string;
+  buffer: Buffer;
+  mimeType?: string;
+}
+
+export interface IngestOptions {
+  source: 'upload' | 'local-directory';
+  // Overrides the content type guessed from the file kind
+  type?: ScrapedData['metadata']['type'];
+}
+
+type FileKind = IngestedFile['kind'];
+
+const IMAGE_SIGNATURES = [
+  Buffer.from([0x89, 0x50, 0x4e, 0x47]), // PNG
+  Buffer.from([0xff, 0xd8, 0xff]), // JPEG
+  Buffer.from('GIF8', 'latin1'),
+  Buffer.from([0x49, 0x49, 0x2a, 0x00]), // TIFF, little-endian
+  Buffer.from([0x4d, 0x4d, 0x00, 0x2a]), // TIFF, big-endian
+];
+
+const HTML_START = /^\s*(?:<!doctype html|<html|<!--\s*saved from)/i;
+
+const DEFAULT_TYPES: Record<Exclude<FileKind, 'unsupported'>, ScrapedData['metadata']['type']> = {
+  pdf: 'datasheet',
+  image: 'datasheet',
+  html: 'documentation',
+};
+
+/**
+ * Ingests datasheets, images and saved pages from disk or an upload instead of the web. Files go through
+ * the same processors as scraped content and end up as scraped_data rows; PDFs also become component
+ * drafts. Nothing is fetched, so it works without network access.
+ */
+export class LocalIngester {
+  private pdfProcessor = new PDFProcessor();
+  private imageProcessor = new ImageProcessor();
+  private htmlProcessor = new HTMLProcessor();
+  private draftService = new ComponentDraftService();
+
+  async ingestFiles(files: LocalFile[], options: IngestOptions): Promise<IngestedFile[]> {
+    const results: IngestedFile[] = [];
+
+    for (const file of files) {
+      results.push(await this.ingestFile(file, options));
+    }
+
+    logger.info('Local ingestion completed', {
+      source: options.source,
+      files: files.length,
+      ingested: results.filter(result => result.status === 'ingested').length,
+      failed: results.filter(result => result.status === 'failed').length,
+    });
+
+    return results;
+  }
+
+  // Every file under the directory, skipping hidden files and the asset folders browsers save next to a page
+  async ingestDirectory(directory: string, options: { recursive?: boolean; type?: IngestOptions['type'] } = {}): Promise<IngestedFile[]> {
+    const paths = await this.listFiles(directory, !!options.recursive);
+    const results: IngestedFile[] = [];
+
+    for (const filePath of paths) {
+      const name = path.relative(directory, filePath);
+      results.push(await this.ingestFile(
+        { name, buffer: await readFile(filePath) },
+        { source: 'local-directory', ...(options.type ? { type: options.type } : {}) }
+      ));
+    }
+
+    return results;
+  }
+
+  async ingestFile(file: LocalFile, options: IngestOptions): Promise<IngestedFile> {
+    const kind = this.detectKind(file);
+
+    if (kind === 'unsupported') {
+      return { name: file.name, kind, status: 'skipped', drafts: 0, message: 'Not a PDF, image or HTML file' };
+    }
+
+    if (file.buffer.length > config.ingest.maxFileBytes) {
+      return { name: file.name, kind, status: 'skipped', drafts: 0, message: `Larger than ${config.ingest.maxFileBytes} bytes` };
+    }
+
+    try {
+      const data = await this.toScrapedData(file, kind, options);
+      const id = await saveScrapedData(data);
+      const drafts = await this.extractDrafts(id, data);
+
+      logger.debug('Local file ingested', { name: file.name, kind, url: data.url, drafts });
+
+      return { name: file.name, kind, status: 'ingested', url: data.url, scrapedDataId: id, drafts };
+
+    } catch (error) {
+      logger.error('Local file ingestion failed:', { name: file.name, error });
+      return {
+        name: file.name,
+        kind,
+        status: 'failed',
+        drafts: 0,
+        message: error instanceof Error ? error.message : 'Ingestion failed',
+      };
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    await this.pdfProcessor.cleanup();
+    await this.imageProcessor.cleanup();
+  }
+
+  private async toScrapedData(file: LocalFile, kind: Exclude<FileKind, 'unsupported'>, options: IngestOptions): Promise<ScrapedData> {
+    const baseName = path.basename(file.name);
+    // Keyed by content, so importing the same file twice updates one row
+    const hash = createHash('sha256').update(file.buffer).digest('hex').substring(0, 16);
+    const localUrl = `local://${hash}/${encodeURIComponent(baseName)}`;
+
+    const data: ScrapedData = {
+      id: `local-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      url: localUrl,
+      title: baseName.replace(/\.[^.]+$/, ''),
+      content: '',
+      images: [],
+      pdfs: [],
+      metadata: {
+        scrapedAt: new Date(),
+        source: options.source,
+        type: options.type || DEFAULT_TYPES[kind],
+      },
+      processed: false,
+    };
+
+    switch (kind) {
+      case 'pdf': {
+        const pdf = await this.pdfProcessor.processPDFBuffer(file.buffer, localUrl);
+        if (!pdf) {
+          throw new Error('Could not parse PDF');
+        }
+
+        if (pdf.title && pdf.title !== 'Untitled Document') data.title = pdf.title;
+        data.content = pdf.text;
+        data.pdfs = [pdf];
+        break;
+      }
+
+      case 'image': {
+        const ocrText = await this.imageProcessor.performOCRBuffer(file.buffer, file.name);
+        data.content = ocrText;
+        data.images = [{ url: localUrl, type: this.imageType(baseName, ocrText), ocrText, analyzed: true }];
+        break;
+      }
+
+      case 'html': {
+        const page = this.htmlProcessor.processHTML(file.buffer.toString('utf8'));
+
+        // A saved copy of a page is that page; it replaces what scraping it would have stored
+        if (page.url) data.url = page.url;
+        if (page.title) data.title = page.title;
+        data.content = page.text;
+        // Linked images and PDFs aren't fetched; PDF links are kept so they can be queued once online
+        data.images = page.images.map(src => ({ url: src, type: this.imageType(src, ''), analyzed: false }));
+        data.extractedData = { pdfLinks: page.pdfs };
+        break;
+      }
+    }
+
+    data.extractedData = {
+      ...data.extractedData,
+      voltage: findQuantities(data.content, 'voltage'),
+      current: findQuantities(data.content, 'current'),
+    };
+
+    return data;
+  }
+
+  // Datasheet PDFs become component drafts for review; a bad PDF shouldn't fail the ingestion itself
+  private async extractDrafts(scrapedDataId: string, data: ScrapedData): Promise<number> {
+    if (data.pdfs.length === 0) return 0;
+
+    try {
+      return (await this.draftService.createDrafts(scrapedDataId, data)).length;
+    } catch (error) {
+      logger.warn('Component draft extraction failed', { url: data.url, error });
+      return 0;
+    }
+  }
+
+  // File contents win over names: vendor downloads are often saved as "download" or "file.aspx"
+  private detectKind(file: LocalFile): FileKind {
+    const head = file.buffer.subarray(0, 16);
+
+    if (head.toString('latin1', 0, 5) === '%PDF-') return 'pdf';
+
+    const webp = head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP';
+    if (webp || IMAGE_SIGNATURES.some(signature => head.subarray(0, signature.length).equals(signature))) {
+      return 'image';
+    }
+
+    const start = file.buffer.subarray(0, 1024).toString('utf8').replace(/^\uFEFF/, '');
+    if (HTML_START.test(start) || /\.html?$/i.test(file.name) || file.mimeType === 'text/html') {
+      return 'html';
+    }
+
+    return 'unsupported';
+  }
+
+  // ScrapedImage has no chart or wiring type; both are diagrams
+  private imageType(name: string, ocrText: string): ScrapedImage['type'] {
+    const { type } = this.imageProcessor.classifyOCRText(name, ocrText);
+    return type === 'chart' || type === 'wiring' ? 'diagram' : type;
+  }
+
+  private async listFiles(directory: string, recursive: boolean): Promise<string[]> {
+    const entries = await readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith('.')) continue;
+
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (recursive && !entry.name.endsWith('_files')) {
+          files.push(...await this.listFiles(entryPath, true));
+        }
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+}
+
+// Run ingestion if this file is executed directly:
+//   npm run ingest -- ./datasheets [--recursive] [--type datasheet|tutorial|product|documentation]
+if (require.main === module) {
+  const [directory, ...flags] = process.argv.slice(2);
+  const typeIndex = flags.indexOf('--type');
+  const type = typeIndex >= 0 ? flags[typeIndex + 1] : undefined;
+  const types = ['datasheet', 'tutorial', 'product', 'documentation'];
+
+  (async () => {
+    if (!directory || (type !== undefined && !types.includes(type))) {
+      logger.error(`Usage: npm run ingest -- <directory> [--recursive] [--type ${types.join('|')}]`);
+      process.exit(1);
+    }
+
+    const ingester = new LocalIngester();
+
+    try {
+      await initializeConnections();
+      const results = await ingester.ingestDirectory(directory, {
+        recursive: flags.includes('--recursive'),
+        ...(type ? { type: type as IngestOptions['type'] } : {}),
+      });
+
+      for (const result of results.filter(result => result.status !== 'ingested')) {
+        logger.warn(`${result.status}: ${result.name}`, { message: result.message });
+      }
+
+      const failed = results.filter(result => result.status === 'failed').length;
+      logger.info('Local ingestion completed', {
+        directory,
+        files: results.length,
+        ingested: results.filter(result => result.status === 'ingested').length,
+        drafts: results.reduce((sum, result) => sum + result.drafts, 0),
+        failed,
+      });
+
+      await ingester.cleanup();
+      await closeConnections();
+      process.exit(failed > 0 ? 1 : 0);
+    } catch (error) {
+      logger.error('Local ingestion failed:', error);
+      process.exit(1);
+    }
+  })();
+}
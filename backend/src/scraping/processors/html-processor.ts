@@ -0,0 +1,97 @@
+import * as cheerio from 'cheerio';
+
+export interface ParsedPage {
+  // Where the page was saved from, when the file says so
+  url: string | null;
+  title: string;
+  text: string;
+  images: string[];
+  pdfs: string[];
+}
+
+// Browsers mark "Save page as" files with <!-- saved from url=(0045)https://... -->
+const SAVED_FROM = /<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i;
+
+const BLOCK_ELEMENTS = 'p, div, li, tr, br, h1, h2, h3, h4, h5, h6, section, article, table, pre';
+
+export interface HTMLOptions {
+  // Where a live page was fetched from; a saved-from or canonical URL in the page still wins
+  url?: string;
+  // Selectors tried in order for the main content; the first that matches supplies the text, otherwise the body
+  contentSelectors?: string[];
+}
+
+/**
+ * Reads an HTML page, saved or freshly fetched: title, visible text, image sources and PDF links.
+ * Nothing linked from the page is fetched.
+ */
+export class HTMLProcessor {
+
+  processHTML(html: string, options: HTMLOptions = {}): ParsedPage {
+    const $ = cheerio.load(html);
+
+    const url = this.originalUrl($, html) || options.url || null;
+    const title = ($('title').first().text() || $('h1').first().text()).trim();
+
+    $('script, style, nav, footer, noscript').remove();
+
+    // Keep block boundaries as line breaks, like innerText, so tables and lists stay one row per line
+    $('td, th').each((_, element) => {
+      $(element).append(' ');
+    });
+    $(BLOCK_ELEMENTS).each((_, element) => {
+      $(element).append('\n');
+    });
+
+    const content = (options.contentSelectors || [])
+      .map(selector => $(selector))
+      .find(matches => matches.length > 0) || $('body');
+
+    const text = content.map((_, element) => $(element).text()).get().join('\n')
+      .replace(/[ \t\u00a0]+/g, ' ')
+      .replace(/ *\n\s*/g, '\n')
+      .trim();
+
+    const images = $('img')
+      .map((_, element) => $(element).attr('src') || '')
+      .get()
+      .filter(src => /\.(?:png|jpe?g|svg)(?:[?#]|$)/i.test(src))
+      .map(src => this.resolve(src, url))
+      .slice(0, 20);
+
+    const pdfs = $('a[href*=".pdf"]')
+      .map((_, element) => $(element).attr('href') || '')
+      .get()
+      .filter(href => href.length > 0)
+      .map(href => this.resolve(href, url));
+
+    return {
+      url,
+      title,
+      text,
+      images: [...new Set(images)],
+      pdfs: [...new Set(pdfs)],
+    };
+  }
+
+  private originalUrl($: cheerio.CheerioAPI, html: string): string | null {
+    const candidates = [
+      html.match(SAVED_FROM)?.[1],
+      $('link[rel="canonical"]').attr('href'),
+      $('meta[property="og:url"]').attr('content'),
+    ];
+
+    return candidates.find((candidate): candidate is string => !!candidate && /^https?:\/\//i.test(candidate)) || null;
+  }
+
+  // Links relative to the original page are made absolute so they can be queued for scraping later
+  private resolve(link: string, base: string | null): string {
+    if (!base) return link;
+
+    try {
+      return new URL(link, base).toString();
+    } catch {
+      return link;
+    }
+  }
+}
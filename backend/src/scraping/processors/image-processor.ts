@@ -1,20 +1,29 @@
 import sharp from 'sharp';
-import { createWorker } from 'tesseract.js';
-import axios from 'axios';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
-import { ScrapedImage } from '../../types';
+import { findQuantities } from '../../utils/quantity';
+import { Quantity, ScrapedImage } from '../../types';
+import { politeFetcher } from '../fetcher';
+import { createOCRWorker } from './ocr';
+
+type ImageClassification = {
+  type: 'schematic' | 'pinout' | 'photo' | 'diagram' | 'chart' | 'wiring';
+  confidence: number;
+  features: string[];
+};
 
 export class ImageProcessor {
   private ocrWorker: any = null;
+  // OCR waits for the worker rather than skipping images that arrive while it starts
+  private ocrReady: Promise<void>;
 
   constructor() {
-    this.initializeOCR();
+    this.ocrReady = this.initializeOCR();
   }
 
   private async initializeOCR(): Promise<void> {
     try {
-      this.ocrWorker = await createWorker(config.ocr.language);
+      this.ocrWorker = await createOCRWorker();
       await this.ocrWorker.setParameters({
         tessedit_pageseg_mode: config.ocr.psm,
         tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,-+()[]{}:;/\\|=<>?@#$%^&*_~`',
@@ -27,6 +36,7 @@ export class ImageProcessor {
 
   async performOCR(imageUrl: string): Promise<string> {
     try {
+      await this.ocrReady;
       if (!this.ocrWorker) {
         logger.warn('OCR worker not available, skipping OCR');
         return '';
@@ -35,46 +45,48 @@ export class ImageProcessor {
       // Download and preprocess image
       const processedBuffer = await this.preprocessImage(imageUrl);
 
-      // Perform OCR
-      const { data: { text } } = await this.ocrWorker.recognize(processedBuffer);
+      return await this.recognize(processedBuffer, imageUrl);
 
-      logger.debug(`OCR completed for ${imageUrl}`, {
-        textLength: text.length,
-        preview: text.substring(0, 100)
-      });
+    } catch (error) {
+      logger.warn(`OCR failed for ${imageUrl}:`, error);
+      return '';
+    }
+  }
 
-      return text.trim();
+  // OCR for an image that is already in memory, such as an uploaded file
+  async performOCRBuffer(inputBuffer: Buffer, name: string): Promise<string> {
+    try {
+      await this.ocrReady;
+      if (!this.ocrWorker) {
+        logger.warn('OCR worker not available, skipping OCR');
+        return '';
+      }
+
+      return await this.recognize(await this.preprocessBuffer(inputBuffer), name);
 
     } catch (error) {
-      logger.warn(`OCR failed for ${imageUrl}:`, error);
+      logger.warn(`OCR failed for ${name}:`, error);
       return '';
     }
   }
 
+  private async recognize(processedBuffer: Buffer, name: string): Promise<string> {
+    const { data: { text } } = await this.ocrWorker.recognize(processedBuffer);
+
+    logger.debug(`OCR completed for ${name}`, {
+      textLength: text.length,
+      preview: text.substring(0, 100)
+    });
+
+    return text.trim();
+  }
+
   async preprocessImage(imageUrl: string): Promise<Buffer> {
     try {
       // Download image
-      const response = await axios.get(imageUrl, {
-        responseType: 'arraybuffer',
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'ProtoBuddy/1.0 (Component Analysis Bot)',
-        },
-      });
+      const response = await politeFetcher.fetch(imageUrl, { accept: ['image/'] });
 
-      const inputBuffer = Buffer.from(response.data);
-
-      // Preprocess image for better OCR
-      const processedBuffer = await sharp(inputBuffer)
-        .resize({ width: 2000, height: 2000, fit: 'inside', withoutEnlargement: true })
-        .grayscale()
-        .normalize()
-        .sharpen({ sigma: 1, flat: 1, jagged: 2 })
-        .threshold(128)
-        .png()
-        .toBuffer();
-
-      return processedBuffer;
+      return await this.preprocessBuffer(response.body);
 
     } catch (error) {
       logger.warn(`Image preprocessing failed for ${imageUrl}:`, error);
@@ -82,10 +94,26 @@ export class ImageProcessor {
     }
   }
 
+  private async preprocessBuffer(inputBuffer: Buffer): Promise<Buffer> {
+    // Preprocess image for better OCR
+    const processedBuffer = await sharp(inputBuffer)
+      .resize({ width: 2000, height: 2000, fit: 'inside', withoutEnlargement: true })
+      .grayscale()
+      .normalize()
+      .sharpen({ sigma: 1, flat: 1, jagged: 2 })
+      .threshold(128)
+      .png()
+      .toBuffer();
+
+    return processedBuffer;
+  }
+
   async analyzeSchematic(imageUrl: string): Promise<{
     components: string[];
     connections: string[];
     labels: string[];
+    // Rail and supply voltages marked on the schematic, e.g. 3V3, 5V, 12V
+    voltages: Quantity[];
     ocrText: string;
   }> {
     try {
@@ -95,17 +123,20 @@ export class ImageProcessor {
       const components = this.extractComponents(ocrText);
       const connections = this.extractConnections(ocrText);
       const labels = this.extractLabels(ocrText);
+      const voltages = findQuantities(ocrText, 'voltage');
 
       logger.debug(`Schematic analysis completed for ${imageUrl}`, {
         componentsFound: components.length,
         connectionsFound: connections.length,
         labelsFound: labels.length,
+        voltagesFound: voltages.length,
       });
 
       return {
         components,
         connections,
         labels,
+        voltages,
         ocrText,
       };
 
@@ -115,6 +146,7 @@ export class ImageProcessor {
         components: [],
         connections: [],
         labels: [],
+        voltages: [],
         ocrText: '',
       };
     }
@@ -167,23 +199,8 @@ export class ImageProcessor {
 
       // Perform OCR and analyze content
       const ocrText = await this.performOCR(imageUrl);
-      const contentClassification = this.classifyByContent(ocrText);
-
-      // Combine URL and content classification
-      const combinedType = contentClassification.confidence > urlClassification.confidence
-        ? contentClassification.type
-        : urlClassification.type;
 
-      const combinedConfidence = Math.max(urlClassification.confidence, contentClassification.confidence);
-
-      return {
-        type: combinedType,
-        confidence: combinedConfidence,
-        features: [
-          ...urlClassification.features,
-          ...contentClassification.features,
-        ],
-      };
+      return this.combineClassifications(urlClassification, this.classifyByContent(ocrText));
 
     } catch (error) {
       logger.warn(`Image classification failed for ${imageUrl}:`, error);
@@ -195,6 +212,34 @@ export class ImageProcessor {
     }
   }
 
+  // Classifies an image that has already been OCRed, e.g. an upload named "bme280-pinout.png"
+  classifyOCRText(fileName: string, ocrText: string): ImageClassification {
+    const nameClassification = this.classifyByUrl(fileName);
+    if (nameClassification.confidence > 0.8) {
+      return nameClassification;
+    }
+
+    return this.combineClassifications(nameClassification, this.classifyByContent(ocrText));
+  }
+
+  private combineClassifications(urlClassification: ImageClassification, contentClassification: ImageClassification): ImageClassification {
+    // Combine URL and content classification
+    const combinedType = contentClassification.confidence > urlClassification.confidence
+      ? contentClassification.type
+      : urlClassification.type;
+
+    const combinedConfidence = Math.max(urlClassification.confidence, contentClassification.confidence);
+
+    return {
+      type: combinedType,
+      confidence: combinedConfidence,
+      features: [
+        ...urlClassification.features,
+        ...contentClassification.features,
+      ],
+    };
+  }
+
   private classifyByUrl(url: string): {
     type: 'schematic' | 'pinout' | 'photo' | 'diagram' | 'chart' | 'wiring';
     confidence: number;
@@ -359,7 +404,7 @@ export class ImageProcessor {
 
     // Common labels
     const labelPatterns = [
-      /VCC|VDD|3V3|5V|12V/gi,
+      /VCC|VDD|VIN|VBAT/gi,
       /GND|GROUND/gi,
       /SDA|SCL|MOSI|MISO|SCK|CS/gi,
       /RX|TX|UART|I2C|SPI/gi,
@@ -0,0 +1,17 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { config } from '../../config';
+
+/**
+ * A Tesseract worker for config.ocr.language, loading language data from config.ocr.langPath when set.
+ * tesseract.js reports a failed language load (say, offline with no local traineddata) only through
+ * errorHandler and leaves createWorker pending, so the handler rejects here instead. Later job failures
+ * reject their own promises.
+ */
+export function createOCRWorker(): Promise<Worker> {
+  return new Promise((resolve, reject) => {
+    createWorker(config.ocr.language, undefined, {
+      ...(config.ocr.langPath ? { langPath: config.ocr.langPath } : {}),
+      errorHandler: reject,
+    }).then(resolve, reject);
+  });
+}
@@ -1,10 +1,21 @@
 import pdfParse from 'pdf-parse';
-import axios from 'axios';
 import sharp from 'sharp';
-import { createWorker } from 'tesseract.js';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
-import { ScrapedPDF, ScrapedImage } from '../../types';
+import { findQuantities, parseQuantity } from '../../utils/quantity';
+import { Quantity, QuantityKind, ScrapedPDF, ScrapedImage } from '../../types';
+import { politeFetcher } from '../fetcher';
+import { createOCRWorker } from './ocr';
+
+// Servers often label PDFs as generic binaries; pdf-parse rejects anything that isn't one
+const PDF_TYPES = ['application/pdf', 'application/octet-stream', 'binary/octet-stream'];
+
+// The part of pdf.js's page object that page rendering reads
+interface PDFPage {
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
 
 export class PDFProcessor {
   private ocrWorker: any = null;
@@ -15,7 +26,7 @@ export class PDFProcessor {
 
   private async initializeOCR(): Promise<void> {
     try {
-      this.ocrWorker = await createWorker(config.ocr.language);
+      this.ocrWorker = await createOCRWorker();
       await this.ocrWorker.setParameters({
         tessedit_pageseg_mode: config.ocr.psm,
       });
@@ -30,20 +41,30 @@ export class PDFProcessor {
       logger.debug(`Processing PDF: ${pdfUrl}`);
 
       // Download PDF
-      const response = await axios.get(pdfUrl, {
-        responseType: 'arraybuffer',
-        timeout: 30000,
-        headers: {
-          'User-Agent': 'ProtoBuddy/1.0 (Component Analysis Bot)',
-        },
-      });
+      const response = await politeFetcher.fetch(pdfUrl, { accept: PDF_TYPES });
+
+      return await this.processPDFBuffer(response.body, pdfUrl);
 
-      const buffer = Buffer.from(response.data);
+    } catch (error) {
+      logger.error(`Failed to process PDF ${pdfUrl}:`, error);
+      return null;
+    }
+  }
 
-      // Parse PDF
-      const data = await pdfParse(buffer, {
+  // Parses a PDF that is already in memory, such as an uploaded file; `pdfUrl` is what it's stored under
+  async processPDFBuffer(buffer: Buffer, pdfUrl: string): Promise<ScrapedPDF | null> {
+    try {
+      // Parse PDF, keeping each page's text so extracted specs can cite their page
+      const pageTexts: string[] = [];
+      // The bundled pdf.js misreads Node Buffers it didn't allocate itself; a plain Uint8Array copy parses reliably
+      const data = await pdfParse(new Uint8Array(buffer) as Buffer, {
         max: 50, // Limit to first 50 pages
         version: 'v2.0.550', // Use specific version for consistency
+        pagerender: async (pageData: PDFPage) => {
+          const text = await this.renderPage(pageData);
+          pageTexts.push(text);
+          return text;
+        },
       });
 
       // Extract metadata
@@ -63,6 +84,7 @@ export class PDFProcessor {
         title: this.extractTitleFromPDF(data.text),
         pages: data.numpages,
         text: data.text,
+        pageTexts,
         images,
         metadata,
       };
@@ -81,6 +103,21 @@ export class PDFProcessor {
     }
   }
 
+  // Same line joining as pdf-parse's default renderer: items on one baseline share a line
+  private async renderPage(pageData: PDFPage): Promise<string> {
+    const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+
+    for (const item of content.items) {
+      const y = item.transform[5];
+      text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+      lastY = y;
+    }
+
+    return text;
+  }
+
   private async extractImagesFromPDF(buffer: Buffer): Promise<ScrapedImage[]> {
     // Note: This is a simplified implementation
     // In production, you might want to use a more sophisticated PDF image extraction library
@@ -117,15 +154,15 @@ export class PDFProcessor {
   }
 
   async extractTechnicalData(pdfText: string): Promise<{
-    voltage: string[];
-    current: string[];
+    voltage: Quantity[];
+    current: Quantity[];
     dimensions: string[];
     protocols: string[];
     specifications: any;
   }> {
     try {
-      const voltage = this.extractPattern(pdfText, /(\d+(?:\.\d+)?)\s*(?:V|volt|volts?)/gi);
-      const current = this.extractPattern(pdfText, /(\d+(?:\.\d+)?)\s*(?:mA|ma|A|amp|amps?)/gi);
+      const voltage = findQuantities(pdfText, 'voltage');
+      const current = findQuantities(pdfText, 'current');
       const dimensions = this.extractPattern(pdfText, /(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches?)\s*[x×]\s*(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches?)(?:\s*[x×]\s*(\d+(?:\.\d+)?)\s*(?:mm|cm|in|inch|inches?))?/gi);
       const protocols = this.extractPattern(pdfText, /(I2C|SPI|UART|PWM|GPIO|ADC|OneWire|CAN|RS232|RS485|Ethernet|WiFi|Bluetooth)/gi);
 
@@ -161,21 +198,21 @@ export class PDFProcessor {
     const specs: any = {};
 
     // Operating temperature range
-    const tempMatch = text.match(/(?:operating|ambient)?\s*temperature\s*:?\s*(-?\d+(?:\.\d+)?)\s*°?[CF]?\s*(?:to|~|-)\s*(-?\d+(?:\.\d+)?)\s*°?[CF]/gi);
-    if (tempMatch) {
-      specs.temperature = tempMatch[0];
+    const temperature = this.labelledQuantity(text, /(?:operating|ambient)?\s*temperature/i, 'temperature');
+    if (temperature) {
+      specs.temperature = temperature;
     }
 
     // Supply voltage
-    const supplyMatch = text.match(/(?:supply|input|power)\s*voltage\s*:?\s*(\d+(?:\.\d+)?)\s*(?:V|volt)/gi);
-    if (supplyMatch) {
-      specs.supplyVoltage = supplyMatch[0];
+    const supplyVoltage = this.labelledQuantity(text, /(?:supply|input|power)\s*voltage/i, 'voltage');
+    if (supplyVoltage) {
+      specs.supplyVoltage = supplyVoltage;
     }
 
     // Frequency/Clock
-    const freqMatch = text.match(/(?:frequency|clock)\s*:?\s*(\d+(?:\.\d+)?)\s*(?:Hz|hz|MHz|mhz|GHz|ghz|kHz|khz)/gi);
-    if (freqMatch) {
-      specs.frequency = freqMatch[0];
+    const frequency = this.labelledQuantity(text, /frequency|clock/i, 'frequency');
+    if (frequency) {
+      specs.frequency = frequency;
     }
 
     // Package type
@@ -193,6 +230,15 @@ export class PDFProcessor {
     return specs;
   }
 
+  // The value stated right after the first label, e.g. "Supply voltage: 2.7 V to 5.5 V"
+  private labelledQuantity(text: string, label: RegExp, kind: QuantityKind): Quantity | undefined {
+    const match = label.exec(text);
+    if (!match) return undefined;
+
+    const start = match.index + match[0].length;
+    return parseQuantity(text.substring(start, start + 60), kind) || undefined;
+  }
+
   async performOCROnPDFImages(pdfBuffer: Buffer): Promise<string[]> {
     try {
       if (!this.ocrWorker) {
@@ -0,0 +1,327 @@
+import { convertUnit, parseQuantity } from '../../utils/quantity';
+import { CommunicationProtocol, ComponentSpecDraft, ExtractedField, PinConfiguration, Quantity, QuantityKind, ScrapedPDF } from '../../types';
+
+interface PageLine {
+  text: string;
+  page: number | null;
+}
+
+type Range = { min: number; max: number; unit: string };
+
+// Ranges and min/typ/max rows are table values; a lone figure may be a test condition
+const CONFIDENCE: Record<Quantity['form'], number> = { range: 0.9, columns: 0.85, tolerance: 0.8, single: 0.5 };
+
+// Rows in these sections are limits, not operating values
+const ABSOLUTE_MAXIMUM = /absolute\s+maximum/i;
+const OPERATING_SECTION = /electrical\s+characteristics|recommended\s+operating|operating\s+conditions|specifications/i;
+
+// Symbols are matched case-sensitively so words like "is" don't read as I(S)
+const VOLTAGE_LABELS = [/\b(?:supply|operating|input|power)\s+voltage\b|\bpower\s+supply\b/i, /\bV(?:DD|CC|IN)\b/];
+const CURRENT_LABELS = [
+  /\b(?:supply|operating|active|measuring|working)\s+current\b|\bcurrent\s+(?:consumption|draw|supply)\b/i,
+  /\bI(?:DD|CC)\b/,
+];
+// Text from here on describes another figure: standby current would read as a (very low) operating current
+const CURRENT_EXCLUDE = /standby|sleep|shutdown|power[- ]down|leakage|output\s+current|sink|source/i;
+const TEMPERATURE_LABELS = [/\b(?:operating|ambient|working)\s+temperature\b|\btemperature\s+range\b/i];
+const TEMPERATURE_EXCLUDE = /storage|soldering|junction/i;
+
+const PIN_SECTION = /pin\s+(?:description|configuration|assignment|definition|function)s?|pin\s*-?\s*out/i;
+const PIN_ROW = /^\s*(\d{1,3})\s+([A-Za-z0-9][\w/+#-]{0,11})(?=\s|$)\s*(.*)$/;
+
+const PROTOCOLS: Array<{ type: CommunicationProtocol['type']; pattern: RegExp }> = [
+  { type: 'I2C', pattern: /\b(?:I2C|I²C|IIC|TWI)\b/i },
+  { type: 'SPI', pattern: /\bSPI\b/ },
+  { type: 'UART', pattern: /\b(?:UART|USART)\b|\bserial\s+(?:interface|port|output)\b/i },
+  { type: 'OneWire', pattern: /\b(?:1-Wire|One-?Wire|single[- ]bus|single[- ]wire)\b/i },
+  { type: 'CAN', pattern: /\bCAN(?:[- ]bus|\s+2\.0[AB]?|\s+controller|\s+interface)\b/ },
+  { type: 'PWM', pattern: /\bPWM\b/ },
+];
+
+const I2C_ADDRESS = /address[^\n]{0,60}?\b0x([0-7][0-9a-f])\b|\b0x([0-7][0-9a-f])\b[^\n]{0,30}?address/gi;
+
+/**
+ * Turns a processed datasheet PDF into a draft ComponentSpec. Every value carries a confidence and the
+ * page it was read from so a reviewer can check it against the datasheet before approving.
+ */
+export class SpecExtractor {
+
+  extract(pdf: ScrapedPDF): ComponentSpecDraft {
+    const lines = this.pageLines(pdf);
+    const spec: ComponentSpecDraft = {
+      communication: this.extractProtocols(lines),
+      pins: this.extractPins(lines),
+    };
+
+    const voltage = this.extractVoltage(lines);
+    if (voltage) spec.voltage = voltage;
+
+    const current = this.extractCurrent(lines);
+    if (current) spec.current = current;
+
+    const temperature = this.extractTemperature(lines);
+    if (temperature) spec.temperature = temperature;
+
+    return spec;
+  }
+
+  // Whether anything worth reviewing was found; most scraped PDFs that aren't datasheets yield nothing
+  hasSpecs(spec: ComponentSpecDraft): boolean {
+    return !!spec.voltage || !!spec.current || spec.pins.length >= 2;
+  }
+
+  private pageLines(pdf: ScrapedPDF): PageLine[] {
+    let pages: Array<{ text: string; page: number | null }>;
+
+    if (pdf.pageTexts) {
+      pages = pdf.pageTexts.map((text, index) => ({ text, page: index + 1 }));
+    } else {
+      // pdf-parse starts every page with a blank line; trust the split only when the count matches
+      const split = pdf.text.split('\n\n').slice(1);
+      pages = split.length === pdf.pages
+        ? split.map((text, index) => ({ text, page: index + 1 }))
+        : [{ text: pdf.text, page: null }];
+    }
+
+    return pages.flatMap(({ text, page }) =>
+      text.split('\n')
+        .map(line => this.normalize(line))
+        .filter(line => line.length > 0)
+        .map(line => ({ text: line, page }))
+    );
+  }
+
+  // Range dashes, minus signs and unit symbols are left to the quantity parser
+  private normalize(line: string): string {
+    return line.replace(/\s+/g, ' ').trim();
+  }
+
+  // Labelled lines outside "Absolute Maximum Ratings", joined to the next two lines for split table cells
+  private *labelled(lines: PageLine[], labels: RegExp[], exclude?: RegExp): Generator<PageLine> {
+    let absoluteMaximum = false;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      if (!line) continue;
+
+      if (ABSOLUTE_MAXIMUM.test(line.text)) {
+        absoluteMaximum = true;
+      } else if (OPERATING_SECTION.test(line.text)) {
+        absoluteMaximum = false;
+      }
+
+      if (absoluteMaximum || !labels.some(label => label.test(line.text))) continue;
+
+      const following = lines.slice(index + 1, index + 3).filter(next => next.page === line.page).map(next => next.text);
+      let text = [line.text, ...following].join(' ');
+
+      const cut = exclude ? text.search(exclude) : -1;
+      if (cut >= 0) {
+        text = text.substring(0, cut);
+        if (!labels.some(label => label.test(text))) continue;
+      }
+
+      yield { text, page: line.page };
+    }
+  }
+
+  private extractVoltage(lines: PageLine[]): ExtractedField<Range> | undefined {
+    let best: ExtractedField<Range> | undefined;
+
+    for (const line of this.labelled(lines, VOLTAGE_LABELS)) {
+      const found = this.readRange(line.text, 'voltage');
+      if (!found) continue;
+
+      const { value, confidence } = found;
+      const volts = convertUnit(value.max, value.unit, 'V');
+      if (value.min < 0 || volts <= 0 || volts > 50) continue;
+
+      // "Supply voltage" rows beat bare VIN/VDD mentions
+      const penalty = /\b(?:supply|operating)\s+voltage\b|\bpower\s+supply\b/i.test(line.text) ? 0 : 0.1;
+      best = this.better(best, this.field(value, confidence - penalty, line));
+    }
+
+    return best;
+  }
+
+  private extractCurrent(lines: PageLine[]): ExtractedField<{ typical: number; max: number; unit: string }> | undefined {
+    let best: ExtractedField<{ typical: number; max: number; unit: string }> | undefined;
+
+    for (const line of this.labelled(lines, CURRENT_LABELS, CURRENT_EXCLUDE)) {
+      const found = this.readRange(line.text, 'current');
+      if (!found || found.value.min < 0) continue;
+
+      // Without a typical column, a bare range is typical-to-peak
+      const { value, confidence, typical } = found;
+      best = this.better(best, this.field(
+        { typical: typical ?? value.min, max: value.max, unit: value.unit },
+        confidence,
+        line
+      ));
+    }
+
+    return best;
+  }
+
+  private extractTemperature(lines: PageLine[]): ExtractedField<Range> | undefined {
+    let best: ExtractedField<Range> | undefined;
+
+    for (const line of this.labelled(lines, TEMPERATURE_LABELS, TEMPERATURE_EXCLUDE)) {
+      const found = this.readRange(line.text, 'temperature');
+      // A single temperature is a test condition, not a range
+      if (!found || found.value.min >= found.value.max) continue;
+
+      best = this.better(best, this.field(found.value, found.confidence, line));
+    }
+
+    return best;
+  }
+
+  private extractProtocols(lines: PageLine[]): Array<ExtractedField<CommunicationProtocol>> {
+    const found: Array<ExtractedField<CommunicationProtocol>> = [];
+
+    for (const { type, pattern } of PROTOCOLS) {
+      const mentions = lines.filter(line => pattern.test(line.text));
+      const first = mentions[0];
+      if (!first) continue;
+
+      const protocol: CommunicationProtocol = { type, details: {} };
+      let confidence = mentions.length >= 3 ? 0.8 : mentions.length === 2 ? 0.7 : 0.5;
+      let source = first;
+
+      if (type === 'I2C') {
+        const addresses = this.i2cAddresses(lines);
+        if (addresses.values.length > 0 && addresses.line) {
+          protocol.details.address = addresses.values.join(', ');
+          confidence = 0.9;
+          source = addresses.line;
+        }
+      }
+
+      // The first clock figure after the protocol's name, e.g. "SPI (3 and 4 wire, up to 10 MHz)"
+      const speed = mentions
+        .map(line => {
+          const start = line.text.search(pattern);
+          return parseQuantity(line.text.substring(start, start + 50), 'frequency');
+        })
+        .find(quantity => quantity && quantity.siValue >= 1000);
+      if (speed && (type === 'I2C' || type === 'SPI')) {
+        protocol.details.speed = `${speed.value}${speed.unit}`;
+      }
+
+      found.push(this.field(protocol, confidence, source));
+    }
+
+    return found;
+  }
+
+  private i2cAddresses(lines: PageLine[]): { values: string[]; line?: PageLine } {
+    const values = new Set<string>();
+    let first: PageLine | undefined;
+
+    for (const line of lines) {
+      for (const match of line.text.matchAll(I2C_ADDRESS)) {
+        const hex = match[1] || match[2];
+        if (!hex) continue;
+
+        const address = parseInt(hex, 16);
+        // 0x00-0x07 and 0x78-0x7F are reserved in 7-bit addressing
+        if (address < 0x08 || address > 0x77) continue;
+
+        values.add(`0x${hex.toUpperCase()}`);
+        first = first || line;
+      }
+    }
+
+    return first ? { values: [...values], line: first } : { values: [] };
+  }
+
+  // Reads the numbered rows that follow a "Pin Description" style heading
+  private extractPins(lines: PageLine[]): Array<ExtractedField<PinConfiguration>> {
+    const pins: Array<ExtractedField<PinConfiguration>> = [];
+    let inSection = false;
+    let misses = 0;
+
+    for (const line of lines) {
+      if (!inSection) {
+        inSection = PIN_SECTION.test(line.text);
+        misses = 0;
+        continue;
+      }
+
+      const row = line.text.match(PIN_ROW);
+      const number = row?.[1] ? parseInt(row[1], 10) : NaN;
+      const previous = pins[pins.length - 1]?.value.number;
+
+      // Pin numbers count up from 0 or 1; anything else is a section number or a value
+      const inSequence = previous === undefined ? number <= 1 : number > previous && number <= previous + 2;
+
+      // "9 Electrical characteristics" is the next section, not pin 9
+      const heading = !!row?.[2] && /^[A-Z][a-z]{4,}$/.test(row[2]) && !this.pinType(row[2], '');
+
+      if (!row?.[2] || !inSequence || heading) {
+        // Headers and wrapped descriptions sit between rows; a long gap ends the table
+        if (++misses > 6) {
+          if (pins.length > 0) break;
+          inSection = false;
+        }
+        continue;
+      }
+
+      misses = 0;
+      const name = row[2];
+      const description = (row[3] || '').trim();
+      const type = this.pinType(name, description);
+
+      pins.push(this.field(
+        {
+          number,
+          name,
+          type: type || 'digital',
+          function: (description || name).substring(0, 200),
+        },
+        type ? 0.8 : 0.6,
+        line
+      ));
+    }
+
+    return pins;
+  }
+
+  private pinType(name: string, description: string): PinConfiguration['type'] | null {
+    if (/^(?:GND|VSS|AGND|DGND|GROUND)$/i.test(name) || /\bground\b/i.test(description)) return 'ground';
+    if (/^(?:NC|N\/C|DNC|NULL)$/i.test(name) || /not\s+connected|no\s+connect/i.test(description)) return 'nc';
+    if (/^(?:V(?:CC|DD|IN|BAT|S|\+)|VDDIO|3V3|5V|VBUS|\+?\d+(?:\.\d+)?V)$/i.test(name) || /power\s+supply|supply\s+voltage/i.test(description)) {
+      return 'power';
+    }
+    if (/^(?:SDA|SCL|SCK|SCLK|MOSI|MISO|SDI|SDO|CS|CSB|CSN|SS|NSS|TXD?|RXD?|DATA|DQ|SDIO)$/i.test(name)) return 'communication';
+    if (/^(?:A\d+|AOUT|AIN\d*|VOUT|ADC\d*)$/i.test(name) || /\banalog\b/i.test(description)) return 'analog';
+    return null;
+  }
+
+  // The first quantity on the line, in the unit the catalogue writes it in ('C' rather than '°C')
+  private readRange(text: string, kind: QuantityKind): { value: Range; confidence: number; typical?: number } | null {
+    const quantity = parseQuantity(text, kind, { tableRows: true });
+    if (!quantity) return null;
+
+    return {
+      value: { min: quantity.min, max: quantity.max, unit: quantity.unit.replace('°', '') },
+      confidence: CONFIDENCE[quantity.form],
+      ...(quantity.typical !== undefined ? { typical: quantity.typical } : {}),
+    };
+  }
+
+  private field<T>(value: T, confidence: number, line: PageLine): ExtractedField<T> {
+    return {
+      value,
+      confidence: Math.round(Math.min(Math.max(confidence, 0), 1) * 100) / 100,
+      page: line.page,
+      source: line.text.substring(0, 200),
+    };
+  }
+
+  // The first value wins ties; datasheets state the headline figure before the details
+  private better<T>(current: ExtractedField<T> | undefined, candidate: ExtractedField<T>): ExtractedField<T> {
+    return current && current.confidence >= candidate.confidence ? current : candidate;
+  }
+}
@@ -0,0 +1,244 @@
+import { query } from '../database/connection';
+import { config } from '../config';
+import { logger, logScrapeStart, logScrapeSuccess, logScrapeError } from '../utils/logger';
+import { ScrapedData } from '../types';
+import { SourceScraper, ScrapeResult } from './source-scraper';
+import { FetchError } from './fetcher';
+import { ComponentDraftService } from '../services/drafts';
+import { saveScrapedData } from './storage';
+
+// Jobs left in 'processing' longer than this are assumed to belong to a crashed worker
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+interface QueueJob {
+  id: string;
+  url: string;
+  type: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+export class ScrapingQueueWorker {
+  private scraper: SourceScraper;
+  private draftService = new ComponentDraftService();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private activeJobs = new Set<Promise<void>>();
+  private lastJobStartedAt = 0;
+
+  constructor(scraper: SourceScraper = new SourceScraper()) {
+    this.scraper = scraper;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    await this.recoverStaleJobs();
+    this.schedulePoll(0);
+
+    logger.info('Scraping queue worker started', {
+      maxConcurrent: config.scraping.maxConcurrent,
+      pollIntervalMs: config.scraping.pollIntervalMs,
+    });
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Let in-flight jobs finish so they are not left in 'processing'
+    await Promise.allSettled([...this.activeJobs]);
+    logger.info('Scraping queue worker stopped');
+  }
+
+  getStatus(): { running: boolean; activeJobs: number; maxConcurrent: number } {
+    return {
+      running: this.running,
+      activeJobs: this.activeJobs.size,
+      maxConcurrent: config.scraping.maxConcurrent,
+    };
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch(error => logger.error('Scraping queue poll failed:', error))
+        .finally(() => this.schedulePoll(config.scraping.pollIntervalMs));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running && this.activeJobs.size < config.scraping.maxConcurrent) {
+      await this.waitForDelay();
+
+      const job = await this.claimNextJob();
+      if (!job) return;
+
+      const task: Promise<void> = this.runJob(job).finally(() => {
+        this.activeJobs.delete(task);
+      });
+      this.activeJobs.add(task);
+    }
+  }
+
+  // Space job starts by config.scraping.delayMs so we never burst the scraper
+  private async waitForDelay(): Promise<void> {
+    const elapsed = Date.now() - this.lastJobStartedAt;
+    if (elapsed < config.scraping.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, config.scraping.delayMs - elapsed));
+    }
+    this.lastJobStartedAt = Date.now();
+  }
+
+  private async claimNextJob(): Promise<QueueJob | null> {
+    // SKIP LOCKED lets several workers share the queue without claiming the same row
+    const result = await query(`
+      UPDATE scraping_queue
+      SET status = 'processing', attempts = attempts + 1, started_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM scraping_queue
+        WHERE status = 'pending' AND scheduled_at <= CURRENT_TIMESTAMP
+        ORDER BY priority DESC, scheduled_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, url, type, attempts, max_attempts
+    `);
+
+    return result.rows[0] || null;
+  }
+
+  private async runJob(job: QueueJob): Promise<void> {
+    const startTime = Date.now();
+    logScrapeStart(job.url, job.type);
+
+    try {
+      const { data: results, unchanged } = await this.scrapeJob(job);
+
+      if (results.length === 0 && unchanged === 0) {
+        throw new Error('No content scraped');
+      }
+
+      // Unchanged pages keep their stored row, drafts included
+      for (const data of results) {
+        const id = await saveScrapedData(data);
+        await this.extractDrafts(id, data);
+      }
+
+      await query(`
+        UPDATE scraping_queue
+        SET status = 'completed', completed_at = CURRENT_TIMESTAMP, error_message = NULL
+        WHERE id = $1
+      `, [job.id]);
+
+      logScrapeSuccess(job.url, job.type, Date.now() - startTime, results.length);
+      if (unchanged > 0) {
+        logger.debug('Pages unchanged since last scrape', { url: job.url, unchanged });
+      }
+
+    } catch (error) {
+      logScrapeError(job.url, job.type, error as Error);
+      await this.failJob(job, error as Error);
+    }
+  }
+
+  // The source is picked by the URL's host; the job type tells it what to expect there
+  private async scrapeJob(job: QueueJob): Promise<ScrapeResult> {
+    switch (job.type) {
+      case 'datasheet':
+      case 'tutorial':
+      case 'product':
+      case 'documentation':
+        return this.scraper.scrapeUrl(job.url, job.type);
+
+      default:
+        throw new PermanentJobError(`Unsupported scraping job type: ${job.type}`);
+    }
+  }
+
+  // Datasheet PDFs become component drafts for review; a bad PDF shouldn't fail the scrape itself
+  private async extractDrafts(scrapedDataId: string, data: ScrapedData): Promise<void> {
+    if (data.pdfs.length === 0) return;
+
+    try {
+      await this.draftService.createDrafts(scrapedDataId, data);
+    } catch (error) {
+      logger.warn('Component draft extraction failed', { url: data.url, error });
+    }
+  }
+
+  private async failJob(job: QueueJob, error: Error): Promise<void> {
+    // Pages robots.txt forbids, missing pages and the wrong kind of content won't come right on a retry
+    const exhausted = error instanceof PermanentJobError
+      || (error instanceof FetchError && error.permanent)
+      || job.attempts >= job.max_attempts;
+
+    try {
+      if (exhausted) {
+        await query(`
+          UPDATE scraping_queue
+          SET status = 'failed', error_message = $2, completed_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `, [job.id, error.message]);
+
+        logger.warn('Scraping job failed permanently', {
+          id: job.id,
+          url: job.url,
+          attempts: job.attempts,
+        });
+        return;
+      }
+
+      // Exponential backoff: base, 2x base, 4x base, ...
+      const backoffMs = config.scraping.retryBaseMs * 2 ** (job.attempts - 1);
+
+      await query(`
+        UPDATE scraping_queue
+        SET status = 'pending', error_message = $2,
+            scheduled_at = CURRENT_TIMESTAMP + ($3 * INTERVAL '1 millisecond')
+        WHERE id = $1
+      `, [job.id, error.message, backoffMs]);
+
+      logger.info('Scraping job rescheduled', {
+        id: job.id,
+        url: job.url,
+        attempts: job.attempts,
+        retryInMs: backoffMs,
+      });
+
+    } catch (updateError) {
+      logger.error('Failed to update scraping job after error:', { id: job.id, updateError });
+    }
+  }
+
+  private async recoverStaleJobs(): Promise<void> {
+    try {
+      const result = await query(`
+        UPDATE scraping_queue
+        SET status = 'pending', scheduled_at = CURRENT_TIMESTAMP
+        WHERE status = 'processing'
+          AND started_at < CURRENT_TIMESTAMP - ($1 * INTERVAL '1 millisecond')
+      `, [STALE_JOB_MS]);
+
+      if (result.rowCount) {
+        logger.warn(`Recovered ${result.rowCount} stale scraping jobs`);
+      }
+    } catch (error) {
+      logger.error('Failed to recover stale scraping jobs:', error);
+    }
+  }
+}
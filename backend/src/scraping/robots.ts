@@ -0,0 +1,108 @@
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  // Pattern length, for longest-match precedence
+  length: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+/**
+ * The rules a robots.txt (RFC 9309) sets for one crawler: the groups naming its product token, or the `*`
+ * groups when none do. The longest matching rule wins and Allow wins a tie; `*` and a trailing `$` work as
+ * wildcards, as major crawlers implement them.
+ */
+export class RobotsPolicy {
+  private rules: RobotsRule[];
+  readonly crawlDelayMs: number | null;
+
+  constructor(rules: RobotsRule[] = [], crawlDelayMs: number | null = null) {
+    this.rules = rules;
+    this.crawlDelayMs = crawlDelayMs;
+  }
+
+  // A missing robots.txt (any 4xx) allows everything
+  static allowAll(): RobotsPolicy {
+    return new RobotsPolicy();
+  }
+
+  // An unreachable one (5xx, network errors) is treated as disallowing the whole site for now
+  static disallowAll(): RobotsPolicy {
+    return new RobotsPolicy([{ allow: false, pattern: /^\//, length: 1 }]);
+  }
+
+  static parse(text: string, userAgent: string): RobotsPolicy {
+    const token = (userAgent.split('/')[0] || userAgent).trim().toLowerCase();
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasAgent) {
+          current = { agents: [], rules: [], crawlDelaySeconds: null };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      }
+
+      lastWasAgent = false;
+      if (!current) continue;
+
+      if ((key === 'allow' || key === 'disallow') && value) {
+        current.rules.push({ allow: key === 'allow', pattern: toPattern(value), length: value.length });
+      } else if (key === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+      }
+    }
+
+    const named = groups.filter(group => group.agents.includes(token));
+    const selected = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+    const delays = selected.flatMap(group => group.crawlDelaySeconds !== null ? [group.crawlDelaySeconds] : []);
+
+    return new RobotsPolicy(
+      selected.flatMap(group => group.rules),
+      delays.length > 0 ? Math.max(...delays) * 1000 : null
+    );
+  }
+
+  isAllowed(url: string): boolean {
+    const { pathname, search } = new URL(url);
+    const path = `${pathname}${search}`;
+    let best: RobotsRule | null = null;
+
+    for (const rule of this.rules) {
+      if (!rule.pattern.test(path)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+}
+
+function toPattern(value: string): RegExp {
+  const anchored = value.endsWith('$');
+  const body = (anchored ? value.slice(0, -1) : value)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
@@ -0,0 +1,95 @@
+import { readFile } from 'fs/promises';
+import { initializeConnections, closeConnections } from '../database/connection';
+import { ComponentDraftService } from '../services/drafts';
+import { logger } from '../utils/logger';
+import { SourceScraper } from './source-scraper';
+import { saveScrapedData } from './storage';
+import { ContentType, ScraperSource, createScraperRegistry } from './sources';
+
+const TYPES: ContentType[] = ['datasheet', 'tutorial', 'product', 'documentation'];
+
+/**
+ * Scrapes a source right away, without the queue or the server:
+ *
+ *   npm run scrape -- sparkfun [--section sensors] [--query bme280] [--limit 10]
+ *
+ * With --parse, a saved page is run through the source's parser and the result printed instead; nothing is
+ * fetched or stored, which is how a parser is checked against saved HTML:
+ *
+ *   npm run scrape -- adafruit --parse ./product.html [--url https://www.adafruit.com/product/2652] [--type product]
+ */
+async function scrapeSource(source: ScraperSource, options: { section?: string; query?: string; limit?: number }): Promise<number> {
+  const scraper = new SourceScraper();
+  const draftService = new ComponentDraftService();
+  const urls = await source.discover(options);
+  let saved = 0;
+  let unchanged = 0;
+
+  for (const { url, type } of urls) {
+    try {
+      const result = await scraper.scrapeUrl(url, type);
+      unchanged += result.unchanged;
+
+      for (const data of result.data) {
+        const id = await saveScrapedData(data);
+        if (data.pdfs.length > 0) await draftService.createDrafts(id, data);
+        saved++;
+      }
+    } catch (error) {
+      logger.warn(`Failed to scrape ${url}:`, error);
+    }
+  }
+
+  await scraper.cleanup();
+  logger.info('Source scraping completed', { source: source.name, urls: urls.length, saved, unchanged });
+  return saved;
+}
+
+async function parseSavedPage(source: ScraperSource, path: string, url: string | undefined, type: ContentType): Promise<void> {
+  const html = await readFile(path, 'utf8');
+  const data = source.parse({ url: url || `file://${path}`, html }, type);
+  process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+}
+
+// Run scraping if this file is executed directly
+if (require.main === module) {
+  const [name, ...flags] = process.argv.slice(2);
+  const flag = (key: string): string | undefined => {
+    const index = flags.indexOf(key);
+    return index >= 0 ? flags[index + 1] : undefined;
+  };
+
+  const source = name ? createScraperRegistry().get(name) : undefined;
+  const section = flag('--section');
+  const search = flag('--query');
+  const limit = flag('--limit') ? parseInt(flag('--limit') || '', 10) : undefined;
+  const savedPage = flag('--parse');
+  const type = flag('--type');
+
+  (async () => {
+    if (!source || (section && !source.sections.includes(section)) || (type && !TYPES.includes(type as ContentType))) {
+      logger.error('Usage: npm run scrape -- <arduino|sparkfun|adafruit> [--section name] [--query text] [--limit n]');
+      logger.error('       npm run scrape -- <source> --parse <page.html> [--url url] [--type datasheet|tutorial|product|documentation]');
+      process.exit(1);
+    }
+
+    try {
+      if (savedPage) {
+        await parseSavedPage(source, savedPage, flag('--url'), (type as ContentType | undefined) || 'product');
+        process.exit(0);
+      }
+
+      await initializeConnections();
+      await scrapeSource(source, {
+        ...(section ? { section } : {}),
+        ...(search ? { query: search } : {}),
+        ...(limit ? { limit } : {}),
+      });
+      await closeConnections();
+      process.exit(0);
+    } catch (error) {
+      logger.error('Scraping failed:', error);
+      process.exit(1);
+    }
+  })();
+}
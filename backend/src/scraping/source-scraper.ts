@@ -0,0 +1,98 @@
+import { logger } from '../utils/logger';
+import { ScrapedData, ScrapedImage, ScrapedPDF } from '../types';
+import { PDFProcessor } from './processors/pdf-processor';
+import { ImageProcessor } from './processors/image-processor';
+import { ContentType, ScraperRegistry, createScraperRegistry } from './sources';
+
+export interface ScrapeResult {
+  data: ScrapedData[];
+  // Pages the server reported unchanged since they were stored; they aren't parsed or processed again
+  unchanged: number;
+}
+
+/**
+ * Scrapes one URL with whichever registered source claims its host: the source fetches and parses the
+ * pages, then their schematics and pinouts are OCR'd and linked PDFs downloaded and parsed.
+ */
+export class SourceScraper {
+  private registry: ScraperRegistry;
+  private pdfProcessor = new PDFProcessor();
+  private imageProcessor = new ImageProcessor();
+
+  constructor(registry: ScraperRegistry = createScraperRegistry()) {
+    this.registry = registry;
+  }
+
+  async scrapeUrl(url: string, type: ContentType): Promise<ScrapeResult> {
+    const source = this.registry.forUrl(url);
+    if (!source) {
+      throw new Error(`No scraper source for ${url}`);
+    }
+
+    const pages = await source.fetch(url, type);
+    const results: ScrapedData[] = [];
+    let unchanged = 0;
+
+    for (const page of pages) {
+      if (page.notModified) {
+        unchanged++;
+        continue;
+      }
+
+      try {
+        const data = source.parse(page, type);
+        if (!data) continue;
+
+        data.metadata = {
+          ...data.metadata,
+          ...(page.etag ? { etag: page.etag } : {}),
+          ...(page.lastModified ? { lastModified: page.lastModified } : {}),
+        };
+        data.images = await this.processImages(data.images);
+        data.pdfs = await this.processPDFs(data.extractedData?.pdfLinks || []);
+        results.push(data);
+      } catch (error) {
+        logger.warn('Failed to process scraped page:', { source: source.name, url: page.url, error });
+      }
+    }
+
+    return { data: results, unchanged };
+  }
+
+  async cleanup(): Promise<void> {
+    await this.pdfProcessor.cleanup();
+    await this.imageProcessor.cleanup();
+  }
+
+  private async processImages(images: ScrapedImage[]): Promise<ScrapedImage[]> {
+    const processed: ScrapedImage[] = [];
+
+    for (const image of images.slice(0, 10)) { // Limit to 10 images per page
+      try {
+        if (image.type === 'schematic' || image.type === 'pinout') {
+          // Perform OCR on technical diagrams
+          processed.push({ ...image, ocrText: await this.imageProcessor.performOCR(image.url), analyzed: true });
+        } else {
+          processed.push(image);
+        }
+      } catch (error) {
+        logger.warn(`Failed to process image ${image.url}:`, error);
+      }
+    }
+
+    return processed;
+  }
+
+  private async processPDFs(pdfUrls: string[]): Promise<ScrapedPDF[]> {
+    const pdfs: ScrapedPDF[] = [];
+
+    for (const url of pdfUrls.slice(0, 5)) { // Limit to 5 PDFs per page
+      const processed = await this.pdfProcessor.processPDF(url);
+      if (processed) {
+        pdfs.push(processed);
+      }
+    }
+
+    return pdfs;
+  }
+}
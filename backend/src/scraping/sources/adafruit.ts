@@ -0,0 +1,48 @@
+import { ScrapedData } from '../../types';
+import { DiscoverOptions, DiscoveredUrl, FetchedPage, ScraperSource, fetchHTML } from './source';
+import { ProductStore, discoverProducts, parseProductPage } from './product-page';
+
+const STORE: ProductStore = {
+  label: 'adafruit.com',
+  idPrefix: 'adafruit',
+  manufacturer: 'Adafruit',
+  searchUrl: term => `https://www.adafruit.com/search?q=${encodeURIComponent(term)}&b=1`,
+  sections: {
+    sensors: 'sensor',
+    boards: 'feather',
+    displays: 'display',
+    motors: 'motor',
+    wireless: 'wireless',
+  },
+  productLink: /^https:\/\/(?:www\.)?adafruit\.com\/product\/\d+$/i,
+  selectors: {
+    title: ['h1.products_name', '#prod-right-side h1', 'h1'],
+    price: ['#prod-price .price', '.product-price', '.price'],
+    sku: ['.product-id'],
+    description: ['#tab-description-content p', '.product-description'],
+    content: ['#tab-description-content', '#tab-technical-details-content'],
+    images: ['#prod-main-image img', '.gallery-image img'],
+    // Adafruit shows the product id ("Product ID: 2652") as its SKU
+    skuFromUrl: /\/product\/(\d+)/,
+  },
+};
+
+// Adafruit product pages, found through the site search
+export class AdafruitSource implements ScraperSource {
+  readonly name = 'adafruit';
+  readonly label = STORE.label;
+  readonly hosts = ['adafruit.com'];
+  readonly sections = Object.keys(STORE.sections);
+
+  async discover(options: DiscoverOptions): Promise<DiscoveredUrl[]> {
+    return discoverProducts(STORE, options);
+  }
+
+  async fetch(url: string): Promise<FetchedPage[]> {
+    return [await fetchHTML(url, { conditional: true })];
+  }
+
+  parse(page: FetchedPage): ScrapedData | null {
+    return parseProductPage(page, STORE);
+  }
+}
@@ -0,0 +1,208 @@
+import { ApifyClient } from 'apify-client';
+import { config } from '../../config';
+import { findQuantities } from '../../utils/quantity';
+import { ScrapedData } from '../../types';
+import { HTMLProcessor } from '../processors/html-processor';
+import {
+  ContentType,
+  DiscoverOptions,
+  DiscoveredUrl,
+  FetchedPage,
+  ScraperSource,
+  extractProtocols,
+  scrapedDataId,
+  toScrapedImages,
+} from './source';
+
+interface ArduinoSection {
+  type: ContentType;
+  startUrls: string[];
+  // Crawled sections follow these links from their start URLs, up to maxPages
+  linkSelector?: string;
+  maxPages: number;
+  maxConcurrency?: number;
+  requestTimeoutSecs?: number;
+}
+
+const SECTIONS: Record<string, ArduinoSection> = {
+  documentation: {
+    type: 'documentation',
+    startUrls: ['https://docs.arduino.cc/software/', 'https://www.arduino.cc/en/Guide'],
+    maxPages: 1,
+  },
+  hardware: {
+    type: 'product',
+    startUrls: ['https://docs.arduino.cc/hardware/', 'https://www.arduino.cc/en/hardware'],
+    linkSelector: 'a[href*="/hardware/"], a[href*="/docs/"]',
+    maxPages: 200,
+    maxConcurrency: 3,
+    requestTimeoutSecs: 30,
+  },
+  tutorials: {
+    type: 'tutorial',
+    startUrls: ['https://docs.arduino.cc/tutorials/', 'https://create.arduino.cc/projecthub'],
+    linkSelector: 'a[href*="/tutorials/"], a[href*="/project/"]',
+    maxPages: 500,
+    maxConcurrency: 5,
+    requestTimeoutSecs: 45,
+  },
+};
+
+const TUTORIAL_CONTENT = ['.content', '.tutorial-content', '.project-content', 'article', 'main'];
+
+// Runs in the crawler's browser; parsing happens here, on the rendered HTML
+const PAGE_FUNCTION = `
+  async function pageFunction(context) {
+    const { page, request } = context;
+    return { url: request.url, html: await page.content() };
+  }
+`;
+
+/**
+ * arduino.cc documentation, hardware pages and tutorials. Pages are rendered by Apify's web scraper, since
+ * docs.arduino.cc builds its content client-side, which also makes this the source for queued URLs on
+ * hosts no other source claims.
+ */
+export class ArduinoSource implements ScraperSource {
+  readonly name = 'arduino';
+  readonly label = 'arduino.cc';
+  readonly hosts = ['arduino.cc'];
+  readonly sections = Object.keys(SECTIONS);
+  private client: ApifyClient;
+  private htmlProcessor = new HTMLProcessor();
+
+  constructor() {
+    this.client = new ApifyClient({
+      token: config.apis.apify.token,
+    });
+  }
+
+  async discover(options: DiscoverOptions): Promise<DiscoveredUrl[]> {
+    const sections = options.section ? [options.section] : this.sections;
+
+    const urls = sections.flatMap(name => {
+      const section = SECTIONS[name];
+      return section ? section.startUrls.map(url => ({ url, type: section.type })) : [];
+    });
+
+    return options.limit ? urls.slice(0, options.limit) : urls;
+  }
+
+  async fetch(url: string, type: ContentType): Promise<FetchedPage[]> {
+    // A section's start URL is crawled along its links; anything else is a single page
+    const section = Object.values(SECTIONS).find(candidate => candidate.type === type && candidate.startUrls.includes(url));
+
+    const input = {
+      startUrls: [{ url }],
+      pageFunction: PAGE_FUNCTION,
+      proxyConfiguration: { useApifyProxy: true },
+      maxRequestsPerCrawl: section?.maxPages ?? 1,
+      requestTimeoutSecs: section?.requestTimeoutSecs ?? (type === 'tutorial' ? 45 : 30),
+      ...(section?.linkSelector ? { linkSelector: section.linkSelector } : {}),
+      ...(section?.maxConcurrency ? { maxConcurrency: section.maxConcurrency } : {}),
+    };
+
+    const run = await this.client.actor('apify/web-scraper').call(input);
+    const { items } = await this.client.dataset(run.defaultDatasetId).listItems();
+
+    return items.flatMap(item =>
+      typeof item.url === 'string' && typeof item.html === 'string' ? [{ url: item.url, html: item.html }] : []
+    );
+  }
+
+  parse(page: FetchedPage, type: ContentType): ScrapedData | null {
+    const parsed = this.htmlProcessor.processHTML(page.html, {
+      url: page.url,
+      ...(type === 'tutorial' ? { contentSelectors: TUTORIAL_CONTENT } : {}),
+    });
+
+    if (!parsed.text) return null;
+
+    const images = toScrapedImages(parsed.images);
+    const data: ScrapedData = {
+      id: scrapedDataId(type === 'tutorial' || type === 'datasheet' ? type : 'arduino'),
+      url: page.url,
+      title: parsed.title,
+      content: parsed.text,
+      images,
+      pdfs: [],
+      metadata: {
+        scrapedAt: new Date(),
+        source: type === 'datasheet' ? 'component-datasheet' : this.label,
+        type: type === 'tutorial' || type === 'datasheet' ? type : this.determineContentType(page.url, parsed.title),
+      },
+      processed: false,
+      extractedData: { pdfLinks: parsed.pdfs },
+    };
+
+    if (type === 'tutorial') {
+      data.extractedData = {
+        ...data.extractedData,
+        difficulty: this.extractDifficulty(parsed.text),
+        components: this.extractComponents(parsed.text),
+        estimatedTime: this.extractTime(parsed.text),
+      };
+    }
+
+    if (type === 'datasheet') {
+      data.extractedData = {
+        ...data.extractedData,
+        voltage: findQuantities(parsed.text, 'voltage'),
+        current: findQuantities(parsed.text, 'current'),
+        protocols: extractProtocols(parsed.text),
+        pinouts: images.filter(img => img.type === 'pinout'),
+      };
+    }
+
+    return data;
+  }
+
+  private determineContentType(url: string, title: string): ContentType {
+    if (url.includes('datasheet') || title.includes('datasheet')) return 'datasheet';
+    if (url.includes('tutorial') || title.includes('tutorial')) return 'tutorial';
+    if (url.includes('product') || title.includes('product')) return 'product';
+    return 'documentation';
+  }
+
+  private extractDifficulty(text: string): string {
+    const difficulties = ['beginner', 'intermediate', 'advanced', 'expert'];
+    const textLower = text.toLowerCase();
+
+    for (const difficulty of difficulties) {
+      if (textLower.includes(difficulty)) {
+        return difficulty;
+      }
+    }
+
+    return 'unknown';
+  }
+
+  private extractComponents(text: string): string[] {
+    const componentPatterns = [
+      /Arduino\s+\w+/gi,
+      /Raspberry\s+Pi\s*\w*/gi,
+      /ESP32|ESP8266/gi,
+      /sensor\w*/gi,
+      /LED\w*/gi,
+      /resistor\w*/gi,
+      /capacitor\w*/gi,
+    ];
+
+    const components: string[] = [];
+
+    for (const pattern of componentPatterns) {
+      const matches = text.match(pattern);
+      if (matches) {
+        components.push(...matches);
+      }
+    }
+
+    return [...new Set(components)]; // Remove duplicates
+  }
+
+  private extractTime(text: string): string {
+    const timePattern = /(\d+)\s*(minute|hour|day)s?/gi;
+    const match = text.match(timePattern);
+    return match ? match[0] : 'unknown';
+  }
+}
@@ -0,0 +1,49 @@
+import { ScraperSource } from './source';
+import { ArduinoSource } from './arduino';
+import { SparkFunSource } from './sparkfun';
+import { AdafruitSource } from './adafruit';
+
+export * from './source';
+
+export class ScraperRegistry {
+  private sources = new Map<string, ScraperSource>();
+  private fallback: ScraperSource | null = null;
+
+  // The fallback source scrapes queued URLs on hosts no registered source claims
+  register(source: ScraperSource, options: { fallback?: boolean } = {}): void {
+    this.sources.set(source.name, source);
+    if (options.fallback) this.fallback = source;
+  }
+
+  get(name: string): ScraperSource | undefined {
+    return this.sources.get(name);
+  }
+
+  list(): ScraperSource[] {
+    return [...this.sources.values()];
+  }
+
+  forUrl(url: string): ScraperSource | undefined {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+
+    const source = this.list().find(candidate =>
+      candidate.hosts.some(claimed => host === claimed || host.endsWith(`.${claimed}`))
+    );
+
+    return source || this.fallback || undefined;
+  }
+}
+
+export function createScraperRegistry(): ScraperRegistry {
+  const registry = new ScraperRegistry();
+  // Apify renders any page, so arduino.cc's source also takes URLs nobody else claims
+  registry.register(new ArduinoSource(), { fallback: true });
+  registry.register(new SparkFunSource());
+  registry.register(new AdafruitSource());
+  return registry;
+}
@@ -0,0 +1,163 @@
+import * as cheerio from 'cheerio';
+import { findQuantities } from '../../utils/quantity';
+import { ScrapedData } from '../../types';
+import { HTMLProcessor } from '../processors/html-processor';
+import { DiscoverOptions, DiscoveredUrl, FetchedPage, extractProtocols, fetchHTML, matchingLinks, scrapedDataId, toScrapedImages } from './source';
+
+// Where a store's product page keeps each field; selectors are tried in order
+export interface ProductSelectors {
+  title: string[];
+  price: string[];
+  sku: string[];
+  description: string[];
+  // The description, feature and specification blocks the page text is read from
+  content: string[];
+  images: string[];
+  // SKU from the URL, for stores that only show it as the product id
+  skuFromUrl?: RegExp;
+}
+
+export interface ProductStore {
+  label: string;
+  idPrefix: string;
+  manufacturer: string;
+  // Site search results page for a term
+  searchUrl: (term: string) => string;
+  // Search terms a run covers when no query is given, by section name
+  sections: Record<string, string>;
+  // What a link to one product page looks like
+  productLink: RegExp;
+  selectors: ProductSelectors;
+}
+
+// The schema.org Product object stores embed for search engines; preferred over markup when present
+interface ProductJsonLd {
+  name?: string;
+  sku?: string | number;
+  description?: string;
+  image?: string | string[];
+  brand?: string | { name?: string };
+  offers?: { price?: string | number; priceCurrency?: string } | Array<{ price?: string | number; priceCurrency?: string }>;
+}
+
+const htmlProcessor = new HTMLProcessor();
+
+const DEFAULT_DISCOVER_LIMIT = 20;
+
+// Product pages linked from the store's search results, for the query or each section's term
+export async function discoverProducts(store: ProductStore, options: DiscoverOptions): Promise<DiscoveredUrl[]> {
+  const terms = options.query
+    ? [options.query]
+    : (options.section ? [options.section] : Object.keys(store.sections)).flatMap(name => store.sections[name] ?? []);
+  const limit = options.limit ?? DEFAULT_DISCOVER_LIMIT;
+  const urls = new Set<string>();
+
+  for (const term of terms) {
+    if (urls.size >= limit) break;
+
+    const listing = await fetchHTML(store.searchUrl(term));
+    const $ = cheerio.load(listing.html);
+    const hrefs = $('a[href]').map((_, element) => $(element).attr('href') || '').get();
+
+    for (const link of matchingLinks(hrefs, listing.url, store.productLink)) {
+      urls.add(link);
+    }
+  }
+
+  return [...urls].slice(0, limit).map(url => ({ url, type: 'product' }));
+}
+
+// One product page as ScrapedData of type 'product', with price, SKU and the specs its text states
+export function parseProductPage(page: FetchedPage, store: ProductStore): ScrapedData | null {
+  const $ = cheerio.load(page.html);
+  const { selectors } = store;
+  const product = productJsonLd($);
+
+  const title = product?.name?.trim() || firstText($, selectors.title) || $('meta[property="og:title"]').attr('content')?.trim();
+  if (!title) return null;
+
+  const offer = Array.isArray(product?.offers) ? product?.offers[0] : product?.offers;
+  const price = parsePrice(
+    offer?.price ?? ($('meta[property="product:price:amount"]').attr('content') || firstText($, selectors.price))
+  );
+  const currency = offer?.priceCurrency || $('meta[property="product:price:currency"]').attr('content') || 'USD';
+  const sku = String(product?.sku ?? '').trim()
+    || firstText($, selectors.sku)?.replace(/^(?:SKU|Product ID)\s*:?\s*/i, '')
+    || (selectors.skuFromUrl ? page.url.match(selectors.skuFromUrl)?.[1] : undefined);
+  const description = product?.description?.trim()
+    || firstText($, selectors.description)
+    || $('meta[name="description"]').attr('content')?.trim()
+    || '';
+  const brand = typeof product?.brand === 'string' ? product.brand : product?.brand?.name;
+
+  const parsed = htmlProcessor.processHTML(page.html, { url: page.url, contentSelectors: [selectors.content.join(', ')] });
+  const galleryImages = [
+    ...(Array.isArray(product?.image) ? product.image : product?.image ? [product.image] : []),
+    ...$(selectors.images.join(', ')).map((_, element) => $(element).attr('src') || $(element).attr('data-src') || '').get(),
+  ].flatMap(src => {
+    try {
+      return src ? [new URL(src, page.url).toString()] : [];
+    } catch {
+      return [];
+    }
+  });
+
+  return {
+    id: scrapedDataId(store.idPrefix),
+    url: page.url,
+    title,
+    content: parsed.text || description,
+    images: toScrapedImages([...new Set([...galleryImages, ...parsed.images])]),
+    pdfs: [],
+    metadata: {
+      scrapedAt: new Date(),
+      source: store.label,
+      type: 'product',
+    },
+    processed: false,
+    extractedData: {
+      manufacturer: brand?.trim() || store.manufacturer,
+      description,
+      ...(sku ? { sku } : {}),
+      ...(price !== null ? { price, currency } : {}),
+      voltage: findQuantities(parsed.text, 'voltage'),
+      current: findQuantities(parsed.text, 'current'),
+      protocols: extractProtocols(parsed.text),
+      pdfLinks: parsed.pdfs,
+    },
+  };
+}
+
+function productJsonLd($: cheerio.CheerioAPI): ProductJsonLd | null {
+  for (const element of $('script[type="application/ld+json"]').toArray()) {
+    try {
+      const json = JSON.parse($(element).contents().text());
+      const nodes: unknown[] = Array.isArray(json) ? json : Array.isArray(json?.['@graph']) ? json['@graph'] : [json];
+      const product = nodes.find(node => {
+        const type = (node as { '@type'?: unknown })?.['@type'];
+        return type === 'Product' || (Array.isArray(type) && type.includes('Product'));
+      });
+      if (product) return product as ProductJsonLd;
+    } catch {
+      // Stores ship broken JSON-LD now and then; the markup is still there
+    }
+  }
+
+  return null;
+}
+
+function firstText($: cheerio.CheerioAPI, selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const text = $(selector).first().text().replace(/\s+/g, ' ').trim();
+    if (text) return text;
+  }
+
+  return undefined;
+}
+
+function parsePrice(value: string | number | undefined): number | null {
+  if (value === undefined) return null;
+
+  const price = typeof value === 'number' ? value : parseFloat(value.replace(/[^0-9.]/g, ''));
+  return Number.isFinite(price) ? price : null;
+}
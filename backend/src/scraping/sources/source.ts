@@ -0,0 +1,111 @@
+import { ScrapedData, ScrapedImage } from '../../types';
+import { FetchResponse, politeFetcher } from '../fetcher';
+import { getValidators } from '../storage';
+
+export type ContentType = ScrapedData['metadata']['type'];
+
+// A page as fetched, before any parsing
+export interface FetchedPage {
+  url: string;
+  html: string;
+  // Unchanged since it was stored (a 304 to a conditional GET); html is empty and there is nothing to parse
+  notModified?: boolean;
+  etag?: string;
+  lastModified?: string;
+}
+
+// A URL a source wants scraped, and the kind of content expected there
+export interface DiscoveredUrl {
+  url: string;
+  type: ContentType;
+}
+
+export interface DiscoverOptions {
+  // One of the source's sections; every section when omitted
+  section?: string;
+  // Narrows discovery to matching products on sources with a site search
+  query?: string;
+  limit?: number;
+}
+
+/**
+ * A site the scraper knows how to read. discover() lists the URLs a run of the source should scrape,
+ * fetch() returns the pages behind one URL (a crawling source may include pages linked from it) and
+ * parse() turns one page into ScrapedData. parse() never touches the network, so a parser can be checked
+ * against saved HTML; images and linked PDFs are analysed afterwards by SourceScraper, the same way for every source.
+ */
+export interface ScraperSource {
+  // Registry key, as in POST /api/scrape/:source
+  readonly name: string;
+  // Stored as metadata.source
+  readonly label: string;
+  // Queued URLs on these hosts (or their subdomains) are scraped by this source
+  readonly hosts: string[];
+  readonly sections: string[];
+  discover(options: DiscoverOptions): Promise<DiscoveredUrl[]>;
+  fetch(url: string, type: ContentType): Promise<FetchedPage[]>;
+  parse(page: FetchedPage, type: ContentType): ScrapedData | null;
+}
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Plain HTTP fetch for sources whose pages don't need a browser to render. A conditional fetch sends the
+// validators of the stored copy, so an unchanged page comes back as notModified.
+export async function fetchHTML(url: string, options: { conditional?: boolean } = {}): Promise<FetchedPage> {
+  const validators = options.conditional ? await getValidators(url) : {};
+  const response = await politeFetcher.fetch(url, { accept: HTML_TYPES, ...validators });
+
+  return {
+    url,
+    html: response.notModified ? '' : decodeBody(response),
+    ...(response.notModified ? { notModified: true } : {}),
+    ...(response.etag ? { etag: response.etag } : {}),
+    ...(response.lastModified ? { lastModified: response.lastModified } : {}),
+  };
+}
+
+function decodeBody(response: FetchResponse): string {
+  try {
+    return new TextDecoder(response.charset || 'utf-8').decode(response.body);
+  } catch {
+    // Unknown charset label
+    return response.body.toString('utf8');
+  }
+}
+
+export function scrapedDataId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+// By URL only; SourceScraper OCRs the schematics and pinouts afterwards
+export function toScrapedImages(urls: string[]): ScrapedImage[] {
+  return urls.map(url => ({ url, type: classifyImageUrl(url), analyzed: false }));
+}
+
+export function classifyImageUrl(url: string): ScrapedImage['type'] {
+  const urlLower = url.toLowerCase();
+  if (urlLower.includes('schematic') || urlLower.includes('circuit')) return 'schematic';
+  if (urlLower.includes('pinout') || urlLower.includes('pin')) return 'pinout';
+  if (urlLower.includes('diagram') || urlLower.includes('wiring')) return 'diagram';
+  return 'photo';
+}
+
+export function extractProtocols(text: string): string[] {
+  const matches = text.match(/(I2C|SPI|UART|PWM|GPIO|ADC|OneWire|CAN)/gi);
+  return matches ? [...new Set(matches)] : [];
+}
+
+// Links found on a listing page, made absolute and kept when they look like product pages
+export function matchingLinks(hrefs: string[], base: string, pattern: RegExp): string[] {
+  const links = hrefs.flatMap(href => {
+    try {
+      const url = new URL(href, base);
+      url.hash = '';
+      return [url.toString()];
+    } catch {
+      return [];
+    }
+  });
+
+  return [...new Set(links.filter(link => pattern.test(link)))];
+}
@@ -0,0 +1,47 @@
+import { ScrapedData } from '../../types';
+import { DiscoverOptions, DiscoveredUrl, FetchedPage, ScraperSource, fetchHTML } from './source';
+import { ProductStore, discoverProducts, parseProductPage } from './product-page';
+
+const STORE: ProductStore = {
+  label: 'sparkfun.com',
+  idPrefix: 'sparkfun',
+  manufacturer: 'SparkFun',
+  searchUrl: term => `https://www.sparkfun.com/search/results?term=${encodeURIComponent(term)}`,
+  sections: {
+    sensors: 'sensor',
+    boards: 'development board',
+    displays: 'display',
+    motors: 'motor driver',
+    wireless: 'wireless',
+  },
+  // Old-style /products/12345 links and the current shop's product-name.html pages
+  productLink: /^https:\/\/(?:www\.)?sparkfun\.com\/(?:products\/\d+|[a-z0-9-]+\.html)$/i,
+  selectors: {
+    title: ['h1.page-title', '.product-title h1', 'h1'],
+    price: ['.product-info-price .price', '.product-price', '.price'],
+    sku: ['.product.attribute.sku .value', '.sku'],
+    description: ['.product.attribute.overview', '.product-description'],
+    content: ['.product.attribute.description', '.product.attribute.overview', '#description-tab', '#features-tab', '#specifications-tab'],
+    images: ['.gallery-placeholder img', '.product-image img', '.fotorama__img'],
+  },
+};
+
+// SparkFun product pages, found through the site search
+export class SparkFunSource implements ScraperSource {
+  readonly name = 'sparkfun';
+  readonly label = STORE.label;
+  readonly hosts = ['sparkfun.com'];
+  readonly sections = Object.keys(STORE.sections);
+
+  async discover(options: DiscoverOptions): Promise<DiscoveredUrl[]> {
+    return discoverProducts(STORE, options);
+  }
+
+  async fetch(url: string): Promise<FetchedPage[]> {
+    return [await fetchHTML(url, { conditional: true })];
+  }
+
+  parse(page: FetchedPage): ScrapedData | null {
+    return parseProductPage(page, STORE);
+  }
+}
@@ -0,0 +1,53 @@
+import { query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { ScrapedData } from '../types';
+
+// Upsert a scraped page into scraped_data, keyed by URL. Re-scraping a URL
+// replaces its content and marks it unprocessed so extraction runs again.
+export async function saveScrapedData(data: ScrapedData): Promise<string> {
+  try {
+    const result = await query(`
+      INSERT INTO scraped_data (url, title, content, images, pdfs, metadata, processed, extracted_data)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (url) DO UPDATE SET
+        title = EXCLUDED.title,
+        content = EXCLUDED.content,
+        images = EXCLUDED.images,
+        pdfs = EXCLUDED.pdfs,
+        metadata = EXCLUDED.metadata,
+        processed = EXCLUDED.processed,
+        extracted_data = EXCLUDED.extracted_data
+      RETURNING id
+    `, [
+      data.url,
+      data.title.substring(0, 500),
+      data.content,
+      JSON.stringify(data.images),
+      JSON.stringify(data.pdfs),
+      JSON.stringify(data.metadata),
+      data.processed,
+      data.extractedData !== undefined ? JSON.stringify(data.extractedData) : null,
+    ]);
+
+    return result.rows[0].id;
+
+  } catch (error) {
+    logger.error('Failed to save scraped data:', { url: data.url, error });
+    throw error;
+  }
+}
+
+// The ETag and Last-Modified a stored page was fetched with, for a conditional re-fetch
+export async function getValidators(url: string): Promise<{ etag?: string; lastModified?: string }> {
+  const result = await query(`
+    SELECT metadata->>'etag' AS etag, metadata->>'lastModified' AS last_modified
+    FROM scraped_data
+    WHERE url = $1
+  `, [url]);
+
+  const row = result.rows[0];
+  return {
+    ...(row?.etag ? { etag: row.etag } : {}),
+    ...(row?.last_modified ? { lastModified: row.last_modified } : {}),
+  };
+}
@@ -0,0 +1,476 @@
+import Joi from 'joi';
+import { config } from '../config';
+import { logger, logApiCall, logApiError } from '../utils/logger';
+import { ComponentService } from './components';
+import { CompatibilityService } from './compatibility';
+import { BoardService } from './boards';
+import { BoardComparisonService } from './comparison';
+import { IntentAnalysis } from './claude';
+import { LLMMessage, LLMProvider, LLMToolCall, LLMToolDefinition, LLMToolResult, createLLMProvider, llmRequest } from './llm';
+import { AgentStep, BoardComparison, ChatMessage, CompatibilityCheck, Component, Recommendation } from '../types';
+
+// What a tool hands back: data for the model plus a one-line summary for the recorded step
+interface ToolOutput {
+  data: unknown;
+  summary: string;
+}
+
+export interface AgentTool {
+  definition: LLMToolDefinition;
+  schema: Joi.ObjectSchema;
+  run(input: Record<string, unknown>, state: AgentRunState): Promise<ToolOutput>;
+}
+
+// Results gathered across a run so the chat UI gets the same cards as the intent switch produced
+interface AgentRunState {
+  components: Map<string, Component>;
+  scores: Map<string, number>;
+  compatibility: CompatibilityCheck | null;
+  comparison: BoardComparison | null;
+}
+
+export interface AgentRunOptions {
+  message: string;
+  history: ChatMessage[];
+  intent?: IntentAnalysis;
+  // Tool calls this session may still make
+  toolBudget: number;
+  onStep?: (step: AgentStep) => void;
+}
+
+export interface AgentResult {
+  content: string;
+  steps: AgentStep[];
+  recommendations: Recommendation[];
+  compatibility: CompatibilityCheck | null;
+  comparison: BoardComparison | null;
+  toolCallsUsed: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Tool output sent back to the model is capped so a broad search can't blow the context window
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+export class AgentService {
+  private llm: LLMProvider;
+  private tools = new Map<string, AgentTool>();
+  private componentService = new ComponentService();
+  private compatibilityService = new CompatibilityService();
+  private boardService = new BoardService();
+  private comparisonService = new BoardComparisonService();
+
+  constructor(llm: LLMProvider = createLLMProvider()) {
+    this.llm = llm;
+    this.registerDefaultTools();
+  }
+
+  registerTool(tool: AgentTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  async run(options: AgentRunOptions): Promise<AgentResult> {
+    const startTime = Date.now();
+    const state: AgentRunState = { components: new Map(), scores: new Map(), compatibility: null, comparison: null };
+    const steps: AgentStep[] = [];
+    const messages: LLMMessage[] = [{ role: 'user', content: options.message }];
+    const definitions = [...this.tools.values()].map(tool => tool.definition);
+
+    let budget = options.toolBudget;
+    let content = '';
+
+    try {
+      for (let step = 1; step <= config.agent.maxSteps; step++) {
+        // The last step, or an exhausted budget, withholds the tools so the model has to answer
+        const canUseTools = step < config.agent.maxSteps && budget > 0;
+
+        const turn = await this.llm.converse({
+          ...llmRequest('agent', options.message, options.message),
+          system: this.systemPrompt(options),
+          messages,
+          ...(canUseTools ? { tools: definitions } : {}),
+        });
+
+        if (turn.toolCalls.length === 0) {
+          content = turn.text;
+          break;
+        }
+
+        messages.push({ role: 'assistant', content: turn.text, toolCalls: turn.toolCalls });
+
+        const results: LLMToolResult[] = [];
+        for (const call of turn.toolCalls) {
+          if (budget <= 0) {
+            results.push({ toolCallId: call.id, content: 'Tool budget for this session is used up', isError: true });
+            continue;
+          }
+
+          budget--;
+          const { result, record } = await this.runTool(call, steps.length + 1, state);
+          results.push(result);
+          steps.push(record);
+          options.onStep?.(record);
+        }
+
+        messages.push({ role: 'user', content: '', toolResults: results });
+      }
+
+      if (!content.trim()) {
+        throw new Error(`Agent produced no answer within ${config.agent.maxSteps} steps`);
+      }
+
+      logApiCall(this.llm.name, 'agent', Date.now() - startTime, true);
+
+    } catch (error) {
+      logApiError(this.llm.name, 'agent', error as Error);
+      throw error;
+    }
+
+    return {
+      content,
+      steps,
+      recommendations: this.collectRecommendations(state),
+      compatibility: state.compatibility,
+      comparison: state.comparison,
+      toolCallsUsed: options.toolBudget - budget,
+    };
+  }
+
+  private async runTool(
+    call: LLMToolCall,
+    stepNumber: number,
+    state: AgentRunState
+  ): Promise<{ result: LLMToolResult; record: AgentStep }> {
+    const startTime = Date.now();
+    const tool = this.tools.get(call.name);
+    const record: AgentStep = {
+      step: stepNumber,
+      tool: call.name,
+      input: call.input,
+      ok: false,
+      summary: '',
+      durationMs: 0,
+    };
+
+    try {
+      if (!tool) {
+        throw new Error(`Unknown tool "${call.name}"`);
+      }
+
+      const { error, value } = tool.schema.validate(call.input, { convert: true });
+      if (error) {
+        throw new Error(`Invalid input: ${error.details.map(detail => detail.message).join(', ')}`);
+      }
+
+      const output = await tool.run(value, state);
+      const serialized = JSON.stringify(output.data);
+
+      record.ok = true;
+      record.summary = output.summary;
+      record.durationMs = Date.now() - startTime;
+
+      return {
+        result: {
+          toolCallId: call.id,
+          content: serialized.length > MAX_TOOL_RESULT_CHARS
+            ? `${serialized.slice(0, MAX_TOOL_RESULT_CHARS)}… (truncated)`
+            : serialized,
+        },
+        record,
+      };
+
+    } catch (error) {
+      const message = (error as Error).message;
+      logger.warn('Agent tool call failed', { tool: call.name, error: message });
+
+      record.summary = message;
+      record.durationMs = Date.now() - startTime;
+
+      return { result: { toolCallId: call.id, content: message, isError: true }, record };
+    }
+  }
+
+  // Models often pass a part's name rather than its id; take the closest name match
+  private async resolveComponent(ref: string): Promise<Component> {
+    if (UUID_PATTERN.test(ref)) {
+      const component = await this.componentService.getComponent(ref);
+      if (component) {
+        return component;
+      }
+    } else {
+      const { components } = await this.componentService.searchComponentsAdvanced({ query: ref, limit: 1 });
+      if (components[0]) {
+        return components[0];
+      }
+    }
+
+    throw new Error(`No component matching "${ref}"`);
+  }
+
+  private collectRecommendations(state: AgentRunState): Recommendation[] {
+    return [...state.components.values()]
+      .map(component => ({
+        component,
+        score: state.scores.get(component.id) ?? 0,
+        reason: `Found by ProtoBuddy while answering (${component.category})`,
+        alternatives: [],
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5);
+  }
+
+  private systemPrompt(options: AgentRunOptions): string {
+    const history = options.history
+      .slice(-6)
+      .map(message => `${message.sender}: ${message.content}`)
+      .join('\n');
+
+    return `
+You are ProtoBuddy, an expert hardware component assistant for Arduino, ESP32, Raspberry Pi and similar boards.
+Use the tools to look up real components, boards and compatibility results instead of guessing; a request can
+need several tools (for example search for a part, then check it against the user's board). Components and boards
+are referenced by the ids the tools return. When you have what you need, answer in under 300 words: name the parts,
+say whether they work together and explain any wiring or voltage concerns.
+${options.intent ? `\nLikely intent: ${options.intent.type} ${JSON.stringify(options.intent.parameters)}` : ''}
+${history ? `\nRecent conversation:\n${history}` : ''}`;
+  }
+
+  private registerDefaultTools(): void {
+    this.registerTool({
+      definition: {
+        name: 'searchComponentsAdvanced',
+        description: 'Search the component database by text, category, manufacturer, supply voltage, protocols and price.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: 'Free text, e.g. "humidity sensor"' },
+            category: { type: 'string' },
+            manufacturer: { type: 'string' },
+            voltageMin: { type: 'number', description: 'Lowest supply voltage the part must accept' },
+            voltageMax: { type: 'number', description: 'Highest supply voltage the part must accept' },
+            protocols: { type: 'array', items: { type: 'string' } },
+            priceMax: { type: 'number' },
+            limit: { type: 'integer', minimum: 1, maximum: 10 },
+          },
+        },
+      },
+      schema: Joi.object({
+        query: Joi.string().max(200),
+        category: Joi.string().max(100),
+        manufacturer: Joi.string().max(100),
+        voltageMin: Joi.number().min(0).max(50),
+        voltageMax: Joi.number().min(0).max(50),
+        protocols: Joi.array().items(Joi.string()),
+        priceMax: Joi.number().min(0),
+        limit: Joi.number().integer().min(1).max(10),
+      }),
+      run: async (input, state) => {
+        const { components, total } = await this.componentService.searchComponentsAdvanced({
+          ...input,
+          limit: (input.limit as number | undefined) || 5,
+        });
+
+        components.forEach(component => state.components.set(component.id, component));
+
+        return {
+          data: {
+            total,
+            components: components.map(component => ({
+              id: component.id,
+              name: component.name,
+              manufacturer: component.manufacturer,
+              category: component.category,
+              voltage: component.specifications?.voltage?.operating,
+              protocols: component.specifications?.communication?.map(protocol => protocol.type),
+              price: component.price,
+            })),
+          },
+          summary: `Found ${components.length} of ${total} components`,
+        };
+      },
+    });
+
+    this.registerTool({
+      definition: {
+        name: 'checkCompatibility',
+        description: 'Check whether one component works with a board: voltage, current, protocols and pins.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            boardId: { type: 'string', description: 'Board id or name' },
+            componentId: { type: 'string', description: 'Component id from searchComponentsAdvanced, or its name' },
+          },
+          required: ['boardId', 'componentId'],
+        },
+      },
+      schema: Joi.object({
+        boardId: Joi.string().required(),
+        componentId: Joi.string().required(),
+      }),
+      run: async (input, state) => {
+        const component = await this.resolveComponent(input.componentId as string);
+        const check = await this.compatibilityService.checkCompatibility(input.boardId as string, component.id);
+
+        state.components.set(component.id, component);
+        state.compatibility = check;
+        state.scores.set(component.id, check.score);
+
+        return {
+          data: { compatible: check.compatible, score: check.score, issues: check.issues, suggestions: check.suggestions },
+          summary: `${check.compatible ? 'Compatible' : 'Not compatible'} (score ${check.score})`,
+        };
+      },
+    });
+
+    this.registerTool({
+      definition: {
+        name: 'getBulkCompatibility',
+        description: 'Check several components against one board at once.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            boardId: { type: 'string', description: 'Board id or name' },
+            componentIds: { type: 'array', items: { type: 'string' }, maxItems: 20, description: 'Component ids or names' },
+          },
+          required: ['boardId', 'componentIds'],
+        },
+      },
+      schema: Joi.object({
+        boardId: Joi.string().required(),
+        componentIds: Joi.array().items(Joi.string()).min(1).max(20).required(),
+      }),
+      run: async (input, state) => {
+        const components = await Promise.all((input.componentIds as string[]).map(ref => this.resolveComponent(ref)));
+        const results = await this.compatibilityService.getBulkCompatibility(
+          input.boardId as string,
+          components.map(component => component.id)
+        );
+
+        const data: Record<string, { compatible: boolean; score: number; issues: string[] }> = {};
+        for (const [componentId, check] of results) {
+          state.scores.set(componentId, check.score);
+          data[componentId] = {
+            compatible: check.compatible,
+            score: check.score,
+            issues: check.issues.map(issue => issue.message),
+          };
+        }
+
+        const compatible = [...results.values()].filter(check => check.compatible).length;
+        return { data, summary: `${compatible} of ${results.size} components compatible` };
+      },
+    });
+
+    this.registerTool({
+      definition: {
+        name: 'getProjectRecommendations',
+        description: 'Find curated example projects by tag (e.g. "weather", "robotics") and optional difficulty.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            projectType: { type: 'string' },
+            difficulty: { type: 'string', enum: ['beginner', 'intermediate', 'advanced'] },
+          },
+          required: ['projectType'],
+        },
+      },
+      schema: Joi.object({
+        projectType: Joi.string().max(100).required(),
+        difficulty: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+      }),
+      run: async (input) => {
+        const projects = await this.componentService.getProjectRecommendations(
+          input.projectType as string,
+          input.difficulty as string | undefined
+        );
+
+        return {
+          data: projects.slice(0, 5).map(project => ({
+            title: project.title,
+            difficulty: project.difficulty,
+            board: project.board,
+            components: project.components,
+            estimatedTime: project.estimated_time,
+          })),
+          summary: `Found ${projects.length} projects`,
+        };
+      },
+    });
+
+    this.registerTool({
+      definition: {
+        name: 'getBoard',
+        description: 'Look up a board by id or name (e.g. "esp32", "arduino uno") for its voltages, current limits, protocols and pin counts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            board: { type: 'string', description: 'Board id or name' },
+          },
+          required: ['board'],
+        },
+      },
+      schema: Joi.object({
+        board: Joi.string().max(255).required(),
+      }),
+      run: async (input) => {
+        const board = await this.boardService.getBoard(input.board as string);
+
+        if (!board) {
+          return { data: { found: false }, summary: `No board matching "${input.board}"` };
+        }
+
+        const pinCounts: Record<string, number> = {};
+        for (const pin of board.pins) {
+          for (const pinFunction of pin.functions) {
+            pinCounts[pinFunction] = (pinCounts[pinFunction] || 0) + 1;
+          }
+        }
+
+        return {
+          data: {
+            id: board.id,
+            name: board.name,
+            manufacturer: board.manufacturer,
+            specifications: board.specifications,
+            protocols: board.supportedProtocols.map(protocol => protocol.type),
+            pinCounts,
+          },
+          summary: `Found ${board.name}`,
+        };
+      },
+    });
+
+    this.registerTool({
+      definition: {
+        name: 'compareBoards',
+        description: 'Compare 2-5 boards side by side (processor, memory, voltages, current limits, protocols, pin counts), optionally scored against components.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            boards: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 5, description: 'Board ids or names' },
+            componentIds: { type: 'array', items: { type: 'string' }, maxItems: 20, description: 'Component ids or names' },
+          },
+          required: ['boards'],
+        },
+      },
+      schema: Joi.object({
+        boards: Joi.array().items(Joi.string().max(255)).min(2).max(5).required(),
+        componentIds: Joi.array().items(Joi.string()).max(20),
+      }),
+      run: async (input, state) => {
+        const components = await Promise.all(((input.componentIds as string[] | undefined) || []).map(ref => this.resolveComponent(ref)));
+        const comparison = await this.comparisonService.compareBoards(
+          input.boards as string[],
+          components.map(component => component.id)
+        );
+
+        state.comparison = comparison;
+
+        return {
+          data: comparison,
+          summary: `Compared ${comparison.boards.map(board => board.name).join(', ')}`,
+        };
+      },
+    });
+  }
+}
@@ -0,0 +1,258 @@
+import { query, cache } from '../database/connection';
+import { cacheKeys } from '../config';
+import { logger } from '../utils/logger';
+import { Board, BoardPin, CommunicationProtocol } from '../types';
+
+export interface BoardFilters {
+  type?: Board['type'];
+  manufacturer?: string;
+  ioVoltage?: number;
+  protocol?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface BoardRow {
+  id: string;
+  name: string;
+  manufacturer: string;
+  type: Board['type'];
+  specifications: Board['specifications'];
+  supported_protocols: Board['supportedProtocols'] | null;
+  pins: BoardPin[] | null;
+  compatibility: string[] | null;
+}
+
+const PROTOCOL_TYPES: CommunicationProtocol['type'][] = ['I2C', 'SPI', 'UART', 'PWM', 'GPIO', 'ADC', 'OneWire', 'CAN'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class BoardService {
+
+  async listBoards(filters: BoardFilters = {}): Promise<{ boards: Board[]; total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+      let paramCount = 0;
+
+      if (filters.type) {
+        paramCount++;
+        conditions.push(`type = $${paramCount}`);
+        params.push(filters.type);
+      }
+
+      if (filters.manufacturer) {
+        paramCount++;
+        conditions.push(`manufacturer ILIKE $${paramCount}`);
+        params.push(`%${filters.manufacturer}%`);
+      }
+
+      if (filters.ioVoltage !== undefined) {
+        paramCount++;
+        conditions.push(`(specifications->'voltage'->>'io')::numeric = $${paramCount}`);
+        params.push(filters.ioVoltage);
+      }
+
+      if (filters.protocol) {
+        paramCount++;
+        conditions.push(`supported_protocols @> $${paramCount}::jsonb`);
+        const wanted = filters.protocol.toLowerCase();
+        const type = PROTOCOL_TYPES.find(t => t.toLowerCase() === wanted) || filters.protocol;
+        params.push(JSON.stringify([{ type }]));
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const countResult = await query(`SELECT COUNT(*) AS total FROM boards ${where}`, params);
+      const total = parseInt(countResult.rows[0]?.total || '0', 10);
+
+      const limit = filters.limit || 50;
+      const offset = filters.offset || 0;
+
+      const result = await query(`
+        SELECT * FROM boards
+        ${where}
+        ORDER BY name ASC
+        LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+      `, [...params, limit, offset]);
+
+      return { boards: result.rows.map((row: BoardRow) => this.mapRow(row)), total };
+
+    } catch (error) {
+      logger.error('List boards failed:', error);
+      throw error;
+    }
+  }
+
+  // Accepts a UUID or a (partial) board name, e.g. "arduino-uno" or "ESP32"
+  async getBoard(boardId: string): Promise<Board | null> {
+    try {
+      const result = UUID_PATTERN.test(boardId)
+        ? await query('SELECT * FROM boards WHERE id = $1', [boardId])
+        : await query(
+          'SELECT * FROM boards WHERE name ILIKE $1 ORDER BY length(name) ASC LIMIT 1',
+          [`%${boardId.replace(/[-_]+/g, '%')}%`]
+        );
+
+      return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Get board failed:', error);
+      throw error;
+    }
+  }
+
+  async getBoardPins(boardId: string, pinFunction?: string): Promise<BoardPin[] | null> {
+    const board = await this.getBoard(boardId);
+    if (!board) {
+      return null;
+    }
+
+    if (!pinFunction) {
+      return board.pins;
+    }
+
+    const wanted = pinFunction.toLowerCase();
+    return board.pins.filter(pin => pin.functions.some(fn => fn.toLowerCase() === wanted));
+  }
+
+  async addBoard(board: Omit<Board, 'id'>): Promise<Board> {
+    try {
+      const result = await query(`
+        INSERT INTO boards (
+          name, manufacturer, type, specifications,
+          supported_protocols, pins, compatibility
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      `, [
+        board.name,
+        board.manufacturer,
+        board.type,
+        JSON.stringify(board.specifications),
+        JSON.stringify(board.supportedProtocols),
+        JSON.stringify(board.pins),
+        board.compatibility || [],
+      ]);
+
+      const newBoard = this.mapRow(result.rows[0]);
+      await this.invalidateCaches(newBoard);
+
+      logger.info('Board added successfully', {
+        id: newBoard.id,
+        name: newBoard.name,
+      });
+
+      return newBoard;
+
+    } catch (error) {
+      logger.error('Add board failed:', error);
+      throw error;
+    }
+  }
+
+  async updateBoard(id: string, updates: Partial<Omit<Board, 'id'>>): Promise<Board | null> {
+    try {
+      const setClause = [];
+      const values = [];
+      let paramCount = 0;
+
+      const columns: Record<string, string> = {
+        name: 'name',
+        manufacturer: 'manufacturer',
+        type: 'type',
+        specifications: 'specifications',
+        supportedProtocols: 'supported_protocols',
+        pins: 'pins',
+        compatibility: 'compatibility',
+      };
+      const jsonColumns = ['specifications', 'supported_protocols', 'pins'];
+
+      for (const [key, value] of Object.entries(updates)) {
+        const column = columns[key];
+        if (column && value !== undefined) {
+          paramCount++;
+          setClause.push(`${column} = $${paramCount}`);
+          values.push(jsonColumns.includes(column) ? JSON.stringify(value) : value);
+        }
+      }
+
+      if (setClause.length === 0) {
+        throw new Error('No valid fields to update');
+      }
+
+      // Writes only take exact ids, never a fuzzy name match
+      if (!UUID_PATTERN.test(id)) {
+        return null;
+      }
+
+      values.push(id);
+      const result = await query(`
+        UPDATE boards
+        SET ${setClause.join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $${paramCount + 1}
+        RETURNING *
+      `, values);
+
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      const updatedBoard = this.mapRow(result.rows[0]);
+      await this.invalidateCaches(updatedBoard);
+
+      return updatedBoard;
+
+    } catch (error) {
+      logger.error('Update board failed:', error);
+      throw error;
+    }
+  }
+
+  async deleteBoard(id: string): Promise<boolean> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return false;
+      }
+
+      const result = await query('DELETE FROM boards WHERE id = $1 RETURNING *', [id]);
+
+      if (!result.rows[0]) {
+        return false;
+      }
+
+      await this.invalidateCaches(this.mapRow(result.rows[0]));
+      return true;
+
+    } catch (error) {
+      logger.error('Delete board failed:', error);
+      throw error;
+    }
+  }
+
+  // Compatibility results, single-part and system, are cached under the board's id
+  private async invalidateCaches(board: Board): Promise<void> {
+    try {
+      const keys = await cache.keys(`${cacheKeys.compatibility(board.id, '')}*`);
+      for (const key of keys) {
+        await cache.del(key);
+      }
+
+    } catch (error) {
+      logger.warn('Failed to invalidate board caches:', error);
+    }
+  }
+
+  // Rows come back with snake_case columns
+  private mapRow(row: BoardRow): Board {
+    return {
+      id: row.id,
+      name: row.name,
+      manufacturer: row.manufacturer,
+      type: row.type,
+      specifications: row.specifications,
+      supportedProtocols: row.supported_protocols || [],
+      pins: row.pins || [],
+      compatibility: row.compatibility || [],
+    };
+  }
+}
@@ -0,0 +1,211 @@
+import { query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { ChatSessionService } from './sessions';
+import { ComponentRow, toComponent } from './components';
+import { BomFormat, BomLine, ChatSession, Component, PartsBom, SystemComponentInput } from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CURRENCY = 'USD';
+
+// KiCad reference designator prefixes by component category
+const REFERENCE_PREFIXES: Array<[RegExp, string]> = [
+  [/board|module|microcontroller/i, 'A'],
+  [/motor|servo|actuator/i, 'M'],
+  [/display|lcd|oled/i, 'DS'],
+  [/led|light/i, 'D'],
+  [/resistor/i, 'R'],
+  [/capacitor/i, 'C'],
+  [/connector|header/i, 'J'],
+  [/switch|button/i, 'SW'],
+  [/buzzer|speaker/i, 'LS'],
+];
+
+export interface BomExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export class BomService {
+  constructor(private sessionService: ChatSessionService = new ChatSessionService()) {}
+
+  // Every component recommended during the session, once each
+  async buildSessionBom(sessionId: string): Promise<PartsBom | null> {
+    const session = await this.sessionService.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const { items, names } = this.recommendedParts(session);
+    const bom = await this.buildBom(items, names);
+
+    return { ...bom, sessionId: session.sessionId, title: session.title };
+  }
+
+  /**
+   * Builds a BOM from component ids and quantities, reading names, prices and availability fresh from
+   * the database. Repeated ids are merged; ids that no longer resolve end up in `unresolved`.
+   */
+  async buildBom(items: SystemComponentInput[], knownNames: Map<string, string> = new Map()): Promise<PartsBom> {
+    const quantities = new Map<string, number>();
+    for (const { componentId, quantity } of items) {
+      quantities.set(componentId, (quantities.get(componentId) || 0) + quantity);
+    }
+
+    const ids = [...quantities.keys()].filter(id => UUID_PATTERN.test(id));
+
+    try {
+      const result = ids.length > 0
+        ? await query('SELECT * FROM components WHERE id = ANY($1)', [ids])
+        : { rows: [] };
+      const components = new Map<string, Component>(
+        result.rows.map((row: ComponentRow) => [row.id, toComponent(row)])
+      );
+
+      const lines: BomLine[] = [];
+      const unresolved: string[] = [];
+
+      for (const [id, quantity] of quantities) {
+        const component = components.get(id);
+        if (!component) {
+          unresolved.push(knownNames.get(id) || id);
+          continue;
+        }
+
+        lines.push(this.lineFor(component, quantity));
+      }
+
+      const priced = lines.reduce((sum, line) => sum + (line.lineTotal || 0), 0);
+
+      return {
+        sessionId: null,
+        title: null,
+        lines,
+        unresolved,
+        discontinued: lines.filter(line => line.discontinued).map(line => line.name),
+        totals: {
+          quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+          priced: Math.round(priced * 100) / 100,
+          unpricedLines: lines.filter(line => line.unitPrice === undefined).length,
+          currency: CURRENCY,
+        },
+      };
+
+    } catch (error) {
+      logger.error('Build BOM failed:', error);
+      throw error;
+    }
+  }
+
+  exportBom(bom: PartsBom, format: BomFormat): BomExport {
+    const basename = `bom-${this.slug(bom.title || bom.sessionId || 'parts')}`;
+
+    switch (format) {
+      case 'csv':
+        return { filename: `${basename}.csv`, contentType: 'text/csv; charset=utf-8', body: this.toCsv(bom) };
+      case 'kicad':
+        return { filename: `${basename}-kicad.csv`, contentType: 'text/csv; charset=utf-8', body: this.toKicadCsv(bom) };
+      case 'json':
+        return { filename: `${basename}.json`, contentType: 'application/json; charset=utf-8', body: JSON.stringify(bom, null, 2) };
+    }
+  }
+
+  private toCsv(bom: PartsBom): string {
+    const header = ['Item', 'Name', 'Manufacturer', 'Category', 'Quantity', 'Unit Price', 'Line Total', 'Currency',
+      'Availability', 'Discontinued', 'Datasheet', 'Component ID'];
+
+    const rows = bom.lines.map((line, index) => [
+      index + 1,
+      line.name,
+      line.manufacturer,
+      line.category,
+      line.quantity,
+      line.unitPrice?.toFixed(2),
+      line.lineTotal?.toFixed(2),
+      bom.totals.currency,
+      line.availability,
+      line.discontinued ? 'yes' : 'no',
+      line.datasheetUrl,
+      line.componentId,
+    ]);
+
+    rows.push(['', 'Total', '', '', bom.totals.quantity, '', bom.totals.priced.toFixed(2), bom.totals.currency, '', '', '', '']);
+
+    return this.csv([header, ...rows]);
+  }
+
+  // Column layout of KiCad's "Generate BOM" CSV, so the file can be merged with a schematic BOM
+  private toKicadCsv(bom: PartsBom): string {
+    const counters = new Map<string, number>();
+    const header = ['Reference', 'Value', 'Footprint', 'Datasheet', 'Qty', 'DNP', 'Manufacturer', 'Category'];
+
+    const rows = bom.lines.map(line => {
+      const prefix = REFERENCE_PREFIXES.find(([pattern]) => pattern.test(line.category || ''))?.[1] || 'U';
+      const references: string[] = [];
+
+      for (let i = 0; i < line.quantity; i++) {
+        const next = (counters.get(prefix) || 0) + 1;
+        counters.set(prefix, next);
+        references.push(`${prefix}${next}`);
+      }
+
+      return [references.join(','), line.name, '', line.datasheetUrl || '~', line.quantity, '', line.manufacturer, line.category];
+    });
+
+    return this.csv([header, ...rows]);
+  }
+
+  private csv(rows: Array<Array<string | number | undefined>>): string {
+    const cell = (value: string | number | undefined) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return rows.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private lineFor(component: Component, quantity: number): BomLine {
+    const line: BomLine = {
+      name: component.name,
+      kind: 'component',
+      quantity,
+      componentId: component.id,
+      manufacturer: component.manufacturer,
+      category: component.category,
+      availability: component.availability,
+      discontinued: component.availability?.toLowerCase() === 'discontinued',
+    };
+
+    if (component.price !== undefined) {
+      line.unitPrice = component.price;
+      line.lineTotal = Math.round(component.price * quantity * 100) / 100;
+    }
+    if (component.datasheetUrl) {
+      line.datasheetUrl = component.datasheetUrl;
+    }
+
+    return line;
+  }
+
+  private recommendedParts(session: ChatSession): { items: SystemComponentInput[]; names: Map<string, string> } {
+    const names = new Map<string, string>();
+
+    for (const message of session.messages) {
+      for (const recommendation of message.context?.recommendations || []) {
+        const { component } = recommendation;
+        if (component?.id && !names.has(component.id)) {
+          names.set(component.id, component.name);
+        }
+      }
+    }
+
+    return {
+      items: [...names.keys()].map(componentId => ({ componentId, quantity: 1 })),
+      names,
+    };
+  }
+
+  private slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'parts';
+  }
+}
@@ -1,15 +1,17 @@
-import Anthropic from 'anthropic';
-import { config } from '../config';
+import { config, LLMTask } from '../config';
+import { LLMProvider, createLLMProvider, llmRequest } from './llm';
 import { logger, logApiCall, logApiError } from '../utils/logger';
-import { ChatMessage, Recommendation, CompatibilityCheck } from '../types';
+import { BoardComparison, ChatMessage, Recommendation, CompatibilityCheck, Connection } from '../types';
 
 export interface IntentAnalysis {
-  type: 'component_search' | 'compatibility_check' | 'project_help' | 'troubleshooting' | 'general';
+  type: 'component_search' | 'compatibility_check' | 'comparison' | 'project_help' | 'troubleshooting' | 'general';
   confidence: number;
   parameters: {
     query?: string;
     filters?: any;
     board?: string;
+    // Boards to compare side by side, for the comparison intent
+    boards?: string[];
     component?: string;
     projectType?: string;
     difficulty?: string;
@@ -22,17 +24,17 @@ export interface IntentAnalysis {
   }>;
 }
 
+type PromptParameters = Record<string, unknown>;
+
 export class ClaudeService {
-  private client: Anthropic;
+  private llm: LLMProvider;
 
-  constructor() {
-    if (!config.apis.anthropic.apiKey) {
+  constructor(llm: LLMProvider = createLLMProvider()) {
+    if (config.llm.provider === 'anthropic' && !config.apis.anthropic.apiKey) {
       logger.warn('Anthropic API key not configured - Claude features will be limited');
     }
 
-    this.client = new Anthropic({
-      apiKey: config.apis.anthropic.apiKey || 'dummy-key',
-    });
+    this.llm = llm;
   }
 
   async analyzeIntent(message: string, context?: any): Promise<IntentAnalysis> {
@@ -48,6 +50,7 @@ ${context ? `Context: ${JSON.stringify(context, null, 2)}` : ''}
 Determine the intent type from:
 - component_search: Looking for specific components or types of components
 - compatibility_check: Asking about compatibility between components/boards
+- comparison: Comparing two or more boards against each other (e.g. "Uno vs ESP32")
 - project_help: Asking for help with a project or what components are needed
 - troubleshooting: Having issues with existing setup/components
 - general: General questions or conversation
@@ -61,6 +64,7 @@ Respond with JSON only:
   "parameters": {
     "query": "extracted search terms",
     "board": "board type if mentioned",
+    "boards": ["each board being compared, for comparison"],
     "component": "component if mentioned",
     "projectType": "project type if mentioned",
     "difficulty": "beginner/intermediate/advanced if mentioned"
@@ -71,26 +75,15 @@ Respond with JSON only:
   ]
 }`;
 
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.1,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        const analysis = JSON.parse(content.text);
+      const text = await this.llm.complete(llmRequest('intent-analysis', prompt, message));
+      const analysis = JSON.parse(text);
 
-        logApiCall('Claude', 'intent-analysis', Date.now() - startTime, true);
+      logApiCall(this.llm.name, 'intent-analysis', Date.now() - startTime, true);
 
-        return analysis;
-      }
-
-      throw new Error('Invalid response format from Claude');
+      return analysis;
 
     } catch (error) {
-      logApiError('Claude', 'intent-analysis', error as Error);
+      logApiError(this.llm.name, 'intent-analysis', error as Error);
 
       // Fallback intent analysis
       return this.fallbackIntentAnalysis(message);
@@ -105,7 +98,308 @@ Respond with JSON only:
     const startTime = Date.now();
 
     try {
-      const prompt = `
+      const prompt = this.componentRecommendationsPrompt(userMessage, recommendations, parameters);
+
+      const text = await this.llm.complete(llmRequest('component-recommendations', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'component-recommendations', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'component-recommendations', error as Error);
+
+      return this.fallbackComponentResponse(userMessage, recommendations);
+    }
+  }
+
+  async generateCompatibilityResponse(
+    userMessage: string,
+    compatibilityCheck: CompatibilityCheck,
+    parameters: any
+  ): Promise<ChatMessage> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.compatibilityPrompt(userMessage, compatibilityCheck, parameters);
+
+      const text = await this.llm.complete(llmRequest('compatibility-response', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'compatibility-response', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'compatibility-response', error as Error);
+
+      return this.fallbackCompatibilityResponse(userMessage, compatibilityCheck);
+    }
+  }
+
+  async generateComparisonResponse(
+    userMessage: string,
+    comparison: BoardComparison,
+    parameters: PromptParameters
+  ): Promise<ChatMessage> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.comparisonPrompt(userMessage, comparison, parameters);
+
+      const text = await this.llm.complete(llmRequest('comparison-response', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'comparison-response', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'comparison-response', error as Error);
+
+      return this.fallbackComparisonResponse(userMessage, comparison);
+    }
+  }
+
+  async generateProjectResponse(
+    userMessage: string,
+    components: any[],
+    parameters: any
+  ): Promise<ChatMessage> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.projectPrompt(userMessage, components, parameters);
+
+      const text = await this.llm.complete(llmRequest('project-response', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'project-response', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'project-response', error as Error);
+
+      return this.fallbackProjectResponse(userMessage, components);
+    }
+  }
+
+  async generateTroubleshootingResponse(
+    userMessage: string,
+    parameters: any,
+    context?: any
+  ): Promise<ChatMessage> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.troubleshootingPrompt(userMessage, parameters, context);
+
+      const text = await this.llm.complete(llmRequest('troubleshooting-response', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'troubleshooting-response', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'troubleshooting-response', error as Error);
+
+      return this.fallbackTroubleshootingResponse(userMessage);
+    }
+  }
+
+  async generateGeneralResponse(
+    userMessage: string,
+    messageHistory: ChatMessage[],
+    context?: any
+  ): Promise<ChatMessage> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.generalPrompt(userMessage, messageHistory, context);
+
+      const text = await this.llm.complete(llmRequest('general-response', prompt, userMessage));
+
+      logApiCall(this.llm.name, 'general-response', Date.now() - startTime, true);
+
+      return {
+        id: `msg-${Date.now()}`,
+        content: text,
+        sender: 'assistant',
+        timestamp: new Date(),
+      };
+
+    } catch (error) {
+      logApiError(this.llm.name, 'general-response', error as Error);
+
+      return this.fallbackGeneralResponse(userMessage);
+    }
+  }
+
+  // Returns the model's revision of a generated sketch, or null when the model is unavailable
+  async refineSketch(sketch: string, board: string, connections: Connection[]): Promise<string | null> {
+    const startTime = Date.now();
+
+    try {
+      const text = await this.llm.complete(llmRequest('sketch-refinement', this.sketchRefinementPrompt(sketch, board, connections)));
+
+      logApiCall(this.llm.name, 'sketch-refinement', Date.now() - startTime, true);
+
+      return text;
+
+    } catch (error) {
+      logApiError(this.llm.name, 'sketch-refinement', error as Error);
+
+      return null;
+    }
+  }
+
+  async generateHelpResponse(userMessage: string, helpText: string): Promise<ChatMessage> {
+    return {
+      id: `msg-${Date.now()}`,
+      content: helpText,
+      sender: 'assistant',
+      timestamp: new Date(),
+    };
+  }
+
+  // Streaming variants of the generate* methods: yield text deltas as the model produces them
+  async *streamComponentRecommendations(
+    userMessage: string,
+    recommendations: Recommendation[],
+    parameters: PromptParameters
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'component-recommendations',
+      this.componentRecommendationsPrompt(userMessage, recommendations, parameters),
+      userMessage,
+      () => this.fallbackComponentResponse(userMessage, recommendations)
+    );
+  }
+
+  async *streamCompatibilityResponse(
+    userMessage: string,
+    compatibilityCheck: CompatibilityCheck,
+    parameters: PromptParameters
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'compatibility-response',
+      this.compatibilityPrompt(userMessage, compatibilityCheck, parameters),
+      userMessage,
+      () => this.fallbackCompatibilityResponse(userMessage, compatibilityCheck)
+    );
+  }
+
+  async *streamComparisonResponse(
+    userMessage: string,
+    comparison: BoardComparison,
+    parameters: PromptParameters
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'comparison-response',
+      this.comparisonPrompt(userMessage, comparison, parameters),
+      userMessage,
+      () => this.fallbackComparisonResponse(userMessage, comparison)
+    );
+  }
+
+  async *streamProjectResponse(
+    userMessage: string,
+    components: Array<Record<string, unknown>>,
+    parameters: PromptParameters
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'project-response',
+      this.projectPrompt(userMessage, components, parameters),
+      userMessage,
+      () => this.fallbackProjectResponse(userMessage, components)
+    );
+  }
+
+  async *streamTroubleshootingResponse(
+    userMessage: string,
+    parameters: PromptParameters,
+    context?: unknown
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'troubleshooting-response',
+      this.troubleshootingPrompt(userMessage, parameters, context),
+      userMessage,
+      () => this.fallbackTroubleshootingResponse(userMessage)
+    );
+  }
+
+  async *streamGeneralResponse(
+    userMessage: string,
+    messageHistory: ChatMessage[],
+    context?: unknown
+  ): AsyncGenerator<string> {
+    yield* this.streamCompletion(
+      'general-response',
+      this.generalPrompt(userMessage, messageHistory, context),
+      userMessage,
+      () => this.fallbackGeneralResponse(userMessage)
+    );
+  }
+
+  async *streamHelpResponse(helpText: string): AsyncGenerator<string> {
+    yield helpText;
+  }
+
+  private async *streamCompletion(
+    task: LLMTask,
+    prompt: string,
+    userMessage: string,
+    fallback: () => ChatMessage
+  ): AsyncGenerator<string> {
+    const startTime = Date.now();
+    let streamed = false;
+
+    try {
+      for await (const text of this.llm.stream(llmRequest(task, prompt, userMessage))) {
+        streamed = true;
+        yield text;
+      }
+
+      logApiCall(this.llm.name, task, Date.now() - startTime, true);
+
+    } catch (error) {
+      logApiError(this.llm.name, task, error as Error);
+
+      // Text already sent can't be replaced by the fallback; let the caller report the failure
+      if (streamed) {
+        throw error;
+      }
+
+      yield fallback().content;
+    }
+  }
+
+  // Prompt builders shared by the generate* and stream* methods
+  private componentRecommendationsPrompt(userMessage: string, recommendations: Recommendation[], parameters: PromptParameters): string {
+    return `
 You are ProtoBuddy, an expert hardware component assistant. Generate a helpful response about component recommendations.
 
 User asked: "${userMessage}"
@@ -130,44 +424,10 @@ Provide a conversational, helpful response that:
 5. Uses a friendly, knowledgeable tone
 
 Keep response under 300 words and include specific technical details.`;
-
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1500,
-        temperature: 0.3,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        logApiCall('Claude', 'component-recommendations', Date.now() - startTime, true);
-
-        return {
-          id: `msg-${Date.now()}`,
-          content: content.text,
-          sender: 'assistant',
-          timestamp: new Date(),
-        };
-      }
-
-      throw new Error('Invalid response format from Claude');
-
-    } catch (error) {
-      logApiError('Claude', 'component-recommendations', error as Error);
-
-      return this.fallbackComponentResponse(userMessage, recommendations);
-    }
   }
 
-  async generateCompatibilityResponse(
-    userMessage: string,
-    compatibilityCheck: CompatibilityCheck,
-    parameters: any
-  ): Promise<ChatMessage> {
-    const startTime = Date.now();
-
-    try {
-      const prompt = `
+  private compatibilityPrompt(userMessage: string, compatibilityCheck: CompatibilityCheck, parameters: PromptParameters): string {
+    return `
 You are ProtoBuddy, an expert hardware component assistant. Generate a response about compatibility between components.
 
 User asked: "${userMessage}"
@@ -195,44 +455,40 @@ Provide a clear, helpful response that:
 5. Uses a supportive, educational tone
 
 Keep response under 250 words.`;
+  }
 
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1200,
-        temperature: 0.2,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        logApiCall('Claude', 'compatibility-response', Date.now() - startTime, true);
-
-        return {
-          id: `msg-${Date.now()}`,
-          content: content.text,
-          sender: 'assistant',
-          timestamp: new Date(),
-        };
-      }
+  private comparisonPrompt(userMessage: string, comparison: BoardComparison, parameters: PromptParameters): string {
+    return `
+You are ProtoBuddy, an expert hardware component assistant. Help the user choose between these boards.
 
-      throw new Error('Invalid response format from Claude');
+User asked: "${userMessage}"
+Parameters: ${JSON.stringify(parameters, null, 2)}
 
-    } catch (error) {
-      logApiError('Claude', 'compatibility-response', error as Error);
+Comparison (one column per board):
+${this.comparisonTable(comparison)}
 
-      return this.fallbackCompatibilityResponse(userMessage, compatibilityCheck);
-    }
+The table is shown to the user alongside your answer, so don't repeat it. Provide a response that:
+1. Sums up the key differences (processor, memory, voltage, I/O)
+2. Points out which board suits which kind of project
+3. Calls out any 3.3V/5V or current limits that affect their parts
+4. Recommends one board if the question or compatibility scores make a clear winner
+
+Keep response under 250 words.`;
   }
 
-  async generateProjectResponse(
-    userMessage: string,
-    components: any[],
-    parameters: any
-  ): Promise<ChatMessage> {
-    const startTime = Date.now();
+  // Markdown table shared by the comparison prompt and its fallback
+  private comparisonTable(comparison: BoardComparison): string {
+    const header = `| | ${comparison.boards.map(board => board.name).join(' | ')} |`;
+    const divider = `|---|${comparison.boards.map(() => '---').join('|')}|`;
+    const rows = comparison.rows.map(row =>
+      `| ${row.label} | ${row.values.map(value => value === null ? '-' : `${value}${row.unit ? ` ${row.unit}` : ''}`).join(' | ')} |`
+    );
 
-    try {
-      const prompt = `
+    return [header, divider, ...rows].join('\n');
+  }
+
+  private projectPrompt(userMessage: string, components: Array<Record<string, unknown>>, parameters: PromptParameters): string {
+    return `
 You are ProtoBuddy, an expert hardware project assistant. Help with project planning and component selection.
 
 User asked: "${userMessage}"
@@ -255,44 +511,28 @@ Provide a comprehensive project response that:
 6. Warns about potential challenges
 
 Keep response under 400 words and be encouraging.`;
+  }
 
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1800,
-        temperature: 0.4,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        logApiCall('Claude', 'project-response', Date.now() - startTime, true);
-
-        return {
-          id: `msg-${Date.now()}`,
-          content: content.text,
-          sender: 'assistant',
-          timestamp: new Date(),
-        };
-      }
+  private sketchRefinementPrompt(sketch: string, board: string, connections: Connection[]): string {
+    return `
+You are ProtoBuddy, an expert embedded developer. Improve this Arduino sketch for the ${board}.
 
-      throw new Error('Invalid response format from Claude');
+Wiring:
+${connections.map(c => `- ${c.fromComponent} ${c.fromPin} -> ${c.toComponent} ${c.toPin}`).join('\n')}
 
-    } catch (error) {
-      logApiError('Claude', 'project-response', error as Error);
+Sketch:
+\`\`\`cpp
+${sketch}
+\`\`\`
 
-      return this.fallbackProjectResponse(userMessage, components);
-    }
-  }
+Keep every #include and pin #define exactly as they are. Make the demo loop more useful, add short comments
+and handle sensor read failures. The sketch must still compile for the ${board}.
 
-  async generateTroubleshootingResponse(
-    userMessage: string,
-    parameters: any,
-    context?: any
-  ): Promise<ChatMessage> {
-    const startTime = Date.now();
+Reply with the complete sketch in a single \`\`\`cpp code block and nothing else.`;
+  }
 
-    try {
-      const prompt = `
+  private troubleshootingPrompt(userMessage: string, parameters: PromptParameters, context?: unknown): string {
+    return `
 You are ProtoBuddy, an expert hardware troubleshooting assistant. Help diagnose and solve hardware issues.
 
 User's problem: "${userMessage}"
@@ -309,44 +549,10 @@ Provide a systematic troubleshooting response that:
 7. Uses clear, non-intimidating language
 
 Keep response under 350 words and be methodical.`;
-
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1600,
-        temperature: 0.2,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        logApiCall('Claude', 'troubleshooting-response', Date.now() - startTime, true);
-
-        return {
-          id: `msg-${Date.now()}`,
-          content: content.text,
-          sender: 'assistant',
-          timestamp: new Date(),
-        };
-      }
-
-      throw new Error('Invalid response format from Claude');
-
-    } catch (error) {
-      logApiError('Claude', 'troubleshooting-response', error as Error);
-
-      return this.fallbackTroubleshootingResponse(userMessage);
-    }
   }
 
-  async generateGeneralResponse(
-    userMessage: string,
-    messageHistory: ChatMessage[],
-    context?: any
-  ): Promise<ChatMessage> {
-    const startTime = Date.now();
-
-    try {
-      const prompt = `
+  private generalPrompt(userMessage: string, messageHistory: ChatMessage[], context?: unknown): string {
+    return `
 You are ProtoBuddy, a friendly and knowledgeable hardware component assistant. Respond to general questions about electronics, Arduino, Raspberry Pi, and maker projects.
 
 Current message: "${userMessage}"
@@ -364,48 +570,22 @@ Provide a helpful, conversational response that:
 5. Stays focused on hardware/electronics topics
 
 Keep response under 200 words unless more detail is specifically needed.`;
-
-      const response = await this.client.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1000,
-        temperature: 0.5,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        logApiCall('Claude', 'general-response', Date.now() - startTime, true);
-
-        return {
-          id: `msg-${Date.now()}`,
-          content: content.text,
-          sender: 'assistant',
-          timestamp: new Date(),
-        };
-      }
-
-      throw new Error('Invalid response format from Claude');
-
-    } catch (error) {
-      logApiError('Claude', 'general-response', error as Error);
-
-      return this.fallbackGeneralResponse(userMessage);
-    }
-  }
-
-  async generateHelpResponse(userMessage: string, helpText: string): Promise<ChatMessage> {
-    return {
-      id: `msg-${Date.now()}`,
-      content: helpText,
-      sender: 'assistant',
-      timestamp: new Date(),
-    };
   }
 
   // Fallback methods for when Claude API is unavailable
   private fallbackIntentAnalysis(message: string): IntentAnalysis {
     const lowerMessage = message.toLowerCase();
 
+    if (/\b(vs\.?|versus|compare|comparison|difference between)\b/.test(lowerMessage)) {
+      const boards = this.extractComparedBoards(lowerMessage);
+      return {
+        type: 'comparison',
+        confidence: 0.7,
+        parameters: { boards },
+        entities: boards.map(board => ({ type: 'board', value: board, confidence: 0.6 })),
+      };
+    }
+
     if (lowerMessage.includes('compatible') || lowerMessage.includes('work with')) {
       return {
         type: 'compatibility_check',
@@ -450,6 +630,17 @@ Keep response under 200 words unless more detail is specifically needed.`;
     };
   }
 
+  // "compare the uno and esp32 for a weather station" -> ['uno', 'esp32']
+  private extractComparedBoards(lowerMessage: string): string[] {
+    return lowerMessage
+      .replace(/[?!]/g, '')
+      .replace(/\b(for|when|if)\b.*$/, '')
+      .replace(/\b(compare|comparison|difference between|which is better|should i use|the|of)\b/g, ' ')
+      .split(/\bvs\.?|\bversus\b|\band\b|\bor\b|\bwith\b|,/)
+      .map(part => part.trim())
+      .filter(Boolean);
+  }
+
   private fallbackComponentResponse(userMessage: string, recommendations: Recommendation[]): ChatMessage {
     const topRec = recommendations[0];
     const content = topRec ?
@@ -477,6 +668,17 @@ Keep response under 200 words unless more detail is specifically needed.`;
     };
   }
 
+  private fallbackComparisonResponse(userMessage: string, comparison: BoardComparison): ChatMessage {
+    const content = `Here's how the ${comparison.boards.map(board => board.name).join(' and ')} compare:\n\n${this.comparisonTable(comparison)}`;
+
+    return {
+      id: `msg-${Date.now()}`,
+      content,
+      sender: 'assistant',
+      timestamp: new Date(),
+    };
+  }
+
   private fallbackProjectResponse(userMessage: string, components: any[]): ChatMessage {
     const content = `For your project, you'll need several components including ${components.slice(0, 3).map(c => c.name).join(', ')}. This looks like a ${components[0]?.difficulty || 'moderate'} difficulty project. I recommend starting with the core components and building up from there.`;
 
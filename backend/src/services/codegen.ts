@@ -0,0 +1,414 @@
+import { query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { ClaudeService } from './claude';
+import {
+  Board,
+  BoardPin,
+  BuildPart,
+  Component,
+  Connection,
+  GeneratedSketch,
+  PinConfiguration,
+  SketchPin,
+  SketchTemplate
+} from '../types';
+
+interface SketchTemplateRow {
+  id: string;
+  category: string;
+  name_pattern: string | null;
+  includes: string[] | null;
+  globals: string | null;
+  setup: string | null;
+  loop: string | null;
+}
+
+interface Instance {
+  label: string;
+  component: Component;
+  // Prefix for this part's #defines (DHT22_1) and the name of its objects (dht22_1)
+  macro: string;
+  variable: string;
+}
+
+// Headers for library names that don't map onto <Name.h>
+const LIBRARY_HEADERS: Record<string, string> = {
+  'dht sensor library': 'DHT.h',
+  'adafruit neopixel': 'Adafruit_NeoPixel.h',
+  'adafruit unified sensor': 'Adafruit_Sensor.h',
+  'liquidcrystal i2c': 'LiquidCrystal_I2C.h',
+  'adafruit ssd1306': 'Adafruit_SSD1306.h',
+  'adafruit gfx library': 'Adafruit_GFX.h',
+};
+
+const OUTPUT_CATEGORIES = /actuator|motor|display|led|light|output|relay|buzzer/i;
+const LOOP_DELAY_MS = 1000;
+
+/**
+ * Turns a board, its parts and their wiring into an Arduino sketch. Each part is rendered from the
+ * sketch_templates row for its category (the most specific name_pattern wins), or from a generic
+ * read/toggle template built from its signal pins. Templates may use:
+ *
+ *   {{var}}        name for the part's objects, e.g. dht22
+ *   {{label}}      the part's display name, escaped for a string literal
+ *   {{pin:NAME}}   the #define holding the board pin wired to component pin NAME
+ *   {{address}}    the part's I2C address, 0x00 when unknown
+ */
+export class CodegenService {
+  constructor(private claudeService: ClaudeService = new ClaudeService()) {}
+
+  async generateSketch(
+    board: Board,
+    parts: BuildPart[],
+    connections: Connection[],
+    options: { refine?: boolean } = {}
+  ): Promise<GeneratedSketch> {
+    const warnings: string[] = [];
+    const instances = this.createInstances(parts);
+    const templates = await this.loadTemplates(parts.map(part => part.component.category));
+
+    const pins: SketchPin[] = [];
+    const includes = new Set<string>();
+    const libraries = new Set<string>();
+    const missingHeaders = new Set<string>();
+    const globals: string[] = [];
+    const setup: string[] = ['Serial.begin(115200);'];
+    const loop: string[] = [];
+
+    const usesI2C = instances.some(instance => this.usesProtocol(instance.component, 'I2C'));
+    const usesSPI = instances.some(instance => this.usesProtocol(instance.component, 'SPI'));
+    if (usesI2C) {
+      includes.add('Wire.h');
+      setup.push('Wire.begin();');
+    }
+    if (usesSPI) {
+      includes.add('SPI.h');
+      setup.push('SPI.begin();');
+    }
+
+    for (const instance of instances) {
+      const { component } = instance;
+
+      for (const library of component.compatibility?.requiredLibraries || []) {
+        libraries.add(library);
+        const header = this.headerFor(library);
+        if (header) {
+          includes.add(header);
+        } else {
+          missingHeaders.add(library);
+        }
+      }
+
+      const instancePins = this.assignPins(board, instance, connections);
+      pins.push(...instancePins);
+
+      const template = this.selectTemplate(templates, component) || this.genericTemplate(instance, instancePins);
+      template.includes.forEach(header => includes.add(header));
+
+      const render = (snippet: string) => this.render(snippet, instance, pins, warnings);
+      if (template.globals.trim()) globals.push(render(template.globals));
+      if (template.setup.trim()) setup.push(render(template.setup));
+      if (template.loop.trim()) loop.push(render(template.loop));
+    }
+
+    loop.push(`delay(${LOOP_DELAY_MS});`);
+
+    let code = this.assemble(board, instances, { includes, missingHeaders, pins, globals, setup, loop });
+    let refined = false;
+
+    if (options.refine) {
+      const revision = await this.claudeService.refineSketch(code, board.name, connections);
+      const refinedCode = revision ? this.extractCode(revision) : null;
+
+      if (refinedCode) {
+        code = refinedCode;
+        refined = true;
+      } else {
+        warnings.push('LLM refinement was unavailable; returning the template sketch');
+      }
+    }
+
+    logger.info('Sketch generated', {
+      boardId: board.id,
+      components: instances.length,
+      pins: pins.length,
+      refined,
+    });
+
+    return {
+      filename: `${this.identifier(board.name).toLowerCase()}_sketch.ino`,
+      board: board.name,
+      code,
+      libraries: [...libraries],
+      pins,
+      warnings,
+      refined,
+    };
+  }
+
+  private async loadTemplates(categories: string[]): Promise<SketchTemplate[]> {
+    try {
+      const result = await query(
+        'SELECT * FROM sketch_templates WHERE lower(category) = ANY($1) ORDER BY created_at',
+        [[...new Set(categories.map(category => category.toLowerCase()))]]
+      );
+
+      return result.rows.map((row: SketchTemplateRow) => this.mapRow(row));
+
+    } catch (error) {
+      // Generic templates still produce a working sketch without the database
+      logger.error('Failed to load sketch templates:', error);
+      return [];
+    }
+  }
+
+  private selectTemplate(templates: SketchTemplate[], component: Component): SketchTemplate | null {
+    const candidates = templates.filter(template => template.category.toLowerCase() === component.category.toLowerCase());
+
+    const specific = candidates.find(template => {
+      if (!template.namePattern) return false;
+      try {
+        return new RegExp(template.namePattern, 'i').test(component.name);
+      } catch {
+        logger.warn('Invalid sketch template pattern', { id: template.id, pattern: template.namePattern });
+        return false;
+      }
+    });
+
+    return specific || candidates.find(template => !template.namePattern) || null;
+  }
+
+  // Reads every input and toggles every output, so any part gets a sketch that compiles
+  private genericTemplate(instance: Instance, pins: SketchPin[]): SketchTemplate {
+    const isOutput = OUTPUT_CATEGORIES.test(instance.component.category);
+    const signalPins = instance.component.specifications.pins.filter(pin =>
+      pin.type === 'digital' || pin.type === 'analog'
+    );
+    const setup: string[] = [];
+    const loop: string[] = [];
+
+    for (const pin of signalPins) {
+      const wired = pins.find(candidate => candidate.component === instance.label && candidate.componentPin === pin.name);
+      if (!wired || wired.value === '-1') continue;
+
+      const placeholder = `{{pin:${pin.name}}}`;
+      if (isOutput) {
+        setup.push(`pinMode(${placeholder}, OUTPUT);`);
+        loop.push(`digitalWrite(${placeholder}, !digitalRead(${placeholder}));`);
+      } else if (pin.type === 'analog') {
+        loop.push(`Serial.print(F("{{label}} ${pin.name}: "));`, `Serial.println(analogRead(${placeholder}));`);
+      } else {
+        setup.push(`pinMode(${placeholder}, INPUT);`);
+        loop.push(`Serial.print(F("{{label}} ${pin.name}: "));`, `Serial.println(digitalRead(${placeholder}));`);
+      }
+    }
+
+    if (this.usesProtocol(instance.component, 'I2C')) {
+      loop.push(
+        'Wire.beginTransmission({{address}});',
+        'Serial.print(F("{{label}}: "));',
+        'Serial.println(Wire.endTransmission() == 0 ? F("found on I2C") : F("not responding on I2C"));'
+      );
+    }
+
+    return {
+      id: 'generic',
+      category: instance.component.category,
+      namePattern: null,
+      includes: [],
+      globals: '',
+      setup: setup.join('\n'),
+      loop: loop.join('\n'),
+    };
+  }
+
+  private createInstances(parts: BuildPart[]): Instance[] {
+    const instances: Instance[] = [];
+    const usedPrefixes = new Map<string, string>();
+
+    for (const { component, quantity } of parts) {
+      let prefix = this.identifier(component.name.split(/\s+/)[0] || component.name);
+      // Two different parts that start with the same word keep separate names
+      while (usedPrefixes.has(prefix) && usedPrefixes.get(prefix) !== component.id) {
+        prefix = `${prefix}_B`;
+      }
+      usedPrefixes.set(prefix, component.id);
+
+      for (let i = 0; i < quantity; i++) {
+        const macro = quantity > 1 ? `${prefix}_${i + 1}` : prefix;
+        instances.push({
+          label: quantity > 1 ? `${component.name} #${i + 1}` : component.name,
+          component,
+          macro,
+          variable: macro.toLowerCase(),
+        });
+      }
+    }
+
+    return instances;
+  }
+
+  // One #define per signal pin of the part that is wired to a board pin
+  private assignPins(board: Board, instance: Instance, connections: Connection[]): SketchPin[] {
+    const pins: SketchPin[] = [];
+
+    for (const pin of instance.component.specifications.pins) {
+      if (pin.type === 'power' || pin.type === 'ground' || pin.type === 'nc') continue;
+
+      const boardPin = this.findBoardPin(board, instance, pin, connections);
+      if (!boardPin) continue;
+
+      pins.push({
+        define: `${instance.macro}_${this.identifier(pin.name)}_PIN`,
+        value: this.pinValue(boardPin, pin),
+        component: instance.label,
+        componentPin: pin.name,
+        boardPin: boardPin.name,
+      });
+    }
+
+    return pins;
+  }
+
+  private findBoardPin(board: Board, instance: Instance, pin: PinConfiguration, connections: Connection[]): BoardPin | null {
+    const names = [instance.label, instance.component.id, instance.component.name].map(name => name.toLowerCase());
+    const matches = (side: string) => names.includes(side.toLowerCase());
+    const samePin = (name: string) => name.trim().toLowerCase() === pin.name.trim().toLowerCase();
+
+    for (const connection of connections) {
+      let boardPinName: string | null = null;
+
+      if (matches(connection.fromComponent) && samePin(connection.fromPin)) {
+        boardPinName = connection.toPin;
+      } else if (matches(connection.toComponent) && samePin(connection.toPin)) {
+        boardPinName = connection.fromPin;
+      }
+
+      const boardPin = boardPinName && board.pins.find(candidate => candidate.name.toLowerCase() === boardPinName.toLowerCase());
+      if (boardPin) {
+        return boardPin;
+      }
+    }
+
+    return null;
+  }
+
+  // Analog inputs on A-numbered pins use the core's A0..An constants, everything else the GPIO number
+  private pinValue(boardPin: BoardPin, pin: PinConfiguration): string {
+    if (pin.type === 'analog' && boardPin.analogPin !== undefined && /^A\d+$/i.test(boardPin.name)) {
+      return boardPin.name.toUpperCase();
+    }
+
+    return String(boardPin.digitalPin ?? boardPin.number);
+  }
+
+  private render(snippet: string, instance: Instance, pins: SketchPin[], warnings: string[]): string {
+    return snippet
+      .replace(/\{\{var\}\}/g, instance.variable)
+      .replace(/\{\{label\}\}/g, instance.label.replace(/["\\]/g, '\\$&'))
+      .replace(/\{\{address\}\}/g, this.i2cAddress(instance.component))
+      .replace(/\{\{pin:([^}]+)\}\}/g, (_match, name: string) => {
+        const wanted = name.trim().toLowerCase();
+        const existing = pins.find(pin => pin.component === instance.label && pin.componentPin.toLowerCase() === wanted);
+        if (existing) {
+          return existing.define;
+        }
+
+        // Keep the sketch compiling; the user has to wire this pin and fill in the number
+        const define = `${instance.macro}_${this.identifier(name)}_PIN`;
+        pins.push({ define, value: '-1', component: instance.label, componentPin: name.trim(), boardPin: null });
+        warnings.push(`${instance.label} pin ${name.trim()} is not wired; ${define} is set to -1`);
+        return define;
+      });
+  }
+
+  private assemble(
+    board: Board,
+    instances: Instance[],
+    parts: {
+      includes: Set<string>;
+      missingHeaders: Set<string>;
+      pins: SketchPin[];
+      globals: string[];
+      setup: string[];
+      loop: string[];
+    }
+  ): string {
+    const indent = (block: string) => block.split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+    const lines: string[] = [
+      '/*',
+      ` * ${board.name} sketch generated by ProtoBuddy`,
+      ...instances.map(instance => ` * - ${instance.label}`),
+      ' */',
+      '',
+    ];
+
+    lines.push(...[...parts.includes].map(header => `#include <${header}>`));
+    lines.push(...[...parts.missingHeaders].map(library => `// Requires the "${library}" library; add its #include here`));
+    if (parts.includes.size > 0 || parts.missingHeaders.size > 0) lines.push('');
+
+    if (parts.pins.length > 0) {
+      lines.push('// Pin assignments');
+      for (const pin of parts.pins) {
+        const wiring = pin.boardPin ? `${pin.component} ${pin.componentPin} -> ${pin.boardPin}` : `${pin.component} ${pin.componentPin} is not wired`;
+        lines.push(`#define ${pin.define} ${pin.value} // ${wiring}`);
+      }
+      lines.push('');
+    }
+
+    if (parts.globals.length > 0) {
+      lines.push(...parts.globals, '');
+    }
+
+    lines.push('void setup() {', ...parts.setup.map(indent), '}', '');
+    lines.push('void loop() {', ...parts.loop.map(indent), '}', '');
+
+    return lines.join('\n');
+  }
+
+  private headerFor(library: string): string | null {
+    const known = LIBRARY_HEADERS[library.trim().toLowerCase()];
+    if (known) return known;
+    if (/\.h$/i.test(library)) return library.trim();
+    if (/^[A-Za-z0-9_]+$/.test(library.trim())) return `${library.trim()}.h`;
+
+    return null;
+  }
+
+  private i2cAddress(component: Component): string {
+    const address = component.specifications.communication
+      ?.find(protocol => protocol.type === 'I2C')?.details.address?.match(/0x[0-9a-f]{1,2}/i)?.[0];
+
+    return address || '0x00';
+  }
+
+  private usesProtocol(component: Component, protocol: string): boolean {
+    return (component.specifications.communication || []).some(p => p.type === protocol);
+  }
+
+  private extractCode(text: string): string | null {
+    const fenced = text.match(/```(?:cpp|c\+\+|arduino|ino|c)?\s*\n([\s\S]*?)```/i);
+    const code = (fenced ? fenced[1] : text)?.trim();
+
+    // A reply without setup() and loop() isn't a sketch
+    return code && /void\s+setup\s*\(/.test(code) && /void\s+loop\s*\(/.test(code) ? `${code}\n` : null;
+  }
+
+  private identifier(name: string): string {
+    const cleaned = name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!cleaned) return 'PART';
+    return /^\d/.test(cleaned) ? `PART_${cleaned}` : cleaned;
+  }
+
+  private mapRow(row: SketchTemplateRow): SketchTemplate {
+    return {
+      id: row.id,
+      category: row.category,
+      namePattern: row.name_pattern,
+      includes: row.includes || [],
+      globals: row.globals || '',
+      setup: row.setup || '',
+      loop: row.loop || '',
+    };
+  }
+}
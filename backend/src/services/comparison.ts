@@ -0,0 +1,149 @@
+import { BoardService } from './boards';
+import { CompatibilityService } from './compatibility';
+import { NotFoundError } from '../utils/errors';
+import { convertUnit } from '../utils/quantity';
+import { Board, BoardComparison, BoardComparisonRow, BoardPin, Component, SystemComponentInput } from '../types';
+
+// Pin capabilities worth comparing; a row is only shown when some board has the function
+const PIN_FUNCTIONS: Array<{ key: string; label: string; matches: (pin: BoardPin) => boolean }> = [
+  { key: 'digital', label: 'Digital pins', matches: pin => pin.digitalPin !== undefined || pin.functions.some(fn => /^digital$/i.test(fn)) },
+  { key: 'analog', label: 'Analog inputs', matches: pin => pin.analogPin !== undefined || pin.functions.some(fn => /^analog$/i.test(fn)) },
+  { key: 'pwm', label: 'PWM pins', matches: pin => pin.functions.some(fn => /^pwm$/i.test(fn)) },
+  { key: 'interrupt', label: 'Interrupt pins', matches: pin => pin.functions.some(fn => /^interrupt$/i.test(fn)) },
+  { key: 'dac', label: 'DAC outputs', matches: pin => pin.functions.some(fn => /^dac$/i.test(fn)) },
+  { key: 'touch', label: 'Touch pins', matches: pin => pin.functions.some(fn => /^touch$/i.test(fn)) },
+];
+
+/**
+ * Side-by-side board comparison: one row per spec, one value per board, plus compatibility scores
+ * for any parts the boards are being considered for.
+ */
+export class BoardComparisonService {
+  private boardService = new BoardService();
+  private compatibilityService = new CompatibilityService();
+
+  // Boards are looked up by id or name, so "esp32,arduino-uno" works
+  async compareBoards(boardIds: string[], componentIds: string[] = []): Promise<BoardComparison> {
+    const boards: Board[] = [];
+    for (const boardId of boardIds) {
+      const board = await this.boardService.getBoard(boardId);
+      if (!board) {
+        throw new NotFoundError(`Board not found: ${boardId}`);
+      }
+      // Two names can resolve to the same board
+      if (!boards.some(existing => existing.id === board.id)) {
+        boards.push(board);
+      }
+    }
+
+    const first = boards[0];
+    const items: SystemComponentInput[] = componentIds.map(componentId => ({ componentId, quantity: 1 }));
+    const components = first && items.length > 0
+      ? (await this.compatibilityService.resolveBuild(first.id, items)).parts.map(part => part.component)
+      : [];
+
+    return {
+      boards: boards.map(board => ({ id: board.id, name: board.name, manufacturer: board.manufacturer })),
+      rows: [
+        ...this.specRows(boards),
+        ...this.protocolRows(boards),
+        ...this.pinRows(boards),
+        ...await this.compatibilityRows(boards, components, items),
+      ],
+      components: components.map(component => ({ id: component.id, name: component.name })),
+    };
+  }
+
+  private specRows(boards: Board[]): BoardComparisonRow[] {
+    const row = (
+      key: string,
+      label: string,
+      group: BoardComparisonRow['group'],
+      value: (board: Board) => string | number | null | undefined,
+      unit?: string
+    ): BoardComparisonRow => {
+      const comparison: BoardComparisonRow = { key, label, group, values: boards.map(board => value(board) ?? null) };
+      if (unit) comparison.unit = unit;
+      return comparison;
+    };
+
+    return [
+      row('processor', 'Processor', 'processor', board => board.specifications.processor),
+      row('architecture', 'Architecture', 'processor', board => board.specifications.architecture),
+      row('clockSpeed', 'Clock speed', 'processor', board => board.specifications.clockSpeed),
+      row('flash', 'Flash', 'memory', board => board.specifications.memory.flash),
+      row('sram', 'SRAM', 'memory', board => board.specifications.memory.sram),
+      row('eeprom', 'EEPROM', 'memory', board => board.specifications.memory.eeprom),
+      row('operatingVoltage', 'Operating voltage', 'electrical', board => board.specifications.voltage.operating, 'V'),
+      row('ioVoltage', 'I/O voltage', 'electrical', board => board.specifications.voltage.io, 'V'),
+      row('currentPerPin', 'Current per pin', 'electrical',
+        board => this.toMilliamps(board.specifications.current.output.perPin, board.specifications.current.output.unit), 'mA'),
+      row('currentTotal', 'Total I/O current', 'electrical',
+        board => this.toMilliamps(board.specifications.current.output.total, board.specifications.current.output.unit), 'mA'),
+    ];
+  }
+
+  // How many of each bus a board has, e.g. two UARTs on an ESP32
+  private protocolRows(boards: Board[]): BoardComparisonRow[] {
+    const types = [...new Set(boards.flatMap(board => board.supportedProtocols.map(protocol => protocol.type)))];
+
+    return types.map(type => ({
+      key: `protocol:${type}`,
+      label: type,
+      group: 'protocols',
+      values: boards.map(board => board.supportedProtocols.filter(protocol => protocol.type === type).length),
+    }));
+  }
+
+  private pinRows(boards: Board[]): BoardComparisonRow[] {
+    const rows: BoardComparisonRow[] = [{
+      key: 'pins:total',
+      label: 'Total I/O pins',
+      group: 'pins',
+      values: boards.map(board => board.pins.length),
+    }];
+
+    for (const { key, label, matches } of PIN_FUNCTIONS) {
+      const values = boards.map(board => board.pins.filter(matches).length);
+      if (values.some(count => count > 0)) {
+        rows.push({ key: `pins:${key}`, label, group: 'pins', values });
+      }
+    }
+
+    return rows;
+  }
+
+  private async compatibilityRows(
+    boards: Board[],
+    components: Component[],
+    items: SystemComponentInput[]
+  ): Promise<BoardComparisonRow[]> {
+    if (components.length === 0) {
+      return [];
+    }
+
+    const rows: BoardComparisonRow[] = [];
+    for (const component of components) {
+      const values: number[] = [];
+      for (const board of boards) {
+        values.push(await this.compatibilityService.calculateCompatibilityScore(board.id, component.id));
+      }
+      rows.push({ key: `compatibility:${component.id}`, label: component.name, group: 'compatibility', unit: '%', values });
+    }
+
+    // Shared I2C addresses, pins and power only show up when the parts are checked together
+    if (components.length > 1) {
+      const values: number[] = [];
+      for (const board of boards) {
+        values.push((await this.compatibilityService.checkSystemCompatibility(board.id, items)).score);
+      }
+      rows.push({ key: 'compatibility:system', label: 'All parts together', group: 'compatibility', unit: '%', values });
+    }
+
+    return rows;
+  }
+
+  private toMilliamps(value: number, unit: string): number {
+    return convertUnit(value, unit, 'mA');
+  }
+}
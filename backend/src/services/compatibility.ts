@@ -1,29 +1,71 @@
 import { query, cache } from '../database/connection';
 import { cacheKeys, config } from '../config';
 import { logger, logCompatibilityCheck } from '../utils/logger';
+import { NotFoundError } from '../utils/errors';
+import { BoardService } from './boards';
+import { toComponent } from './components';
+import { WiringService } from './wiring';
+import { PowerService, DEFAULT_POWER_SUPPLY } from './power';
+import { PhysicalService, DEFAULT_FIT_OPTIONS } from './physical';
+import { RemediationService } from './remediation';
+import { RuleService } from './rules';
+import { LibraryService } from './libraries';
+import { RuleEngine, RemedyNeed, RuleEvaluation } from './rule-engine';
 import {
+  BuildPart,
   CompatibilityCheck,
   CompatibilityIssue,
+  CompatibilityRule,
   Component,
   Board,
-  CommunicationProtocol
+  BoardPin,
+  PhysicalFit,
+  PhysicalFitOptions,
+  PowerBudget,
+  PowerSupply,
+  Remediation,
+  RemediationKind,
+  ResourceUsage,
+  SystemComponentInput,
+  SystemCompatibilityCheck
 } from '../types';
 
+interface PinDemand {
+  digital: number;
+  pwm: number;
+  analog: number;
+  i2c: boolean;
+  spiDevices: number;
+  uartPorts: number;
+}
+
+interface SystemAnalysis {
+  issues: CompatibilityIssue[];
+  suggestions: string[];
+  penalty: number;
+}
+
+interface ComponentAnalysis {
+  check: CompatibilityCheck;
+  remedies: RemedyNeed[];
+}
+
+// Fixes already in the build, by the id of the component they serve
+type Mitigations = Map<string, Set<RemediationKind>>;
+
 export class CompatibilityService {
+  private boardService = new BoardService();
+  private wiringService = new WiringService();
+  private powerService = new PowerService(this.wiringService);
+  private physicalService = new PhysicalService();
+  private remediationService = new RemediationService();
+  private ruleService = new RuleService();
+  private ruleEngine = new RuleEngine();
+  private libraryService = new LibraryService();
 
   async checkCompatibility(boardId: string, componentId: string): Promise<CompatibilityCheck> {
     try {
-      // Check cache first
-      const cacheKey = cacheKeys.compatibility(boardId, componentId);
-      const cached = await cache.get(cacheKey);
-
-      if (cached) {
-        const result = JSON.parse(cached);
-        logCompatibilityCheck(boardId, componentId, result.compatible, result.issues.length);
-        return result;
-      }
-
-      // Get board and component data
+      // Callers pass ids, names or aliases; resolve them so every spelling shares one cache entry
       const [board, component] = await Promise.all([
         this.getBoard(boardId),
         this.getComponent(componentId),
@@ -33,8 +75,22 @@ export class CompatibilityService {
         throw new Error('Board or component not found');
       }
 
+      const cacheKey = cacheKeys.compatibility(board.id, component.id);
+      const cached = await cache.get(cacheKey);
+
+      if (cached) {
+        const result = JSON.parse(cached);
+        logCompatibilityCheck(boardId, componentId, result.compatible, result.issues.length);
+        return result;
+      }
+
       // Perform compatibility analysis
-      const compatibility = await this.analyzeCompatibility(board, component);
+      const { check: compatibility, remedies } = await this.analyzeCompatibility(board, component);
+      compatibility.remediations = await this.buildRemediations(
+        remedies.map(need => ({ ...need, target: component })),
+        compatibility.score,
+        async need => (await this.analyzeCompatibility(board, component, new Set([need.kind]))).check.score
+      );
 
       // Cache result
       await cache.set(cacheKey, JSON.stringify(compatibility), config.cache.ttlSeconds);
@@ -84,421 +140,534 @@ export class CompatibilityService {
     return results;
   }
 
-  private async analyzeCompatibility(board: Board, component: Component): Promise<CompatibilityCheck> {
-    const issues: CompatibilityIssue[] = [];
-    const suggestions: string[] = [];
-    let score = 100;
-
-    // Voltage compatibility check
-    const voltageAnalysis = this.checkVoltageCompatibility(board, component);
-    if (!voltageAnalysis.compatible) {
-      issues.push(...voltageAnalysis.issues);
-      suggestions.push(...voltageAnalysis.suggestions);
-      score -= voltageAnalysis.penalty;
-    }
+  async checkSystemCompatibility(
+    boardId: string,
+    items: SystemComponentInput[],
+    supply: PowerSupply = DEFAULT_POWER_SUPPLY,
+    fit: PhysicalFitOptions = DEFAULT_FIT_OPTIONS
+  ): Promise<SystemCompatibilityCheck> {
+    try {
+      // Keyed by resolved ids, like checkCompatibility, so board and component writes can clear it
+      const { board, parts } = await this.resolveBuild(boardId, items);
+      const signature = JSON.stringify({
+        items: items
+          .map((item, index) => ({ ...item, componentId: parts[index]?.component.id ?? item.componentId }))
+          .sort((a, b) => a.componentId.localeCompare(b.componentId)),
+        supply,
+        fit,
+      });
+      const cacheKey = cacheKeys.systemCompatibility(board.id, signature);
+      const cached = await cache.get(cacheKey);
+
+      if (cached) {
+        return JSON.parse(cached);
+      }
+
+      const result = await this.analyzeSystemCompatibility(board, parts, supply, fit);
+
+      await cache.set(cacheKey, JSON.stringify(result), config.cache.ttlSeconds);
 
-    // Current requirements check
-    const currentAnalysis = this.checkCurrentRequirements(board, component);
-    if (!currentAnalysis.compatible) {
-      issues.push(...currentAnalysis.issues);
-      suggestions.push(...currentAnalysis.suggestions);
-      score -= currentAnalysis.penalty;
+      logger.info('System compatibility check', {
+        boardId: board.id,
+        componentCount: parts.length,
+        compatible: result.compatible,
+        issuesCount: result.issues.length,
+      });
+
+      return result;
+
+    } catch (error) {
+      logger.error('System compatibility check failed:', error);
+      throw error;
     }
+  }
 
-    // Communication protocol compatibility
-    const protocolAnalysis = this.checkProtocolCompatibility(board, component);
-    if (!protocolAnalysis.compatible) {
-      issues.push(...protocolAnalysis.issues);
-      suggestions.push(...protocolAnalysis.suggestions);
-      score -= protocolAnalysis.penalty;
+  async resolveBuild(boardId: string, items: SystemComponentInput[]): Promise<{ board: Board; parts: BuildPart[] }> {
+    const board = await this.getBoard(boardId);
+    if (!board) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
     }
 
-    // Pin availability check
-    const pinAnalysis = this.checkPinAvailability(board, component);
-    if (!pinAnalysis.compatible) {
-      issues.push(...pinAnalysis.issues);
-      suggestions.push(...pinAnalysis.suggestions);
-      score -= pinAnalysis.penalty;
+    const parts: BuildPart[] = [];
+    for (const item of items) {
+      const component = await this.getComponent(item.componentId);
+      if (!component) {
+        throw new NotFoundError(`Component not found: ${item.componentId}`);
+      }
+      parts.push({ component, quantity: item.quantity, dutyCycle: item.dutyCycle });
     }
 
-    // Library support check
-    const libraryAnalysis = await this.checkLibrarySupport(board, component);
-    if (!libraryAnalysis.compatible) {
-      issues.push(...libraryAnalysis.issues);
-      suggestions.push(...libraryAnalysis.suggestions);
-      score -= libraryAnalysis.penalty;
+    return { board, parts };
+  }
+
+  async analyzeSystemCompatibility(
+    board: Board,
+    parts: BuildPart[],
+    supply: PowerSupply = DEFAULT_POWER_SUPPLY,
+    fit: PhysicalFitOptions = DEFAULT_FIT_OPTIONS
+  ): Promise<SystemCompatibilityCheck> {
+    const { result, remedies } = await this.runSystemAnalysis(board, parts, supply, fit, new Map());
+
+    // Each fix is re-checked as part of the build, so its own pins and current count against the score
+    result.remediations = await this.buildRemediations(remedies, result.score, async (need, part) => {
+      const rechecked = await this.runSystemAnalysis(
+        board,
+        [...parts, { component: part, quantity: 1 }],
+        supply,
+        fit,
+        new Map([[need.target.id, new Set([need.kind])]])
+      );
+      return rechecked.result.score;
+    });
+
+    return result;
+  }
+
+  private async runSystemAnalysis(
+    board: Board,
+    parts: BuildPart[],
+    supply: PowerSupply,
+    fit: PhysicalFitOptions,
+    mitigations: Mitigations
+  ): Promise<{ result: SystemCompatibilityCheck; remedies: Array<RemedyNeed & { target: Component }> }> {
+    const issues: CompatibilityIssue[] = [];
+    const suggestions: string[] = [];
+    const componentResults: SystemCompatibilityCheck['components'] = [];
+    const remedies: Array<RemedyNeed & { target: Component }> = [];
+    let baseScore = 100;
+
+    // Individual board/component checks first; the weakest part caps the system score
+    for (const { component, quantity } of parts) {
+      const analysis = await this.analyzeCompatibility(board, component, mitigations.get(component.id));
+      const check = analysis.check;
+      remedies.push(...analysis.remedies.map(need => ({ ...need, target: component })));
+
+      issues.push(...check.issues.map(issue => ({
+        ...issue,
+        message: `[${component.name}] ${issue.message}`,
+      })));
+      suggestions.push(...check.suggestions);
+      baseScore = Math.min(baseScore, check.score);
+
+      componentResults.push({
+        componentId: component.id,
+        name: component.name,
+        quantity,
+        compatible: check.compatible,
+        score: check.score,
+      });
     }
 
-    // Physical constraints check
-    const physicalAnalysis = this.checkPhysicalConstraints(board, component);
-    if (!physicalAnalysis.compatible) {
-      issues.push(...physicalAnalysis.issues);
-      suggestions.push(...physicalAnalysis.suggestions);
-      score -= physicalAnalysis.penalty;
+    const i2c = this.checkI2CAddresses(parts);
+    const power = this.checkPowerBudget(board, parts, supply);
+    const pins = this.checkPinBudget(board, parts);
+    const physical = this.checkPhysicalFit(board, parts, fit);
+
+    let penalty = 0;
+    for (const analysis of [i2c, power, pins, physical]) {
+      issues.push(...analysis.issues);
+      suggestions.push(...analysis.suggestions);
+      penalty += analysis.penalty;
     }
 
-    // Overall compatibility determination
     const errorCount = issues.filter(issue => issue.severity === 'error').length;
-    const compatible = errorCount === 0;
 
-    return {
-      compatible,
+    const result: SystemCompatibilityCheck = {
+      boardId: board.id,
+      compatible: errorCount === 0,
       issues: issues.sort((a, b) => {
         const severityOrder = { error: 0, warning: 1, info: 2 };
         return severityOrder[a.severity] - severityOrder[b.severity];
       }),
-      suggestions: [...new Set(suggestions)], // Remove duplicates
-      score: Math.max(0, Math.min(100, score)), // Ensure score is between 0-100
+      suggestions: [...new Set(suggestions)],
+      score: Math.max(0, Math.min(100, baseScore - penalty)),
+      components: componentResults,
+      resources: {
+        i2cAddresses: i2c.assignments,
+        spiChipSelects: pins.spiChipSelects,
+        uarts: pins.uarts,
+        current: { required: power.budget.regulator.load, available: power.budget.regulator.limit, unit: 'mA' },
+        pins: pins.usage,
+      },
+      power: power.budget,
+      physical: physical.fit,
+      wiringInfo: this.wiringService.planWiring(board, parts),
     };
+
+    return { result, remedies };
   }
 
-  private checkVoltageCompatibility(board: Board, component: Component): {
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  } {
+  // Finds a catalogue part for each fix and re-scores the check with that part in place
+  private async buildRemediations(
+    needs: Array<RemedyNeed & { target: Component }>,
+    before: number,
+    rescore: (need: RemedyNeed & { target: Component }, part: Component) => Promise<number>
+  ): Promise<Remediation[]> {
+    const remediations: Remediation[] = [];
+    const seen = new Set<string>();
+
+    for (const need of needs) {
+      const key = `${need.target.id}:${need.kind}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const part = await this.remediationService.findPart(need.kind);
+      if (!part) {
+        continue;
+      }
+
+      remediations.push({
+        kind: need.kind,
+        issueType: need.issueType,
+        forComponent: { id: need.target.id, name: need.target.name },
+        component: part,
+        quantity: 1,
+        reason: need.reason,
+        score: { before, after: await rescore(need, part) },
+      });
+    }
+
+    return remediations;
+  }
+
+  private checkI2CAddresses(
+    parts: BuildPart[]
+  ): SystemAnalysis & { assignments: Record<string, string> } {
     const issues: CompatibilityIssue[] = [];
     const suggestions: string[] = [];
+    const assignments: Record<string, string> = {};
     let penalty = 0;
 
-    const boardVoltage = board.specifications.voltage.io;
-    const compVoltage = component.specifications.voltage.operating;
+    const instances: Array<{ label: string; candidates: number[] }> = [];
 
-    // Check if component can operate at board's IO voltage
-    if (compVoltage.min > boardVoltage || compVoltage.max < boardVoltage) {
-      const isError = Math.abs(boardVoltage - compVoltage.min) > 1.5; // More than 1.5V difference is likely incompatible
-
-      issues.push({
-        type: 'voltage',
-        severity: isError ? 'error' : 'warning',
-        message: `Voltage mismatch: Board operates at ${boardVoltage}V, component requires ${compVoltage.min}-${compVoltage.max}V`,
-        solution: boardVoltage > compVoltage.max
-          ? 'Consider using a level shifter or voltage divider'
-          : 'Component may work but check datasheet for tolerance',
-      });
+    for (const { component, quantity } of parts) {
+      const i2c = component.specifications.communication.find(p => p.type === 'I2C');
+      if (!i2c) continue;
 
-      penalty = isError ? 50 : 20;
+      if (!i2c.details.address) {
+        issues.push({
+          type: 'protocol',
+          severity: 'info',
+          message: `[${component.name}] I2C address unknown - verify it does not clash with other devices`,
+          solution: 'Run an I2C scanner sketch to confirm the address',
+        });
+        continue;
+      }
 
-      if (boardVoltage === 5 && compVoltage.max <= 3.6) {
-        suggestions.push('Use a 3.3V level shifter for safe operation');
-      } else if (boardVoltage === 3.3 && compVoltage.min >= 4.5) {
-        suggestions.push('This component requires 5V and may not work reliably at 3.3V');
+      const candidates = this.parseI2CAddresses(i2c.details.address);
+      for (let i = 0; i < quantity; i++) {
+        instances.push({
+          label: quantity > 1 ? `${component.name} #${i + 1}` : component.name,
+          candidates,
+        });
       }
     }
 
-    return {
-      compatible: issues.filter(i => i.severity === 'error').length === 0,
-      issues,
-      suggestions,
-      penalty,
-    };
-  }
+    // Most constrained devices pick first so configurable parts move out of their way
+    instances.sort((a, b) => a.candidates.length - b.candidates.length);
 
-  private checkCurrentRequirements(board: Board, component: Component): {
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  } {
-    const issues: CompatibilityIssue[] = [];
-    const suggestions: string[] = [];
-    let penalty = 0;
+    const owners = new Map<number, string>();
+    for (const instance of instances) {
+      const free = instance.candidates.find(address => !owners.has(address));
 
-    const boardMaxCurrent = board.specifications.current.output.perPin;
-    const boardTotalCurrent = board.specifications.current.output.total;
-    const compCurrent = component.specifications.current.operating.max;
+      if (free !== undefined) {
+        owners.set(free, instance.label);
+        assignments[instance.label] = this.formatI2CAddress(free);
+        continue;
+      }
+
+      const clashesWith = [...new Set(
+        instance.candidates
+          .map(address => owners.get(address))
+          .filter((owner): owner is string => owner !== undefined)
+      )];
 
-    // Check per-pin current limit
-    if (compCurrent > boardMaxCurrent) {
       issues.push({
-        type: 'current',
+        type: 'protocol',
         severity: 'error',
-        message: `Current requirement too high: Component needs ${compCurrent}mA, board can supply ${boardMaxCurrent}mA per pin`,
-        solution: 'Use an external driver or power supply',
-      });
-      penalty = 40;
-      suggestions.push('Consider using a MOSFET or relay driver for high-current components');
-    } else if (compCurrent > boardMaxCurrent * 0.8) {
-      issues.push({
-        type: 'current',
-        severity: 'warning',
-        message: `High current usage: Component uses ${compCurrent}mA, close to board limit of ${boardMaxCurrent}mA`,
-        solution: 'Monitor temperature and consider external power',
+        message: `I2C address conflict: ${instance.label} (${instance.candidates.map(a => this.formatI2CAddress(a)).join(', ')}) collides with ${clashesWith.join(', ')}`,
+        solution: 'Use an I2C multiplexer (e.g. TCA9548A), a second I2C bus, or a part variant with a different address',
       });
-      penalty = 10;
+      penalty += 30;
     }
 
-    // Check total current budget (simplified check)
-    if (compCurrent > boardTotalCurrent * 0.5) {
-      issues.push({
-        type: 'current',
-        severity: 'warning',
-        message: `Component uses significant portion of total current budget (${compCurrent}mA of ${boardTotalCurrent}mA)`,
-        solution: 'Consider power management and other connected components',
-      });
-      penalty += 5;
+    if (penalty > 0) {
+      suggestions.push('Add a TCA9548A I2C multiplexer to run devices with the same address');
     }
 
-    return {
-      compatible: issues.filter(i => i.severity === 'error').length === 0,
-      issues,
-      suggestions,
-      penalty,
-    };
+    return { issues, suggestions, penalty, assignments };
   }
 
-  private checkProtocolCompatibility(board: Board, component: Component): {
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  } {
-    const issues: CompatibilityIssue[] = [];
+  // Supply and board current limits come from the power budget
+  private checkPowerBudget(
+    board: Board,
+    parts: BuildPart[],
+    supply: PowerSupply
+  ): SystemAnalysis & { budget: PowerBudget } {
+    const budget = this.powerService.calculateBudget(board, parts, supply);
     const suggestions: string[] = [];
     let penalty = 0;
 
-    const componentProtocols = component.specifications.communication;
-    const boardProtocols = board.supportedProtocols.map(p => p.type);
-
-    // Check if component needs any communication protocols
-    if (componentProtocols.length === 0) {
-      // Simple GPIO component, should be compatible
-      return { compatible: true, issues, suggestions, penalty };
+    if (budget.issues.some(issue => issue.severity === 'error')) {
+      penalty = 40;
+      suggestions.push('Use an external 5V supply for motors, servos and LED strips');
+    } else if (budget.issues.some(issue => issue.severity === 'warning')) {
+      penalty = 10;
     }
 
-    // Check each required protocol
-    for (const protocol of componentProtocols) {
-      if (!boardProtocols.includes(protocol.type)) {
-        if (protocol.type === 'GPIO') {
-          // Most boards have GPIO
-          continue;
-        }
-
-        issues.push({
-          type: 'protocol',
-          severity: 'error',
-          message: `Protocol not supported: Component requires ${protocol.type}, board doesn't support it`,
-          solution: this.getProtocolSolution(protocol.type),
-        });
-        penalty += 30;
-      } else {
-        // Check protocol-specific compatibility
-        const protocolCheck = this.checkSpecificProtocol(board, component, protocol);
-        issues.push(...protocolCheck.issues);
-        suggestions.push(...protocolCheck.suggestions);
-        penalty += protocolCheck.penalty;
-      }
-    }
+    return { issues: budget.issues, suggestions, penalty, budget };
+  }
 
-    return {
-      compatible: issues.filter(i => i.severity === 'error').length === 0,
-      issues,
-      suggestions,
-      penalty,
-    };
+  // Breadboard or shield space, enclosure size and height clearance
+  private checkPhysicalFit(
+    board: Board,
+    parts: BuildPart[],
+    options: PhysicalFitOptions
+  ): SystemAnalysis & { fit: PhysicalFit } {
+    const fit = this.physicalService.checkFit(board, parts, options);
+    const errors = fit.issues.filter(issue => issue.severity === 'error').length;
+    const warnings = fit.issues.filter(issue => issue.severity === 'warning').length;
+
+    return { issues: fit.issues, suggestions: [], penalty: errors * 20 + warnings * 5, fit };
   }
 
-  private checkSpecificProtocol(board: Board, component: Component, protocol: CommunicationProtocol): {
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
+  private checkPinBudget(
+    board: Board,
+    parts: BuildPart[]
+  ): SystemAnalysis & {
+    usage: SystemCompatibilityCheck['resources']['pins'];
+    spiChipSelects: ResourceUsage;
+    uarts: ResourceUsage;
   } {
     const issues: CompatibilityIssue[] = [];
     const suggestions: string[] = [];
     let penalty = 0;
 
-    switch (protocol.type) {
-      case 'I2C':
-        // Check I2C address conflicts (would need database of other components)
-        if (protocol.details.address) {
-          suggestions.push(`I2C address: ${protocol.details.address} - ensure no conflicts with other components`);
-        }
-        break;
-
-      case 'SPI':
-        // SPI generally doesn't have address conflicts, but needs CS pin
-        suggestions.push('SPI component will need a dedicated CS (Chip Select) pin');
-        break;
-
-      case 'UART':
-        // Check if board has available UART
-        const boardUARTs = board.pins.filter(pin =>
-          pin.functions.some(func => func.toLowerCase().includes('uart') || func.toLowerCase().includes('serial'))
-        ).length;
-
-        if (boardUARTs === 0) {
-          issues.push({
-            type: 'protocol',
-            severity: 'warning',
-            message: 'No dedicated UART pins found - may need to use software serial',
-            solution: 'Use SoftwareSerial library for additional UART functionality',
-          });
-          penalty = 10;
-        }
-        break;
+    const demand: PinDemand = { digital: 0, pwm: 0, analog: 0, i2c: false, spiDevices: 0, uartPorts: 0 };
+    for (const { component, quantity } of parts) {
+      const partDemand = this.getPinDemand(component);
+      demand.digital += partDemand.digital * quantity;
+      demand.pwm += partDemand.pwm * quantity;
+      demand.analog += partDemand.analog * quantity;
+      demand.spiDevices += partDemand.spiDevices * quantity;
+      demand.uartPorts += partDemand.uartPorts * quantity;
+      demand.i2c = demand.i2c || partDemand.i2c;
     }
 
-    return { issues, suggestions, penalty };
-  }
+    const hasFunction = (pin: BoardPin, fn: string) =>
+      pin.functions.some(f => f.toLowerCase() === fn.toLowerCase());
+    const isGpio = (pin: BoardPin) => hasFunction(pin, 'digital') || hasFunction(pin, 'GPIO');
 
-  private checkPinAvailability(board: Board, component: Component): {
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  } {
-    const issues: CompatibilityIssue[] = [];
-    const suggestions: string[] = [];
-    let penalty = 0;
+    let pool = board.pins.filter(pin => isGpio(pin) || hasFunction(pin, 'analog'));
+
+    // Shared buses claim their dedicated pins once, however many devices sit on them
+    if (demand.i2c) {
+      pool = pool.filter(pin => !hasFunction(pin, 'I2C'));
+    }
+    if (demand.spiDevices > 0) {
+      pool = pool.filter(pin => !hasFunction(pin, 'SPI'));
+    }
 
-    const requiredPins = component.specifications.pins.length;
-    const availablePins = board.pins.filter(pin =>
-      pin.functions.includes('GPIO') || pin.functions.includes('digital')
-    ).length;
+    const hardwareUarts = board.supportedProtocols.filter(p => p.type === 'UART').length;
+    if (demand.uartPorts > 0 && hardwareUarts > 0) {
+      pool = pool.filter(pin => !hasFunction(pin, 'UART'));
+    }
 
-    if (requiredPins > availablePins) {
+    // Extra serial devices fall back to software serial on two GPIOs each
+    const softwareUarts = Math.max(0, demand.uartPorts - hardwareUarts);
+    if (softwareUarts > 0) {
+      issues.push({
+        type: 'protocol',
+        severity: 'warning',
+        message: `Not enough hardware UARTs: ${demand.uartPorts} needed, board has ${hardwareUarts}`,
+        solution: 'Use SoftwareSerial for the extra devices or a board with more UARTs',
+      });
+      penalty += 10;
+    } else if (demand.uartPorts > 0 && board.type === 'microcontroller' && hardwareUarts === 1) {
+      issues.push({
+        type: 'protocol',
+        severity: 'info',
+        message: 'The only hardware UART is shared with USB serial - disconnect the device while uploading',
+      });
+    }
+
+    // Allocate the scarcest pin types first, taking the least versatile pin that fits
+    const versatility = (pin: BoardPin) => pin.functions.length;
+    const take = (predicate: (pin: BoardPin) => boolean, count: number): number => {
+      const candidates = pool.filter(predicate).sort((a, b) => versatility(a) - versatility(b));
+      const taken = new Set(candidates.slice(0, count));
+      pool = pool.filter(pin => !taken.has(pin));
+      return count - taken.size;
+    };
+
+    const analogAvailable = pool.filter(pin => hasFunction(pin, 'analog') || pin.analogPin !== undefined).length;
+    const analogShort = take(pin => hasFunction(pin, 'analog') || pin.analogPin !== undefined, demand.analog);
+
+    const pwmAvailable = pool.filter(pin => hasFunction(pin, 'PWM')).length;
+    const pwmShort = take(pin => hasFunction(pin, 'PWM'), demand.pwm);
+
+    const digitalNeeded = demand.digital + demand.spiDevices + softwareUarts * 2;
+    const digitalAvailable = pool.filter(isGpio).length;
+    const digitalShort = take(isGpio, digitalNeeded);
+
+    const csAvailable = Math.max(0, digitalAvailable - demand.digital - softwareUarts * 2);
+
+    if (analogShort > 0) {
       issues.push({
         type: 'pins',
         severity: 'error',
-        message: `Insufficient pins: Component needs ${requiredPins} pins, board has ${availablePins} available`,
-        solution: 'Use a pin expander or choose a board with more pins',
+        message: `Not enough analog pins for the build: ${demand.analog} needed, ${analogAvailable} available`,
+        solution: 'Use an external ADC such as the ADS1115 over I2C',
       });
-      penalty = 30;
-    } else if (requiredPins > availablePins * 0.8) {
+      penalty += 30;
+    }
+
+    if (pwmShort > 0) {
       issues.push({
         type: 'pins',
-        severity: 'warning',
-        message: `High pin usage: Component uses ${requiredPins} of ${availablePins} available pins`,
-        solution: 'Consider pin usage for future expansion',
+        severity: 'error',
+        message: `Not enough PWM pins for the build: ${demand.pwm} needed, ${pwmAvailable} available after bus pins are reserved`,
+        solution: 'Use a PWM driver such as the PCA9685 over I2C',
       });
-      penalty = 5;
+      penalty += 30;
     }
 
-    // Check for specific pin type requirements
-    const analogPinsNeeded = component.specifications.pins.filter(pin => pin.type === 'analog').length;
-    const analogPinsAvailable = board.pins.filter(pin => pin.analogPin !== undefined).length;
-
-    if (analogPinsNeeded > analogPinsAvailable) {
+    if (digitalShort > 0) {
+      const csShort = demand.spiDevices > csAvailable;
       issues.push({
         type: 'pins',
         severity: 'error',
-        message: `Insufficient analog pins: Need ${analogPinsNeeded}, have ${analogPinsAvailable}`,
-        solution: 'Use an external ADC or choose a board with more analog pins',
+        message: csShort
+          ? `Not enough pins for SPI chip selects: ${demand.spiDevices} SPI devices, ${csAvailable} free pins left for CS`
+          : `Not enough digital pins for the build: ${digitalNeeded} needed, ${digitalAvailable} available`,
+        solution: 'Use an I/O expander such as the MCP23017, or move parts onto shared buses',
       });
-      penalty += 25;
+      penalty += 30;
+    }
+
+    if (penalty > 0) {
+      suggestions.push('Prefer I2C parts to save pins - many devices can share two wires');
     }
 
     return {
-      compatible: issues.filter(i => i.severity === 'error').length === 0,
       issues,
       suggestions,
       penalty,
+      usage: {
+        digital: { required: digitalNeeded, available: digitalAvailable },
+        analog: { required: demand.analog, available: analogAvailable },
+        pwm: { required: demand.pwm, available: pwmAvailable },
+      },
+      spiChipSelects: { required: demand.spiDevices, available: csAvailable },
+      uarts: { required: demand.uartPorts, available: hardwareUarts },
     };
   }
 
-  private async checkLibrarySupport(board: Board, component: Component): Promise<{
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  }> {
-    const issues: CompatibilityIssue[] = [];
-    const suggestions: string[] = [];
-    let penalty = 0;
+  private getPinDemand(component: Component): PinDemand {
+    const protocols = component.specifications.communication.map(p => p.type);
+    const usesBus = protocols.some(type => type === 'I2C' || type === 'SPI' || type === 'UART');
 
-    const requiredLibraries = component.compatibility.requiredLibraries;
+    // Bus parts talk over shared pins; their own digital pins (e.g. expander ports) are not board-facing
+    const signalPins = usesBus
+      ? []
+      : component.specifications.pins.filter(pin => pin.type === 'digital' || pin.type === 'analog');
 
-    // Check if libraries are available (simplified check)
-    for (const library of requiredLibraries) {
-      // In a real implementation, you'd check against a database of available libraries
-      const isAvailable = await this.checkLibraryAvailability(library, board.type);
-
-      if (!isAvailable) {
-        issues.push({
-          type: 'library',
-          severity: 'warning',
-          message: `Library may not be available: ${library}`,
-          solution: 'Check Arduino Library Manager or install manually',
-        });
-        penalty += 5;
-      }
-    }
+    const digitalPins = signalPins.filter(pin => pin.type === 'digital').length;
+    const needsPwm = protocols.includes('PWM');
 
     return {
-      compatible: true, // Library issues are usually not blocking
-      issues,
-      suggestions,
-      penalty,
+      digital: needsPwm ? 0 : digitalPins,
+      pwm: needsPwm ? digitalPins : 0,
+      analog: signalPins.filter(pin => pin.type === 'analog').length,
+      i2c: protocols.includes('I2C'),
+      spiDevices: protocols.includes('SPI') ? 1 : 0,
+      uartPorts: protocols.includes('UART') ? 1 : 0,
     };
   }
 
-  private checkPhysicalConstraints(board: Board, component: Component): {
-    compatible: boolean;
-    issues: CompatibilityIssue[];
-    suggestions: string[];
-    penalty: number;
-  } {
-    const issues: CompatibilityIssue[] = [];
-    const suggestions: string[] = [];
-    let penalty = 0;
-
-    // Check component dimensions if available
-    if (component.specifications.dimensions) {
-      const compSize = component.specifications.dimensions;
+  // Accepts "0x76", "0x76/0x77", "0x3C or 0x3D" and ranges like "0x20-0x27"
+  private parseI2CAddresses(address: string): number[] {
+    const addresses = new Set<number>();
+
+    for (const part of address.split(/,|\/|\bor\b/i)) {
+      const range = part.match(/0x([0-9a-f]{1,2})\s*(?:-|–|to)\s*(?:0x)?([0-9a-f]{1,2})/i);
+      if (range && range[1] && range[2]) {
+        const start = parseInt(range[1], 16);
+        const end = parseInt(range[2], 16);
+        for (let a = Math.min(start, end); a <= Math.max(start, end); a++) {
+          addresses.add(a);
+        }
+        continue;
+      }
 
-      // Basic size warnings (would need board dimensions for proper check)
-      if (compSize.length > 50 || compSize.width > 50) { // mm
-        issues.push({
-          type: 'physical',
-          severity: 'info',
-          message: `Large component: ${compSize.length}×${compSize.width}mm - ensure adequate space`,
-          solution: 'Verify board has sufficient space and consider mounting',
-        });
-        penalty = 2;
+      const single = part.match(/0x([0-9a-f]{1,2})/i);
+      if (single && single[1]) {
+        addresses.add(parseInt(single[1], 16));
       }
     }
 
+    return [...addresses].sort((a, b) => a - b);
+  }
+
+  private formatI2CAddress(address: number): string {
+    return `0x${address.toString(16).toUpperCase().padStart(2, '0')}`;
+  }
+
+  // Rules that a fix in `mitigations` would clear are skipped, which is how fixes get re-scored
+  private async analyzeCompatibility(
+    board: Board,
+    component: Component,
+    mitigations: Set<RemediationKind> = new Set()
+  ): Promise<ComponentAnalysis> {
+    const rules = await this.ruleService.getActiveRules();
+    const facts = await this.ruleFacts(board, component);
+    const { issues, suggestions, remedies, penalty } = this.ruleEngine.evaluate(rules, board, component, mitigations, facts);
+
+    // Overall compatibility determination
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    const compatible = errorCount === 0;
+
     return {
-      compatible: true, // Physical constraints rarely block compatibility
-      issues,
-      suggestions,
-      penalty,
+      check: {
+        compatible,
+        issues: issues.sort((a, b) => {
+          const severityOrder = { error: 0, warning: 1, info: 2 };
+          return severityOrder[a.severity] - severityOrder[b.severity];
+        }),
+        suggestions: [...new Set(suggestions)], // Remove duplicates
+        score: Math.max(0, Math.min(100, 100 - penalty)), // Ensure score is between 0-100
+        wiringInfo: this.wiringService.planWiring(board, [{ component, quantity: 1 }]),
+      },
+      remedies,
     };
   }
 
-  private async checkLibraryAvailability(library: string, boardType: string): Promise<boolean> {
-    // Simplified library check - in reality, you'd have a database of libraries
-    const commonLibraries = [
-      'Arduino', 'Wire', 'SPI', 'SoftwareSerial', 'Servo',
-      'LiquidCrystal', 'DHT', 'OneWire', 'Adafruit_Sensor',
-    ];
+  // Evaluates a single rule, enabled or not, as it would run inside a compatibility check
+  async dryRunRule(rule: CompatibilityRule, boardId: string, componentId: string): Promise<RuleEvaluation> {
+    const { board, parts: [part] } = await this.resolveBuild(boardId, [{ componentId, quantity: 1 }]);
+    if (!part) {
+      throw new NotFoundError(`Component not found: ${componentId}`);
+    }
 
-    return commonLibraries.some(lib =>
-      library.toLowerCase().includes(lib.toLowerCase())
-    );
+    const facts = await this.ruleFacts(board, part.component);
+    return this.ruleEngine.evaluate([{ ...rule, enabled: true }], board, part.component, new Set(), facts);
   }
 
-  private getProtocolSolution(protocol: string): string {
-    const solutions: { [key: string]: string } = {
-      'I2C': 'Use software I2C or an I2C-capable board',
-      'SPI': 'Use bit-banged SPI or choose a board with SPI support',
-      'UART': 'Use SoftwareSerial library or a board with multiple UARTs',
-      'OneWire': 'OneWire can be implemented on any digital pin',
-      'CAN': 'Use a CAN transceiver shield or CAN-capable board',
-    };
+  // Lookups rules can't do themselves: the library index results for the component's libraries
+  private async ruleFacts(board: Board, component: Component): Promise<Record<string, unknown>> {
+    const { indexed, architecture, libraries } = await this.libraryService.checkLibraries(
+      board,
+      component.compatibility.requiredLibraries || []
+    );
 
-    return solutions[protocol] || 'Check if software implementation is available';
+    return { libraries, libraryIndex: { loaded: indexed, architecture } };
   }
 
   private async getBoard(boardId: string): Promise<Board | null> {
     try {
-      const result = await query(
-        'SELECT * FROM boards WHERE id = $1 OR name ILIKE $2',
-        [boardId, `%${boardId}%`]
-      );
-
-      return result.rows[0] || null;
+      return await this.boardService.getBoard(boardId);
     } catch (error) {
       logger.error('Failed to get board:', error);
       return null;
@@ -512,7 +681,7 @@ export class CompatibilityService {
         [componentId, `%${componentId}%`]
       );
 
-      return result.rows[0] || null;
+      return result.rows[0] ? toComponent(result.rows[0]) : null;
     } catch (error) {
       logger.error('Failed to get component:', error);
       return null;
@@ -3,6 +3,47 @@ import { cacheKeys, config } from '../config';
 import { logger } from '../utils/logger';
 import { Component, ApiResponse } from '../types';
 
+export interface ComponentRow {
+  id: string;
+  name: string;
+  manufacturer: string;
+  category: string;
+  description: string;
+  specifications: Component['specifications'];
+  compatibility: Component['compatibility'];
+  datasheet_url: string | null;
+  image_url: string | null;
+  // DECIMAL columns come back from pg as strings
+  price: string | number | null;
+  availability: string;
+  tags: string[] | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Maps a components row to the camelCase shape the API and the frontend use
+export function toComponent(row: ComponentRow): Component {
+  const component: Component = {
+    id: row.id,
+    name: row.name,
+    manufacturer: row.manufacturer,
+    category: row.category,
+    description: row.description,
+    specifications: row.specifications,
+    compatibility: row.compatibility,
+    availability: row.availability,
+    tags: row.tags || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+
+  if (row.datasheet_url) component.datasheetUrl = row.datasheet_url;
+  if (row.image_url) component.imageUrl = row.image_url;
+  if (row.price !== null && row.price !== undefined) component.price = Number(row.price);
+
+  return component;
+}
+
 export class ComponentService {
 
   async searchComponents(searchQuery: string, filters?: {
@@ -74,7 +115,7 @@ export class ComponentService {
       `;
 
       const result = await query(sql, params);
-      const components = result.rows;
+      const components = result.rows.map(toComponent);
 
       // Cache results
       await cache.set(cacheKey, JSON.stringify(components), config.cache.ttlSeconds);
@@ -108,7 +149,7 @@ export class ComponentService {
         [componentId]
       );
 
-      const component = result.rows[0] || null;
+      const component = result.rows[0] ? toComponent(result.rows[0]) : null;
 
       if (component) {
         await cache.set(cacheKey, JSON.stringify(component), config.cache.ttlSeconds);
@@ -136,7 +177,7 @@ export class ComponentService {
         [`%${category}%`, limit]
       );
 
-      const components = result.rows;
+      const components = result.rows.map(toComponent);
       await cache.set(cacheKey, JSON.stringify(components), config.cache.ttlSeconds);
 
       return components;
@@ -154,7 +195,7 @@ export class ComponentService {
         [`%${manufacturer}%`, limit]
       );
 
-      return result.rows;
+      return result.rows.map(toComponent);
 
     } catch (error) {
       logger.error('Get components by manufacturer failed:', error);
@@ -188,7 +229,7 @@ export class ComponentService {
       sql += ` ORDER BY cc.score DESC, c.created_at DESC LIMIT 50`;
 
       const result = await query(sql, params);
-      const components = result.rows;
+      const components = result.rows.map(toComponent);
 
       await cache.set(cacheKey, JSON.stringify(components), config.cache.ttlSeconds);
 
@@ -260,7 +301,7 @@ export class ComponentService {
         LIMIT $1
       `, [limit]);
 
-      const components = result.rows;
+      const components = result.rows.map(toComponent);
       await cache.set(cacheKey, JSON.stringify(components), config.cache.ttlSeconds);
 
       return components;
@@ -294,7 +335,7 @@ export class ComponentService {
         component.tags,
       ]);
 
-      const newComponent = result.rows[0];
+      const newComponent = toComponent(result.rows[0]);
 
       // Invalidate relevant caches
       await this.invalidateCaches(newComponent);
@@ -325,8 +366,13 @@ export class ComponentService {
         'specifications', 'compatibility', 'datasheet_url',
         'image_url', 'price', 'availability', 'tags'
       ];
+      const columnNames: Record<string, string> = {
+        datasheetUrl: 'datasheet_url',
+        imageUrl: 'image_url',
+      };
 
-      for (const [key, value] of Object.entries(updates)) {
+      for (const [field, value] of Object.entries(updates)) {
+        const key = columnNames[field] || field;
         if (allowedFields.includes(key) && value !== undefined) {
           paramCount++;
           setClause.push(`${key} = $${paramCount}`);
@@ -347,7 +393,7 @@ export class ComponentService {
       `;
 
       const result = await query(sql, values);
-      const updatedComponent = result.rows[0];
+      const updatedComponent = result.rows[0] ? toComponent(result.rows[0]) : null;
 
       if (updatedComponent) {
         // Clear cache
@@ -363,12 +409,42 @@ export class ComponentService {
     }
   }
 
+  // Inserts rows one at a time so a bad row doesn't abort the rest of the import
+  async importComponents(components: Array<Omit<Component, 'id' | 'createdAt' | 'updatedAt'>>): Promise<{
+    created: Array<{ index: number; id: string; name: string }>;
+    failed: Array<{ index: number; name?: string; error: string }>;
+  }> {
+    const created: Array<{ index: number; id: string; name: string }> = [];
+    const failed: Array<{ index: number; name?: string; error: string }> = [];
+
+    for (const [index, component] of components.entries()) {
+      try {
+        const newComponent = await this.addComponent(component);
+        created.push({ index, id: newComponent.id, name: newComponent.name });
+      } catch (error) {
+        failed.push({
+          index,
+          name: component.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    logger.info('Component import finished', {
+      created: created.length,
+      failed: failed.length,
+    });
+
+    return { created, failed };
+  }
+
   async deleteComponent(id: string): Promise<boolean> {
     try {
-      const result = await query('DELETE FROM components WHERE id = $1', [id]);
+      const result = await query('DELETE FROM components WHERE id = $1 RETURNING *', [id]);
 
-      if (result.rowCount && result.rowCount > 0) {
+      if (result.rows[0]) {
         await cache.del(cacheKeys.component(id));
+        await this.invalidateCaches(toComponent(result.rows[0]));
         return true;
       }
 
@@ -570,7 +646,7 @@ export class ComponentService {
       params.push(limit, offset);
 
       const result = await query(sql, params);
-      const components = result.rows;
+      const components = result.rows.map(toComponent);
 
       return { components, total };
 
@@ -594,6 +670,16 @@ export class ComponentService {
         await cache.del(key);
       }
 
+      // Compatibility results against every board, and every system check, since their keys
+      // don't say which parts they include
+      const compatKeys = [
+        ...await cache.keys(cacheKeys.compatibility('*', component.id)),
+        ...await cache.keys(`${cacheKeys.systemCompatibility('*', '')}*`),
+      ];
+      for (const key of compatKeys) {
+        await cache.del(key);
+      }
+
     } catch (error) {
       logger.warn('Failed to invalidate caches:', error);
     }
@@ -0,0 +1,245 @@
+import { query } from '../database/connection';
+import { ComponentService } from './components';
+import { SpecExtractor } from '../scraping/processors/spec-extractor';
+import { NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { convertUnit } from '../utils/quantity';
+import { Component, ComponentDraft, ComponentSpec, ComponentSpecDraft, ScrapedData } from '../types';
+
+export interface DraftFilters {
+  status?: ComponentDraft['status'];
+  limit?: number;
+  offset?: number;
+}
+
+// What the reviewer adds or corrects when approving; drafts never know their category
+export interface DraftApproval {
+  name?: string;
+  manufacturer?: string;
+  category: string;
+  description?: string;
+  price?: number;
+  availability?: string;
+  tags?: string[];
+  // Replaces the extracted values field by field, e.g. a corrected pin table
+  specifications?: Partial<ComponentSpec>;
+}
+
+export type NewComponent = Omit<Component, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface DraftRow {
+  id: string;
+  scraped_data_id: string | null;
+  source_url: string;
+  name: string;
+  manufacturer: string | null;
+  specifications: ComponentSpecDraft;
+  status: ComponentDraft['status'];
+  component_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Matched against the first page of a datasheet
+const MANUFACTURERS = [
+  'Texas Instruments', 'Analog Devices', 'Maxim Integrated', 'Microchip', 'STMicroelectronics', 'NXP',
+  'Bosch', 'Sensirion', 'Infineon', 'Espressif', 'Nordic Semiconductor', 'Vishay', 'Aosong', 'InvenSense',
+  'Adafruit', 'SparkFun', 'ON Semiconductor', 'Silicon Labs', 'Renesas', 'ROHM', 'Allegro', 'Winbond',
+];
+
+/**
+ * Review queue for components extracted from scraped datasheets. Drafts are refreshed while pending when a
+ * datasheet is scraped again; approving one adds it to `components`.
+ */
+export class ComponentDraftService {
+  private extractor = new SpecExtractor();
+  private componentService = new ComponentService();
+
+  // One draft per datasheet PDF that yielded any specs
+  async createDrafts(scrapedDataId: string | null, data: ScrapedData): Promise<ComponentDraft[]> {
+    const drafts: ComponentDraft[] = [];
+
+    try {
+      for (const pdf of data.pdfs) {
+        const specifications = this.extractor.extract(pdf);
+        if (!this.extractor.hasSpecs(specifications)) continue;
+
+        const firstPage = pdf.pageTexts?.[0] || pdf.text.substring(0, 3000);
+        const name = pdf.title && pdf.title !== 'Untitled Document' ? pdf.title : data.title;
+        const manufacturer = MANUFACTURERS.find(candidate => firstPage.toLowerCase().includes(candidate.toLowerCase())) || '';
+
+        // Reviewed drafts keep their outcome; only pending ones take the re-extracted values
+        const result = await query(`
+          INSERT INTO component_drafts (scraped_data_id, source_url, name, manufacturer, specifications)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (source_url) DO UPDATE SET
+            scraped_data_id = EXCLUDED.scraped_data_id,
+            name = EXCLUDED.name,
+            manufacturer = EXCLUDED.manufacturer,
+            specifications = EXCLUDED.specifications
+          WHERE component_drafts.status = 'pending'
+          RETURNING *
+        `, [scrapedDataId, pdf.url, name.substring(0, 255), manufacturer, JSON.stringify(specifications)]);
+
+        if (result.rows[0]) {
+          drafts.push(this.mapRow(result.rows[0]));
+        }
+      }
+
+      if (scrapedDataId) {
+        await query('UPDATE scraped_data SET processed = true WHERE id = $1', [scrapedDataId]);
+      }
+
+      if (drafts.length > 0) {
+        logger.info('Component drafts extracted', { url: data.url, drafts: drafts.length });
+      }
+
+      return drafts;
+
+    } catch (error) {
+      logger.error('Draft extraction failed:', { url: data.url, error });
+      throw error;
+    }
+  }
+
+  // Re-runs extraction on a stored scrape, e.g. after the extractor improves
+  async extractScrapedData(scrapedDataId: string): Promise<ComponentDraft[]> {
+    const result = UUID_PATTERN.test(scrapedDataId)
+      ? await query('SELECT id, url, title, pdfs FROM scraped_data WHERE id = $1', [scrapedDataId])
+      : { rows: [] };
+
+    const row = result.rows[0];
+    if (!row) {
+      throw new NotFoundError(`Scraped data not found: ${scrapedDataId}`);
+    }
+
+    return this.createDrafts(row.id, {
+      id: row.id,
+      url: row.url,
+      title: row.title || '',
+      content: '',
+      images: [],
+      pdfs: row.pdfs || [],
+      metadata: { scrapedAt: new Date(), source: 'scraped_data', type: 'datasheet' },
+      processed: true,
+    });
+  }
+
+  async listDrafts(filters: DraftFilters = {}): Promise<{ drafts: ComponentDraft[]; total: number }> {
+    try {
+      const result = await query(`
+        SELECT *, COUNT(*) OVER() AS total
+        FROM component_drafts
+        WHERE ($1::text IS NULL OR status = $1)
+        ORDER BY created_at DESC
+        LIMIT $2 OFFSET $3
+      `, [filters.status || null, filters.limit || 20, filters.offset || 0]);
+
+      return {
+        drafts: result.rows.map((row: DraftRow) => this.mapRow(row)),
+        total: Number(result.rows[0]?.total || 0),
+      };
+
+    } catch (error) {
+      logger.error('List drafts failed:', error);
+      throw error;
+    }
+  }
+
+  async getDraft(id: string): Promise<ComponentDraft | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const result = await query('SELECT * FROM component_drafts WHERE id = $1', [id]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  // The component an approval would create, before validation
+  toComponent(draft: ComponentDraft, approval: DraftApproval): NewComponent {
+    const { voltage, current, communication, pins, temperature } = draft.specifications;
+
+    const specifications = {
+      ...(voltage ? { voltage: { operating: voltage.value } } : {}),
+      ...(current ? { current: { operating: current.value } } : {}),
+      communication: communication.map(protocol => protocol.value),
+      pins: pins.map(pin => pin.value),
+      ...(temperature ? { temperature: { operating: temperature.value } } : {}),
+      additional: {},
+      ...approval.specifications,
+    } as ComponentSpec;
+
+    const component: NewComponent = {
+      name: approval.name || draft.name,
+      manufacturer: approval.manufacturer || draft.manufacturer,
+      category: approval.category,
+      description: approval.description || '',
+      specifications,
+      compatibility: {
+        boards: [],
+        voltageCompatible: this.logicLevels(specifications),
+        conflictingComponents: [],
+        requiredLibraries: [],
+        notes: [],
+      },
+      datasheetUrl: draft.sourceUrl,
+      availability: approval.availability || 'unknown',
+      tags: approval.tags || [],
+    };
+
+    if (approval.price !== undefined) component.price = approval.price;
+
+    return component;
+  }
+
+  async approveDraft(id: string, component: NewComponent): Promise<Component> {
+    const created = await this.componentService.addComponent(component);
+
+    await query(`
+      UPDATE component_drafts SET status = 'approved', component_id = $2 WHERE id = $1
+    `, [id, created.id]);
+
+    logger.info('Component draft approved', { id, componentId: created.id });
+
+    return created;
+  }
+
+  async rejectDraft(id: string): Promise<ComponentDraft> {
+    const result = await query(`
+      UPDATE component_drafts SET status = 'rejected' WHERE id = $1 RETURNING *
+    `, [id]);
+
+    logger.info('Component draft rejected', { id });
+
+    return this.mapRow(result.rows[0]);
+  }
+
+  // The usual logic levels the supply range covers, e.g. 3.3-5.5V -> ['3.3V', '5V']
+  private logicLevels(specifications: Partial<ComponentSpec>): string[] {
+    const operating = specifications.voltage?.operating;
+    if (!operating) return [];
+
+    const min = convertUnit(operating.min, operating.unit, 'V');
+    const max = convertUnit(operating.max, operating.unit, 'V');
+    return [3.3, 5]
+      .filter(level => min <= level && level <= max)
+      .map(level => `${level}V`);
+  }
+
+  private mapRow(row: DraftRow): ComponentDraft {
+    return {
+      id: row.id,
+      scrapedDataId: row.scraped_data_id,
+      sourceUrl: row.source_url,
+      name: row.name,
+      manufacturer: row.manufacturer || '',
+      specifications: row.specifications,
+      status: row.status,
+      componentId: row.component_id,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
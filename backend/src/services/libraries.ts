@@ -0,0 +1,362 @@
+import { query, cache } from '../database/connection';
+import { cacheKeys, config } from '../config';
+import { logger } from '../utils/logger';
+import { ArduinoLibrary, Board, LibraryCheck, LibraryIndexEntry } from '../types';
+
+export interface LibrarySearchFilters {
+  architecture?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface LibraryRow {
+  name: string;
+  version: string;
+  author: string | null;
+  sentence: string | null;
+  category: string | null;
+  website: string | null;
+  architectures: string[] | null;
+  dependencies: Array<{ name: string; version?: string }> | null;
+  provides_includes: string[] | null;
+}
+
+// Shipped with every Arduino core rather than listed in library_index.json
+const BUNDLED_LIBRARIES = ['Arduino', 'Wire', 'SPI', 'EEPROM', 'SoftwareSerial', 'HID', 'Keyboard', 'Mouse'];
+
+// Core architecture by processor, for boards that don't name one
+const PROCESSOR_ARCHITECTURES: Array<[RegExp, string]> = [
+  [/atmega|attiny/i, 'avr'],
+  [/esp32/i, 'esp32'],
+  [/esp8266/i, 'esp8266'],
+  [/rp2040/i, 'rp2040'],
+  [/samd|sam d/i, 'samd'],
+  [/nrf52/i, 'nrf52'],
+  [/stm32/i, 'stm32'],
+  [/ra4m1/i, 'renesas_uno'],
+];
+
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Local copy of the Arduino library index. Each release is a row; reads fold them into one entry per
+ * library with the latest release's metadata.
+ */
+export class LibraryService {
+
+  async importIndex(entries: LibraryIndexEntry[]): Promise<{ releases: number; libraries: number }> {
+    try {
+      const valid = entries.filter(entry => entry.name && entry.version);
+
+      for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+        const batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+        const values: unknown[] = [];
+
+        const rows = batch.map((entry, index) => {
+          values.push(
+            entry.name,
+            entry.version,
+            entry.author || null,
+            entry.sentence || null,
+            entry.category || null,
+            entry.website || null,
+            entry.architectures || ['*'],
+            JSON.stringify(entry.dependencies || []),
+            entry.providesIncludes || []
+          );
+          const base = index * 9;
+          return `(${Array.from({ length: 9 }, (_, n) => `$${base + n + 1}`).join(', ')})`;
+        });
+
+        await query(`
+          INSERT INTO arduino_libraries (
+            name, version, author, sentence, category, website,
+            architectures, dependencies, provides_includes
+          ) VALUES ${rows.join(', ')}
+          ON CONFLICT (name, version) DO UPDATE SET
+            author = EXCLUDED.author,
+            sentence = EXCLUDED.sentence,
+            category = EXCLUDED.category,
+            website = EXCLUDED.website,
+            architectures = EXCLUDED.architectures,
+            dependencies = EXCLUDED.dependencies,
+            provides_includes = EXCLUDED.provides_includes
+        `, values);
+      }
+
+      await this.invalidateCaches();
+
+      const libraries = new Set(valid.map(entry => entry.name)).size;
+      logger.info('Library index imported', { releases: valid.length, libraries });
+
+      return { releases: valid.length, libraries };
+
+    } catch (error) {
+      logger.error('Library index import failed:', error);
+      throw error;
+    }
+  }
+
+  async searchLibraries(search: string, filters: LibrarySearchFilters = {}): Promise<{ libraries: ArduinoLibrary[]; total: number }> {
+    try {
+      const params: unknown[] = [`%${search}%`, search];
+      let architectureClause = '';
+
+      if (filters.architecture) {
+        params.push(filters.architecture.toLowerCase());
+        architectureClause = `AND ($3 = ANY(architectures) OR '*' = ANY(architectures))`;
+      }
+
+      params.push(filters.limit || 20, filters.offset || 0);
+      const limitParam = params.length - 1;
+
+      // Exact name matches first, then alphabetical
+      const result = await query(`
+        SELECT name, COUNT(*) OVER() AS total
+        FROM arduino_libraries
+        WHERE (name ILIKE $1 OR sentence ILIKE $1) ${architectureClause}
+        GROUP BY name
+        ORDER BY (lower(name) = lower($2)) DESC, name ASC
+        LIMIT $${limitParam} OFFSET $${limitParam + 1}
+      `, params);
+
+      const names: string[] = result.rows.map((row: { name: string }) => row.name);
+      const libraries = await this.loadLibraries(names);
+
+      return {
+        libraries: names.map(name => libraries.get(name.toLowerCase())).filter((library): library is ArduinoLibrary => !!library),
+        total: Number(result.rows[0]?.total || 0),
+      };
+
+    } catch (error) {
+      logger.error('Library search failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolves a component's required libraries against the index for a board: whether each is known,
+   * supports the board's architecture, and what its transitive dependencies need.
+   */
+  async checkLibraries(board: Board, required: string[]): Promise<{
+    indexed: boolean;
+    architecture: string | null;
+    libraries: LibraryCheck[];
+  }> {
+    const architecture = this.architectureOf(board);
+    const cacheKey = cacheKeys.libraryCheck(architecture || 'any', [...required].sort().join('|'));
+
+    try {
+      const cached = await cache.get(cacheKey);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+
+      const indexed = await this.hasIndex();
+      const known = indexed ? await this.resolveWithDependencies(required) : new Map<string, ArduinoLibrary>();
+      const listed = new Set(required.map(name => this.find(known, name)?.name.toLowerCase() || name.toLowerCase()));
+
+      const libraries = required.map(name => this.describe(name, known, listed, architecture));
+      const result = { indexed, architecture, libraries };
+
+      await cache.set(cacheKey, JSON.stringify(result), config.cache.ttlSeconds);
+      return result;
+
+    } catch (error) {
+      logger.warn('Library check failed:', error);
+      return { indexed: false, architecture, libraries: [] };
+    }
+  }
+
+  architectureOf(board: Board): string | null {
+    if (board.specifications.architecture) {
+      return board.specifications.architecture.toLowerCase();
+    }
+
+    const match = PROCESSOR_ARCHITECTURES.find(([pattern]) => pattern.test(board.specifications.processor || ''));
+    return match ? match[1] : null;
+  }
+
+  private describe(
+    name: string,
+    known: Map<string, ArduinoLibrary>,
+    listed: Set<string>,
+    architecture: string | null
+  ): LibraryCheck {
+    const bundled = this.isBundled(name);
+    const library = this.find(known, name);
+
+    const check: LibraryCheck = {
+      name,
+      found: bundled || !!library,
+      bundled,
+      architectures: library ? library.architectures.join(', ') : '*',
+      supported: !library || this.supports(library, architecture),
+      dependencies: '',
+      unlisted: '',
+      unresolved: '',
+      unsupported: '',
+    };
+
+    if (!library) {
+      return check;
+    }
+
+    check.library = library.name;
+    check.version = library.latestVersion;
+
+    const dependencies = this.dependenciesOf(library, known);
+    const resolved = dependencies.flatMap(dep => (dep.library ? [dep.library] : []));
+
+    check.dependencies = dependencies.map(dep => dep.name).join(', ');
+    check.unlisted = resolved.filter(dep => !listed.has(dep.name.toLowerCase())).map(dep => dep.name).join(', ');
+    check.unresolved = dependencies.filter(dep => !dep.library && !this.isBundled(dep.name)).map(dep => dep.name).join(', ');
+    check.unsupported = resolved.filter(dep => !this.supports(dep, architecture)).map(dep => dep.name).join(', ');
+
+    return check;
+  }
+
+  // Breadth-first over dependency names; each name is reported once even when several libraries need it
+  private dependenciesOf(
+    library: ArduinoLibrary,
+    known: Map<string, ArduinoLibrary>
+  ): Array<{ name: string; library: ArduinoLibrary | undefined }> {
+    const seen = new Set<string>([library.name.toLowerCase()]);
+    const queue = [...library.dependencies];
+    const dependencies: Array<{ name: string; library: ArduinoLibrary | undefined }> = [];
+
+    for (let dep = queue.shift(); dep; dep = queue.shift()) {
+      const key = dep.name.toLowerCase();
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const resolved = known.get(key);
+      dependencies.push({ name: dep.name, library: resolved });
+      if (resolved) {
+        queue.push(...resolved.dependencies);
+      }
+    }
+
+    return dependencies;
+  }
+
+  // Loads the required libraries and, level by level, everything they depend on
+  private async resolveWithDependencies(required: string[]): Promise<Map<string, ArduinoLibrary>> {
+    const known = new Map<string, ArduinoLibrary>();
+    const attempted = new Set<string>();
+    let pending = required.filter(name => !this.isBundled(name));
+
+    while (pending.length > 0) {
+      pending.forEach(name => attempted.add(name.toLowerCase()));
+
+      const loaded = await this.loadLibraries(pending, true);
+      for (const [key, library] of loaded) {
+        known.set(key, library);
+      }
+
+      pending = [...new Set([...loaded.values()].flatMap(library => library.dependencies.map(dep => dep.name)))]
+        .filter(name => !attempted.has(name.toLowerCase()) && !known.has(name.toLowerCase()) && !this.isBundled(name));
+    }
+
+    return known;
+  }
+
+  // Keyed by lower-case library name; with `byInclude`, a name may also match a header the library provides
+  private async loadLibraries(names: string[], byInclude: boolean = false): Promise<Map<string, ArduinoLibrary>> {
+    if (names.length === 0) {
+      return new Map();
+    }
+
+    const lower = names.map(name => name.toLowerCase());
+    const result = byInclude
+      ? await query(
+        'SELECT * FROM arduino_libraries WHERE lower(name) = ANY($1) OR provides_includes && $2',
+        [lower, names.map(name => `${name}.h`)]
+      )
+      : await query('SELECT * FROM arduino_libraries WHERE lower(name) = ANY($1)', [lower]);
+
+    const byName = new Map<string, LibraryRow[]>();
+    for (const row of result.rows as LibraryRow[]) {
+      const key = row.name.toLowerCase();
+      byName.set(key, [...(byName.get(key) || []), row]);
+    }
+
+    const libraries = new Map<string, ArduinoLibrary>();
+    for (const [key, rows] of byName) {
+      libraries.set(key, this.mapRows(rows));
+    }
+
+    return libraries;
+  }
+
+  private find(known: Map<string, ArduinoLibrary>, name: string): ArduinoLibrary | undefined {
+    const header = `${name}.h`.toLowerCase();
+    return known.get(name.toLowerCase())
+      || [...known.values()].find(library => library.providesIncludes.some(include => include.toLowerCase() === header));
+  }
+
+  private supports(library: ArduinoLibrary, architecture: string | null): boolean {
+    return !architecture
+      || library.architectures.some(arch => arch === '*' || arch.toLowerCase() === architecture);
+  }
+
+  private isBundled(name: string): boolean {
+    return BUNDLED_LIBRARIES.some(bundled => bundled.toLowerCase() === name.toLowerCase());
+  }
+
+  private async hasIndex(): Promise<boolean> {
+    const result = await query('SELECT EXISTS (SELECT 1 FROM arduino_libraries) AS indexed');
+    return !!result.rows[0]?.indexed;
+  }
+
+  private async invalidateCaches(): Promise<void> {
+    try {
+      const keys = [...await cache.keys('libraries:*'), ...await cache.keys('compat:*')];
+      for (const key of keys) {
+        await cache.del(key);
+      }
+    } catch (error) {
+      logger.warn('Failed to invalidate library caches:', error);
+    }
+  }
+
+  // Latest release wins for metadata; every release's version is kept
+  private mapRows(rows: LibraryRow[]): ArduinoLibrary {
+    const sorted = [...rows].sort((a, b) => this.compareVersions(b.version, a.version));
+    const latest = rows.reduce((best, row) => (this.compareVersions(row.version, best.version) > 0 ? row : best));
+
+    const library: ArduinoLibrary = {
+      name: latest.name,
+      latestVersion: latest.version,
+      versions: sorted.map(row => row.version),
+      architectures: latest.architectures || ['*'],
+      dependencies: latest.dependencies || [],
+      providesIncludes: latest.provides_includes || [],
+    };
+
+    if (latest.author) library.author = latest.author;
+    if (latest.sentence) library.sentence = latest.sentence;
+    if (latest.category) library.category = latest.category;
+    if (latest.website) library.website = latest.website;
+
+    return library;
+  }
+
+  private compareVersions(a: string, b: string): number {
+    const left = a.split(/[.-]/);
+    const right = b.split(/[.-]/);
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const x = left[i] ?? '0';
+      const y = right[i] ?? '0';
+      const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+      if (diff !== 0) {
+        return diff;
+      }
+    }
+
+    return 0;
+  }
+}
@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import Anthropic from 'anthropic';
+import { config, LLMProviderName, LLMTask, LLMTaskSettings } from '../config';
+import { logger } from '../utils/logger';
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the tool input
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // Assistant turns that asked for tools, and the user turn answering them
+  toolCalls?: LLMToolCall[];
+  toolResults?: LLMToolResult[];
+}
+
+export interface LLMRequest extends LLMTaskSettings {
+  task: LLMTask;
+  messages: LLMMessage[];
+  system?: string;
+  tools?: LLMToolDefinition[];
+  // The end user's own words the prompt was built from; the mock provider matches fixtures against it
+  input?: string | undefined;
+}
+
+// One model turn: text, plus the tools it wants run before it continues
+export interface LLMTurn {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+/**
+ * A chat model backend. complete() resolves with the whole reply, stream() yields it as text deltas and
+ * converse() runs a single turn that may ask for tool calls.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncGenerator<string>;
+  converse(request: LLMRequest): Promise<LLMTurn>;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'Claude';
+  private client: Anthropic;
+
+  constructor(apiKey: string = config.apis.anthropic.apiKey) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+    });
+
+    const content = response.content[0];
+    if (content?.type === 'text') {
+      return content.text;
+    }
+
+    throw new Error('Invalid response format from Claude');
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const stream = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      stream: true,
+    });
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  async converse(request: LLMRequest): Promise<LLMTurn> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema,
+        })),
+      } : {}),
+      messages: request.messages.map(message => this.toAnthropicMessage(message)),
+    });
+
+    const turn: LLMTurn = { text: '', toolCalls: [] };
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        turn.text += block.text;
+      } else if (block.type === 'tool_use') {
+        turn.toolCalls.push({ id: block.id, name: block.name, input: block.input as Record<string, unknown> });
+      }
+    }
+
+    return turn;
+  }
+
+  // Tool calls and results travel as content blocks rather than plain strings
+  private toAnthropicMessage(message: LLMMessage) {
+    if (message.toolResults?.length) {
+      return {
+        role: message.role,
+        content: message.toolResults.map(result => ({
+          type: 'tool_result' as const,
+          tool_use_id: result.toolCallId,
+          content: result.content,
+          ...(result.isError ? { is_error: true } : {}),
+        })),
+      };
+    }
+
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: call.input,
+          })),
+        ],
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+}
+
+type MockResponse = string | Record<string, unknown>;
+
+// A scripted agent turn; `input` values are passed to the tool as-is
+interface MockTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; input: Record<string, unknown> }>;
+}
+
+interface MockFixture {
+  // Case-insensitive regular expression tested against the request input (or the prompt when there is none)
+  match?: string;
+  response?: MockResponse;
+  // converse() replays these in order, one per assistant turn already in the conversation
+  turns?: Array<string | MockTurn>;
+}
+
+interface MockFixtureFile {
+  fixtures: MockFixture[];
+  default?: MockResponse;
+}
+
+/**
+ * Deterministic offline provider. Replies come from <fixturesDir>/<task>.json: the first fixture whose
+ * `match` pattern is found in the user's message wins, then `default`. Object responses are sent as
+ * JSON, so intent-analysis fixtures can hold the analysis itself. A task with no reply throws, which
+ * puts ClaudeService on its built-in fallbacks just like an API failure would.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'MockLLM';
+  private fixtures = new Map<LLMTask, MockFixtureFile | null>();
+
+  constructor(private fixturesDir: string = config.llm.fixturesDir) {}
+
+  async complete(request: LLMRequest): Promise<string> {
+    return this.reply(request);
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    // Word-sized chunks keep the streamed shape realistic while staying reproducible
+    for (const chunk of this.reply(request).match(/\S+\s*|\s+/g) || []) {
+      yield chunk;
+    }
+  }
+
+  async converse(request: LLMRequest): Promise<LLMTurn> {
+    const fixture = this.findFixture(request);
+
+    if (!fixture?.turns) {
+      return { text: this.reply(request), toolCalls: [] };
+    }
+
+    const index = request.messages.filter(message => message.role === 'assistant').length;
+    const turn = fixture.turns[Math.min(index, fixture.turns.length - 1)];
+    const scripted: MockTurn = typeof turn === 'string' ? { text: turn } : turn || {};
+
+    // Without tools on offer the script can only finish with text
+    const toolCalls = request.tools?.length ? scripted.toolCalls || [] : [];
+
+    return {
+      text: scripted.text || '',
+      toolCalls: toolCalls.map((call, callIndex) => ({
+        id: `mock-${index}-${callIndex}`,
+        name: call.name,
+        input: call.input,
+      })),
+    };
+  }
+
+  private reply(request: LLMRequest): string {
+    const fixture = this.findFixture(request);
+    const response = fixture?.response ?? (fixture?.turns ? undefined : this.loadFixtures(request.task)?.default);
+
+    if (response === undefined) {
+      throw new Error(`No mock LLM fixture matched task "${request.task}"`);
+    }
+
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  private findFixture(request: LLMRequest): MockFixture | undefined {
+    const file = this.loadFixtures(request.task);
+    const text = request.input ?? request.messages.filter(message => message.role === 'user').pop()?.content ?? '';
+
+    return file?.fixtures.find(candidate =>
+      candidate.match === undefined || new RegExp(candidate.match, 'i').test(text)
+    );
+  }
+
+  private loadFixtures(task: LLMTask): MockFixtureFile | null {
+    if (this.fixtures.has(task)) {
+      return this.fixtures.get(task) || null;
+    }
+
+    const file = path.join(this.fixturesDir, `${task}.json`);
+    let parsed: MockFixtureFile | null = null;
+
+    try {
+      if (fs.existsSync(file)) {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8')) as MockFixtureFile;
+        parsed.fixtures = parsed.fixtures || [];
+      }
+    } catch (error) {
+      logger.error('Failed to load mock LLM fixtures', { file, error });
+    }
+
+    this.fixtures.set(task, parsed);
+    return parsed;
+  }
+}
+
+export function createLLMProvider(name: LLMProviderName = config.llm.provider): LLMProvider {
+  switch (name) {
+    case 'mock':
+      return new MockProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+  }
+}
+
+// Builds a single-prompt request with the model settings configured for the task
+export function llmRequest(task: LLMTask, prompt: string, input?: string): LLMRequest {
+  return {
+    task,
+    ...config.llm.tasks[task],
+    messages: [{ role: 'user', content: prompt }],
+    input,
+  };
+}
@@ -0,0 +1,476 @@
+import { convertUnit } from '../utils/quantity';
+import { Board, Breadboard, BuildPart, CompatibilityIssue, Component, Enclosure, PhysicalFit, PhysicalFitOptions } from '../types';
+
+export const DEFAULT_BREADBOARD: Breadboard = { id: 'half', name: 'Half-size breadboard (400 points)', columns: 30, length: 82, width: 55, height: 8.5 };
+
+// Standard solderless breadboards; all use a 0.1" grid with five holes per strip
+export const BREADBOARDS: Record<string, Breadboard> = {
+  'mini': { id: 'mini', name: 'Mini breadboard (170 points)', columns: 17, length: 46, width: 35, height: 8.5 },
+  'half': DEFAULT_BREADBOARD,
+  'full': { id: 'full', name: 'Full-size breadboard (830 points)', columns: 63, length: 165, width: 55, height: 8.5 },
+};
+
+export const DEFAULT_FIT_OPTIONS: PhysicalFitOptions = { mounting: 'breadboard', breadboard: DEFAULT_BREADBOARD };
+
+const PITCH = 2.54;
+// Between the two innermost holes either side of the centre channel
+const CHANNEL = 7.62;
+const HOLES_PER_SIDE = 5;
+
+// Jumper wires loop this far above the breadboard
+const JUMPER_HEIGHT = 10;
+// Bottom of the board's PCB to the top of a shield on stacking headers
+const SHIELD_HEIGHT = 13.5;
+// Share of a shield left once headers and connectors are routed
+const SHIELD_USABLE_AREA = 0.7;
+// Share of the floor space around a loose part that the part itself fills
+const ENCLOSURE_PACKING = 0.8;
+// Space to keep above the tallest part for wires and the lid
+const MIN_CLEARANCE = 5;
+// Space between a board and the breadboard it is wired to
+const SIDE_BY_SIDE_GAP = 5;
+
+// Mounted on the enclosure or frame, not on the breadboard or shield
+const OFF_BOARD_CATEGORIES = ['actuator', 'motor'];
+
+interface Size {
+  length: number;
+  width: number;
+  height: number;
+}
+
+interface PlacedPart {
+  name: string;
+  quantity: number;
+  size: Size | null;
+  pins: number;
+}
+
+/**
+ * Physical fit of a build: whether the parts fit on the chosen breadboard or on a prototyping shield
+ * the size of the board, and whether the wired-up result fits an enclosure with room above it.
+ * Everything is converted to millimetres. Parts without listed dimensions still take breadboard strips
+ * for their pins but are otherwise left out and reported in `unmeasured`.
+ */
+export class PhysicalService {
+
+  // Breadboard preset ids are looked up, anything unknown means a half-size breadboard
+  resolveOptions(input: {
+    mounting?: PhysicalFitOptions['mounting'] | undefined;
+    breadboard?: string | undefined;
+    enclosure?: Enclosure | undefined;
+  } = {}): PhysicalFitOptions {
+    const breadboard = (input.breadboard && BREADBOARDS[input.breadboard.toLowerCase()]) || DEFAULT_FIT_OPTIONS.breadboard;
+
+    const options: PhysicalFitOptions = { mounting: input.mounting || DEFAULT_FIT_OPTIONS.mounting, breadboard };
+    if (input.enclosure) {
+      options.enclosure = input.enclosure;
+    }
+
+    return options;
+  }
+
+  checkFit(board: Board, parts: BuildPart[], options: PhysicalFitOptions): PhysicalFit {
+    const issues: CompatibilityIssue[] = [];
+    const notes: string[] = [];
+    const boardSize = this.boardSize(board);
+
+    const placed: PlacedPart[] = [];
+    const offBoard: PlacedPart[] = [];
+    const unmeasured: string[] = [];
+
+    for (const { component, quantity } of parts) {
+      const part = {
+        name: component.name,
+        quantity,
+        size: this.partSize(component),
+        pins: component.specifications.pins.length,
+      };
+
+      if (!part.size) {
+        unmeasured.push(component.name);
+      }
+      (OFF_BOARD_CATEGORIES.includes(component.category) ? offBoard : placed).push(part);
+    }
+
+    if (!boardSize) {
+      notes.push(`${board.name} does not list its dimensions; the board itself is left out of the fit`);
+    }
+    if (unmeasured.length > 0) {
+      notes.push(`No dimensions listed for ${unmeasured.join(', ')}; only their pins are counted`);
+    }
+    if (offBoard.length > 0) {
+      notes.push(`Mounted separately: ${offBoard.map(part => part.name).join(', ')}`);
+    }
+
+    const mounted = options.mounting === 'shield'
+      ? this.fitShield(board, boardSize, placed, issues)
+      : this.fitBreadboard(board, boardSize, placed, options.breadboard, issues, notes);
+
+    const fit: PhysicalFit = {
+      boardId: board.id,
+      mounting: options.mounting,
+      unit: 'mm',
+      fits: true,
+      board: boardSize ? { ...boardSize, onBreadboard: mounted.boardOnSurface } : null,
+      surface: mounted.surface,
+      assembly: mounted.assembly,
+      offBoard: offBoard.map(part => part.name),
+      unmeasured,
+      issues,
+      notes,
+    };
+
+    if (options.enclosure) {
+      fit.enclosure = this.fitEnclosure(board, mounted.assembly, offBoard, options.enclosure, issues, notes);
+    }
+
+    fit.fits = !issues.some(issue => issue.severity === 'error');
+    return fit;
+  }
+
+  private fitBreadboard(
+    board: Board,
+    boardSize: Size | null,
+    placed: PlacedPart[],
+    breadboard: Breadboard,
+    issues: CompatibilityIssue[],
+    notes: string[]
+  ): Pick<PhysicalFit, 'surface' | 'assembly'> & { boardOnSurface: boolean } {
+    const straddle = boardSize ? this.straddle(board, boardSize, breadboard, issues) : null;
+    const boardColumns = straddle ? straddle.columns : 0;
+
+    if (boardSize && !straddle) {
+      notes.push(`${board.name} sits beside the breadboard and is wired with jumpers`);
+    }
+
+    const required = placed.reduce((sum, part) => sum + this.columnsFor(part) * part.quantity, 0);
+    const available = breadboard.columns * 2 - boardColumns * 2;
+
+    if (required > available) {
+      const larger = Object.values(BREADBOARDS).find(option => option.columns * 2 - boardColumns * 2 >= required);
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `Parts need about ${required} breadboard strips; the ${breadboard.name} has ${Math.max(0, available)} free`,
+        solution: larger && larger.columns > breadboard.columns
+          ? `Use a ${larger.name}`
+          : 'Use two breadboards or mount some modules off the breadboard',
+      });
+    }
+
+    const footprint = placed.reduce((sum, part) => sum + (part.size ? part.size.length * part.size.width * part.quantity : 0), 0);
+    const tallest = Math.max(JUMPER_HEIGHT, ...placed.map(part => part.size?.height ?? 0));
+    const surfaceHeight = breadboard.height + Math.max(tallest, straddle && boardSize ? boardSize.height : 0);
+
+    let assembly: Size = { length: breadboard.length, width: breadboard.width, height: surfaceHeight };
+    if (boardSize && straddle) {
+      assembly = {
+        length: Math.max(breadboard.length, boardSize.length),
+        width: Math.max(breadboard.width, boardSize.width),
+        height: surfaceHeight,
+      };
+    } else if (boardSize) {
+      assembly = {
+        length: breadboard.length + SIDE_BY_SIDE_GAP + boardSize.length,
+        width: Math.max(breadboard.width, boardSize.width),
+        height: Math.max(surfaceHeight, boardSize.height),
+      };
+    }
+
+    const surface: NonNullable<PhysicalFit['surface']> = {
+      name: breadboard.name,
+      length: breadboard.length,
+      width: breadboard.width,
+      columns: { required: required + boardColumns * 2, available: breadboard.columns * 2 },
+      area: {
+        required: this.round(footprint + (straddle && boardSize ? boardSize.length * boardSize.width : 0)),
+        available: this.round(breadboard.length * breadboard.width),
+      },
+    };
+    if (straddle) {
+      surface.freeHoles = straddle.free;
+    }
+
+    return { surface, assembly: this.roundSize(assembly), boardOnSurface: !!straddle };
+  }
+
+  /**
+   * Where a board with male headers sits across the centre channel: the strips it covers and the holes
+   * left beside its pins on each side. Null when it can't go on the breadboard at all.
+   */
+  private straddle(
+    board: Board,
+    boardSize: Size,
+    breadboard: Breadboard,
+    issues: CompatibilityIssue[]
+  ): { columns: number; free: [number, number] } | null {
+    const unit = board.specifications.dimensions?.unit || 'mm';
+    const male = (board.specifications.headers || []).filter(header => header.gender === 'male');
+    if (male.length === 0) {
+      return null;
+    }
+
+    const rows = male.flatMap(header => [
+      this.toMillimetres(header.y, unit),
+      this.toMillimetres(header.y + header.pitch * (header.rows - 1), unit),
+    ]);
+    const spacing = Math.max(...rows) - Math.min(...rows);
+    const columns = Math.ceil(boardSize.length / PITCH);
+
+    if (boardSize.length > breadboard.length) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `${board.name} is ${this.round(boardSize.length)}mm long, longer than the ${breadboard.name}`,
+        solution: 'Use a full-size breadboard',
+      });
+      return null;
+    }
+
+    // A single row of pins plugs into one side
+    if (spacing < PITCH / 2) {
+      return { columns, free: [HOLES_PER_SIDE - 1, HOLES_PER_SIDE] };
+    }
+
+    const steps = (spacing - CHANNEL) / PITCH;
+    if (steps < -0.2 || Math.abs(steps - Math.round(steps)) > 0.2) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `${board.name}'s pin rows are ${this.round(spacing)}mm apart, which doesn't match the breadboard's 0.1" grid`,
+        solution: 'Wire the board with female jumpers instead of plugging it in',
+      });
+      return null;
+    }
+
+    const inward = Math.round(steps);
+    if (inward > (HOLES_PER_SIDE - 1) * 2) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `${board.name} is too wide to straddle the breadboard channel (pin rows ${this.round(spacing)}mm apart)`,
+        solution: 'Put the board across two breadboards side by side, or wire it with female jumpers',
+      });
+      return null;
+    }
+
+    const near = Math.floor(inward / 2);
+    const free: [number, number] = [HOLES_PER_SIDE - 1 - near, HOLES_PER_SIDE - 1 - (inward - near)];
+
+    if (Math.min(...free) === 0) {
+      issues.push({
+        type: 'physical',
+        severity: 'warning',
+        message: `${board.name} leaves no free holes beside its pins on one side of the breadboard (${free.join(' and ')} free)`,
+        solution: 'Put the board across two breadboards side by side so both pin rows can be wired',
+      });
+    }
+
+    return { columns, free };
+  }
+
+  private fitShield(
+    board: Board,
+    boardSize: Size | null,
+    placed: PlacedPart[],
+    issues: CompatibilityIssue[]
+  ): Pick<PhysicalFit, 'surface' | 'assembly'> & { boardOnSurface: boolean } {
+    if (!boardSize) {
+      issues.push({
+        type: 'physical',
+        severity: 'info',
+        message: `Shield fit not checked: ${board.name} does not list its dimensions`,
+      });
+      return { surface: null, assembly: null, boardOnSurface: false };
+    }
+
+    const headers = board.specifications.headers || [];
+    if (headers.length > 0 && !headers.some(header => header.gender === 'female')) {
+      issues.push({
+        type: 'physical',
+        severity: 'warning',
+        message: `${board.name} has no female headers for a shield to plug into`,
+        solution: 'Use a carrier or expansion board made for it, or a breadboard',
+      });
+    }
+
+    const [boardLong, boardShort] = this.sides(boardSize);
+    const available = boardSize.length * boardSize.width * SHIELD_USABLE_AREA;
+    let required = 0;
+
+    for (const part of placed) {
+      if (!part.size) {
+        continue;
+      }
+
+      const [long, short] = this.sides(part.size);
+      if (long > boardLong || short > boardShort) {
+        issues.push({
+          type: 'physical',
+          severity: 'error',
+          message: `${part.name} (${this.round(long)}×${this.round(short)}mm) is larger than the ${board.name} shield`,
+          solution: 'Mount it off the shield and run wires to it',
+        });
+        continue;
+      }
+      required += part.size.length * part.size.width * part.quantity;
+    }
+
+    if (required > available) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `Parts need about ${this.round(required)}mm² of shield space; the ${board.name} shield has about ${this.round(available)}mm² usable`,
+        solution: 'Move larger modules off the shield or use a breadboard',
+      });
+    } else if (required > available * 0.85) {
+      issues.push({
+        type: 'physical',
+        severity: 'warning',
+        message: `Shield is nearly full: about ${this.round(required)}mm² of ${this.round(available)}mm² usable`,
+        solution: 'Leave room for wiring between parts',
+      });
+    }
+
+    const tallest = Math.max(0, ...placed.map(part => part.size?.height ?? 0));
+
+    return {
+      surface: {
+        name: `${board.name} shield`,
+        length: boardSize.length,
+        width: boardSize.width,
+        area: { required: this.round(required), available: this.round(available) },
+      },
+      assembly: this.roundSize({
+        length: boardSize.length,
+        width: boardSize.width,
+        height: Math.max(boardSize.height, SHIELD_HEIGHT + tallest),
+      }),
+      boardOnSurface: false,
+    };
+  }
+
+  private fitEnclosure(
+    board: Board,
+    assembly: Size | null,
+    offBoard: PlacedPart[],
+    input: Enclosure,
+    issues: CompatibilityIssue[],
+    notes: string[]
+  ): NonNullable<PhysicalFit['enclosure']> {
+    const unit = input.unit || 'mm';
+    const enclosure: Size = {
+      length: this.toMillimetres(input.length, unit),
+      width: this.toMillimetres(input.width, unit),
+      height: this.toMillimetres(input.height, unit),
+    };
+    const [enclosureLong, enclosureShort] = this.sides(enclosure);
+    const firstIssue = issues.length;
+
+    const items = [
+      ...(assembly ? [{ name: 'The wired-up board', quantity: 1, size: assembly }] : []),
+      ...offBoard.flatMap(part => (part.size ? [{ name: part.name, quantity: part.quantity, size: part.size }] : [])),
+    ];
+
+    for (const item of items) {
+      const [long, short] = this.sides(item.size);
+      if (long > enclosureLong || short > enclosureShort) {
+        issues.push({
+          type: 'physical',
+          severity: 'error',
+          message: `${item.name} (${this.round(long)}×${this.round(short)}mm) doesn't fit the enclosure's ${this.round(enclosureLong)}×${this.round(enclosureShort)}mm floor`,
+          solution: 'Choose a larger enclosure',
+        });
+      }
+    }
+
+    // Loose parts need room around them for wiring and fixings; the wired-up board is one block
+    const floor = items.reduce((sum, item) => {
+      const area = item.size.length * item.size.width * item.quantity;
+      return sum + (item.size === assembly ? area : area / ENCLOSURE_PACKING);
+    }, 0);
+    const available = enclosure.length * enclosure.width;
+    if (items.length > 1 && floor > available) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `Board and parts need about ${this.round(floor)}mm² of floor space; the enclosure has ${this.round(available)}mm²`,
+        solution: 'Choose a larger enclosure or stack parts on standoffs',
+      });
+    }
+
+    const height = Math.max(0, ...items.map(item => item.size.height));
+    const clearance = this.round(enclosure.height - height);
+
+    if (clearance < 0) {
+      issues.push({
+        type: 'physical',
+        severity: 'error',
+        message: `Build is ${this.round(height)}mm tall; the enclosure is only ${this.round(enclosure.height)}mm deep`,
+        solution: 'Choose a deeper enclosure, or solder parts to perfboard instead of a breadboard',
+      });
+    } else if (clearance < MIN_CLEARANCE) {
+      issues.push({
+        type: 'physical',
+        severity: 'warning',
+        message: `Only ${clearance}mm of clearance above the tallest part`,
+        solution: `Leave at least ${MIN_CLEARANCE}mm for wires and the lid`,
+      });
+    }
+
+    const holes = board.specifications.mountingHoles || [];
+    if (holes.length > 0) {
+      const diameter = Math.min(...holes.map(hole => hole.diameter));
+      notes.push(`${board.name} has ${holes.length} mounting holes (${diameter}${board.specifications.dimensions?.unit || 'mm'}) for standoffs; add the standoff height to the clearance`);
+    }
+
+    return {
+      ...this.roundSize(enclosure),
+      unit: 'mm',
+      clearance,
+      fits: !issues.slice(firstIssue).some(issue => issue.severity === 'error'),
+    };
+  }
+
+  // Strips a part takes on one side of the channel, plus one to keep parts apart
+  private columnsFor(part: PlacedPart): number {
+    const body = part.size ? Math.ceil(Math.min(part.size.length, part.size.width) / PITCH) : 0;
+    return Math.max(part.pins, body, 1) + 1;
+  }
+
+  private boardSize(board: Board): Size | null {
+    const dimensions = board.specifications.dimensions;
+    return dimensions ? this.toSize(dimensions) : null;
+  }
+
+  private partSize(component: Component): Size | null {
+    const dimensions = component.specifications.dimensions;
+    return dimensions ? this.toSize(dimensions) : null;
+  }
+
+  private toSize(dimensions: Size & { unit: string }): Size {
+    return {
+      length: this.toMillimetres(dimensions.length, dimensions.unit),
+      width: this.toMillimetres(dimensions.width, dimensions.unit),
+      height: this.toMillimetres(dimensions.height, dimensions.unit),
+    };
+  }
+
+  // Longest side first, so footprints can be compared in either orientation
+  private sides(size: Size): [number, number] {
+    return size.length >= size.width ? [size.length, size.width] : [size.width, size.length];
+  }
+
+  private toMillimetres(value: number, unit: string): number {
+    return convertUnit(value, unit, 'mm');
+  }
+
+  private roundSize(size: Size): Size {
+    return { length: this.round(size.length), width: this.round(size.width), height: this.round(size.height) };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,248 @@
+import { WiringService } from './wiring';
+import { convertUnit } from '../utils/quantity';
+import { Board, BuildPart, CompatibilityIssue, PowerBudget, PowerRail, PowerSupply } from '../types';
+
+export const DEFAULT_POWER_SUPPLY: PowerSupply = { id: 'usb', name: 'USB 2.0 port (500mA)', voltage: 5, maxCurrent: 500 };
+
+// Common ways to power a hobby build
+export const POWER_SUPPLIES: Record<string, PowerSupply> = {
+  'usb': DEFAULT_POWER_SUPPLY,
+  'usb-3': { id: 'usb-3', name: 'USB 3.0 port (900mA)', voltage: 5, maxCurrent: 900 },
+  'usb-charger-2a': { id: 'usb-charger-2a', name: 'USB charger (2A)', voltage: 5, maxCurrent: 2000 },
+  'barrel-9v-1a': { id: 'barrel-9v-1a', name: '9V 1A wall adapter', voltage: 9, maxCurrent: 1000 },
+  '2xaa': { id: '2xaa', name: '2x AA alkaline', voltage: 3, maxCurrent: 1000, capacity: 2000 },
+  '4xaa': { id: '4xaa', name: '4x AA alkaline', voltage: 6, maxCurrent: 1000, capacity: 2000 },
+  '9v-battery': { id: '9v-battery', name: '9V alkaline battery', voltage: 9, maxCurrent: 300, capacity: 500 },
+  'lipo-1000': { id: 'lipo-1000', name: 'LiPo 1S 1000mAh', voltage: 3.7, maxCurrent: 1000, capacity: 1000 },
+  'lipo-2000': { id: 'lipo-2000', name: 'LiPo 1S 2000mAh', voltage: 3.7, maxCurrent: 2000, capacity: 2000 },
+  '18650': { id: '18650', name: '18650 Li-ion cell', voltage: 3.7, maxCurrent: 3000, capacity: 3000 },
+};
+
+// Used when a board doesn't list its own consumption
+const DEFAULT_BOARD_DRAW = { typical: 50, peak: 100 };
+
+// Usable fraction of a battery's rated capacity
+const BATTERY_DERATING = 0.85;
+
+interface RailLoad {
+  typical: number;
+  peak: number;
+  average: number;
+  standby: number;
+}
+
+/**
+ * Power budget for a build. Each part is placed on the board rail (5V or 3V3) that suits its operating
+ * voltage, the same way the wiring planner does. The board's own draw plus everything it powers must fit
+ * the supply; the parts alone must fit what the board can source. Linear regulation is assumed, so
+ * current on every rail is drawn from the supply one-for-one.
+ */
+export class PowerService {
+  constructor(private wiringService: WiringService = new WiringService()) {}
+
+  // Accepts a preset id or a custom supply; anything else means USB power
+  resolveSupply(supply: string | PowerSupply | undefined): PowerSupply {
+    if (supply === undefined || typeof supply === 'string') {
+      return (supply && POWER_SUPPLIES[supply.toLowerCase()]) || DEFAULT_POWER_SUPPLY;
+    }
+
+    return { ...supply, name: supply.name || 'Custom supply' };
+  }
+
+  calculateBudget(board: Board, parts: BuildPart[], supply: PowerSupply): PowerBudget {
+    const issues: CompatibilityIssue[] = [];
+    const notes: string[] = [];
+    const rails = new Map<string, PowerRail>();
+    const external: string[] = [];
+    const withoutStandby: string[] = [];
+
+    for (const { component, quantity, dutyCycle } of parts) {
+      const rail = this.wiringService.chooseRail(board, component);
+      if (!rail) {
+        external.push(component.name);
+        continue;
+      }
+
+      const { operating, standby } = component.specifications.current;
+      const typical = this.toMilliamps(operating.typical, operating.unit);
+      const peak = this.toMilliamps(operating.max, operating.unit);
+      // Without a standby figure the part is assumed to keep drawing its typical current
+      const idle = standby ? this.toMilliamps(standby.typical, standby.unit) : typical;
+      const duty = dutyCycle ?? 1;
+
+      if (!standby && duty < 1) {
+        withoutStandby.push(component.name);
+      }
+
+      const entry = rails.get(rail.name) || {
+        name: rail.name,
+        voltage: rail.voltage,
+        typical: 0,
+        peak: 0,
+        average: 0,
+        standby: 0,
+        components: [],
+      };
+
+      entry.typical += typical * quantity;
+      entry.peak += peak * quantity;
+      entry.average += (typical * duty + idle * (1 - duty)) * quantity;
+      entry.standby += idle * quantity;
+      entry.components.push(quantity > 1 ? `${component.name} x${quantity}` : component.name);
+      rails.set(rail.name, entry);
+    }
+
+    const consumption = board.specifications.current.consumption;
+    const boardDraw = consumption
+      ? {
+        typical: this.toMilliamps(consumption.typical, consumption.unit),
+        peak: this.toMilliamps(consumption.peak, consumption.unit),
+        estimated: false,
+      }
+      : { ...DEFAULT_BOARD_DRAW, estimated: true };
+
+    if (boardDraw.estimated) {
+      notes.push(`${board.name} does not list its own consumption; assuming ${DEFAULT_BOARD_DRAW.typical}mA typical, ${DEFAULT_BOARD_DRAW.peak}mA peak`);
+    }
+    if (withoutStandby.length > 0) {
+      notes.push(`No standby current listed for ${withoutStandby.join(', ')}; assumed to draw typical current while idle`);
+    }
+    if (external.length > 0) {
+      notes.push(`Not counted, needs its own supply: ${external.join(', ')}`);
+    }
+
+    const railList = [...rails.values()].map(rail => this.roundRail(rail));
+    const load = railList.reduce<RailLoad>((sum, rail) => ({
+      typical: sum.typical + rail.typical,
+      peak: sum.peak + rail.peak,
+      average: sum.average + rail.average,
+      standby: sum.standby + rail.standby,
+    }), { typical: 0, peak: 0, average: 0, standby: 0 });
+
+    const totals = {
+      typical: this.round(load.typical + boardDraw.typical),
+      peak: this.round(load.peak + boardDraw.peak),
+      average: this.round(load.average + boardDraw.typical),
+      standby: this.round(load.standby + boardDraw.typical),
+    };
+
+    const output = board.specifications.current.output;
+    const limit = this.toMilliamps(output.total, output.unit);
+    const regulator = { load: this.round(load.peak), limit, headroom: this.round(limit - load.peak) };
+    const supplyHeadroom = this.round(supply.maxCurrent - totals.peak);
+
+    issues.push(...this.checkSupplyVoltage(board, supply, railList));
+    issues.push(...this.checkCurrent(regulator, supply, totals.peak));
+
+    const batteryLifeHours = supply.capacity && totals.average > 0
+      ? this.round((supply.capacity * BATTERY_DERATING) / totals.average)
+      : null;
+
+    if (batteryLifeHours !== null && batteryLifeHours < 24) {
+      issues.push({
+        type: 'current',
+        severity: 'info',
+        message: `Estimated battery life on ${supply.name} is ${batteryLifeHours} hours`,
+        solution: 'Lower duty cycles, use sleep modes or pick a larger battery',
+      });
+    }
+
+    return {
+      boardId: board.id,
+      supply,
+      unit: 'mA',
+      rails: railList,
+      board: { typical: boardDraw.typical, peak: boardDraw.peak, estimated: boardDraw.estimated },
+      external,
+      totals,
+      regulator,
+      supplyHeadroom,
+      batteryLifeHours,
+      issues,
+      notes,
+    };
+  }
+
+  private checkSupplyVoltage(board: Board, supply: PowerSupply, rails: PowerRail[]): CompatibilityIssue[] {
+    const issues: CompatibilityIssue[] = [];
+    const operating = board.specifications.voltage.operating;
+
+    if (supply.voltage < operating) {
+      issues.push({
+        type: 'voltage',
+        severity: 'error',
+        message: `${supply.name} supplies ${supply.voltage}V, below the ${board.name}'s ${operating}V operating voltage`,
+        solution: 'Use a higher-voltage supply or add a boost converter',
+      });
+    }
+
+    // A 5V rail only exists when the supply provides at least 5V
+    const fiveVolt = rails.find(rail => rail.voltage === 5);
+    if (fiveVolt && supply.voltage < 4.75) {
+      issues.push({
+        type: 'voltage',
+        severity: 'error',
+        message: `${fiveVolt.components.join(', ')} need 5V but ${supply.name} only supplies ${supply.voltage}V`,
+        solution: 'Add a 5V boost converter or choose 3.3V parts',
+      });
+    }
+
+    return issues;
+  }
+
+  private checkCurrent(regulator: PowerBudget['regulator'], supply: PowerSupply, peak: number): CompatibilityIssue[] {
+    const issues: CompatibilityIssue[] = [];
+
+    if (regulator.load > regulator.limit) {
+      issues.push({
+        type: 'current',
+        severity: 'error',
+        message: `Total current draw exceeds board budget: ${regulator.load}mA required, ${regulator.limit}mA available`,
+        solution: 'Power high-current parts from an external supply with a shared ground',
+      });
+    } else if (regulator.load > regulator.limit * 0.8) {
+      issues.push({
+        type: 'current',
+        severity: 'warning',
+        message: `Total current draw close to board budget: ${regulator.load}mA of ${regulator.limit}mA`,
+        solution: 'Leave headroom for inrush current or move loads to an external supply',
+      });
+    }
+
+    if (peak > supply.maxCurrent) {
+      issues.push({
+        type: 'current',
+        severity: 'error',
+        message: `Peak draw of ${peak}mA exceeds what ${supply.name} can deliver (${supply.maxCurrent}mA)`,
+        solution: 'Use a supply rated for the peak current or stagger high-current loads',
+      });
+    } else if (peak > supply.maxCurrent * 0.8) {
+      issues.push({
+        type: 'current',
+        severity: 'warning',
+        message: `Peak draw of ${peak}mA is close to the ${supply.maxCurrent}mA limit of ${supply.name}`,
+        solution: 'Leave headroom for inrush current',
+      });
+    }
+
+    return issues;
+  }
+
+  private roundRail(rail: PowerRail): PowerRail {
+    return {
+      ...rail,
+      typical: this.round(rail.typical),
+      peak: this.round(rail.peak),
+      average: this.round(rail.average),
+      standby: this.round(rail.standby),
+    };
+  }
+
+  private toMilliamps(value: number, unit: string): number {
+    return convertUnit(value, unit, 'mA');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
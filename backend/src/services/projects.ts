@@ -0,0 +1,429 @@
+import { query, cache } from '../database/connection';
+import { cacheKeys } from '../config';
+import { logger } from '../utils/logger';
+import { CompatibilityService } from './compatibility';
+import { BillOfMaterials, BomLine, Project } from '../types';
+
+export interface ProjectFilters {
+  query?: string;
+  tag?: string;
+  difficulty?: Project['difficulty'];
+  board?: string;
+  costMin?: number;
+  costMax?: number;
+  limit?: number;
+  offset?: number;
+}
+
+interface ProjectRow {
+  id: string;
+  title: string;
+  description: string;
+  difficulty: Project['difficulty'];
+  components: string[] | null;
+  board: string | null;
+  tags: string[] | null;
+  tutorial_url: string | null;
+  source_url: string | null;
+  estimated_time: string | null;
+  cost_min: string | null;
+  cost_max: string | null;
+  cost_currency: string | null;
+}
+
+interface ComponentRow {
+  id: string;
+  name: string;
+  manufacturer: string;
+  price: string | null;
+  datasheet_url: string | null;
+  availability: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// "2x SG90 Micro Servo" / "SG90 Micro Servo x2"
+const QUANTITY_PREFIX = /^(\d+)\s*[x×]\s+(.+)$/i;
+const QUANTITY_SUFFIX = /^(.+?)\s+[x×]\s*(\d+)$/i;
+
+export class ProjectService {
+  private compatibilityService = new CompatibilityService();
+
+  async searchProjects(filters: ProjectFilters = {}): Promise<{ projects: Project[]; total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+      let paramCount = 0;
+
+      if (filters.query) {
+        paramCount++;
+        conditions.push(`(title ILIKE $${paramCount} OR description ILIKE $${paramCount})`);
+        params.push(`%${filters.query}%`);
+      }
+
+      if (filters.tag) {
+        paramCount++;
+        conditions.push(`$${paramCount} = ANY(tags)`);
+        params.push(filters.tag);
+      }
+
+      if (filters.difficulty) {
+        paramCount++;
+        conditions.push(`difficulty = $${paramCount}`);
+        params.push(filters.difficulty);
+      }
+
+      if (filters.board) {
+        paramCount++;
+        conditions.push(`board ILIKE $${paramCount}`);
+        params.push(`%${filters.board}%`);
+      }
+
+      // Cost filters match projects whose cost range overlaps the requested one
+      if (filters.costMin !== undefined) {
+        paramCount++;
+        conditions.push(`(cost_max IS NULL OR cost_max >= $${paramCount})`);
+        params.push(filters.costMin);
+      }
+
+      if (filters.costMax !== undefined) {
+        paramCount++;
+        conditions.push(`(cost_min IS NULL OR cost_min <= $${paramCount})`);
+        params.push(filters.costMax);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const countResult = await query(`SELECT COUNT(*) AS total FROM projects ${where}`, params);
+      const total = parseInt(countResult.rows[0]?.total || '0', 10);
+
+      const limit = filters.limit || 20;
+      const offset = filters.offset || 0;
+
+      const result = await query(`
+        SELECT * FROM projects
+        ${where}
+        ORDER BY created_at DESC
+        LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+      `, [...params, limit, offset]);
+
+      return { projects: result.rows.map((row: ProjectRow) => this.mapRow(row)), total };
+
+    } catch (error) {
+      logger.error('Search projects failed:', error);
+      throw error;
+    }
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      const result = await query('SELECT * FROM projects WHERE id = $1', [id]);
+      return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Get project failed:', error);
+      throw error;
+    }
+  }
+
+  async getProjectBom(id: string): Promise<BillOfMaterials | null> {
+    const project = await this.getProject(id);
+    if (!project) {
+      return null;
+    }
+
+    try {
+      const entries = this.parseComponentList(project.components);
+      const names = [...entries.keys()].map(name => name.toLowerCase());
+
+      const [componentResult, boardResult] = await Promise.all([
+        query(
+          'SELECT id, name, manufacturer, price, datasheet_url, availability FROM components WHERE lower(name) = ANY($1)',
+          [names]
+        ),
+        query('SELECT id, name FROM boards WHERE lower(name) = ANY($1)', [[...names, project.board.toLowerCase()]]),
+      ]);
+
+      const components = new Map<string, ComponentRow>(
+        componentResult.rows.map((row: ComponentRow) => [row.name.toLowerCase(), row])
+      );
+      const boardNames = new Set<string>(boardResult.rows.map((row: { name: string }) => row.name.toLowerCase()));
+
+      const lines: BomLine[] = [];
+      const unresolved: string[] = [];
+
+      // Projects list their board alongside the parts; make sure it is always on the BOM
+      if (project.board && ![...entries.keys()].some(name => name.toLowerCase() === project.board.toLowerCase())) {
+        entries.set(project.board, 1);
+      }
+
+      for (const [name, quantity] of entries) {
+        const key = name.toLowerCase();
+
+        if (boardNames.has(key) || key === project.board.toLowerCase()) {
+          lines.unshift({ name, kind: 'board', quantity });
+          continue;
+        }
+
+        const component = components.get(key);
+        if (!component) {
+          unresolved.push(name);
+          continue;
+        }
+
+        const line: BomLine = {
+          name: component.name,
+          kind: 'component',
+          quantity,
+          componentId: component.id,
+          manufacturer: component.manufacturer,
+        };
+
+        if (component.price !== null) {
+          line.unitPrice = parseFloat(component.price);
+          line.lineTotal = Math.round(line.unitPrice * quantity * 100) / 100;
+        }
+        if (component.datasheet_url) {
+          line.datasheetUrl = component.datasheet_url;
+        }
+        if (component.availability) {
+          line.availability = component.availability;
+        }
+
+        lines.push(line);
+      }
+
+      const priced = lines.reduce((sum, line) => sum + (line.lineTotal || 0), 0);
+      const compatibility = await this.checkBomCompatibility(project.board, lines);
+
+      return {
+        projectId: project.id,
+        title: project.title,
+        board: project.board,
+        lines,
+        unresolved,
+        totals: {
+          priced: Math.round(priced * 100) / 100,
+          unpricedLines: lines.filter(line => line.unitPrice === undefined).length,
+          currency: project.cost.currency,
+        },
+        compatibility,
+      };
+
+    } catch (error) {
+      logger.error('Get project BOM failed:', error);
+      throw error;
+    }
+  }
+
+  async addProject(project: Omit<Project, 'id'>): Promise<Project> {
+    try {
+      const result = await query(`
+        INSERT INTO projects (
+          title, description, difficulty, components, board, tags,
+          tutorial_url, source_url, estimated_time, cost_min, cost_max, cost_currency
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *
+      `, [
+        project.title,
+        project.description,
+        project.difficulty,
+        project.components,
+        project.board,
+        project.tags,
+        project.tutorialUrl || null,
+        project.sourceUrl || null,
+        project.estimatedTime,
+        project.cost.min,
+        project.cost.max,
+        project.cost.currency,
+      ]);
+
+      const newProject = this.mapRow(result.rows[0]);
+      await this.invalidateCaches();
+
+      logger.info('Project added successfully', {
+        id: newProject.id,
+        title: newProject.title,
+      });
+
+      return newProject;
+
+    } catch (error) {
+      logger.error('Add project failed:', error);
+      throw error;
+    }
+  }
+
+  async updateProject(id: string, updates: Partial<Omit<Project, 'id'>>): Promise<Project | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      const setClause = [];
+      const values = [];
+      let paramCount = 0;
+
+      const columns: Record<string, string> = {
+        title: 'title',
+        description: 'description',
+        difficulty: 'difficulty',
+        components: 'components',
+        board: 'board',
+        tags: 'tags',
+        tutorialUrl: 'tutorial_url',
+        sourceUrl: 'source_url',
+        estimatedTime: 'estimated_time',
+      };
+
+      const fields: Array<[string, unknown]> = Object.entries(updates)
+        .filter(([key]) => columns[key])
+        .map(([key, value]) => [columns[key] as string, value]);
+
+      if (updates.cost) {
+        fields.push(['cost_min', updates.cost.min], ['cost_max', updates.cost.max], ['cost_currency', updates.cost.currency]);
+      }
+
+      for (const [column, value] of fields) {
+        if (value !== undefined) {
+          paramCount++;
+          setClause.push(`${column} = $${paramCount}`);
+          values.push(value);
+        }
+      }
+
+      if (setClause.length === 0) {
+        throw new Error('No valid fields to update');
+      }
+
+      values.push(id);
+      const result = await query(`
+        UPDATE projects
+        SET ${setClause.join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $${paramCount + 1}
+        RETURNING *
+      `, values);
+
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      await this.invalidateCaches();
+      return this.mapRow(result.rows[0]);
+
+    } catch (error) {
+      logger.error('Update project failed:', error);
+      throw error;
+    }
+  }
+
+  async deleteProject(id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) {
+      return false;
+    }
+
+    try {
+      const result = await query('DELETE FROM projects WHERE id = $1', [id]);
+
+      if (result.rowCount && result.rowCount > 0) {
+        await this.invalidateCaches();
+        return true;
+      }
+
+      return false;
+
+    } catch (error) {
+      logger.error('Delete project failed:', error);
+      throw error;
+    }
+  }
+
+  // Duplicate entries and "2x Name" / "Name x2" both count towards the quantity
+  private parseComponentList(components: string[]): Map<string, number> {
+    const entries = new Map<string, number>();
+
+    for (const raw of components) {
+      const entry = raw.trim();
+      const prefix = entry.match(QUANTITY_PREFIX);
+      const suffix = entry.match(QUANTITY_SUFFIX);
+
+      let name = entry;
+      let quantity = 1;
+
+      if (prefix?.[1] && prefix[2]) {
+        quantity = parseInt(prefix[1], 10);
+        name = prefix[2];
+      } else if (suffix?.[1] && suffix[2]) {
+        name = suffix[1];
+        quantity = parseInt(suffix[2], 10);
+      }
+
+      const existing = [...entries.keys()].find(key => key.toLowerCase() === name.toLowerCase());
+      entries.set(existing || name, (existing ? entries.get(existing) || 0 : 0) + quantity);
+    }
+
+    return entries;
+  }
+
+  private async checkBomCompatibility(board: string, lines: BomLine[]): Promise<BillOfMaterials['compatibility']> {
+    const items = lines
+      .filter(line => line.kind === 'component' && line.componentId)
+      .map(line => ({ componentId: line.componentId as string, quantity: line.quantity }));
+
+    if (!board || items.length === 0) {
+      return null;
+    }
+
+    try {
+      return await this.compatibilityService.checkSystemCompatibility(board, items);
+    } catch (error) {
+      logger.warn('BOM compatibility check failed:', error);
+      return null;
+    }
+  }
+
+  // Chat project recommendations are cached under project:*
+  private async invalidateCaches(): Promise<void> {
+    try {
+      const keys = await cache.keys(`${cacheKeys.project('')}*`);
+      for (const key of keys) {
+        await cache.del(key);
+      }
+    } catch (error) {
+      logger.warn('Failed to invalidate project caches:', error);
+    }
+  }
+
+  // Rows come back with snake_case columns and a flat cost range
+  private mapRow(row: ProjectRow): Project {
+    const project: Project = {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      difficulty: row.difficulty,
+      components: row.components || [],
+      board: row.board || '',
+      tags: row.tags || [],
+      estimatedTime: row.estimated_time || '',
+      cost: {
+        min: row.cost_min !== null ? parseFloat(row.cost_min) : 0,
+        max: row.cost_max !== null ? parseFloat(row.cost_max) : 0,
+        currency: row.cost_currency || 'USD',
+      },
+    };
+
+    if (row.tutorial_url) {
+      project.tutorialUrl = row.tutorial_url;
+    }
+    if (row.source_url) {
+      project.sourceUrl = row.source_url;
+    }
+
+    return project;
+  }
+}
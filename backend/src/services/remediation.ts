@@ -0,0 +1,27 @@
+import { query } from '../database/connection';
+import { logger } from '../utils/logger';
+import { toComponent } from './components';
+import { Component, RemediationKind } from '../types';
+
+/**
+ * Finds the catalogue part for a fix. Parts are tagged with their remediation kind
+ * (e.g. `level-shifter`); in-stock parts win, then the cheapest.
+ */
+export class RemediationService {
+  async findPart(kind: RemediationKind): Promise<Component | null> {
+    try {
+      const result = await query(
+        `SELECT * FROM components
+         WHERE $1 = ANY(tags)
+         ORDER BY (availability = 'in-stock') DESC, price ASC NULLS LAST
+         LIMIT 1`,
+        [kind]
+      );
+
+      return result.rows[0] ? toComponent(result.rows[0]) : null;
+    } catch (error) {
+      logger.warn(`Failed to find ${kind} part:`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { logger } from '../utils/logger';
+import {
+  Board,
+  CompatibilityIssue,
+  CompatibilityRule,
+  Component,
+  RemediationKind,
+  RuleCondition,
+  RuleOperand,
+  RuleText,
+} from '../types';
+
+// A fix a rule asked for, before a catalogue part has been found for it
+export interface RemedyNeed {
+  kind: RemediationKind;
+  issueType: CompatibilityIssue['type'];
+  reason: string;
+}
+
+export interface RuleEvaluation {
+  issues: CompatibilityIssue[];
+  suggestions: string[];
+  remedies: RemedyNeed[];
+  penalty: number;
+}
+
+type RuleContext = Record<string, unknown>;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Evaluates declarative compatibility rules against one board/component pair, plus any `facts` the
+ * caller looked up beforehand (e.g. library index results). Rules never throw: a malformed condition
+ * is logged and treated as not matching, so one bad rule can't break every check.
+ */
+export class RuleEngine {
+  // `matches` patterns are validated when a rule is saved; each one is compiled once
+  private patterns = new Map<string, RegExp>();
+
+  evaluate(
+    rules: CompatibilityRule[],
+    board: Board,
+    component: Component,
+    mitigations: Set<RemediationKind> = new Set(),
+    facts: Record<string, unknown> = {}
+  ): RuleEvaluation {
+    const evaluation: RuleEvaluation = { issues: [], suggestions: [], remedies: [], penalty: 0 };
+
+    for (const rule of rules) {
+      if (!rule.enabled) {
+        continue;
+      }
+
+      const mitigatedBy = rule.mitigatedBy ?? (rule.remedies || []).map(remedy => remedy.kind);
+      if (mitigatedBy.some(kind => mitigations.has(kind))) {
+        continue;
+      }
+
+      try {
+        for (const context of this.contextsFor(rule, { ...facts, board, component })) {
+          if (this.test(rule.when, context)) {
+            this.apply(rule, context, evaluation);
+          }
+        }
+      } catch (error) {
+        logger.warn(`Compatibility rule ${rule.id} failed to evaluate:`, error);
+      }
+    }
+
+    return evaluation;
+  }
+
+  private contextsFor(rule: CompatibilityRule, base: RuleContext): RuleContext[] {
+    const { each } = rule;
+    const contexts = each
+      ? this.asArray(this.resolve(each.path, base)).map(item => ({ ...base, [each.as]: item }))
+      : [base];
+
+    // `let` values are computed per item so they can refer to it
+    return contexts.map(context => {
+      const scoped = { ...context };
+      for (const [name, operand] of Object.entries(rule.let || {})) {
+        scoped[name] = this.value(operand, scoped);
+      }
+      return scoped;
+    });
+  }
+
+  private apply(rule: CompatibilityRule, context: RuleContext, evaluation: RuleEvaluation): void {
+    evaluation.penalty += rule.penalty;
+
+    for (const suggestion of rule.suggestions || []) {
+      if (!suggestion.when || this.test(suggestion.when, context)) {
+        evaluation.suggestions.push(this.render(suggestion.text, context));
+      }
+    }
+
+    if (!rule.issue) {
+      return;
+    }
+
+    const issue: CompatibilityIssue = {
+      type: rule.issue.type,
+      severity: rule.issue.severity,
+      message: this.text(rule.issue.message, context),
+    };
+    if (rule.issue.solution) {
+      const solution = this.text(rule.issue.solution, context);
+      if (solution) issue.solution = solution;
+    }
+    evaluation.issues.push(issue);
+
+    for (const remedy of rule.remedies || []) {
+      if (!remedy.when || this.test(remedy.when, context)) {
+        evaluation.remedies.push({ kind: remedy.kind, issueType: rule.issue.type, reason: this.text(remedy.reason, context) });
+      }
+    }
+  }
+
+  private test(condition: RuleCondition, context: RuleContext): boolean {
+    if ('all' in condition) {
+      return condition.all.every(part => this.test(part, context));
+    }
+    if ('any' in condition) {
+      return condition.any.some(part => this.test(part, context));
+    }
+    if ('not' in condition) {
+      return !this.test(condition.not, context);
+    }
+    if ('exists' in condition) {
+      const value = this.resolve(condition.exists, context);
+      return value !== undefined && value !== null;
+    }
+    if ('some' in condition) {
+      const as = condition.as || 'item';
+      return this.asArray(this.resolve(condition.some, context))
+        .some(item => this.test(condition.where, { ...context, [as]: item }));
+    }
+
+    return this.compare(condition.op, this.value(condition.left, context), this.value(condition.right, context));
+  }
+
+  private compare(op: string, left: unknown, right: unknown): boolean {
+    switch (op) {
+      case 'eq':
+        return this.equal(left, right);
+      case 'neq':
+        return !this.equal(left, right);
+      case 'gt':
+        return typeof left === 'number' && typeof right === 'number' && left > right;
+      case 'gte':
+        return typeof left === 'number' && typeof right === 'number' && left >= right;
+      case 'lt':
+        return typeof left === 'number' && typeof right === 'number' && left < right;
+      case 'lte':
+        return typeof left === 'number' && typeof right === 'number' && left <= right;
+      case 'in':
+        return this.asArray(right).some(item => this.equal(left, item));
+      case 'includes':
+        // Arrays: has an equal element; strings: case-insensitive substring
+        return Array.isArray(left)
+          ? left.some(item => this.equal(item, right))
+          : typeof left === 'string' && typeof right === 'string' && left.toLowerCase().includes(right.toLowerCase());
+      case 'matches':
+        return typeof left === 'string' && typeof right === 'string' && this.pattern(right).test(left);
+      default:
+        throw new Error(`Unknown operator: ${op}`);
+    }
+  }
+
+  private value(operand: RuleOperand, context: RuleContext): unknown {
+    if (operand === null || typeof operand !== 'object' || Array.isArray(operand)) {
+      return operand;
+    }
+
+    if ('path' in operand) {
+      return this.resolve(operand.path, context);
+    }
+    if ('count' in operand) {
+      const as = operand.as || 'item';
+      const { where } = operand;
+      const items = this.asArray(this.resolve(operand.count, context));
+      return where ? items.filter(item => this.test(where, { ...context, [as]: item })).length : items.length;
+    }
+    if ('if' in operand) {
+      return this.value(this.test(operand.if, context) ? operand.then : operand.else, context);
+    }
+
+    const args = operand.args.map(arg => this.value(arg, context));
+    const numbers = args.map(Number);
+
+    switch (operand.fn) {
+      case 'abs':
+        return Math.abs(numbers[0] ?? NaN);
+      case 'add':
+        return numbers.reduce((sum, n) => sum + n, 0);
+      case 'sub':
+        return (numbers[0] ?? NaN) - (numbers[1] ?? NaN);
+      case 'mul':
+        return numbers.reduce((product, n) => product * n, 1);
+      case 'div':
+        return (numbers[0] ?? NaN) / (numbers[1] ?? NaN);
+      case 'min':
+        return Math.min(...numbers);
+      case 'max':
+        return Math.max(...numbers);
+      case 'concat':
+        return args.map(arg => (arg === undefined || arg === null ? '' : String(arg))).join('');
+      case 'lower':
+        return String(args[0] ?? '').toLowerCase();
+      default:
+        throw new Error(`Unknown function: ${String((operand as { fn: unknown }).fn)}`);
+    }
+  }
+
+  private pattern(source: string): RegExp {
+    let pattern = this.patterns.get(source);
+    if (!pattern) {
+      pattern = new RegExp(source, 'i');
+      this.patterns.set(source, pattern);
+    }
+    return pattern;
+  }
+
+  private resolve(path: string, context: RuleContext): unknown {
+    let current: unknown = context;
+
+    for (const key of path.split('.')) {
+      if (current === null || current === undefined) {
+        return undefined;
+      }
+      if (Array.isArray(current) && key === 'length') {
+        return current.length;
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+
+    return current;
+  }
+
+  private text(text: RuleText, context: RuleContext): string {
+    if (typeof text === 'string') {
+      return this.render(text, context);
+    }
+
+    const variant = text.find(option => !option.when || this.test(option.when, context));
+    return variant ? this.render(variant.text, context) : '';
+  }
+
+  private render(template: string, context: RuleContext): string {
+    return template.replace(PLACEHOLDER, (_match, path: string) => {
+      const value = this.resolve(path, context);
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  private equal(left: unknown, right: unknown): boolean {
+    if (typeof left === 'string' && typeof right === 'string') {
+      return left.toLowerCase() === right.toLowerCase();
+    }
+    return left === right;
+  }
+
+  private asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+  }
+}
@@ -0,0 +1,171 @@
+import { query, cache } from '../database/connection';
+import { cacheKeys, config } from '../config';
+import { logger } from '../utils/logger';
+import { CompatibilityRule } from '../types';
+import builtinRules from '../rules/compatibility-rules.json';
+
+// Shipped with the code; custom rules with the same id override them
+const BUILTIN_RULES = (builtinRules as CompatibilityRule[]).map(rule => ({ ...rule, source: 'builtin' as const }));
+
+type RuleDefinition = Omit<CompatibilityRule, 'id' | 'enabled' | 'source'>;
+
+interface RuleRow {
+  id: string;
+  rule_key: string;
+  definition: RuleDefinition;
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Compatibility rules: the built-in set from rules/compatibility-rules.json plus custom rules in the
+ * `compatibility_rules` table. A custom rule that reuses a built-in id replaces it, which is also how
+ * built-ins are tuned or disabled; deleting that row restores the built-in.
+ */
+export class RuleService {
+
+  // Enabled rules in evaluation order, built-ins first
+  async getActiveRules(): Promise<CompatibilityRule[]> {
+    try {
+      const cached = await cache.get(cacheKeys.compatibilityRules());
+      if (cached) {
+        return JSON.parse(cached);
+      }
+
+      const rules = (await this.listRules()).filter(rule => rule.enabled);
+      await cache.set(cacheKeys.compatibilityRules(), JSON.stringify(rules), config.cache.ttlSeconds);
+
+      return rules;
+
+    } catch (error) {
+      logger.warn('Failed to load custom compatibility rules, using built-ins:', error);
+      return BUILTIN_RULES.filter(rule => rule.enabled);
+    }
+  }
+
+  async listRules(): Promise<CompatibilityRule[]> {
+    try {
+      const result = await query('SELECT * FROM compatibility_rules ORDER BY created_at ASC');
+      const custom = new Map<string, CompatibilityRule>(
+        result.rows.map((row: RuleRow) => [row.rule_key, this.mapRow(row)])
+      );
+
+      const merged = BUILTIN_RULES.map(rule => custom.get(rule.id) || rule);
+      const added = [...custom.values()].filter(rule => !BUILTIN_RULES.some(builtin => builtin.id === rule.id));
+
+      return [...merged, ...added];
+
+    } catch (error) {
+      logger.error('List compatibility rules failed:', error);
+      throw error;
+    }
+  }
+
+  async getRule(id: string): Promise<CompatibilityRule | null> {
+    const rules = await this.listRules();
+    return rules.find(rule => rule.id === id) || null;
+  }
+
+  // Throws a unique violation (23505) when a custom rule with this id already exists
+  async createRule(rule: CompatibilityRule): Promise<CompatibilityRule> {
+    try {
+      const { id, enabled, source: _source, ...definition } = rule;
+
+      const result = await query(`
+        INSERT INTO compatibility_rules (rule_key, definition, enabled)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      `, [id, JSON.stringify(definition), enabled]);
+
+      await this.invalidateCaches();
+
+      logger.info('Compatibility rule added', { id, overridesBuiltin: BUILTIN_RULES.some(builtin => builtin.id === id) });
+
+      return this.mapRow(result.rows[0]);
+
+    } catch (error) {
+      logger.error('Add compatibility rule failed:', error);
+      throw error;
+    }
+  }
+
+  // Updating a built-in stores an override holding the built-in plus the changes
+  async updateRule(id: string, updates: Partial<Omit<CompatibilityRule, 'id' | 'source'>>): Promise<CompatibilityRule | null> {
+    try {
+      const existing = await this.getRule(id);
+      if (!existing) {
+        return null;
+      }
+
+      const { id: _id, source, ...current } = existing;
+      const { enabled, ...definition } = { ...current, ...updates };
+
+      const result = source === 'custom'
+        ? await query(`
+            UPDATE compatibility_rules
+            SET definition = $1, enabled = $2, updated_at = CURRENT_TIMESTAMP
+            WHERE rule_key = $3
+            RETURNING *
+          `, [JSON.stringify(definition), enabled, id])
+        : await query(`
+            INSERT INTO compatibility_rules (rule_key, definition, enabled)
+            VALUES ($1, $2, $3)
+            RETURNING *
+          `, [id, JSON.stringify(definition), enabled]);
+
+      if (!result.rows[0]) {
+        return null;
+      }
+
+      await this.invalidateCaches();
+      return this.mapRow(result.rows[0]);
+
+    } catch (error) {
+      logger.error('Update compatibility rule failed:', error);
+      throw error;
+    }
+  }
+
+  // Only custom rows can be deleted; built-ins are switched off with `enabled: false`
+  async deleteRule(id: string): Promise<boolean> {
+    try {
+      const result = await query('DELETE FROM compatibility_rules WHERE rule_key = $1 RETURNING id', [id]);
+
+      if (!result.rows[0]) {
+        return false;
+      }
+
+      await this.invalidateCaches();
+      return true;
+
+    } catch (error) {
+      logger.error('Delete compatibility rule failed:', error);
+      throw error;
+    }
+  }
+
+  // Cached compatibility results were scored with the old rules
+  private async invalidateCaches(): Promise<void> {
+    try {
+      await cache.del(cacheKeys.compatibilityRules());
+
+      const keys = await cache.keys('compat:*');
+      for (const key of keys) {
+        await cache.del(key);
+      }
+
+    } catch (error) {
+      logger.warn('Failed to invalidate compatibility caches:', error);
+    }
+  }
+
+  private mapRow(row: RuleRow): CompatibilityRule {
+    return {
+      ...row.definition,
+      id: row.rule_key,
+      enabled: row.enabled,
+      source: 'custom',
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { query, cache } from '../database/connection';
+import { cacheKeys, config } from '../config';
+import { logger } from '../utils/logger';
+import { ChatMessage, ChatSession, ChatSessionSummary } from '../types';
+
+interface ChatSessionRow {
+  session_id: string;
+  title: string | null;
+  messages: ChatMessage[] | null;
+  context: Record<string, unknown> | null;
+  tool_calls_used: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ChatSessionSummaryRow {
+  session_id: string;
+  title: string | null;
+  message_count: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const TITLE_LENGTH = 80;
+
+/**
+ * Chat sessions live in chat_sessions; Redis holds a hot copy with only the most recent messages,
+ * which is all a chat turn needs. Writes go to both, and new messages are appended in SQL so the
+ * trimmed cache copy never overwrites the full history.
+ */
+export class ChatSessionService {
+  async loadSession(sessionId: string): Promise<ChatSession | null> {
+    try {
+      const cached = await cache.get(cacheKeys.session(sessionId));
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      logger.warn('Failed to load cached session', { sessionId, error });
+    }
+
+    const session = await this.getSession(sessionId);
+    if (session) {
+      await this.cacheSession(session);
+    }
+
+    return session;
+  }
+
+  // Full history straight from the database
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    try {
+      const result = await query(
+        `SELECT session_id, title, messages, context, tool_calls_used, created_at, updated_at
+         FROM chat_sessions WHERE session_id = $1`,
+        [sessionId]
+      );
+
+      return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+
+    } catch (error) {
+      logger.error('Get chat session failed:', error);
+      throw error;
+    }
+  }
+
+  // Sessions aren't tied to a user, so this is everyone's; only admins may call it
+  async listSessions(limit: number = 20, offset: number = 0): Promise<{ sessions: ChatSessionSummary[]; total: number }> {
+    try {
+      const countResult = await query('SELECT COUNT(*) AS total FROM chat_sessions');
+      const total = parseInt(countResult.rows[0]?.total || '0', 10);
+
+      const result = await query(`
+        SELECT session_id, title, jsonb_array_length(messages) AS message_count, created_at, updated_at
+        FROM chat_sessions
+        ORDER BY updated_at DESC
+        LIMIT $1 OFFSET $2
+      `, [limit, offset]);
+
+      return {
+        sessions: result.rows.map((row: ChatSessionSummaryRow) => ({
+          sessionId: row.session_id,
+          title: row.title,
+          messageCount: row.message_count || 0,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        })),
+        total,
+      };
+
+    } catch (error) {
+      logger.error('List chat sessions failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a finished turn. `newMessages` are appended to the stored history; `session` carries the
+   * updated context and tool budget and becomes the new cached copy. A database failure is logged
+   * rather than thrown so the conversation can carry on from the cache.
+   */
+  async saveTurn(session: ChatSession, newMessages: ChatMessage[]): Promise<void> {
+    const title = session.title || this.titleFrom(session.messages);
+
+    try {
+      await query(`
+        INSERT INTO chat_sessions (session_id, title, messages, context, tool_calls_used)
+        VALUES ($1, $2, $3::jsonb, $4::jsonb, $5)
+        ON CONFLICT (session_id) DO UPDATE SET
+          title = COALESCE(chat_sessions.title, EXCLUDED.title),
+          messages = chat_sessions.messages || EXCLUDED.messages,
+          context = EXCLUDED.context,
+          tool_calls_used = EXCLUDED.tool_calls_used
+      `, [
+        session.sessionId,
+        title,
+        JSON.stringify(newMessages),
+        JSON.stringify(session.context),
+        session.toolCallsUsed,
+      ]);
+    } catch (error) {
+      logger.error('Failed to persist chat session', { sessionId: session.sessionId, error });
+    }
+
+    await this.cacheSession({ ...session, title, updatedAt: new Date() });
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      const result = await query('DELETE FROM chat_sessions WHERE session_id = $1', [sessionId]);
+      await cache.del(cacheKeys.session(sessionId));
+
+      return !!result.rowCount && result.rowCount > 0;
+
+    } catch (error) {
+      logger.error('Delete chat session failed:', error);
+      throw error;
+    }
+  }
+
+  // Deletes sessions idle for longer than the retention period and returns how many went
+  async purgeInactiveSessions(retentionDays: number = config.chatSessions.retentionDays): Promise<number> {
+    try {
+      const result = await query(
+        'DELETE FROM chat_sessions WHERE updated_at < NOW() - make_interval(days => $1) RETURNING session_id',
+        [retentionDays]
+      );
+
+      for (const row of result.rows as Array<{ session_id: string }>) {
+        await cache.del(cacheKeys.session(row.session_id));
+      }
+
+      return result.rowCount || 0;
+
+    } catch (error) {
+      logger.error('Purge chat sessions failed:', error);
+      throw error;
+    }
+  }
+
+  private async cacheSession(session: ChatSession): Promise<void> {
+    const hot: ChatSession = {
+      ...session,
+      messages: session.messages.slice(-config.chatSessions.cacheMessages),
+    };
+
+    try {
+      await cache.set(cacheKeys.session(session.sessionId), JSON.stringify(hot), config.chatSessions.cacheTtlSeconds);
+    } catch (error) {
+      logger.warn('Failed to cache session data', { sessionId: session.sessionId, error });
+    }
+  }
+
+  // Sessions are titled after the user's first message
+  private titleFrom(messages: ChatMessage[]): string | null {
+    const first = messages.find(message => message.sender === 'user')?.content.trim().replace(/\s+/g, ' ');
+
+    if (!first) {
+      return null;
+    }
+
+    return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+  }
+
+  private mapRow(row: ChatSessionRow): ChatSession {
+    return {
+      sessionId: row.session_id,
+      title: row.title,
+      messages: row.messages || [],
+      context: row.context || {},
+      toolCallsUsed: row.tool_calls_used || 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Periodically applies the chat session retention policy
+export class SessionRetentionJob {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private sessionService: ChatSessionService = new ChatSessionService()) {}
+
+  start(): void {
+    if (this.timer || config.chatSessions.retentionDays <= 0) return;
+
+    this.schedule(0);
+    logger.info('Chat session retention job started', {
+      retentionDays: config.chatSessions.retentionDays,
+      intervalMs: config.chatSessions.retentionIntervalMs,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.sessionService.purgeInactiveSessions()
+        .then(deleted => {
+          if (deleted > 0) {
+            logger.info('Purged inactive chat sessions', { deleted });
+          }
+        })
+        .catch(error => logger.error('Chat session retention run failed:', error))
+        .finally(() => {
+          if (this.timer) {
+            this.schedule(config.chatSessions.retentionIntervalMs);
+          }
+        });
+    }, delayMs);
+  }
+}
@@ -0,0 +1,444 @@
+import { logger } from '../utils/logger';
+import { parseQuantity, toUnit } from '../utils/quantity';
+import {
+  Board,
+  BoardPin,
+  BuildPart,
+  Component,
+  Connection,
+  PinConfiguration,
+  WiringPlan
+} from '../types';
+
+type BusRole = 'SDA' | 'SCL' | 'MOSI' | 'MISO' | 'SCK';
+type PinRequest = 'analog' | 'PWM' | 'interrupt' | 'digital';
+
+interface Instance {
+  label: string;
+  component: Component;
+  rail: { name: string; voltage: number } | null;
+}
+
+interface PendingRequest {
+  instance: Instance;
+  pin: PinConfiguration;
+  kind: PinRequest;
+  wireType: string;
+  note?: string;
+}
+
+// Pins every wiring plan can use, whatever the board's GPIO list says
+const RAILS = [
+  { name: '5V', voltage: 5 },
+  { name: '3V3', voltage: 3.3 },
+];
+
+// Logic levels closer than this are treated as compatible (e.g. 3.3V vs 3.6V max)
+const VOLTAGE_TOLERANCE = 0.3;
+
+const BUS_PIN_NAMES: Record<string, RegExp> = {
+  SDA: /^(SDA|SDI\/SDA|DATA_I2C)$/i,
+  SCL: /^(SCL|SCK_I2C)$/i,
+  MOSI: /^(MOSI|SDI|DIN|COPI)$/i,
+  MISO: /^(MISO|SDO|DOUT|CIPO)$/i,
+  SCK: /^(SCK|SCLK|CLK)$/i,
+};
+
+const CHIP_SELECT = /^(CS|SS|CE|NSS|CSN)$/i;
+const UART_TX = /^(TX|TXD|TXO)$/i;
+const UART_RX = /^(RX|RXD|RXI)$/i;
+const INTERRUPT = /^(INT\d?|IRQ|DRDY|ALERT)$/i;
+const CONTROL = /^(RST|RESET|EN|ENABLE|DC|A0)$/i;
+
+export class WiringService {
+
+  planWiring(board: Board, parts: BuildPart[]): WiringPlan {
+    const connections: Connection[] = [];
+    const notes: string[] = [];
+    const unassigned: WiringPlan['unassigned'] = [];
+
+    const instances: Instance[] = [];
+    for (const { component, quantity } of parts) {
+      for (let i = 0; i < quantity; i++) {
+        instances.push({
+          label: quantity > 1 ? `${component.name} #${i + 1}` : component.name,
+          component,
+          rail: this.chooseRail(board, component),
+        });
+      }
+    }
+
+    let pool = board.pins.filter(pin => this.isUsable(pin));
+    const reserve = (pins: BoardPin[]) => {
+      pool = pool.filter(pin => !pins.includes(pin));
+    };
+
+    const pending: PendingRequest[] = [];
+    const spiDevices: Instance[] = [];
+    const uartDevices: Instance[] = [];
+    const i2cBus = this.resolveBus(board, 'I2C', ['SDA', 'SCL']);
+    const spiBus = this.resolveBus(board, 'SPI', ['MOSI', 'MISO', 'SCK']);
+    const uartPorts = this.resolveUartPorts(board);
+
+    if (instances.some(i => this.usesProtocol(i.component, 'I2C')) && i2cBus) {
+      reserve(Object.values(i2cBus));
+    }
+    if (instances.some(i => this.usesProtocol(i.component, 'SPI')) && spiBus) {
+      reserve(Object.values(spiBus));
+    }
+
+    for (const instance of instances) {
+      const { component, label, rail } = instance;
+      const usesBus = ['I2C', 'SPI', 'UART'].some(p => this.usesProtocol(component, p));
+      const hasPowerPin = component.specifications.pins.some(pin => pin.type === 'power');
+
+      for (const pin of component.specifications.pins) {
+        const name = pin.name.trim();
+
+        if (pin.type === 'power') {
+          connections.push(this.connect(label, pin, rail ? board.name : 'External supply', rail ? rail.name : 'V+', 'power',
+            rail ? undefined : this.externalSupplyNote(component)));
+          continue;
+        }
+
+        if (pin.type === 'ground') {
+          connections.push(this.connect(label, pin, board.name, 'GND', 'ground'));
+          continue;
+        }
+
+        if (pin.type !== 'digital' && pin.type !== 'analog' && pin.type !== 'communication') {
+          continue;
+        }
+
+        const busRole = this.busRole(component, name);
+        if (busRole) {
+          const bus = busRole === 'SDA' || busRole === 'SCL' ? i2cBus : spiBus;
+          const target = bus ? (bus as Record<string, BoardPin>)[busRole] : undefined;
+
+          if (target) {
+            connections.push(this.connectToBoard(board, instance, pin, target, busRole === 'SDA' || busRole === 'SCL' ? 'I2C' : 'SPI'));
+          } else {
+            unassigned.push({ component: label, pin: name, reason: `Board has no ${busRole} pin` });
+          }
+          continue;
+        }
+
+        if (CHIP_SELECT.test(name) && this.usesProtocol(component, 'SPI')) {
+          spiDevices.push(instance);
+          pending.push({ instance, pin, kind: 'digital', wireType: 'SPI', note: 'Chip select' });
+          continue;
+        }
+
+        if ((UART_TX.test(name) || UART_RX.test(name)) && this.usesProtocol(component, 'UART')) {
+          if (!uartDevices.includes(instance)) {
+            uartDevices.push(instance);
+          }
+          continue;
+        }
+
+        // Bus parts expose their own I/O (e.g. expander ports); only control lines go to the board
+        if (usesBus && !INTERRUPT.test(name) && !CONTROL.test(name)) {
+          continue;
+        }
+
+        const kind: PinRequest = pin.type === 'analog'
+          ? 'analog'
+          : this.usesProtocol(component, 'PWM')
+            ? 'PWM'
+            : INTERRUPT.test(name) ? 'interrupt' : 'digital';
+
+        const request: PendingRequest = { instance, pin, kind, wireType: 'signal' };
+        if (!hasPowerPin) {
+          request.note = 'Powered through this pin';
+        }
+        pending.push(request);
+      }
+    }
+
+    // Serial devices take a hardware port each, then fall back to SoftwareSerial pins
+    for (const instance of uartDevices) {
+      const port = uartPorts.shift();
+      const txPin = instance.component.specifications.pins.find(p => UART_TX.test(p.name.trim()));
+      const rxPin = instance.component.specifications.pins.find(p => UART_RX.test(p.name.trim()));
+
+      if (port) {
+        reserve([port.rx, port.tx]);
+        if (txPin) connections.push(this.connectToBoard(board, instance, txPin, port.rx, 'UART'));
+        if (rxPin) connections.push(this.connectToBoard(board, instance, rxPin, port.tx, 'UART'));
+        if (port.rx.notes?.toLowerCase().includes('usb')) {
+          notes.push(`${instance.label} shares the USB serial port - disconnect it while uploading sketches`);
+        }
+        continue;
+      }
+
+      notes.push(`${instance.label} uses SoftwareSerial - no hardware UART left`);
+      for (const pin of [txPin, rxPin]) {
+        if (pin) pending.push({ instance, pin, kind: 'digital', wireType: 'UART', note: 'SoftwareSerial' });
+      }
+    }
+
+    // Scarce pin types are placed first so generic signals don't use them up
+    const order: PinRequest[] = ['analog', 'PWM', 'interrupt', 'digital'];
+    pending.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+
+    for (const request of pending) {
+      const target = this.pickPin(pool, request);
+
+      if (!target) {
+        unassigned.push({
+          component: request.instance.label,
+          pin: request.pin.name,
+          reason: `No free ${request.kind} pin left on ${board.name}`,
+        });
+        continue;
+      }
+
+      reserve([target]);
+      const connection = this.connectToBoard(board, request.instance, request.pin, target, request.wireType);
+
+      if (request.note) {
+        connection.notes = connection.notes ? `${request.note}; ${connection.notes}` : request.note;
+      }
+      connections.push(connection);
+    }
+
+    notes.push(...this.collectNotes(board, instances, i2cBus !== null));
+
+    if (unassigned.length > 0) {
+      notes.push(`${unassigned.length} pin(s) could not be assigned - consider an I/O expander or a larger board`);
+    }
+
+    logger.debug('Wiring plan generated', {
+      board: board.name,
+      connections: connections.length,
+      unassigned: unassigned.length,
+    });
+
+    return {
+      connections,
+      notes: [...new Set(notes)],
+      complete: unassigned.length === 0,
+      unassigned,
+    };
+  }
+
+  private pickPin(pool: BoardPin[], request: PendingRequest): BoardPin | undefined {
+    const logicVoltage = request.instance.rail?.voltage;
+
+    const candidates = pool.filter(pin => {
+      if (request.kind === 'analog') {
+        return this.hasFunction(pin, 'analog') || pin.analogPin !== undefined;
+      }
+      if (this.hasFunction(pin, 'input-only') || !this.isGpio(pin)) {
+        return false;
+      }
+      if (request.kind === 'PWM') {
+        return this.hasFunction(pin, 'PWM');
+      }
+      if (request.kind === 'interrupt') {
+        return this.hasFunction(pin, 'interrupt');
+      }
+      return true;
+    });
+
+    // Prefer matching logic level and enough drive current, then pins without caveats
+    // (strapping, USB serial, ADC2), then the least versatile pin
+    const current = request.instance.component.specifications.current.operating;
+    const componentCurrent = this.toMilliamps(current.max, current.unit);
+    const rank = (pin: BoardPin) =>
+      (logicVoltage !== undefined && Math.abs(pin.voltage - logicVoltage) > VOLTAGE_TOLERANCE ? 100 : 0) +
+      (request.note === 'Powered through this pin' && componentCurrent !== null && componentCurrent > pin.currentMax
+        ? 50
+        : 0) +
+      (pin.notes ? 20 : 0) +
+      (this.hasFunction(pin, 'RX') || this.hasFunction(pin, 'TX') ? 10 : 0) +
+      pin.functions.length;
+
+    return candidates.sort((a, b) => rank(a) - rank(b))[0];
+  }
+
+  private connectToBoard(
+    board: Board,
+    instance: Instance,
+    pin: PinConfiguration,
+    target: BoardPin,
+    wireType: string
+  ): Connection {
+    const warnings: string[] = [];
+    const logicVoltage = instance.rail?.voltage ?? instance.component.specifications.voltage.operating.max;
+
+    if (Math.abs(target.voltage - logicVoltage) > VOLTAGE_TOLERANCE) {
+      warnings.push(`Level shifter needed (${logicVoltage}V part, ${target.voltage}V pin)`);
+    }
+
+    const hasPowerPin = instance.component.specifications.pins.some(p => p.type === 'power');
+    const current = instance.component.specifications.current.operating;
+    const milliamps = this.toMilliamps(current.max, current.unit);
+    if (!hasPowerPin && milliamps !== null && milliamps > target.currentMax) {
+      warnings.push(`Draws ${milliamps}mA, pin limit is ${target.currentMax}mA - drive through a transistor`);
+    }
+
+    if (target.notes) {
+      warnings.push(target.notes);
+    }
+
+    return this.connect(instance.label, pin, board.name, target.name, wireType, warnings.join('; ') || undefined);
+  }
+
+  private connect(
+    fromComponent: string,
+    pin: PinConfiguration,
+    toComponent: string,
+    toPin: string,
+    wireType: string,
+    notes?: string
+  ): Connection {
+    const connection: Connection = {
+      fromComponent,
+      fromPin: pin.name,
+      toComponent,
+      toPin,
+      wireType,
+    };
+
+    if (notes) {
+      connection.notes = notes;
+    }
+
+    return connection;
+  }
+
+  // The board supply rail that falls within the part's operating range, preferring the board's logic level
+  chooseRail(board: Board, component: Component): { name: string; voltage: number } | null {
+    const { min, max } = component.specifications.voltage.operating;
+    const io = board.specifications.voltage.io;
+    const rails = [...RAILS].sort((a, b) => Math.abs(a.voltage - io) - Math.abs(b.voltage - io));
+
+    return rails.find(rail => rail.voltage >= min - 0.05 && rail.voltage <= max + 0.05) || null;
+  }
+
+  private externalSupplyNote(component: Component): string {
+    const { min, max, unit } = component.specifications.voltage.operating;
+    return `Needs ${min}-${max}${unit} from an external supply - tie grounds together`;
+  }
+
+  private busRole(component: Component, pinName: string): BusRole | null {
+    const i2c = this.usesProtocol(component, 'I2C');
+    const spi = this.usesProtocol(component, 'SPI');
+
+    if (i2c && BUS_PIN_NAMES.SDA!.test(pinName)) return 'SDA';
+    if (i2c && (BUS_PIN_NAMES.SCL!.test(pinName) || (!spi && BUS_PIN_NAMES.SCK!.test(pinName)))) return 'SCL';
+    if (spi && BUS_PIN_NAMES.MOSI!.test(pinName)) return 'MOSI';
+    if (spi && BUS_PIN_NAMES.MISO!.test(pinName)) return 'MISO';
+    if (spi && BUS_PIN_NAMES.SCK!.test(pinName)) return 'SCK';
+
+    return null;
+  }
+
+  // Bus pins are found by role name in BoardPin.functions, falling back to the
+  // order listed in supportedProtocols (SDA, SCL / SS, MOSI, MISO, SCK)
+  private resolveBus<R extends string>(board: Board, protocol: 'I2C' | 'SPI', roles: R[]): Record<R, BoardPin> | null {
+    const listed = (board.supportedProtocols || [])
+      .find(p => p.type === protocol)?.details.pins
+      ?.map(ref => this.findBoardPin(board, ref))
+      .filter((pin): pin is BoardPin => pin !== undefined) || [];
+
+    const fallbackOrder = protocol === 'SPI' ? listed.slice(1) : listed;
+    const bus = {} as Record<R, BoardPin>;
+
+    for (const [index, role] of roles.entries()) {
+      const pin = board.pins.find(p => this.hasFunction(p, role)) || fallbackOrder[index];
+      if (!pin) {
+        return null;
+      }
+      bus[role] = pin;
+    }
+
+    return bus;
+  }
+
+  private resolveUartPorts(board: Board): Array<{ rx: BoardPin; tx: BoardPin }> {
+    const ports: Array<{ rx: BoardPin; tx: BoardPin }> = [];
+
+    for (const protocol of (board.supportedProtocols || []).filter(p => p.type === 'UART')) {
+      const pins = (protocol.details.pins || [])
+        .map(ref => this.findBoardPin(board, ref))
+        .filter((pin): pin is BoardPin => pin !== undefined);
+
+      const rx = pins.find(pin => this.hasFunction(pin, 'RX')) || pins[0];
+      const tx = pins.find(pin => this.hasFunction(pin, 'TX')) || pins[1];
+
+      if (rx && tx && rx !== tx) {
+        ports.push({ rx, tx });
+      }
+    }
+
+    // Ports not shared with USB serial go first
+    return ports.sort((a, b) => Number(!!a.rx.notes) - Number(!!b.rx.notes));
+  }
+
+  private findBoardPin(board: Board, ref: string): BoardPin | undefined {
+    return board.pins.find(pin =>
+      pin.name === ref ||
+      String(pin.digitalPin) === ref ||
+      pin.name === `D${ref}` ||
+      (pin.analogPin !== undefined && `A${pin.analogPin}` === ref)
+    );
+  }
+
+  private collectNotes(board: Board, instances: Instance[], hasI2CBus: boolean): string[] {
+    const notes: string[] = [];
+
+    if (hasI2CBus && instances.some(i => this.usesProtocol(i.component, 'I2C'))) {
+      notes.push('Add 4.7kΩ pull-ups on SDA and SCL unless a breakout already has them');
+    }
+
+    let railLoad = 0;
+    for (const { component, label, rail } of instances) {
+      for (const note of component.compatibility?.notes || []) {
+        notes.push(`${component.name}: ${note}`);
+      }
+
+      if (rail) {
+        const current = component.specifications.current.operating;
+        const milliamps = this.toMilliamps(current.max, current.unit);
+        if (milliamps !== null) {
+          railLoad += milliamps;
+        } else {
+          notes.push(`${component.name}: current draw "${current.max}${current.unit}" isn't a current - left out of the rail load`);
+        }
+      } else {
+        notes.push(`${label} cannot run from the board rails`);
+      }
+    }
+
+    const budget = board.specifications.current.output.total;
+    if (railLoad > budget) {
+      notes.push(`Parts on the board rails draw about ${Math.round(railLoad)}mA, above the board's ${budget}mA budget - use an external supply`);
+    }
+
+    return notes;
+  }
+
+  // µA, uA, A and spelled-out units all become mA; null when the spec's unit isn't a current at all
+  private toMilliamps(value: number, unit: string): number | null {
+    const quantity = parseQuantity(`${value} ${unit}`, 'current');
+    return quantity ? toUnit(quantity, 'mA').value : null;
+  }
+
+  private usesProtocol(component: Component, protocol: string): boolean {
+    return component.specifications.communication.some(p => p.type === protocol);
+  }
+
+  private isUsable(pin: BoardPin): boolean {
+    return this.isGpio(pin) || this.hasFunction(pin, 'analog');
+  }
+
+  private isGpio(pin: BoardPin): boolean {
+    return this.hasFunction(pin, 'digital') || this.hasFunction(pin, 'GPIO');
+  }
+
+  private hasFunction(pin: BoardPin, fn: string): boolean {
+    return pin.functions.some(f => f.toLowerCase() === fn.toLowerCase());
+  }
+}
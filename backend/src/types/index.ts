@@ -33,7 +33,7 @@ export interface ComponentSpec {
     height: number;
     unit: string;
   };
-  temperature: {
+  temperature?: {
     operating: { min: number; max: number; unit: string };
   };
   additional: Record<string, any>;
@@ -52,7 +52,7 @@ export interface CommunicationProtocol {
 export interface PinConfiguration {
   number: number;
   name: string;
-  type: 'power' | 'ground' | 'digital' | 'analog' | 'communication';
+  type: 'power' | 'ground' | 'digital' | 'analog' | 'communication' | 'nc';
   function: string;
   voltage?: number;
   notes?: string;
@@ -79,6 +79,8 @@ export interface Board {
 
 export interface BoardSpec {
   processor: string;
+  // Arduino core architecture (avr, esp32, rp2040...); derived from the processor when missing
+  architecture?: string;
   clockSpeed: string;
   memory: {
     flash: string;
@@ -92,7 +94,29 @@ export interface BoardSpec {
   current: {
     input: { max: number; unit: string };
     output: { perPin: number; total: number; unit: string };
+    // The board's own draw; power budgets estimate it when missing
+    consumption?: { typical: number; peak: number; unit: string };
   };
+  // Physical layout for fit checks; height is the tallest part above the bottom of the PCB
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
+    unit: string;
+  };
+  mountingHoles?: Array<{ x: number; y: number; diameter: number }>;
+  headers?: BoardHeader[];
+}
+
+// A pin header running along the board's length from (x, y), in the board's dimension unit
+export interface BoardHeader {
+  name: string;
+  pins: number;
+  rows: number;
+  pitch: number;
+  gender: 'male' | 'female';
+  x: number;
+  y: number;
 }
 
 export interface BoardPin {
@@ -124,6 +148,52 @@ export interface Project {
   };
 }
 
+export interface BomLine {
+  name: string;
+  kind: 'board' | 'component';
+  quantity: number;
+  componentId?: string;
+  manufacturer?: string;
+  unitPrice?: number;
+  lineTotal?: number;
+  datasheetUrl?: string;
+  availability?: string;
+  discontinued?: boolean;
+  category?: string;
+}
+
+export interface BillOfMaterials {
+  projectId: string;
+  title: string;
+  board: string;
+  lines: BomLine[];
+  unresolved: string[];
+  totals: {
+    priced: number;
+    unpricedLines: number;
+    currency: string;
+  };
+  compatibility: SystemCompatibilityCheck | null;
+}
+
+// A BOM for a set of parts picked in chat (or listed by the caller) rather than a curated project
+export interface PartsBom {
+  sessionId: string | null;
+  title: string | null;
+  lines: BomLine[];
+  // Requested parts that are no longer in the database
+  unresolved: string[];
+  discontinued: string[];
+  totals: {
+    quantity: number;
+    priced: number;
+    unpricedLines: number;
+    currency: string;
+  };
+}
+
+export type BomFormat = 'json' | 'csv' | 'kicad';
+
 export interface ChatMessage {
   id: string;
   content: string;
@@ -133,9 +203,51 @@ export interface ChatMessage {
     components?: Component[];
     recommendations?: Recommendation[];
     compatibility?: CompatibilityCheck;
+    comparison?: BoardComparison;
+    steps?: AgentStep[];
   };
 }
 
+export interface ChatSession {
+  sessionId: string;
+  title: string | null;
+  messages: ChatMessage[];
+  context: Record<string, unknown>;
+  // Agent tool calls made so far, counted against config.agent.sessionToolBudget
+  toolCallsUsed: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ChatSessionSummary {
+  sessionId: string;
+  title: string | null;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A tool call made by the chat agent while answering, in the order they ran
+export interface AgentStep {
+  step: number;
+  tool: string;
+  input: Record<string, unknown>;
+  ok: boolean;
+  summary: string;
+  durationMs: number;
+}
+
+// Events sent by POST /api/chat/stream, in order: intent, step*, recommendations?, compatibility?, delta*, done | error
+export type ChatStreamEvent =
+  | { type: 'intent'; sessionId: string; intent: string; confidence: number }
+  | { type: 'step'; step: AgentStep }
+  | { type: 'recommendations'; recommendations: Recommendation[] }
+  | { type: 'compatibility'; compatibility: CompatibilityCheck }
+  | { type: 'comparison'; comparison: BoardComparison }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; sessionId: string; message: ChatMessage }
+  | { type: 'error'; error: string; message: string };
+
 export interface Recommendation {
   component: Component;
   score: number;
@@ -150,10 +262,273 @@ export interface CompatibilityCheck {
   issues: CompatibilityIssue[];
   suggestions: string[];
   score: number;
+  wiringInfo?: WiringInfo;
+  remediations?: Remediation[];
+}
+
+export type RemediationKind = 'level-shifter' | 'voltage-divider' | 'mosfet-driver' | 'relay';
+
+// A catalogue part that fixes an issue, with the score the check reaches once the part is in the build
+export interface Remediation {
+  kind: RemediationKind;
+  issueType: CompatibilityIssue['type'];
+  forComponent: { id: string; name: string };
+  component: Component;
+  quantity: number;
+  reason: string;
+  score: {
+    before: number;
+    after: number;
+  };
+}
+
+// One release from an Arduino library_index.json
+export interface LibraryIndexEntry {
+  name: string;
+  version: string;
+  author?: string;
+  sentence?: string;
+  category?: string;
+  website?: string;
+  architectures?: string[];
+  dependencies?: Array<{ name: string; version?: string }>;
+  providesIncludes?: string[];
+}
+
+export interface ArduinoLibrary {
+  name: string;
+  latestVersion: string;
+  versions: string[];
+  author?: string;
+  sentence?: string;
+  category?: string;
+  website?: string;
+  // `*` means every architecture
+  architectures: string[];
+  dependencies: Array<{ name: string; version?: string }>;
+  providesIncludes: string[];
+}
+
+// What the library rules see for each library a component requires
+export interface LibraryCheck {
+  name: string;
+  found: boolean;
+  bundled: boolean;
+  library?: string;
+  version?: string;
+  architectures: string;
+  supported: boolean;
+  // Transitive dependencies, by outcome; comma-separated for message templates
+  dependencies: string;
+  unlisted: string;
+  unresolved: string;
+  unsupported: string;
+}
+
+/**
+ * Declarative compatibility rules. Conditions and operands are evaluated against a context holding
+ * `board`, `component`, the rule's `let` values and, for `each` rules, the current item; paths are
+ * dotted (`component.specifications.voltage.operating.min`). Text fields take `{{path}}` placeholders.
+ */
+export type RuleOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'includes' | 'matches';
+
+export type RuleFunction = 'abs' | 'add' | 'sub' | 'mul' | 'div' | 'min' | 'max' | 'concat' | 'lower';
+
+export type RuleOperand =
+  | number
+  | string
+  | boolean
+  | null
+  | Array<number | string>
+  | { path: string }
+  | { count: string; as?: string; where?: RuleCondition }
+  | { fn: RuleFunction; args: RuleOperand[] }
+  | { if: RuleCondition; then: RuleOperand; else: RuleOperand };
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | { exists: string }
+  | { some: string; as?: string; where: RuleCondition }
+  | { op: RuleOperator; left: RuleOperand; right: RuleOperand };
+
+// Either fixed text or the first variant whose condition holds
+export type RuleText = string | Array<{ text: string; when?: RuleCondition }>;
+
+export interface CompatibilityRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  source?: 'builtin' | 'custom';
+  // Evaluate once per element of an array, bound to `as`
+  each?: { path: string; as: string };
+  let?: Record<string, RuleOperand>;
+  when: RuleCondition;
+  issue?: {
+    type: CompatibilityIssue['type'];
+    severity: CompatibilityIssue['severity'];
+    message: RuleText;
+    solution?: RuleText;
+  };
+  penalty: number;
+  suggestions?: Array<{ text: string; when?: RuleCondition }>;
+  remedies?: Array<{ kind: RemediationKind; reason: RuleText; when?: RuleCondition }>;
+  // Fixes in the build that make the rule moot; defaults to the kinds listed in `remedies`
+  mitigatedBy?: RemediationKind[];
+}
+
+export interface SystemComponentInput {
+  componentId: string;
+  quantity: number;
+  dutyCycle?: number | undefined;
+}
+
+export interface BuildPart {
+  component: Component;
+  quantity: number;
+  // Fraction of the time the part is active (0-1); the rest it spends at its standby current
+  dutyCycle?: number | undefined;
+}
+
+export interface PowerSupply {
+  id?: string;
+  name: string;
+  voltage: number;
+  // Most current the supply can deliver, in mA
+  maxCurrent: number;
+  // Battery capacity in mAh; absent for wall and USB power
+  capacity?: number | undefined;
+}
+
+export interface PowerRail {
+  name: string;
+  voltage: number;
+  // All values in mA
+  typical: number;
+  peak: number;
+  average: number;
+  standby: number;
+  components: string[];
+}
+
+export interface PowerBudget {
+  boardId: string;
+  supply: PowerSupply;
+  unit: 'mA';
+  rails: PowerRail[];
+  board: { typical: number; peak: number; estimated: boolean };
+  // Parts whose voltage no board rail provides
+  external: string[];
+  totals: { typical: number; peak: number; average: number; standby: number };
+  // Current the board's regulator and pins can source to the parts it powers
+  regulator: { load: number; limit: number; headroom: number };
+  supplyHeadroom: number;
+  batteryLifeHours: number | null;
+  issues: CompatibilityIssue[];
+  notes: string[];
+}
+
+export interface Breadboard {
+  id: string;
+  name: string;
+  // Five-hole strips per side of the centre channel
+  columns: number;
+  length: number;
+  width: number;
+  height: number;
+}
+
+// Inside dimensions
+export interface Enclosure {
+  length: number;
+  width: number;
+  height: number;
+  unit?: string | undefined;
+}
+
+export interface PhysicalFitOptions {
+  // Parts on a breadboard, or on a prototyping shield stacked on the board
+  mounting: 'breadboard' | 'shield';
+  breadboard: Breadboard;
+  enclosure?: Enclosure | undefined;
+}
+
+export interface PhysicalFit {
+  boardId: string;
+  mounting: PhysicalFitOptions['mounting'];
+  unit: 'mm';
+  fits: boolean;
+  board: { length: number; width: number; height: number; onBreadboard: boolean } | null;
+  // The breadboard or shield the parts sit on
+  surface: {
+    name: string;
+    length: number;
+    width: number;
+    // Breadboard strips, counting both sides of the channel
+    columns?: ResourceUsage;
+    area: ResourceUsage;
+    // Holes left beside the board's pins on each side when it straddles the channel
+    freeHoles?: [number, number];
+  } | null;
+  // Board and surface wired up, null when the board's size is unknown
+  assembly: { length: number; width: number; height: number } | null;
+  enclosure?: Enclosure & { clearance: number; fits: boolean };
+  // Parts placed beside the surface rather than on it (servos, motors, oversized modules)
+  offBoard: string[];
+  unmeasured: string[];
+  issues: CompatibilityIssue[];
+  notes: string[];
+}
+
+export interface BoardComparisonRow {
+  key: string;
+  label: string;
+  group: 'processor' | 'memory' | 'electrical' | 'protocols' | 'pins' | 'compatibility';
+  unit?: string;
+  // One value per board, in the order of `BoardComparison.boards`
+  values: Array<string | number | null>;
+}
+
+export interface BoardComparison {
+  boards: Array<{ id: string; name: string; manufacturer: string }>;
+  rows: BoardComparisonRow[];
+  // Parts the compatibility rows were scored against
+  components: Array<{ id: string; name: string }>;
+}
+
+export interface ResourceUsage {
+  required: number;
+  available: number;
+}
+
+export interface SystemCompatibilityCheck extends CompatibilityCheck {
+  boardId: string;
+  components: Array<{
+    componentId: string;
+    name: string;
+    quantity: number;
+    compatible: boolean;
+    score: number;
+  }>;
+  resources: {
+    i2cAddresses: Record<string, string>;
+    spiChipSelects: ResourceUsage;
+    uarts: ResourceUsage;
+    current: ResourceUsage & { unit: string };
+    pins: {
+      digital: ResourceUsage;
+      analog: ResourceUsage;
+      pwm: ResourceUsage;
+    };
+  };
+  power: PowerBudget;
+  physical: PhysicalFit;
 }
 
 export interface CompatibilityIssue {
-  type: 'voltage' | 'current' | 'protocol' | 'pins' | 'library';
+  type: 'voltage' | 'current' | 'protocol' | 'pins' | 'library' | 'physical';
   severity: 'error' | 'warning' | 'info';
   message: string;
   solution?: string;
@@ -165,6 +540,15 @@ export interface WiringInfo {
   notes: string[];
 }
 
+export interface WiringPlan extends WiringInfo {
+  complete: boolean;
+  unassigned: Array<{
+    component: string;
+    pin: string;
+    reason: string;
+  }>;
+}
+
 export interface Connection {
   fromComponent: string;
   fromPin: string;
@@ -174,6 +558,36 @@ export interface Connection {
   notes?: string;
 }
 
+// Code snippets for one kind of part; see CodegenService for the {{placeholders}} they may use
+export interface SketchTemplate {
+  id: string;
+  category: string;
+  namePattern: string | null;
+  includes: string[];
+  globals: string;
+  setup: string;
+  loop: string;
+}
+
+export interface SketchPin {
+  define: string;
+  value: string;
+  component: string;
+  componentPin: string;
+  boardPin: string | null;
+}
+
+export interface GeneratedSketch {
+  filename: string;
+  board: string;
+  code: string;
+  // Arduino libraries to install before compiling
+  libraries: string[];
+  pins: SketchPin[];
+  warnings: string[];
+  refined: boolean;
+}
+
 export interface ScrapedData {
   id: string;
   url: string;
@@ -185,6 +599,9 @@ export interface ScrapedData {
     scrapedAt: Date;
     source: string;
     type: 'datasheet' | 'tutorial' | 'product' | 'documentation';
+    // Validators from the response, sent back on the next scrape as a conditional GET
+    etag?: string;
+    lastModified?: string;
   };
   processed: boolean;
   extractedData?: any;
@@ -204,6 +621,8 @@ export interface ScrapedPDF {
   title?: string;
   pages: number;
   text: string;
+  // Text of each page in order, so extracted values can cite their page
+  pageTexts?: string[];
   images: ScrapedImage[];
   metadata: {
     author?: string;
@@ -214,14 +633,86 @@ export interface ScrapedPDF {
   };
 }
 
+export type QuantityKind = 'voltage' | 'current' | 'power' | 'frequency' | 'temperature' | 'length';
+
+// A physical value read from text, e.g. "2.7–5.5 V", "5 V ±5%" or "typ 1.5 mA, max 2.5 mA"
+export interface Quantity {
+  // The headline figure: the typical or nominal value when stated, otherwise the maximum
+  value: number;
+  min: number;
+  max: number;
+  typical?: number;
+  // As written, canonicalised: 'mA', 'µA', 'MHz', '°C'
+  unit: string;
+  // `value` in the base unit (V, A, W, Hz, m); temperatures in °C
+  siValue: number;
+  form: 'single' | 'range' | 'tolerance' | 'columns';
+  // The matched text
+  text: string;
+}
+
+// A value read from a datasheet, with how sure the extractor is and where it came from
+export interface ExtractedField<T> {
+  value: T;
+  // 0-1; labelled table rows score higher than bare mentions
+  confidence: number;
+  // 1-based PDF page, or null when the text has no page breaks
+  page: number | null;
+  // The line the value was read from
+  source: string;
+}
+
+export interface ComponentSpecDraft {
+  voltage?: ExtractedField<{ min: number; max: number; unit: string }>;
+  current?: ExtractedField<{ typical: number; max: number; unit: string }>;
+  communication: Array<ExtractedField<CommunicationProtocol>>;
+  pins: Array<ExtractedField<PinConfiguration>>;
+  temperature?: ExtractedField<{ min: number; max: number; unit: string }>;
+}
+
+// A component extracted from a datasheet PDF, waiting for review before it becomes a component
+export interface ComponentDraft {
+  id: string;
+  scrapedDataId: string | null;
+  // The datasheet PDF the draft was extracted from
+  sourceUrl: string;
+  name: string;
+  manufacturer: string;
+  specifications: ComponentSpecDraft;
+  status: 'pending' | 'approved' | 'rejected';
+  // Set once the draft is approved
+  componentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A file handed to local ingestion (an upload or a directory import) and what became of it
+export interface IngestedFile {
+  name: string;
+  kind: 'pdf' | 'image' | 'html' | 'unsupported';
+  status: 'ingested' | 'skipped' | 'failed';
+  // The scraped_data row it was stored as
+  url?: string;
+  scrapedDataId?: string;
+  drafts: number;
+  message?: string;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
   message?: string;
+  errors?: FieldError[];
   timestamp: Date;
 }
 
+export interface FieldError {
+  field: string;
+  message: string;
+  type: string;
+}
+
 export interface CacheKey {
   type: 'component' | 'compatibility' | 'project' | 'scrape';
   identifier: string;
@@ -0,0 +1,8 @@
+// Error classes recognised by errorHandler in middleware/index.ts (matched on `name`)
+
+export class NotFoundError extends Error {
+  constructor(message: string = 'Resource not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
@@ -0,0 +1,337 @@
+import { Quantity, QuantityKind } from '../types';
+
+export interface QuantityOptions {
+  // Read "2.4 3.3 3.6 V" as a min/typ/max table row; off for running text, where "pin 3 5V" isn't a range
+  tableRows?: boolean;
+}
+
+interface UnitMatch {
+  unit: string;
+  kind: QuantityKind;
+}
+
+// Canonical units and their size in the kind's base unit (temperatures are converted separately)
+const UNITS: Record<QuantityKind, Record<string, number>> = {
+  voltage: { 'µV': 1e-6, mV: 1e-3, V: 1, kV: 1e3 },
+  current: { nA: 1e-9, 'µA': 1e-6, mA: 1e-3, A: 1 },
+  power: { 'µW': 1e-6, mW: 1e-3, W: 1, kW: 1e3 },
+  frequency: { Hz: 1, kHz: 1e3, MHz: 1e6, GHz: 1e9 },
+  temperature: { '°C': 1, '°F': 1 },
+  length: { mm: 1e-3, cm: 1e-2, m: 1, in: 0.0254 },
+};
+
+const BASE_UNITS: Record<QuantityKind, string> = {
+  voltage: 'V',
+  current: 'A',
+  power: 'W',
+  frequency: 'Hz',
+  temperature: '°C',
+  length: 'm',
+};
+
+// Other spellings found in datasheets and product pages, matched case-insensitively
+const ALIASES: Record<string, UnitMatch> = {
+  volt: { unit: 'V', kind: 'voltage' },
+  volts: { unit: 'V', kind: 'voltage' },
+  millivolt: { unit: 'mV', kind: 'voltage' },
+  millivolts: { unit: 'mV', kind: 'voltage' },
+  amp: { unit: 'A', kind: 'current' },
+  amps: { unit: 'A', kind: 'current' },
+  ampere: { unit: 'A', kind: 'current' },
+  amperes: { unit: 'A', kind: 'current' },
+  milliamp: { unit: 'mA', kind: 'current' },
+  milliamps: { unit: 'mA', kind: 'current' },
+  microamp: { unit: 'µA', kind: 'current' },
+  microamps: { unit: 'µA', kind: 'current' },
+  watt: { unit: 'W', kind: 'power' },
+  watts: { unit: 'W', kind: 'power' },
+  milliwatt: { unit: 'mW', kind: 'power' },
+  milliwatts: { unit: 'mW', kind: 'power' },
+  c: { unit: '°C', kind: 'temperature' },
+  f: { unit: '°F', kind: 'temperature' },
+  celsius: { unit: '°C', kind: 'temperature' },
+  fahrenheit: { unit: '°F', kind: 'temperature' },
+  inch: { unit: 'in', kind: 'length' },
+  inches: { unit: 'in', kind: 'length' },
+};
+
+const NUMBER = '(?<![\\w.])[-+]?(?:\\d+(?:\\.\\d+)?|\\.\\d+)';
+const RANGE_SEPARATOR = '(?:to|-|–|—|~|…)';
+const COLUMN = /\b(min|typ|max)(?:imum|ical)?\.?\s*[:=]?\s*/;
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Reads the first quantity of the given kind from a line of text. Labelled "min/typ/max" values are
+ * combined first; otherwise the first range, tolerance, table row or single value wins.
+ */
+export function parseQuantity(text: string, kind: QuantityKind, options: QuantityOptions = {}): Quantity | null {
+  const normalized = normalizeText(text);
+  const columns = readColumns(normalized, kind);
+  if (columns) return columns;
+
+  for (const quantity of scan(normalized, kind, options)) {
+    return quantity;
+  }
+
+  return null;
+}
+
+// Every distinct quantity of the given kind, in order of appearance
+export function findQuantities(text: string, kind: QuantityKind, options: QuantityOptions = {}): Quantity[] {
+  const found = new Map<string, Quantity>();
+
+  for (const quantity of scan(normalizeText(text), kind, options)) {
+    const key = `${quantity.min}|${quantity.max}|${quantity.value}|${quantity.unit}`;
+    if (!found.has(key)) found.set(key, quantity);
+  }
+
+  return [...found.values()];
+}
+
+/**
+ * Converts between units of the same kind, e.g. convertUnit(1.5, 'A', 'mA') = 1500. Values in units it
+ * doesn't know, or can't convert between, are returned unchanged.
+ */
+export function convertUnit(value: number, from: string, to: string): number {
+  const source = canonicalUnit(from);
+  const target = canonicalUnit(to);
+  if (!source || !target || source.kind !== target.kind || source.unit === target.unit) {
+    return value;
+  }
+
+  if (source.kind === 'temperature') {
+    return round(source.unit === '°F' ? (value - 32) * 5 / 9 : value * 9 / 5 + 32);
+  }
+
+  const units = UNITS[source.kind];
+  return round(value * (units[source.unit] ?? 1) / (units[target.unit] ?? 1));
+}
+
+// The same quantity expressed in another unit of its kind
+export function toUnit(quantity: Quantity, unit: string): Quantity {
+  const target = canonicalUnit(unit);
+  const source = canonicalUnit(quantity.unit);
+  if (!target || !source || target.kind !== source.kind) {
+    return quantity;
+  }
+
+  const converted: Quantity = {
+    ...quantity,
+    value: convertUnit(quantity.value, quantity.unit, target.unit),
+    min: convertUnit(quantity.min, quantity.unit, target.unit),
+    max: convertUnit(quantity.max, quantity.unit, target.unit),
+    unit: target.unit,
+  };
+  if (quantity.typical !== undefined) {
+    converted.typical = convertUnit(quantity.typical, quantity.unit, target.unit);
+  }
+
+  return converted;
+}
+
+// 'uA', 'μA' and 'µA' are the same unit; so are 'MHZ' and 'MHz' once the exact spelling has been tried
+function canonicalUnit(token: string, kind?: QuantityKind): UnitMatch | null {
+  const unit = token.trim().replace(/^[uμµ](?=[A-Za-z])/, 'µ').replace(/^º/, '°');
+  const kinds = kind ? [kind] : (Object.keys(UNITS) as QuantityKind[]);
+
+  for (const candidate of kinds) {
+    if (UNITS[candidate][unit] !== undefined) return { unit, kind: candidate };
+  }
+
+  const lower = unit.toLowerCase();
+  for (const candidate of kinds) {
+    const match = Object.keys(UNITS[candidate]).find(known => known.toLowerCase() === lower);
+    if (match) return { unit: match, kind: candidate };
+  }
+
+  const alias = ALIASES[lower];
+  return alias && (!kind || alias.kind === kind) ? alias : null;
+}
+
+// Unifies the symbols datasheets use for minus signs, micro, degrees, ± and "3V3"-style values
+function normalizeText(text: string): string {
+  return text
+    .replace(/℃/g, '°C')
+    .replace(/℉/g, '°F')
+    .replace(/º/g, '°')
+    .replace(/°\s+(?=[CF]\b)/g, '°')
+    .replace(/\bdeg(?:rees?)?\s*(?=[CF]\b)/gi, '°')
+    .replace(/[μµ]/g, 'u')
+    .replace(/[−‐‑]/g, '-')
+    // A dash right before a number is a minus sign ("–40 °C"); between numbers it's a range
+    .replace(/(^|[\s(:=/])[–—](?=\d)/g, '$1-')
+    .replace(/\+\/-|\+-(?=\s*\d)/g, '±')
+    .replace(/\b(\d+)V(\d+)\b/g, '$1.$2V')
+    .replace(/\s+/g, ' ');
+}
+
+// Alternation of every spelling for the kind, longest first so "mA" isn't read as "m" + "A"
+function unitPattern(kind: QuantityKind): string {
+  const spellings = [
+    ...Object.keys(UNITS[kind]).map(unit => unit.replace('µ', 'u')),
+    ...Object.entries(ALIASES).filter(([, alias]) => alias.kind === kind).map(([spelling]) => spelling),
+  ].sort((a, b) => b.length - a.length);
+
+  const alternation = spellings
+    .map(spelling => spelling === 'in' ? 'in(?! [a-z])' : spelling.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+
+  return `(?:${alternation})(?![A-Za-z0-9])`;
+}
+
+function quantityPattern(kind: QuantityKind, tableRows: boolean): RegExp {
+  const key = `${kind}:${tableRows}`;
+  const cached = patternCache.get(key);
+  if (cached) return cached;
+
+  const unit = unitPattern(kind);
+  const forms = [
+    `(?<from>${NUMBER})\\s*(?<fromUnit>${unit})?\\s*${RANGE_SEPARATOR}\\s*(?<to>${NUMBER})\\s*(?<toUnit>${unit})`,
+    `(?<nominal>${NUMBER})\\s*(?<nominalUnit>${unit})?\\s*±\\s*(?<tolerance>\\d+(?:\\.\\d+)?)\\s*(?<toleranceUnit>%|${unit})`,
+    ...(tableRows ? [`(?<first>${NUMBER}) (?<second>${NUMBER})(?: (?<third>${NUMBER}))?\\s*(?<rowUnit>${unit})`] : []),
+    // A bare "±0.5 °C" is an accuracy, not a value
+    `(?<!±\\s?)(?<single>${NUMBER})\\s*(?<singleUnit>${unit})`,
+  ];
+
+  const pattern = new RegExp(forms.join('|'), 'gi');
+  patternCache.set(key, pattern);
+  return pattern;
+}
+
+function* scan(text: string, kind: QuantityKind, options: QuantityOptions): Generator<Quantity> {
+  for (const match of text.matchAll(quantityPattern(kind, !!options.tableRows))) {
+    const quantity = readMatch(match, kind);
+    if (quantity) yield quantity;
+  }
+}
+
+function readMatch(match: RegExpMatchArray, kind: QuantityKind): Quantity | null {
+  const groups = match.groups || {};
+  const text = match[0].trim();
+
+  if (groups.from !== undefined && groups.to !== undefined && groups.toUnit) {
+    const unit = canonicalUnit(groups.toUnit, kind);
+    if (!unit) return null;
+
+    // "800 mV to 1.2 V" is stated in the second unit
+    const fromUnit = groups.fromUnit ? canonicalUnit(groups.fromUnit, kind) : null;
+    const from = fromUnit ? convertUnit(parseFloat(groups.from), fromUnit.unit, unit.unit) : parseFloat(groups.from);
+    const to = parseFloat(groups.to);
+
+    return build(kind, unit.unit, 'range', text, { min: Math.min(from, to), max: Math.max(from, to) });
+  }
+
+  if (groups.nominal !== undefined && groups.tolerance !== undefined && groups.toleranceUnit) {
+    const nominalUnit = groups.nominalUnit ? canonicalUnit(groups.nominalUnit, kind) : null;
+    const toleranceUnit = groups.toleranceUnit === '%' ? null : canonicalUnit(groups.toleranceUnit, kind);
+    const unit = nominalUnit || toleranceUnit;
+    if (!unit) return null;
+
+    const nominal = parseFloat(groups.nominal);
+    const tolerance = toleranceUnit
+      ? convertUnit(parseFloat(groups.tolerance), toleranceUnit.unit, unit.unit)
+      : Math.abs(nominal) * parseFloat(groups.tolerance) / 100;
+
+    return build(kind, unit.unit, 'tolerance', text, {
+      min: round(nominal - tolerance),
+      max: round(nominal + tolerance),
+      nominal,
+    });
+  }
+
+  if (groups.first !== undefined && groups.second !== undefined && groups.rowUnit) {
+    const unit = canonicalUnit(groups.rowUnit, kind);
+    const values = [groups.first, groups.second, groups.third]
+      .filter((value): value is string => value !== undefined)
+      .map(parseFloat);
+    const min = values[0] ?? 0;
+    const max = values[values.length - 1] ?? 0;
+
+    // Columns read min, typ, max; anything out of order isn't a table row
+    if (!unit || values.some((value, index) => index > 0 && value < (values[index - 1] ?? value))) return null;
+
+    return build(kind, unit.unit, 'columns', text, {
+      min,
+      max,
+      ...(values.length === 3 && values[1] !== undefined ? { typical: values[1] } : {}),
+    });
+  }
+
+  if (groups.single !== undefined && groups.singleUnit) {
+    const unit = canonicalUnit(groups.singleUnit, kind);
+    const value = parseFloat(groups.single);
+    return unit ? build(kind, unit.unit, 'single', text, { min: value, max: value, nominal: value }) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Combines "min 2.4 V typ 3.3 V max 3.6 V" or "typ. 800 µA, max. 1.5 mA" into one quantity, in the unit
+ * of the last labelled value. Needs at least two labels; a lone "max 5 V" is read as a single value.
+ */
+function readColumns(text: string, kind: QuantityKind): Quantity | null {
+  const unit = unitPattern(kind);
+  const pattern = new RegExp(`${COLUMN.source}(${NUMBER})\\s*(${unit})?`, 'gi');
+  const columns = new Map<string, { value: number; unit: UnitMatch | null; text: string }>();
+
+  for (const match of text.matchAll(pattern)) {
+    const label = match[1]?.toLowerCase();
+    if (!label || !match[2] || columns.has(label)) continue;
+
+    columns.set(label, {
+      value: parseFloat(match[2]),
+      unit: match[3] ? canonicalUnit(match[3], kind) : null,
+      text: match[0].trim(),
+    });
+  }
+
+  const stated = [...columns.values()];
+  const target = [...stated].reverse().find(column => column.unit)?.unit;
+  if (stated.length < 2 || !target) return null;
+
+  // Columns without their own unit share the table's
+  const read = (label: string): number | undefined => {
+    const column = columns.get(label);
+    return column ? convertUnit(column.value, column.unit?.unit || target.unit, target.unit) : undefined;
+  };
+
+  const typical = read('typ');
+  const min = read('min') ?? typical ?? 0;
+  const max = read('max') ?? typical ?? min;
+  if (min > max) return null;
+
+  return build(kind, target.unit, 'columns', stated.map(column => column.text).join(' '), {
+    min,
+    max,
+    ...(typical !== undefined ? { typical } : {}),
+  });
+}
+
+function build(
+  kind: QuantityKind,
+  unit: string,
+  form: Quantity['form'],
+  text: string,
+  values: { min: number; max: number; typical?: number; nominal?: number }
+): Quantity {
+  const value = values.typical ?? values.nominal ?? values.max;
+  const quantity: Quantity = {
+    value,
+    min: values.min,
+    max: values.max,
+    unit,
+    siValue: convertUnit(value, unit, BASE_UNITS[kind]),
+    form,
+    text,
+  };
+  if (values.typical !== undefined) quantity.typical = values.typical;
+
+  return quantity;
+}
+
+// Unit conversions leave float noise such as 0.7999999999999999
+function round(value: number): number {
+  return Number(value.toPrecision(12));
+}
@@ -0,0 +1,87 @@
+import express from 'express';
+import request from 'supertest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { query } from '../../src/database/connection';
+import chatRoutes from '../../src/routes/chat';
+import { ChatStreamEvent } from '../../src/types';
+
+jest.mock('../../src/database/connection', () => {
+  const store = new Map<string, string>();
+  return {
+    query: jest.fn(async () => ({ rows: [], rowCount: 0 })),
+    // Only handed to the rate limiter, which the router doesn't use
+    redis: {},
+    cache: {
+      get: async (key: string) => store.get(key) ?? null,
+      set: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+      del: async (key: string) => {
+        store.delete(key);
+      },
+    },
+  };
+});
+
+// Only AnthropicProvider uses the SDK, and tests run on the mock provider
+jest.mock('anthropic', () => jest.fn(), { virtual: true });
+
+const app = express();
+app.use(express.json());
+app.use('/api/chat', chatRoutes);
+
+const fixture = (task: string) =>
+  JSON.parse(readFileSync(path.join(__dirname, '../../fixtures/llm', `${task}.json`), 'utf8'));
+
+// SSE frames as the client reads them
+function parseEvents(body: string): ChatStreamEvent[] {
+  return body
+    .split('\n\n')
+    .map(frame => frame.split('\n').find(line => line.startsWith('data: ')))
+    .flatMap(line => line ? [JSON.parse(line.slice('data: '.length)) as ChatStreamEvent] : []);
+}
+
+async function stream(message: string): Promise<ChatStreamEvent[]> {
+  const response = await request(app).post('/api/chat/stream').send({ message });
+
+  expect(response.status).toBe(200);
+  expect(response.headers['content-type']).toMatch(/^text\/event-stream/);
+  return parseEvents(response.text);
+}
+
+const deltaText = (events: ChatStreamEvent[]) =>
+  events.map(event => event.type === 'delta' ? event.text : '').join('');
+
+describe('POST /api/chat/stream with the mock provider', () => {
+  it('streams the general reply when the agent has no answer', async () => {
+    const events = await stream('hello there');
+    const types = events.map(event => event.type);
+
+    expect(events[0]).toMatchObject({ type: 'intent', intent: 'general' });
+    expect(types.filter(type => type === 'delta').length).toBeGreaterThan(1);
+    expect(types[types.length - 1]).toBe('done');
+    expect(types).not.toContain('error');
+    expect(deltaText(events)).toBe(fixture('general-response').fixtures[0].response);
+  });
+
+  it('runs the agent fixture through its tool calls', async () => {
+    const events = await stream('Which humidity sensor should I use with my ESP32?');
+    const agentFixture = fixture('agent').fixtures[0];
+    const steps = events.flatMap(event => event.type === 'step' ? [event.step] : []);
+
+    expect(steps.map(step => step.tool)).toEqual(['searchComponentsAdvanced', 'getBoard', 'checkCompatibility']);
+    expect(deltaText(events)).toBe(agentFixture.turns[agentFixture.turns.length - 1]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done' });
+  });
+
+  it('stores the turn in the session history', async () => {
+    const events = await stream('hello again');
+    const done = events[events.length - 1];
+    const sessionId = done?.type === 'done' ? done.sessionId : undefined;
+
+    const insert = jest.mocked(query).mock.calls.find(([sql]) => sql.includes('INSERT INTO chat_sessions'));
+    expect(insert?.[1]?.[0]).toBe(sessionId);
+    expect(JSON.parse(String(insert?.[1]?.[2])).map((message: { sender: string }) => message.sender)).toEqual(['user', 'assistant']);
+  });
+});
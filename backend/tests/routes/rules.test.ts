@@ -0,0 +1,59 @@
+import express from 'express';
+import request from 'supertest';
+import rulesRoutes from '../../src/routes/rules';
+import builtinRules from '../../src/rules/compatibility-rules.json';
+
+jest.mock('../../src/database/connection', () => ({
+  // Echoes the inserted rule back as its row
+  query: jest.fn(async (_sql: string, params: unknown[] = []) => ({
+    rows: [{ rule_key: params[0], definition: JSON.parse(String(params[1])), enabled: params[2] }],
+    rowCount: 1,
+  })),
+  cache: {
+    del: async () => undefined,
+    keys: async () => [],
+  },
+  // Only handed to the rate limiter, which the router doesn't use
+  redis: {},
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/compatibility/rules', rulesRoutes);
+
+const create = (right: unknown) => request(app).post('/api/compatibility/rules').send({
+  id: 'motor-name',
+  name: 'Motor by name',
+  penalty: 10,
+  when: { all: [{ op: 'matches', left: { path: 'component.name' }, right }] },
+});
+
+describe('POST /api/compatibility/rules', () => {
+  it('accepts a rule whose pattern compiles', async () => {
+    const response = await create('motor|servo');
+    expect(response.status).toBe(201);
+  });
+
+  it('rejects a pattern that does not compile when the rule is saved', async () => {
+    const response = await create('(motor|servo');
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([expect.objectContaining({
+      field: 'when.all.0.right',
+      message: expect.stringContaining('is not a valid pattern'),
+    })]);
+  });
+
+  it('rejects a pattern read from a path, which could only be checked when it runs', async () => {
+    const response = await create({ path: 'component.category' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.errors).toEqual([expect.objectContaining({ field: 'when.all.0.right' })]);
+  });
+
+  it.each(builtinRules.map(rule => [rule.id, rule]))('accepts the built-in rule %s', async (_id, rule) => {
+    const response = await request(app).post('/api/compatibility/rules').send(rule);
+    expect(response.body.errors).toBeUndefined();
+    expect(response.status).toBe(201);
+  });
+});
@@ -0,0 +1,64 @@
+import express from 'express';
+import request from 'supertest';
+import { query } from '../../src/database/connection';
+import scrapeRoutes from '../../src/routes/scrape';
+
+jest.mock('../../src/database/connection', () => ({
+  query: jest.fn(),
+  // Only handed to the rate limiter, which the router doesn't use
+  redis: {},
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/scrape', scrapeRoutes);
+
+// The upsert updates nothing when the existing row is being scraped
+const upserted = (rowCount: number) => ({ rows: [], rowCount });
+
+describe('POST /api/scrape/url', () => {
+  it('re-queues a known URL under its new type, unless a worker has it', async () => {
+    mockQuery.mockResolvedValueOnce(upserted(1));
+
+    const response = await request(app)
+      .post('/api/scrape/url')
+      .send({ url: 'https://example.com/sensor.pdf', type: 'datasheet' });
+
+    expect(response.status).toBe(200);
+    const [sql, params] = mockQuery.mock.calls[0]!;
+    expect(sql).toContain('type = EXCLUDED.type');
+    expect(sql).toContain("WHERE scraping_queue.status <> 'processing'");
+    expect(params).toEqual(['https://example.com/sensor.pdf', 'datasheet', 5]);
+  });
+
+  it('answers 409 for a URL that is being scraped', async () => {
+    mockQuery.mockResolvedValueOnce(upserted(0));
+
+    const response = await request(app)
+      .post('/api/scrape/url')
+      .send({ url: 'https://example.com/sensor.pdf', type: 'product' });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ success: false, error: 'Conflict' });
+  });
+});
+
+describe('POST /api/scrape/multiple', () => {
+  it('counts URLs a worker already has as skipped', async () => {
+    mockQuery.mockResolvedValueOnce(upserted(1)).mockResolvedValueOnce(upserted(0));
+
+    const response = await request(app)
+      .post('/api/scrape/multiple')
+      .send({
+        urls: [
+          { url: 'https://example.com/a', type: 'product' },
+          { url: 'https://example.com/b', type: 'tutorial' },
+        ],
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.message).toBe('1 URLs added to scraping queue, 1 already being scraped');
+  });
+});
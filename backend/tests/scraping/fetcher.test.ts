@@ -0,0 +1,139 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FetchError, PoliteFetcher } from '../../src/scraping/fetcher';
+
+const ROBOTS = [
+  'User-agent: *',
+  'Disallow: /private',
+  '',
+].join('\n');
+
+const LAST_MODIFIED = 'Mon, 19 Oct 2026 10:00:00 GMT';
+
+describe('PoliteFetcher', () => {
+  let server: http.Server;
+  let base: string;
+  const requests: Array<{ url: string; headers: http.IncomingHttpHeaders; at: number }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url || '', headers: req.headers, at: Date.now() });
+
+      switch (req.url) {
+        case '/robots.txt':
+          res.writeHead(200, { 'content-type': 'text/plain' });
+          return res.end(ROBOTS);
+        case '/page':
+          if (req.headers['if-none-match'] === '"v1"') {
+            res.writeHead(304);
+            return res.end();
+          }
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8', etag: '"v1"', 'last-modified': LAST_MODIFIED });
+          return res.end('<html><body><h1>BME280</h1></body></html>');
+        case '/declared-large':
+          res.writeHead(200, { 'content-type': 'text/html', 'content-length': '2048' });
+          return res.end('x'.repeat(2048));
+        case '/streamed-large':
+          // Chunked, so the size is only known while reading
+          res.writeHead(200, { 'content-type': 'text/html' });
+          for (let i = 0; i < 8; i++) res.write('y'.repeat(256));
+          return res.end();
+        case '/image.png':
+          res.writeHead(200, { 'content-type': 'image/png' });
+          return res.end(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+        default:
+          res.writeHead(404);
+          return res.end();
+      }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const newFetcher = (delayMs = 0) => new PoliteFetcher({ userAgent: 'TestBot/1.0', delayMs, timeoutMs: 5000, maxBytes: 1024 });
+
+  const fetchError = async (promise: Promise<unknown>): Promise<FetchError> => {
+    const error = await promise.then(() => null, (rejected: unknown) => rejected);
+    expect(error).toBeInstanceOf(FetchError);
+    return error as FetchError;
+  };
+
+  it('rejects a URL robots.txt disallows without requesting it', async () => {
+    const error = await fetchError(newFetcher().fetch(`${base}/private/specs`, { accept: ['text/html'] }));
+
+    expect(error.reason).toBe('robots');
+    expect(error.permanent).toBe(true);
+    expect(requests.map(request => request.url)).toEqual(['/robots.txt']);
+  });
+
+  it('sends the validators of the last fetch and reports a 304 as notModified', async () => {
+    const fetcher = newFetcher();
+    const first = await fetcher.fetch(`${base}/page`, { accept: ['text/html'] });
+
+    expect(first).toMatchObject({ notModified: false, contentType: 'text/html', charset: 'utf-8', etag: '"v1"', lastModified: LAST_MODIFIED });
+    expect(first.body.toString()).toContain('BME280');
+
+    const second = await fetcher.fetch(`${base}/page`, {
+      accept: ['text/html'],
+      ...(first.etag ? { etag: first.etag } : {}),
+      ...(first.lastModified ? { lastModified: first.lastModified } : {}),
+    });
+
+    expect(second.notModified).toBe(true);
+    expect(second.body.length).toBe(0);
+
+    const pageRequests = requests.filter(request => request.url === '/page');
+    expect(pageRequests[0]?.headers['if-none-match']).toBeUndefined();
+    expect(pageRequests[1]?.headers).toMatchObject({ 'if-none-match': '"v1"', 'if-modified-since': LAST_MODIFIED });
+    expect(pageRequests.every(request => request.headers['user-agent'] === 'TestBot/1.0')).toBe(true);
+  });
+
+  it('rejects a response declared larger than the limit', async () => {
+    const error = await fetchError(newFetcher().fetch(`${base}/declared-large`, { accept: ['text/html'] }));
+    expect(error.reason).toBe('too-large');
+  });
+
+  it('stops reading a streamed response once it passes the limit', async () => {
+    const error = await fetchError(newFetcher().fetch(`${base}/streamed-large`, { accept: ['text/html'] }));
+    expect(error.reason).toBe('too-large');
+  });
+
+  it('rejects an unexpected content type and accepts a matching family', async () => {
+    const fetcher = newFetcher();
+    const error = await fetchError(fetcher.fetch(`${base}/image.png`, { accept: ['text/html'] }));
+
+    expect(error.reason).toBe('content-type');
+    await expect(fetcher.fetch(`${base}/image.png`, { accept: ['image/'] })).resolves.toMatchObject({ contentType: 'image/png' });
+  });
+
+  it('treats a 404 as permanent', async () => {
+    const error = await fetchError(newFetcher().fetch(`${base}/missing`, { accept: ['text/html'] }));
+    expect(error).toMatchObject({ reason: 'status', status: 404, permanent: true });
+  });
+
+  it('spaces requests to one host by delayMs', async () => {
+    const fetcher = newFetcher(150);
+
+    await Promise.all([
+      fetcher.fetch(`${base}/page`, { accept: ['text/html'] }),
+      fetcher.fetch(`${base}/page`, { accept: ['text/html'] }),
+      fetcher.fetch(`${base}/page`, { accept: ['text/html'] }),
+    ]);
+
+    // robots.txt takes the first slot
+    const times = requests.map(request => request.at);
+    expect(requests.map(request => request.url)).toEqual(['/robots.txt', '/page', '/page', '/page']);
+    for (let i = 1; i < times.length; i++) {
+      expect((times[i] ?? 0) - (times[i - 1] ?? 0)).toBeGreaterThanOrEqual(140);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { SparkFunSource } from '../../src/scraping/sources/sparkfun';
+import { AdafruitSource } from '../../src/scraping/sources/adafruit';
+
+jest.mock('../../src/database/connection', () => ({ query: jest.fn() }));
+
+const fixture = (name: string): string =>
+  readFileSync(path.join(__dirname, '../../fixtures/scraping', name), 'utf8');
+
+describe('SparkFunSource.parse', () => {
+  const url = 'https://www.sparkfun.com/sparkfun-atmospheric-sensor-breakout-bme280-qwiic.html';
+  const data = new SparkFunSource().parse({ url, html: fixture('sparkfun-product.html') });
+
+  it('reads the product from its JSON-LD', () => {
+    expect(data).toMatchObject({
+      url,
+      title: 'SparkFun Atmospheric Sensor Breakout - BME280 (Qwiic)',
+      pdfs: [],
+      processed: false,
+      metadata: { source: 'sparkfun.com', type: 'product' },
+      extractedData: {
+        manufacturer: 'SparkFun',
+        description: 'The BME280 measures humidity, barometric pressure and temperature.',
+        sku: 'SEN-15440',
+        price: 21.5,
+        currency: 'USD',
+      },
+    });
+    expect(data?.id).toMatch(/^sparkfun-/);
+  });
+
+  it('reads specs and links from the description block only', () => {
+    expect(data?.content).toContain('talks over I2C');
+    expect(data?.content).not.toContain('Niwot');
+    expect(data?.extractedData?.protocols).toEqual(['I2C', 'SPI']);
+    expect(data?.extractedData?.voltage).toEqual([expect.objectContaining({ min: 1.71, max: 3.6, unit: 'V' })]);
+    expect(data?.extractedData?.current).toEqual([expect.objectContaining({ value: 3.6, unit: 'µA' })]);
+    expect(data?.extractedData?.pdfLinks).toEqual(['https://www.sparkfun.com/datasheets/Sensors/Weather/BME280.pdf']);
+  });
+
+  it('collects gallery and description images, classified by URL', () => {
+    expect(data?.images).toEqual([
+      { url: 'https://cdn.sparkfun.com/assets/parts/1/4/2/5/2/15440-01.jpg', type: 'photo', analyzed: false },
+      { url: 'https://cdn.sparkfun.com/assets/parts/1/4/2/5/2/15440-02.jpg', type: 'photo', analyzed: false },
+      { url: 'https://www.sparkfun.com/assets/learn_tutorials/9/1/5/bme280-schematic.png', type: 'schematic', analyzed: false },
+    ]);
+  });
+
+  it('returns null for a page without a product title', () => {
+    expect(new SparkFunSource().parse({ url, html: '<html><body><p>Not found</p></body></html>' })).toBeNull();
+  });
+});
+
+describe('AdafruitSource.parse', () => {
+  const url = 'https://www.adafruit.com/product/3660';
+  const data = new AdafruitSource().parse({ url, html: fixture('adafruit-product.html') });
+
+  it('reads the product from its markup', () => {
+    expect(data).toMatchObject({
+      url,
+      title: 'Adafruit BME680 - Temperature, Humidity, Pressure and Gas Sensor',
+      metadata: { source: 'adafruit.com', type: 'product' },
+      extractedData: {
+        manufacturer: 'Adafruit',
+        description: 'The BME680 is a 4-in-1 environmental sensor from Bosch: temperature, humidity, barometric pressure and VOC gas.',
+        sku: '3660',
+        price: 18.95,
+        currency: 'USD',
+      },
+    });
+    expect(data?.id).toMatch(/^adafruit-/);
+  });
+
+  it('reads specs and links from the description and technical details', () => {
+    expect(data?.content).toContain('Dimensions: 30mm x 18mm x 4mm');
+    expect(data?.content).not.toContain('DIY electronics');
+    expect(data?.extractedData?.protocols).toEqual(['SPI', 'I2C']);
+    expect(data?.extractedData?.voltage).toEqual(expect.arrayContaining([
+      expect.objectContaining({ value: 3.3, unit: 'V' }),
+      expect.objectContaining({ value: 5, unit: 'V' }),
+    ]));
+    expect(data?.extractedData?.current).toEqual([expect.objectContaining({ value: 3.7, unit: 'mA' })]);
+    expect(data?.extractedData?.pdfLinks).toEqual([
+      'https://cdn-learn.adafruit.com/downloads/pdf/adafruit-bme680-humidity-temperature-barometic-pressure-voc-gas.pdf',
+    ]);
+  });
+
+  it('takes lazy-loaded gallery images from data-src', () => {
+    expect(data?.images.map(image => image.url)).toEqual([
+      'https://cdn-shop.adafruit.com/970x728/3660-00.jpg',
+      'https://cdn-shop.adafruit.com/970x728/3660-pinout.jpg',
+    ]);
+    expect(data?.images[1]?.type).toBe('pinout');
+  });
+
+  it('falls back to the product id in the URL for the SKU', () => {
+    const html = fixture('adafruit-product.html').replace(/<div class="product-id">.*?<\/div>/, '');
+    expect(new AdafruitSource().parse({ url, html })?.extractedData?.sku).toBe('3660');
+  });
+});
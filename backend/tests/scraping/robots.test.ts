@@ -0,0 +1,43 @@
+import { RobotsPolicy } from '../../src/scraping/robots';
+
+const ROBOTS = `
+# Comments and blank lines are ignored
+User-agent: *
+Disallow: /
+
+User-agent: ProtoBuddy
+User-agent: OtherBot
+Disallow: /search
+Allow: /search/about
+Disallow: /*.json$
+Crawl-delay: 2
+`;
+
+describe('RobotsPolicy', () => {
+  const policy = RobotsPolicy.parse(ROBOTS, 'ProtoBuddy/1.0 (Component Analysis Bot)');
+
+  it('uses the group naming the crawler over the * group', () => {
+    expect(policy.isAllowed('https://example.com/products/1')).toBe(true);
+    expect(RobotsPolicy.parse(ROBOTS, 'SomeBot/2.0').isAllowed('https://example.com/products/1')).toBe(false);
+  });
+
+  it('lets the longest matching rule win', () => {
+    expect(policy.isAllowed('https://example.com/search?q=bme280')).toBe(false);
+    expect(policy.isAllowed('https://example.com/search/about')).toBe(true);
+  });
+
+  it('supports * and $ in patterns', () => {
+    expect(policy.isAllowed('https://example.com/api/products.json')).toBe(false);
+    expect(policy.isAllowed('https://example.com/api/products.json?page=2')).toBe(true);
+  });
+
+  it('reads Crawl-delay in milliseconds', () => {
+    expect(policy.crawlDelayMs).toBe(2000);
+    expect(RobotsPolicy.allowAll().crawlDelayMs).toBeNull();
+  });
+
+  it('allows or blocks everything for a missing or unreachable robots.txt', () => {
+    expect(RobotsPolicy.allowAll().isAllowed('https://example.com/anything')).toBe(true);
+    expect(RobotsPolicy.disallowAll().isAllowed('https://example.com/')).toBe(false);
+  });
+});
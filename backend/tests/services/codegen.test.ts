@@ -0,0 +1,127 @@
+import { query } from '../../src/database/connection';
+import { ClaudeService } from '../../src/services/claude';
+import { CodegenService } from '../../src/services/codegen';
+import { Board, Component, Connection, PinConfiguration } from '../../src/types';
+
+jest.mock('../../src/database/connection', () => ({ query: jest.fn() }));
+
+// Only AnthropicProvider uses the SDK, and tests run on the mock provider
+jest.mock('anthropic', () => jest.fn(), { virtual: true });
+
+const board = {
+  id: 'uno',
+  name: 'Arduino Uno R3',
+  pins: [
+    { number: 2, digitalPin: 2, name: 'D2', functions: ['digital'], voltage: 5, currentMax: 20 },
+    { number: 3, digitalPin: 3, name: 'D3', functions: ['digital', 'PWM'], voltage: 5, currentMax: 20 },
+    { number: 14, digitalPin: 14, analogPin: 0, name: 'A0', functions: ['analog', 'digital'], voltage: 5, currentMax: 20 },
+  ],
+} as Board;
+
+function component(id: string, name: string, category: string, pins: Array<Partial<PinConfiguration>>): Component {
+  return {
+    id,
+    name,
+    category,
+    specifications: { pins: pins.map((pin, index) => ({ number: index + 1, function: '', type: 'digital', name: '', ...pin })) },
+    compatibility: { requiredLibraries: [] },
+  } as unknown as Component;
+}
+
+const dht22 = component('dht22', 'DHT22 Temperature Sensor', 'sensor', [
+  { name: 'VCC', type: 'power' },
+  { name: 'DATA' },
+  { name: 'GND', type: 'ground' },
+]);
+
+const dhtTemplate = {
+  id: 'dht',
+  category: 'sensor',
+  name_pattern: 'DHT',
+  includes: ['DHT.h'],
+  globals: 'DHT {{var}}({{pin:DATA}}, DHT22);',
+  setup: '{{var}}.begin();',
+  loop: 'Serial.print(F("{{label}}: "));\nSerial.println({{var}}.readTemperature());\nanalogWrite({{pin:HEATER}}, 0);',
+  created_at: new Date(),
+};
+
+describe('CodegenService.generateSketch', () => {
+  const refineSketch = jest.fn();
+  const service = new CodegenService({ refineSketch } as unknown as ClaudeService);
+  const wiredData: Connection[] = [{ fromComponent: 'dht22', fromPin: 'DATA', toComponent: 'board', toPin: 'D2' }];
+
+  beforeEach(() => {
+    jest.mocked(query).mockResolvedValue({ rows: [dhtTemplate] } as never);
+  });
+
+  it('renders the matching template with the wired pin', async () => {
+    const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 1 }], wiredData);
+
+    expect(sketch.code).toContain('#include <DHT.h>');
+    expect(sketch.code).toContain('#define DHT22_DATA_PIN 2 // DHT22 Temperature Sensor DATA -> D2');
+    expect(sketch.code).toContain('DHT dht22(DHT22_DATA_PIN, DHT22);');
+    expect(sketch.code).toContain('  dht22.begin();');
+    expect(sketch.code).toContain('Serial.print(F("DHT22 Temperature Sensor: "));');
+  });
+
+  it('sets a {{pin:NAME}} with no wire to -1 and warns', async () => {
+    const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 1 }], wiredData);
+
+    expect(sketch.code).toContain('#define DHT22_HEATER_PIN -1 // DHT22 Temperature Sensor HEATER is not wired');
+    expect(sketch.code).toContain('analogWrite(DHT22_HEATER_PIN, 0);');
+    expect(sketch.pins).toContainEqual({
+      define: 'DHT22_HEATER_PIN', value: '-1', component: 'DHT22 Temperature Sensor', componentPin: 'HEATER', boardPin: null,
+    });
+    expect(sketch.warnings).toEqual(['DHT22 Temperature Sensor pin HEATER is not wired; DHT22_HEATER_PIN is set to -1']);
+  });
+
+  it('gives a second part with the same first word a _B prefix', async () => {
+    jest.mocked(query).mockResolvedValue({ rows: [] } as never);
+    const dht11 = component('dht11', 'DHT22 Clone Sensor', 'sensor', [{ name: 'DATA' }]);
+    const connections: Connection[] = [
+      ...wiredData,
+      { fromComponent: 'DHT22 Clone Sensor', fromPin: 'DATA', toComponent: 'board', toPin: 'D3' },
+    ];
+
+    const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 1 }, { component: dht11, quantity: 1 }], connections);
+
+    expect(sketch.pins.map(pin => [pin.define, pin.value])).toEqual([
+      ['DHT22_DATA_PIN', '2'],
+      ['DHT22_B_DATA_PIN', '3'],
+    ]);
+    expect(sketch.code).toContain('Serial.println(digitalRead(DHT22_B_DATA_PIN));');
+  });
+
+  it('numbers the copies of a part bought more than once', async () => {
+    const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 2 }], [
+      { fromComponent: 'DHT22 Temperature Sensor #1', fromPin: 'DATA', toComponent: 'board', toPin: 'D2' },
+      { fromComponent: 'DHT22 Temperature Sensor #2', fromPin: 'DATA', toComponent: 'board', toPin: 'D3' },
+    ]);
+
+    expect(sketch.code).toContain('DHT dht22_1(DHT22_1_DATA_PIN, DHT22);');
+    expect(sketch.code).toContain('DHT dht22_2(DHT22_2_DATA_PIN, DHT22);');
+  });
+
+  describe('with refine', () => {
+    it('uses a fenced sketch from the reply', async () => {
+      refineSketch.mockResolvedValue('Here you go:\n```cpp\nvoid setup() {}\nvoid loop() {}\n```\nEnjoy!');
+      const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 1 }], wiredData, { refine: true });
+
+      expect(sketch.refined).toBe(true);
+      expect(sketch.code).toBe('void setup() {}\nvoid loop() {}\n');
+    });
+
+    it.each([
+      ['no loop()', '```cpp\nvoid setup() {}\n```'],
+      ['no setup()', 'void loop() { delay(10); }'],
+      ['prose only', 'I cannot improve this sketch.'],
+    ])('keeps the template sketch for a reply with %s', async (_case, reply) => {
+      refineSketch.mockResolvedValue(reply);
+      const sketch = await service.generateSketch(board, [{ component: dht22, quantity: 1 }], wiredData, { refine: true });
+
+      expect(sketch.refined).toBe(false);
+      expect(sketch.code).toContain('dht22.begin();');
+      expect(sketch.warnings).toContain('LLM refinement was unavailable; returning the template sketch');
+    });
+  });
+});
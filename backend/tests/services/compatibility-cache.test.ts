@@ -0,0 +1,107 @@
+import { query } from '../../src/database/connection';
+import { BoardService } from '../../src/services/boards';
+import { ComponentService } from '../../src/services/components';
+import { CompatibilityService } from '../../src/services/compatibility';
+import { CompatibilityCheck, SystemCompatibilityCheck } from '../../src/types';
+
+jest.mock('../../src/database/connection', () => {
+  const store = new Map<string, string>();
+  // Redis glob patterns, as far as the services use them
+  const matches = (pattern: string, key: string) =>
+    new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`).test(key);
+
+  return {
+    query: jest.fn(),
+    cache: {
+      store,
+      get: async (key: string) => store.get(key) ?? null,
+      set: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+      del: async (key: string) => {
+        store.delete(key);
+      },
+      keys: async (pattern: string) => [...store.keys()].filter(key => matches(pattern, key)),
+    },
+  };
+});
+
+const BOARD_ID = '11111111-1111-1111-1111-111111111111';
+const COMPONENT_ID = '22222222-2222-2222-2222-222222222222';
+
+const boardRow = { id: BOARD_ID, name: 'Arduino Uno R3', manufacturer: 'Arduino', type: 'microcontroller', specifications: {}, supported_protocols: [], pins: [], compatibility: [] };
+const componentRow = { id: COMPONENT_ID, name: 'DHT22 Temperature Sensor', category: 'sensor', specifications: { pins: [] }, compatibility: {}, tags: [] };
+
+const check: CompatibilityCheck = { compatible: true, issues: [], suggestions: [], score: 100 } as unknown as CompatibilityCheck;
+
+describe('compatibility cache keys', () => {
+  const service = new CompatibilityService();
+  const internals = service as unknown as {
+    analyzeCompatibility: () => Promise<{ check: CompatibilityCheck; remedies: [] }>;
+    buildRemediations: () => Promise<[]>;
+  };
+  const analyze = jest.spyOn(internals, 'analyzeCompatibility');
+  const analyzeSystem = jest.spyOn(service, 'analyzeSystemCompatibility');
+
+  beforeEach(async () => {
+    const { cache } = jest.requireMock('../../src/database/connection');
+    cache.store.clear();
+
+    jest.mocked(query).mockImplementation((async (sql: string) => {
+      if (/UPDATE boards/.test(sql)) return { rows: [{ ...boardRow, name: 'Arduino Uno Rev3' }] };
+      if (/UPDATE components/.test(sql)) return { rows: [{ ...componentRow, description: 'Updated' }] };
+      if (/FROM boards/.test(sql)) return { rows: [boardRow] };
+      if (/FROM components/.test(sql)) return { rows: [componentRow] };
+      return { rows: [] };
+    }) as never);
+
+    analyze.mockImplementation(async () => ({ check: { ...check }, remedies: [] }));
+    jest.spyOn(internals, 'buildRemediations').mockResolvedValue([]);
+    analyzeSystem.mockImplementation(async () => ({ compatible: true, score: 100, issues: [] }) as unknown as SystemCompatibilityCheck);
+  });
+
+  const cachedKeys = (): string[] => [...jest.requireMock('../../src/database/connection').cache.store.keys()];
+
+  it('shares one entry between ids, names and slugs', async () => {
+    await service.checkCompatibility('arduino-uno', 'DHT22');
+    await service.checkCompatibility(BOARD_ID, COMPONENT_ID);
+    await service.checkCompatibility('Arduino Uno R3', 'dht22 temperature sensor');
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(cachedKeys()).toEqual([`compat:${BOARD_ID}:${COMPONENT_ID}`]);
+  });
+
+  it('keys system checks by board and component ids', async () => {
+    await service.checkSystemCompatibility('arduino-uno', [{ componentId: 'DHT22', quantity: 2 }]);
+    await service.checkSystemCompatibility(BOARD_ID, [{ componentId: COMPONENT_ID, quantity: 2 }]);
+
+    expect(analyzeSystem).toHaveBeenCalledTimes(1);
+    expect(cachedKeys()).toHaveLength(1);
+    expect(cachedKeys()[0]).toMatch(new RegExp(`^compat:${BOARD_ID}:system:`));
+  });
+
+  it('drops every entry for a board when it is edited, whatever name it was checked under', async () => {
+    await service.checkCompatibility('arduino-uno', 'DHT22');
+    await service.checkSystemCompatibility('uno', [{ componentId: 'DHT22', quantity: 1 }]);
+
+    await new BoardService().updateBoard(BOARD_ID, { name: 'Arduino Uno Rev3' });
+    expect(cachedKeys()).toEqual([]);
+
+    await service.checkCompatibility('arduino-uno', 'DHT22');
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['edited', () => new ComponentService().updateComponent(COMPONENT_ID, { description: 'Updated' })],
+    ['deleted', () => new ComponentService().deleteComponent(COMPONENT_ID)],
+  ])('drops the part\'s results and every system check when a component is %s', async (_case, write) => {
+    const other = { ...componentRow, id: '33333333-3333-3333-3333-333333333333' };
+    await service.checkCompatibility(BOARD_ID, COMPONENT_ID);
+    await service.checkSystemCompatibility(BOARD_ID, [{ componentId: COMPONENT_ID, quantity: 1 }]);
+    jest.requireMock('../../src/database/connection').cache.store.set(`compat:${BOARD_ID}:${other.id}`, '{}');
+
+    await write();
+
+    expect(cachedKeys()).toEqual([`compat:${BOARD_ID}:${other.id}`]);
+  });
+});
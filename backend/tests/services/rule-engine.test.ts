@@ -0,0 +1,186 @@
+import { RuleEngine } from '../../src/services/rule-engine';
+import { Board, CompatibilityRule, Component, RuleCondition, RuleOperator } from '../../src/types';
+
+const board = {
+  id: 'esp32',
+  name: 'ESP32 DevKit',
+  specifications: { voltage: { operating: 3.3, io: 3.3 } },
+  supportedProtocols: ['I2C', 'SPI', 'UART'],
+  pins: [],
+} as unknown as Board;
+
+const component = {
+  id: 'hc-sr04',
+  name: 'HC-SR04 Ultrasonic Sensor',
+  category: 'sensor',
+  specifications: {
+    voltage: { operating: { min: 4.5, max: 5.5, unit: 'V' } },
+    communication: ['GPIO'],
+    pins: [
+      { number: 1, name: 'VCC', type: 'power' },
+      { number: 2, name: 'TRIG', type: 'digital' },
+      { number: 3, name: 'ECHO', type: 'digital' },
+      { number: 4, name: 'GND', type: 'ground' },
+    ],
+  },
+} as unknown as Component;
+
+function rule(overrides: Partial<CompatibilityRule> & Pick<CompatibilityRule, 'when'>): CompatibilityRule {
+  return { id: 'test-rule', name: 'Test rule', enabled: true, penalty: 10, ...overrides };
+}
+
+describe('RuleEngine', () => {
+  const engine = new RuleEngine();
+  const holds = (when: RuleCondition) => engine.evaluate([rule({ when })], board, component).penalty > 0;
+
+  describe('operators', () => {
+    it.each<[RuleOperator, unknown, unknown, boolean]>([
+      ['eq', { path: 'component.category' }, 'SENSOR', true],
+      ['eq', { path: 'component.category' }, 'actuator', false],
+      ['neq', { path: 'component.category' }, 'actuator', true],
+      ['gt', { path: 'component.specifications.voltage.operating.min' }, { path: 'board.specifications.voltage.io' }, true],
+      ['gt', 3.3, 3.3, false],
+      ['gte', 3.3, 3.3, true],
+      ['lt', { path: 'board.specifications.voltage.io' }, 5, true],
+      ['lt', '3.3', 5, false],
+      ['lte', 5, 5, true],
+      ['in', { path: 'component.category' }, ['sensor', 'display'], true],
+      ['in', { path: 'component.category' }, 'sensor', false],
+      ['includes', { path: 'board.supportedProtocols' }, 'i2c', true],
+      ['includes', { path: 'board.supportedProtocols' }, 'CAN', false],
+      ['includes', { path: 'component.name' }, 'ultrasonic', true],
+      ['matches', { path: 'component.name' }, '^hc-sr0\\d', true],
+      ['matches', { path: 'component.name' }, 'servo|motor', false],
+    ])('%s(%j, %j) is %s', (op, left, right, expected) => {
+      expect(holds({ op, left, right } as RuleCondition)).toBe(expected);
+    });
+
+    it('combines conditions with all, any, not, exists and some', () => {
+      const isSensor: RuleCondition = { op: 'eq', left: { path: 'component.category' }, right: 'sensor' };
+      const isDisplay: RuleCondition = { op: 'eq', left: { path: 'component.category' }, right: 'display' };
+
+      expect(holds({ all: [isSensor, { not: isDisplay }] })).toBe(true);
+      expect(holds({ all: [isSensor, isDisplay] })).toBe(false);
+      expect(holds({ any: [isDisplay, isSensor] })).toBe(true);
+      expect(holds({ exists: 'component.specifications.voltage.operating.min' })).toBe(true);
+      expect(holds({ exists: 'component.specifications.current.operating.max' })).toBe(false);
+      expect(holds({
+        some: 'component.specifications.pins',
+        as: 'pin',
+        where: { op: 'eq', left: { path: 'pin.name' }, right: 'echo' },
+      })).toBe(true);
+    });
+
+    it('computes operands with count, fn and if', () => {
+      const digitalPins = { count: 'component.specifications.pins', as: 'pin', where: { op: 'eq', left: { path: 'pin.type' }, right: 'digital' } } as const;
+
+      expect(holds({ op: 'eq', left: digitalPins, right: 2 })).toBe(true);
+      expect(holds({ op: 'eq', left: { fn: 'sub', args: [{ path: 'component.specifications.voltage.operating.max' }, 2.2] }, right: 3.3 })).toBe(true);
+      expect(holds({
+        op: 'eq',
+        left: { if: { op: 'gt', left: 5, right: 3.3 }, then: 'shift', else: 'direct' },
+        right: 'shift',
+      })).toBe(true);
+    });
+  });
+
+  describe('each and let', () => {
+    const perPin = rule({
+      each: { path: 'component.specifications.pins', as: 'pin' },
+      let: { label: { fn: 'concat', args: [{ path: 'pin.name' }, ' (pin ', { path: 'pin.number' }, ')'] } },
+      when: { op: 'eq', left: { path: 'pin.type' }, right: 'digital' },
+      penalty: 5,
+      issue: { type: 'voltage', severity: 'warning', message: '{{label}} on {{board.name}} needs a level shifter' },
+    });
+
+    it('evaluates the rule once per item, with let values computed for that item', () => {
+      const { issues, penalty } = engine.evaluate([perPin], board, component);
+
+      expect(issues.map(issue => issue.message)).toEqual([
+        'TRIG (pin 2) on ESP32 DevKit needs a level shifter',
+        'ECHO (pin 3) on ESP32 DevKit needs a level shifter',
+      ]);
+      expect(penalty).toBe(10);
+    });
+
+    it('does not leak the item or let values into the next rule', () => {
+      const leaked = rule({ id: 'leaked', when: { any: [{ exists: 'pin' }, { exists: 'label' }] } });
+      expect(engine.evaluate([perPin, leaked], board, component).penalty).toBe(10);
+    });
+  });
+
+  describe('mitigations', () => {
+    const needsShifter = rule({
+      when: { op: 'gt', left: { path: 'component.specifications.voltage.operating.min' }, right: { path: 'board.specifications.voltage.io' } },
+      issue: { type: 'voltage', severity: 'error', message: '{{component.name}} needs 5V logic' },
+      remedies: [
+        { kind: 'level-shifter', reason: 'Shift {{board.specifications.voltage.io}}V to 5V' },
+        { kind: 'relay', reason: 'Switch it instead', when: { op: 'eq', left: { path: 'component.category' }, right: 'actuator' } },
+      ],
+    });
+
+    it('lists the remedies whose condition holds', () => {
+      expect(engine.evaluate([needsShifter], board, component).remedies).toEqual([
+        { kind: 'level-shifter', issueType: 'voltage', reason: 'Shift 3.3V to 5V' },
+      ]);
+    });
+
+    it('skips a rule whose remedy is already in the build', () => {
+      const evaluation = engine.evaluate([needsShifter], board, component, new Set(['level-shifter']));
+      expect(evaluation).toEqual({ issues: [], suggestions: [], remedies: [], penalty: 0 });
+    });
+
+    it('uses mitigatedBy over the remedy kinds when given', () => {
+      const mitigatedByDivider = { ...needsShifter, mitigatedBy: ['voltage-divider' as const] };
+
+      expect(engine.evaluate([mitigatedByDivider], board, component, new Set(['level-shifter'])).issues).toHaveLength(1);
+      expect(engine.evaluate([mitigatedByDivider], board, component, new Set(['voltage-divider'])).issues).toEqual([]);
+    });
+  });
+
+  describe('totals', () => {
+    it('adds up penalties and suggestions of matching, enabled rules only', () => {
+      const always: RuleCondition = { exists: 'component.name' };
+      const never: RuleCondition = { exists: 'component.missing' };
+
+      const evaluation = engine.evaluate([
+        rule({ id: 'a', when: always, penalty: 15, suggestions: [{ text: 'Check {{component.name}}' }] }),
+        rule({ id: 'b', when: always, penalty: 20, suggestions: [{ text: 'Not shown', when: never }] }),
+        rule({ id: 'c', when: never, penalty: 40 }),
+        rule({ id: 'd', when: always, penalty: 30, enabled: false }),
+      ], board, component);
+
+      expect(evaluation.penalty).toBe(35);
+      expect(evaluation.suggestions).toEqual(['Check HC-SR04 Ultrasonic Sensor']);
+    });
+
+    it('picks the first text variant whose condition holds', () => {
+      const { issues } = engine.evaluate([rule({
+        when: { exists: 'component.name' },
+        issue: {
+          type: 'pins',
+          severity: 'info',
+          message: [
+            { text: 'Display wiring', when: { op: 'eq', left: { path: 'component.category' }, right: 'display' } },
+            { text: 'Sensor wiring for {{board.name}}' },
+          ],
+        },
+      })], board, component);
+
+      expect(issues).toEqual([{ type: 'pins', severity: 'info', message: 'Sensor wiring for ESP32 DevKit' }]);
+    });
+  });
+
+  describe('malformed rules', () => {
+    it('skips a rule that fails to evaluate and keeps checking the rest', () => {
+      const evaluation = engine.evaluate([
+        rule({ id: 'bad-op', when: { op: 'between', left: 1, right: 2 } as unknown as RuleCondition, penalty: 50 }),
+        rule({ id: 'bad-fn', when: { op: 'eq', left: { fn: 'sqrt', args: [4] }, right: 2 } as unknown as RuleCondition, penalty: 50 }),
+        rule({ id: 'bad-pattern', when: { op: 'matches', left: { path: 'component.name' }, right: '(' }, penalty: 50 }),
+        rule({ id: 'good', when: { exists: 'component.name' }, penalty: 10 }),
+      ], board, component);
+
+      expect(evaluation.penalty).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { WiringService } from '../../src/services/wiring';
+import { Board, BuildPart, Component } from '../../src/types';
+
+const board = {
+  id: 'uno',
+  name: 'Arduino Uno R3',
+  specifications: {
+    voltage: { operating: 5, io: 5 },
+    current: { output: { perPin: 20, total: 200, unit: 'mA' } },
+  },
+  supportedProtocols: [],
+  pins: [2, 3, 4, 5].map(number => ({ number, digitalPin: number, name: `D${number}`, functions: ['digital'], voltage: 5, currentMax: 20 })),
+} as unknown as Board;
+
+function part(name: string, max: number, unit: string, withPowerPin = true): BuildPart {
+  const component = {
+    id: name.toLowerCase(),
+    name,
+    category: 'sensor',
+    specifications: {
+      voltage: { operating: { min: 3, max: 5.5, unit: 'V' } },
+      current: { operating: { typical: max, max, unit } },
+      communication: [],
+      pins: [
+        ...(withPowerPin ? [{ number: 1, name: 'VCC', type: 'power', function: 'Power' }] : []),
+        { number: 2, name: 'OUT', type: 'digital', function: 'Signal' },
+        { number: 3, name: 'GND', type: 'ground', function: 'Ground' },
+      ],
+    },
+    compatibility: { notes: [] },
+  } as unknown as Component;
+
+  return { component, quantity: 1 };
+}
+
+const overBudget = (notes: string[]) => notes.filter(note => note.includes("above the board's"));
+
+describe('WiringService rail load', () => {
+  const service = new WiringService();
+
+  it.each(['µA', 'uA', 'μA', 'microamps'])('counts %s as thousandths of a mA', unit => {
+    const plan = service.planWiring(board, [part('Motion Sensor', 150, 'mA'), part('Light Sensor', 900, unit)]);
+    expect(overBudget(plan.notes)).toEqual([]);
+  });
+
+  it('converts amps up to mA', () => {
+    const plan = service.planWiring(board, [part('Relay Module', 0.15, 'A'), part('Buzzer', 60, 'mA')]);
+    expect(overBudget(plan.notes)).toEqual([
+      "Parts on the board rails draw about 210mA, above the board's 200mA budget - use an external supply",
+    ]);
+  });
+
+  it('leaves a figure that is not a current out of the sum', () => {
+    const plan = service.planWiring(board, [part('Heater', 500, 'mW')]);
+
+    expect(overBudget(plan.notes)).toEqual([]);
+    expect(plan.notes).toContain('Heater: current draw "500mW" isn\'t a current - left out of the rail load');
+  });
+
+  it('compares a part powered from its signal pin in mA', () => {
+    const signalNote = (plan: ReturnType<WiringService['planWiring']>) =>
+      plan.connections.find(connection => connection.fromPin === 'OUT')?.notes || '';
+
+    expect(signalNote(service.planWiring(board, [part('LED', 800, 'uA', false)]))).not.toContain('Draws');
+    expect(signalNote(service.planWiring(board, [part('LED Bar', 0.03, 'A', false)])))
+      .toContain('Draws 30mA, pin limit is 20mA - drive through a transistor');
+  });
+});
+
+describe('WiringService pin choice', () => {
+  const service = new WiringService();
+  const mixedDrive = {
+    ...board,
+    pins: [
+      { number: 2, digitalPin: 2, name: 'D2', functions: ['digital'], voltage: 5, currentMax: 5 },
+      { number: 3, digitalPin: 3, name: 'D3', functions: ['digital', 'PWM'], voltage: 5, currentMax: 40 },
+    ],
+  } as unknown as Board;
+
+  const chosenPin = (max: number, unit: string) =>
+    service.planWiring(mixedDrive, [part('Indicator', max, unit, false)])
+      .connections.find(connection => connection.fromPin === 'OUT')?.toPin;
+
+  it('keeps a µA part on the least versatile pin', () => {
+    expect(chosenPin(10, 'µA')).toBe('D2');
+  });
+
+  it('moves a part given in A to a pin that can drive it', () => {
+    expect(chosenPin(0.03, 'A')).toBe('D3');
+  });
+});
@@ -0,0 +1,3 @@
+// Tests never call a real model: every LLM request is answered from fixtures/llm
+process.env.LLM_PROVIDER = 'mock';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
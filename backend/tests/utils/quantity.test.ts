@@ -0,0 +1,92 @@
+import { convertUnit, findQuantities, parseQuantity, toUnit } from '../../src/utils/quantity';
+
+describe('parseQuantity', () => {
+  it('reads a range, with or without a unit on both ends', () => {
+    expect(parseQuantity('Supply: 1.8-5.5V', 'voltage')).toMatchObject({ min: 1.8, max: 5.5, value: 5.5, unit: 'V', form: 'range' });
+    expect(parseQuantity('3.3 V to 5 V', 'voltage')).toMatchObject({ min: 3.3, max: 5, form: 'range' });
+    expect(parseQuantity('–40 – 85 °C', 'temperature')).toMatchObject({ min: -40, max: 85, unit: '°C' });
+  });
+
+  it('states a range in its second unit', () => {
+    expect(parseQuantity('800 mV to 1.2 V', 'voltage')).toMatchObject({ min: 0.8, max: 1.2, unit: 'V' });
+  });
+
+  it('turns ± tolerances into a range around the nominal value', () => {
+    expect(parseQuantity('5V ±10%', 'voltage')).toMatchObject({ min: 4.5, max: 5.5, value: 5, form: 'tolerance' });
+    expect(parseQuantity('3.3 +/- 0.3 V', 'voltage')).toMatchObject({ min: 3, max: 3.6, value: 3.3, form: 'tolerance' });
+    expect(parseQuantity('12 V ± 500 mV', 'voltage')).toMatchObject({ min: 11.5, max: 12.5, unit: 'V' });
+  });
+
+  it('does not read a bare accuracy as a value', () => {
+    expect(parseQuantity('Accuracy ±0.5 °C', 'temperature')).toBeNull();
+  });
+
+  it.each(['µA', 'uA', 'μA', 'microamps'])('reads %s as microamps', unit => {
+    const quantity = parseQuantity(`Standby current 50 ${unit}`, 'current');
+
+    expect(quantity).toMatchObject({ value: 50, unit: 'µA' });
+    expect(quantity?.siValue).toBe(0.00005);
+  });
+
+  it('reads "3V3" as 3.3 V', () => {
+    expect(parseQuantity('Logic level: 3V3', 'voltage')).toMatchObject({ value: 3.3, unit: 'V', form: 'single' });
+  });
+
+  it('combines labelled min/typ/max values, converting to the last stated unit', () => {
+    expect(parseQuantity('Min 2.4 V Typ 3.3 V Max 3.6 V', 'voltage'))
+      .toMatchObject({ min: 2.4, typical: 3.3, max: 3.6, value: 3.3, unit: 'V', form: 'columns' });
+    expect(parseQuantity('typ. 800 µA, max. 1.5 mA', 'current'))
+      .toMatchObject({ min: 0.8, typical: 0.8, max: 1.5, unit: 'mA' });
+  });
+
+  it('reads unlabelled table rows only when asked to', () => {
+    expect(parseQuantity('VDD 2.4 3.3 3.6 V', 'voltage', { tableRows: true }))
+      .toMatchObject({ min: 2.4, typical: 3.3, max: 3.6, form: 'columns' });
+    expect(parseQuantity('VDD 2.4 3.3 3.6 V', 'voltage')).toMatchObject({ value: 3.6, form: 'single' });
+    // Out of order, so not a min/typ/max row
+    expect(parseQuantity('3.6 3.3 2.4 V', 'voltage', { tableRows: true })).toBeNull();
+  });
+
+  it('reads Fahrenheit and gives its value in °C', () => {
+    const quantity = parseQuantity('Operating: 32 to 212 °F', 'temperature');
+
+    expect(quantity).toMatchObject({ min: 32, max: 212, unit: '°F' });
+    expect(quantity?.siValue).toBe(100);
+    expect(toUnit(quantity!, '°C')).toMatchObject({ min: 0, max: 100, unit: '°C' });
+  });
+
+  it.each([
+    ['text without numbers', 'No supply information'],
+    ['a number without a unit', 'Supply 5'],
+    ['a unit of another kind', '500 mW'],
+    ['an empty string', ''],
+  ])('returns null for %s', (_case, text) => {
+    expect(parseQuantity(text, 'voltage')).toBeNull();
+  });
+});
+
+describe('findQuantities', () => {
+  it('lists each distinct quantity once, in order', () => {
+    const found = findQuantities('Input 7-12V (6-20V limit), logic 5V, regulator 5V', 'voltage');
+    expect(found.map(quantity => quantity.text)).toEqual(['7-12V', '6-20V', '5V']);
+  });
+});
+
+describe('unit conversion', () => {
+  it('converts within a kind', () => {
+    expect(convertUnit(1.5, 'A', 'mA')).toBe(1500);
+    expect(convertUnit(800, 'uA', 'mA')).toBe(0.8);
+    expect(convertUnit(98.6, '°F', '°C')).toBe(37);
+    expect(convertUnit(100, '°C', '°F')).toBe(212);
+  });
+
+  it('leaves values it cannot convert unchanged', () => {
+    expect(convertUnit(5, 'V', 'mA')).toBe(5);
+    expect(convertUnit(5, 'furlongs', 'm')).toBe(5);
+  });
+
+  it('leaves a quantity in its own unit when the target is of another kind', () => {
+    const quantity = parseQuantity('20 mA', 'current')!;
+    expect(toUnit(quantity, 'V')).toBe(quantity);
+  });
+});
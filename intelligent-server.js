@@ -44,7 +44,7 @@ async function scrapeSparkfunComponents(query, category = 'sensors') {
 
     const response = await axios.get(searchUrl, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        'User-Agent': 'ProtoBuddy/1.0 (Component Analysis Bot)'
       },
       timeout: 10000
     });
@@ -96,7 +96,7 @@ async function scrapeAdafruitComponents(query, category = 'sensors') {
 
     const response = await axios.get(searchUrl, {
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        'User-Agent': 'ProtoBuddy/1.0 (Component Analysis Bot)'
       },
       timeout: 10000
     });
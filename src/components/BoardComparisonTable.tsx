@@ -0,0 +1,93 @@
+import React from 'react';
+import { Columns3 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { BoardComparison, BoardComparisonRow } from '@/lib/api';
+import { scoreColor } from '@/lib/component-display';
+
+interface BoardComparisonTableProps {
+  comparison: BoardComparison;
+}
+
+const groups: Array<{ group: BoardComparisonRow['group']; label: string }> = [
+  { group: 'processor', label: 'Processor' },
+  { group: 'memory', label: 'Memory' },
+  { group: 'electrical', label: 'Electrical' },
+  { group: 'protocols', label: 'Protocols' },
+  { group: 'pins', label: 'Pins' },
+  { group: 'compatibility', label: 'Compatibility' },
+];
+
+function formatValue(row: BoardComparisonRow, value: string | number | null): React.ReactNode {
+  if (value === null) return <span className="text-muted-foreground">–</span>;
+
+  if (row.group === 'compatibility' && typeof value === 'number') {
+    const color = scoreColor(value);
+    return (
+      <Badge variant="outline" className={`text-xs border-${color} text-${color} bg-${color}/10`}>
+        {value}%
+      </Badge>
+    );
+  }
+
+  // Protocol rows count buses; 0 means the board doesn't have one
+  if (row.group === 'protocols' && typeof value === 'number') {
+    return value === 0 ? <span className="text-muted-foreground">–</span> : value === 1 ? '✓' : `✓ ×${value}`;
+  }
+
+  return row.unit ? `${value} ${row.unit}` : value;
+}
+
+const BoardComparisonTable: React.FC<BoardComparisonTableProps> = ({ comparison }) => {
+  const { boards, rows } = comparison;
+
+  return (
+    <div className="p-3 rounded-lg bg-black/20 border border-white/10 space-y-2">
+      <div className="flex items-center gap-2">
+        <Columns3 className="w-4 h-4 text-cyan" />
+        <span className="text-xs font-medium text-cyan">Board comparison</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-white/10">
+              <th className="text-left font-medium py-1.5 pr-3" />
+              {boards.map(board => (
+                <th key={board.id} className="text-left font-medium py-1.5 pr-3">
+                  <p>{board.name}</p>
+                  <p className="font-normal text-muted-foreground">{board.manufacturer}</p>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {groups.map(({ group, label }) => {
+            const groupRows = rows.filter(row => row.group === group);
+            if (groupRows.length === 0) return null;
+
+            return (
+              <tbody key={group}>
+                <tr>
+                  <td colSpan={boards.length + 1} className="pt-2 pb-1 font-medium text-circuit-green">
+                    {label}
+                  </td>
+                </tr>
+                {groupRows.map(row => (
+                  <tr key={row.key} className="border-b border-white/5">
+                    <td className="py-1 pr-3 text-muted-foreground whitespace-nowrap">{row.label}</td>
+                    {row.values.map((value, index) => (
+                      <td key={boards[index]?.id ?? index} className="py-1 pr-3 font-mono">
+                        {formatValue(row, value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            );
+          })}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BoardComparisonTable;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, Plus, Wrench, XCircle, type LucideIcon } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { CompatibilityCheck, CompatibilityIssue, Remediation } from '@/lib/api';
+import { formatPrice, scoreColor } from '@/lib/component-display';
+
+interface CompatibilityReportProps {
+  compatibility: CompatibilityCheck;
+  onAddRemediation?: (remediation: Remediation) => void;
+}
+
+const severities: Array<{
+  severity: CompatibilityIssue['severity'];
+  label: string;
+  icon: LucideIcon;
+  color: string;
+}> = [
+  { severity: 'error', label: 'Errors', icon: AlertCircle, color: 'destructive' },
+  { severity: 'warning', label: 'Warnings', icon: AlertTriangle, color: 'electric-orange' },
+  { severity: 'info', label: 'Notes', icon: Info, color: 'cyan' },
+];
+
+const CompatibilityReport: React.FC<CompatibilityReportProps> = ({ compatibility, onAddRemediation }) => {
+  const { compatible, issues, suggestions, score, remediations = [] } = compatibility;
+  const color = compatible ? scoreColor(score) : 'destructive';
+  const StatusIcon = compatible ? CheckCircle2 : XCircle;
+
+  return (
+    <div className="p-3 rounded-lg bg-black/20 border border-white/10 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <StatusIcon className={`w-4 h-4 text-${color}`} />
+          <span className={`text-xs font-medium text-${color}`}>
+            {compatible ? 'Compatible' : 'Not compatible'}
+          </span>
+        </div>
+        <Badge variant="outline" className={`text-xs border-${color} text-${color} bg-${color}/10`}>
+          {score}%
+        </Badge>
+      </div>
+
+      {severities.map(({ severity, label, icon: Icon, color: severityColor }) => {
+        const group = issues.filter(issue => issue.severity === severity);
+        if (group.length === 0) return null;
+
+        return (
+          <div key={severity} className="space-y-1.5">
+            <p className={`text-xs font-medium text-${severityColor} flex items-center gap-1.5`}>
+              <Icon className="w-3 h-3" />
+              {label} ({group.length})
+            </p>
+            <ul className="space-y-1.5">
+              {group.map((issue, index) => (
+                <li key={index} className={`pl-3 border-l-2 border-${severityColor}/50 text-xs`}>
+                  <p>
+                    <span className="font-mono text-muted-foreground mr-1.5">{issue.type}</span>
+                    {issue.message}
+                  </p>
+                  {issue.solution && (
+                    <p className="text-muted-foreground mt-0.5">→ {issue.solution}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+
+      {remediations.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium text-circuit-green flex items-center gap-1.5">
+            <Wrench className="w-3 h-3" />
+            Fixes ({remediations.length})
+          </p>
+          <ul className="space-y-1.5">
+            {remediations.map(remediation => (
+              <li
+                key={`${remediation.forComponent.id}-${remediation.kind}`}
+                className="pl-3 border-l-2 border-circuit-green/50 text-xs flex items-start justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <p>
+                    <span className="font-medium">{remediation.component.name}</span>
+                    <span className="text-muted-foreground"> for {remediation.forComponent.name}</span>
+                    {remediation.component.price !== undefined && (
+                      <span className="text-muted-foreground"> · {formatPrice(remediation.component.price)}</span>
+                    )}
+                  </p>
+                  <p className="text-muted-foreground mt-0.5">{remediation.reason}</p>
+                  <p className={`mt-0.5 font-mono text-${scoreColor(remediation.score.after)}`}>
+                    {remediation.score.before}% → {remediation.score.after}%
+                  </p>
+                </div>
+                {onAddRemediation && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs flex-shrink-0"
+                    onClick={() => onAddRemediation(remediation)}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul className="space-y-1 text-xs text-muted-foreground list-disc pl-4">
+          {suggestions.map((suggestion, index) => (
+            <li key={index}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CompatibilityReport;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { downloadBlob } from '@/lib/utils';
+import 'highlight.js/styles/atom-one-dark.css';
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: { className?: unknown };
+  children?: HastNode[];
+}
+
+// Fences the model labels as Arduino sketches or plain C/C++ can be saved as .ino
+const SKETCH_LANGUAGES = new Set(['arduino', 'ino', 'cpp', 'c++', 'c']);
+
+function textOf(node: HastNode): string {
+  if (node.type === 'text') return node.value ?? '';
+  return (node.children ?? []).map(textOf).join('');
+}
+
+function languageOf(node: HastNode): string | null {
+  const className = node.properties?.className;
+  const classes = Array.isArray(className) ? className.map(String) : [];
+  const language = classes.find(name => name.startsWith('language-'));
+
+  return language ? language.slice('language-'.length).toLowerCase() : null;
+}
+
+const CodeBlock: React.FC<{ code: string; language: string | null; children: React.ReactNode }> = ({ code, language, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-white/10 bg-black/40 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/10">
+        <span className="text-xs font-mono text-muted-foreground">{language ?? 'text'}</span>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={copy}>
+            {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          {language && SKETCH_LANGUAGES.has(language) && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => downloadBlob(new Blob([code], { type: 'text/plain' }), 'sketch.ino')}
+            >
+              <Download className="w-3 h-3 mr-1" />
+              .ino
+            </Button>
+          )}
+        </div>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, children }) => {
+    const code = (node?.children as HastNode[] | undefined)?.find(child => child.tagName === 'code');
+
+    return (
+      <CodeBlock code={code ? textOf(code).replace(/\n$/, '') : ''} language={code ? languageOf(code) : null}>
+        {children}
+      </CodeBlock>
+    );
+  },
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+/**
+ * Renders an assistant reply as GitHub-flavoured Markdown. Raw HTML in the reply is never rendered, and
+ * the tree is sanitized before code blocks are highlighted so only highlight.js adds markup of its own.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content }) => (
+  <div className="prose prose-sm prose-invert max-w-none text-sm leading-relaxed prose-pre:my-0 prose-table:text-xs">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeSanitize, [rehypeHighlight, { aliases: { cpp: ['arduino', 'ino'] } }]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
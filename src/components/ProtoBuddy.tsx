@@ -4,21 +4,31 @@ import {
   Bot, 
   User, 
   Cpu, 
-  Zap, 
   Settings,
   Microchip,
   Activity,
   Layers,
   Wifi,
-  Battery,
-  Signal,
-  Code
+  Code,
+  Download
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import type { BomFormat, ChatMessage, ChatStreamHandlers, Remediation } from '@/lib/api';
+import { categoryIcon, discussedComponents, formatVoltage, protocolsOf, scoreColor } from '@/lib/component-display';
+import RecommendationCard from '@/components/RecommendationCard';
+import CompatibilityReport from '@/components/CompatibilityReport';
+import BoardComparisonTable from '@/components/BoardComparisonTable';
+import MarkdownMessage from '@/components/MarkdownMessage';
 
 export interface Message {
   id: string;
@@ -26,28 +36,38 @@ export interface Message {
   sender: 'user' | 'assistant';
   timestamp: Date | string;
   type?: 'text' | 'component' | 'diagram';
-  context?: {
-    recommendations?: any[];
-    compatibility?: any;
-  };
+  context?: ChatMessage['context'];
 }
 
 interface ProtoBuddyProps {
+  // Earlier messages of a restored session, shown after the greeting
+  initialMessages?: Message[];
   onSendMessage?: (message: string) => Promise<Message | null>;
+  // Preferred over onSendMessage when provided: the reply is rendered as it streams in
+  onStreamMessage?: (message: string, handlers: ChatStreamHandlers) => Promise<void>;
+  // Downloads a bill of materials for the components recommended in this session
+  onExportBom?: (format: BomFormat) => Promise<void>;
 }
 
-const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: "👋 Hi! I'm ProtoBuddy. I help engineers find compatible components and solve hardware challenges. What are you building today?",
-      sender: 'assistant',
-      timestamp: new Date(),
-      type: 'text'
-    },
-  ]);
+const bomFormats: Array<{ format: BomFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'kicad', label: 'KiCad BOM (CSV)' },
+  { format: 'json', label: 'JSON' },
+];
+
+const greeting: Message = {
+  id: '1',
+  content: "👋 Hi! I'm ProtoBuddy. I help engineers find compatible components and solve hardware challenges. What are you building today?",
+  sender: 'assistant',
+  timestamp: new Date(),
+  type: 'text'
+};
+
+const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ initialMessages, onSendMessage, onStreamMessage, onExportBom }) => {
+  const [messages, setMessages] = useState<Message[]>([greeting]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -58,6 +78,13 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    if (initialMessages && initialMessages.length > 0) {
+      // Keep anything sent while the history was loading
+      setMessages(prev => [greeting, ...initialMessages, ...prev.slice(1)]);
+    }
+  }, [initialMessages]);
+
   const handleSendMessage = async (e?: React.MouseEvent) => {
     if (e) {
       e.preventDefault();
@@ -78,7 +105,9 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
     setIsTyping(true);
 
     try {
-      if (onSendMessage) {
+      if (onStreamMessage) {
+        await streamReply(onStreamMessage, messageContent);
+      } else if (onSendMessage) {
         const assistantMessage = await onSendMessage(messageContent);
 
         if (assistantMessage) {
@@ -112,6 +141,76 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
     }
   };
 
+  const streamReply = async (
+    stream: NonNullable<ProtoBuddyProps['onStreamMessage']>,
+    messageContent: string
+  ) => {
+    const assistantId = (Date.now() + 1).toString();
+    let started = false;
+
+    const updateReply = (update: (message: Message) => Message) => {
+      if (!started) {
+        started = true;
+        setIsTyping(false);
+        setMessages(prev => [...prev, {
+          id: assistantId,
+          content: '',
+          sender: 'assistant',
+          timestamp: new Date(),
+          type: 'text'
+        }]);
+      }
+      setMessages(prev => prev.map(message => message.id === assistantId ? update(message) : message));
+    };
+
+    await stream(messageContent, {
+      onRecommendations: (recommendations) => {
+        updateReply(message => ({ ...message, context: { ...message.context, recommendations } }));
+      },
+      onCompatibility: (compatibility) => {
+        updateReply(message => ({ ...message, context: { ...message.context, compatibility } }));
+      },
+      onComparison: (comparison) => {
+        updateReply(message => ({ ...message, context: { ...message.context, comparison } }));
+      },
+      onDelta: (text) => {
+        updateReply(message => ({ ...message, content: message.content + text }));
+      },
+      onDone: ({ message: finalMessage }) => {
+        updateReply(message => ({ ...message, content: finalMessage.content, timestamp: finalMessage.timestamp }));
+      },
+      onError: () => {
+        updateReply(message => ({
+          ...message,
+          content: message.content || "I encountered an error while processing your message. Please try again."
+        }));
+      },
+    });
+
+    if (!started) {
+      throw new Error('Stream ended without a reply');
+    }
+  };
+
+  // Drafts the follow-up so the user can review it before the fix is checked against the build
+  const handleAddRemediation = (remediation: Remediation) => {
+    const { component, forComponent } = remediation;
+    setInputValue(`Add the ${component.name} to my build to fix the ${forComponent.name} and re-check compatibility`);
+  };
+
+  const handleExportBom = async (format: BomFormat) => {
+    if (!onExportBom) return;
+
+    setIsExporting(true);
+    try {
+      await onExportBom(format);
+    } catch (error) {
+      console.error('Error exporting BOM:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -124,14 +223,14 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
     return dateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
-  const recentComponents = [
-    { name: 'Arduino Uno R3', specs: '5V, 32KB Flash', icon: Microchip, status: 'online' },
-    { name: 'Raspberry Pi 4', specs: '3.3V GPIO, 8GB RAM', icon: Cpu, status: 'online' },
-    { name: 'DHT22 Sensor', specs: 'Temp/Humidity, 3-5V', icon: Activity, status: 'compatible' },
-    { name: 'HC-SR04 Ultrasonic', specs: '5V, 2-400cm range', icon: Signal, status: 'online' },
-    { name: 'ESP32 DevKit', specs: 'WiFi/BT, 3.3V Logic', icon: Wifi, status: 'online' },
-    { name: 'NeoPixel Strip', specs: 'WS2812B, 5V/3.3V', icon: Zap, status: 'compatible' },
-  ];
+  // Everything recommended so far in this conversation
+  const recentComponents = discussedComponents(messages).map(({ component, score }) => ({
+    id: component.id,
+    name: component.name,
+    specs: [formatVoltage(component), ...protocolsOf(component)].filter(Boolean).join(', ') || component.category,
+    icon: categoryIcon(component.category),
+    score,
+  }));
 
   const quickActions = [
     { name: 'Arduino', icon: Microchip, color: 'circuit-green' },
@@ -139,15 +238,6 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
     { name: 'ESP32', icon: Wifi, color: 'cyan' },
   ];
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'online': return 'circuit-green';
-      case 'compatible': return 'cyan';
-      case 'warning': return 'electric-orange';
-      default: return 'muted';
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-main circuit-pattern relative overflow-hidden">
       {/* Floating geometric shapes */}
@@ -189,12 +279,17 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
                 Recent Components
               </h3>
               <div className="space-y-3">
-                {recentComponents.map((component, index) => (
-                  <Card key={index} className="glass border-glass-border hover-lift smooth-transition p-4">
+                {recentComponents.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Components ProtoBuddy recommends in this conversation will show up here.
+                  </p>
+                )}
+                {recentComponents.map((component) => (
+                  <Card key={component.id} className="glass border-glass-border hover-lift smooth-transition p-4">
                     <div className="flex items-start justify-between">
-                      <div className="flex items-start gap-3 flex-1">
-                        <div className={`p-2 rounded-lg bg-${getStatusColor(component.status)}/20`}>
-                          <component.icon className={`w-4 h-4 text-${getStatusColor(component.status)}`} />
+                      <div className="flex items-start gap-3 flex-1 min-w-0">
+                        <div className={`p-2 rounded-lg bg-${scoreColor(component.score)}/20`}>
+                          <component.icon className={`w-4 h-4 text-${scoreColor(component.score)}`} />
                         </div>
                         <div className="flex-1 min-w-0">
                           <h4 className="font-medium text-sm truncate">{component.name}</h4>
@@ -203,14 +298,36 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
                       </div>
                       <Badge 
                         variant="outline" 
-                        className={`text-xs border-${getStatusColor(component.status)} text-${getStatusColor(component.status)} bg-${getStatusColor(component.status)}/10`}
+                        className={`text-xs border-${scoreColor(component.score)} text-${scoreColor(component.score)} bg-${scoreColor(component.score)}/10`}
                       >
-                        {component.status}
+                        {component.score}%
                       </Badge>
                     </div>
                   </Card>
                 ))}
               </div>
+              {onExportBom && recentComponents.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isExporting}
+                      className="w-full mt-3 glass border-glass-border hover-lift smooth-transition"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      {isExporting ? 'Exporting...' : 'Export BOM'}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="w-56">
+                    {bomFormats.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} onSelect={() => handleExportBom(format)}>
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
 
             {/* Settings */}
@@ -279,8 +396,35 @@ const ProtoBuddy: React.FC<ProtoBuddyProps> = ({ onSendMessage }) => {
                               <User className="w-4 h-4" />
                             </div>
                           )}
-                          <div className="flex-1">
-                            <p className="text-sm leading-relaxed">{message.content}</p>
+                          <div className="flex-1 min-w-0">
+                            {message.sender === 'assistant' ? (
+                              <MarkdownMessage content={message.content} />
+                            ) : (
+                              <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                            )}
+                            {message.context?.recommendations && message.context.recommendations.length > 0 && (
+                              <div className="mt-3 space-y-2">
+                                {message.context.recommendations.map((recommendation, index) => (
+                                  <RecommendationCard
+                                    key={recommendation.component?.id ?? index}
+                                    recommendation={recommendation}
+                                  />
+                                ))}
+                              </div>
+                            )}
+                            {message.context?.compatibility && (
+                              <div className="mt-3">
+                                <CompatibilityReport
+                                  compatibility={message.context.compatibility}
+                                  onAddRemediation={handleAddRemediation}
+                                />
+                              </div>
+                            )}
+                            {message.context?.comparison && (
+                              <div className="mt-3">
+                                <BoardComparisonTable comparison={message.context.comparison} />
+                              </div>
+                            )}
                             {message.type === 'component' && (
                               <div className="mt-3 p-3 rounded-lg bg-black/20 border border-white/10">
                                 <div className="flex items-center gap-2 mb-2">
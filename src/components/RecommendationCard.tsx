@@ -0,0 +1,76 @@
+import React from 'react';
+import { AlertTriangle, ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { Recommendation } from '@/lib/api';
+import { categoryIcon, formatPrice, formatVoltage, protocolsOf, scoreColor } from '@/lib/component-display';
+
+interface RecommendationCardProps {
+  recommendation: Recommendation;
+}
+
+const RecommendationCard: React.FC<RecommendationCardProps> = ({ recommendation }) => {
+  const { component, score, reason, warnings } = recommendation;
+  const Icon = categoryIcon(component.category);
+  const color = scoreColor(score);
+  const voltage = formatVoltage(component);
+  const price = formatPrice(component.price);
+  const protocols = protocolsOf(component);
+
+  return (
+    <div className="p-3 rounded-lg bg-black/20 border border-white/10 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className={`w-4 h-4 text-${color} flex-shrink-0`} />
+          <div className="min-w-0">
+            <p className="text-xs font-medium truncate">{component.name}</p>
+            <p className="text-xs text-muted-foreground font-mono truncate">
+              {component.manufacturer} · {component.category}
+            </p>
+          </div>
+        </div>
+        <Badge variant="outline" className={`text-xs border-${color} text-${color} bg-${color}/10`}>
+          {score}%
+        </Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 text-xs font-mono">
+        {voltage && (
+          <span className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10">{voltage}</span>
+        )}
+        {protocols.map(protocol => (
+          <span key={protocol} className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10">{protocol}</span>
+        ))}
+        {price && (
+          <span className="px-1.5 py-0.5 rounded bg-circuit-green/10 border border-circuit-green/30 text-circuit-green">{price}</span>
+        )}
+      </div>
+
+      {reason && <p className="text-xs text-muted-foreground">{reason}</p>}
+
+      {warnings && warnings.length > 0 && (
+        <ul className="space-y-1">
+          {warnings.map((warning, index) => (
+            <li key={index} className="flex items-start gap-1.5 text-xs text-electric-orange">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>{warning}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {component.datasheetUrl && (
+        <a
+          href={component.datasheetUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          Datasheet
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default RecommendationCard;
@@ -14,8 +14,165 @@ export interface ChatMessage {
   sender: 'user' | 'assistant';
   timestamp: Date | string;
   context?: {
-    recommendations?: any[];
-    compatibility?: any;
+    recommendations?: Recommendation[];
+    compatibility?: CompatibilityCheck;
+    comparison?: BoardComparison;
+    steps?: AgentStep[];
+  };
+}
+
+export interface Recommendation {
+  component: Component;
+  score: number;
+  reason: string;
+  alternatives: Component[];
+  warnings?: string[];
+}
+
+export interface CompatibilityIssue {
+  type: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  solution?: string;
+}
+
+export interface Remediation {
+  kind: 'level-shifter' | 'voltage-divider' | 'mosfet-driver' | 'relay';
+  issueType: string;
+  forComponent: { id: string; name: string };
+  component: Component;
+  quantity: number;
+  reason: string;
+  score: { before: number; after: number };
+}
+
+export interface CompatibilityCheck {
+  compatible: boolean;
+  issues: CompatibilityIssue[];
+  suggestions: string[];
+  score: number;
+  remediations?: Remediation[];
+}
+
+export interface BoardComparisonRow {
+  key: string;
+  label: string;
+  group: 'processor' | 'memory' | 'electrical' | 'protocols' | 'pins' | 'compatibility';
+  unit?: string;
+  values: Array<string | number | null>;
+}
+
+export interface BoardComparison {
+  boards: Array<{ id: string; name: string; manufacturer: string }>;
+  rows: BoardComparisonRow[];
+  components: Array<{ id: string; name: string }>;
+}
+
+export interface AgentStep {
+  step: number;
+  tool: string;
+  input: Record<string, unknown>;
+  ok: boolean;
+  summary: string;
+  durationMs: number;
+}
+
+// Server-Sent Events emitted by POST /chat/stream
+export type ChatStreamEvent =
+  | { type: 'intent'; sessionId: string; intent: string; confidence: number }
+  | { type: 'step'; step: AgentStep }
+  | { type: 'recommendations'; recommendations: Recommendation[] }
+  | { type: 'compatibility'; compatibility: CompatibilityCheck }
+  | { type: 'comparison'; comparison: BoardComparison }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; sessionId: string; message: ChatMessage }
+  | { type: 'error'; error: string; message: string };
+
+export interface ChatStreamHandlers {
+  onIntent?: (event: Extract<ChatStreamEvent, { type: 'intent' }>) => void;
+  onStep?: (step: AgentStep) => void;
+  onRecommendations?: (recommendations: Recommendation[]) => void;
+  onCompatibility?: (compatibility: CompatibilityCheck) => void;
+  onComparison?: (comparison: BoardComparison) => void;
+  onDelta?: (text: string) => void;
+  onDone?: (event: Extract<ChatStreamEvent, { type: 'done' }>) => void;
+  onError?: (message: string) => void;
+}
+
+export interface ChatSession {
+  sessionId: string;
+  title: string | null;
+  messages: ChatMessage[];
+  context: Record<string, unknown>;
+  toolCallsUsed: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// The parts of a component's specifications the UI reads; scraped entries may leave any of them out
+export interface ComponentSpec {
+  voltage?: {
+    operating?: { min: number; max: number; unit: string };
+  };
+  current?: {
+    operating?: { typical: number; max: number; unit: string };
+  };
+  communication?: Array<{ type: string }>;
+  [key: string]: unknown;
+}
+
+export interface Connection {
+  fromComponent: string;
+  fromPin: string;
+  toComponent: string;
+  toPin: string;
+  wireType?: string;
+  notes?: string;
+}
+
+export interface GeneratedSketch {
+  filename: string;
+  board: string;
+  code: string;
+  libraries: string[];
+  pins: Array<{
+    define: string;
+    value: string;
+    component: string;
+    componentPin: string;
+    boardPin: string | null;
+  }>;
+  warnings: string[];
+  refined: boolean;
+}
+
+export type BomFormat = 'json' | 'csv' | 'kicad';
+
+export interface BomLine {
+  name: string;
+  kind: 'board' | 'component';
+  quantity: number;
+  componentId?: string;
+  manufacturer?: string;
+  category?: string;
+  unitPrice?: number;
+  lineTotal?: number;
+  datasheetUrl?: string;
+  availability?: string;
+  discontinued?: boolean;
+}
+
+export interface PartsBom {
+  sessionId: string | null;
+  title: string | null;
+  lines: BomLine[];
+  unresolved: string[];
+  discontinued: string[];
+  totals: {
+    quantity: number;
+    priced: number;
+    unpricedLines: number;
+    currency: string;
   };
 }
 
@@ -25,7 +182,7 @@ export interface Component {
   manufacturer: string;
   category: string;
   description: string;
-  specifications: any;
+  specifications: ComponentSpec;
   compatibility: any;
   datasheetUrl?: string;
   imageUrl?: string;
@@ -88,8 +245,75 @@ class ApiClient {
     });
   }
 
-  async getChatSession(sessionId: string): Promise<ApiResponse<any>> {
-    return this.request(`/chat/sessions/${sessionId}`);
+  // Streams a chat reply, calling the handlers as each event arrives. Resolves once the stream ends.
+  async streamChatMessage(
+    message: string,
+    sessionId: string | undefined,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({ message, sessionId }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any trailing partial event for the next chunk
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        const data = block
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+
+        if (data) {
+          dispatchStreamEvent(JSON.parse(data) as ChatStreamEvent, handlers);
+        }
+      }
+    }
+  }
+
+  async getChatSession(sessionId: string): Promise<ApiResponse<ChatSession>> {
+    return this.request(`/chat/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  async getSessionBom(sessionId: string): Promise<ApiResponse<PartsBom>> {
+    return this.request(`/chat/sessions/${encodeURIComponent(sessionId)}/bom`);
+  }
+
+  // Fetches the session BOM as a file in the given format
+  async downloadSessionBom(sessionId: string, format: BomFormat): Promise<{ blob: Blob; filename: string }> {
+    const response = await fetch(`${API_BASE_URL}/chat/sessions/${encodeURIComponent(sessionId)}/bom?format=${format}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `bom.${format === 'json' ? 'json' : 'csv'}`;
+
+    return { blob: await response.blob(), filename };
   }
 
   async clearChatSession(sessionId: string): Promise<ApiResponse> {
@@ -155,6 +379,25 @@ class ApiClient {
     return this.request(`/components/compatible/${boardId}${params}`);
   }
 
+  async compareBoards(boardIds: string[], componentIds: string[] = []): Promise<ApiResponse<BoardComparison>> {
+    const params = new URLSearchParams({ ids: boardIds.join(',') });
+    if (componentIds.length > 0) params.set('components', componentIds.join(','));
+    return this.request(`/boards/compare?${params}`);
+  }
+
+  // Codegen API
+  async generateSketch(request: {
+    boardId: string;
+    components: Array<{ id: string; quantity?: number }>;
+    connections?: Connection[];
+    refine?: boolean;
+  }): Promise<ApiResponse<GeneratedSketch>> {
+    return this.request('/codegen/sketch', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
   // Health check
   async healthCheck(): Promise<ApiResponse<any>> {
     return this.request('/health');
@@ -172,6 +415,35 @@ class ApiClient {
   }
 }
 
+function dispatchStreamEvent(event: ChatStreamEvent, handlers: ChatStreamHandlers) {
+  switch (event.type) {
+    case 'intent':
+      handlers.onIntent?.(event);
+      break;
+    case 'step':
+      handlers.onStep?.(event.step);
+      break;
+    case 'recommendations':
+      handlers.onRecommendations?.(event.recommendations);
+      break;
+    case 'compatibility':
+      handlers.onCompatibility?.(event.compatibility);
+      break;
+    case 'comparison':
+      handlers.onComparison?.(event.comparison);
+      break;
+    case 'delta':
+      handlers.onDelta?.(event.text);
+      break;
+    case 'done':
+      handlers.onDone?.(event);
+      break;
+    case 'error':
+      handlers.onError?.(event.message);
+      break;
+  }
+}
+
 export const apiClient = new ApiClient();
 
 // Utility functions for error handling
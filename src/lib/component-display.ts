@@ -0,0 +1,67 @@
+import { Activity, Battery, Cpu, Microchip, Signal, Wifi, Zap, type LucideIcon } from 'lucide-react';
+import type { ChatMessage, Component } from '@/lib/api';
+
+export function categoryIcon(category: string): LucideIcon {
+  const normalized = category.toLowerCase();
+
+  if (normalized.includes('sensor')) return Activity;
+  if (normalized.includes('wireless') || normalized.includes('communication')) return Wifi;
+  if (normalized.includes('power') || normalized.includes('battery')) return Battery;
+  if (normalized.includes('display') || normalized.includes('led') || normalized.includes('light')) return Zap;
+  if (normalized.includes('motor') || normalized.includes('actuator')) return Signal;
+  if (normalized.includes('board') || normalized.includes('microcontroller')) return Cpu;
+
+  return Microchip;
+}
+
+export function formatVoltage(component: Component): string | null {
+  const operating = component.specifications?.voltage?.operating;
+  if (!operating) return null;
+
+  const unit = operating.unit || 'V';
+  return operating.min === operating.max
+    ? `${operating.min}${unit}`
+    : `${operating.min}–${operating.max}${unit}`;
+}
+
+export function formatPrice(price?: number): string | null {
+  return typeof price === 'number' && Number.isFinite(price) ? `$${price.toFixed(2)}` : null;
+}
+
+export function protocolsOf(component: Component): string[] {
+  const protocols = component.specifications?.communication?.map(protocol => protocol.type) ?? [];
+  return [...new Set(protocols)];
+}
+
+export function scoreColor(score: number): string {
+  if (score >= 80) return 'circuit-green';
+  if (score >= 60) return 'cyan';
+  return 'electric-orange';
+}
+
+export interface DiscussedComponent {
+  component: Component;
+  // Best score any recommendation in the session gave this component
+  score: number;
+}
+
+// Components recommended so far in a conversation, most recent first
+export function discussedComponents(messages: Pick<ChatMessage, 'context'>[]): DiscussedComponent[] {
+  const seen = new Map<string, DiscussedComponent>();
+
+  for (const message of [...messages].reverse()) {
+    for (const recommendation of message.context?.recommendations ?? []) {
+      const { component } = recommendation;
+      if (!component?.id) continue;
+
+      const existing = seen.get(component.id);
+      if (existing) {
+        existing.score = Math.max(existing.score, recommendation.score);
+      } else {
+        seen.set(component.id, { component, score: recommendation.score });
+      }
+    }
+  }
+
+  return [...seen.values()];
+}
@@ -1,10 +1,34 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import ProtoBuddy from '@/components/ProtoBuddy';
-import { apiClient, ChatMessage } from '@/lib/api';
+import { apiClient, BomFormat, ChatMessage, ChatStreamHandlers } from '@/lib/api';
+import { downloadBlob } from '@/lib/utils';
+
+const LAST_SESSION_KEY = 'protobuddy:lastSessionId';
 
 const Index = () => {
-  const [sessionId, setSessionId] = useState<string>(() => uuidv4());
+  const [sessionId, setSessionId] = useState<string>(() => localStorage.getItem(LAST_SESSION_KEY) || uuidv4());
+  const [history, setHistory] = useState<ChatMessage[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(LAST_SESSION_KEY, sessionId);
+  }, [sessionId]);
+
+  // Restore the conversation from the last visit; a session the server no longer has just starts fresh
+  useEffect(() => {
+    const lastSessionId = localStorage.getItem(LAST_SESSION_KEY);
+    if (!lastSessionId) return;
+
+    apiClient.getChatSession(lastSessionId)
+      .then((response) => {
+        if (response.success && response.data) {
+          setHistory(response.data.messages);
+        }
+      })
+      .catch(() => {
+        // Not found or backend unavailable
+      });
+  }, []);
 
   const handleSendMessage = async (message: string): Promise<ChatMessage | null> => {
     try {
@@ -27,9 +51,33 @@ const Index = () => {
     }
   };
 
+  const handleStreamMessage = async (message: string, handlers: ChatStreamHandlers): Promise<void> => {
+    await apiClient.streamChatMessage(message, sessionId, {
+      ...handlers,
+      onDone: (event) => {
+        // Update session ID if it changed
+        if (event.sessionId !== sessionId) {
+          setSessionId(event.sessionId);
+        }
+
+        handlers.onDone?.(event);
+      },
+    });
+  };
+
+  const handleExportBom = async (format: BomFormat): Promise<void> => {
+    const { blob, filename } = await apiClient.downloadSessionBom(sessionId, format);
+    downloadBlob(blob, filename);
+  };
+
   return (
     <div className="h-screen">
-      <ProtoBuddy onSendMessage={handleSendMessage} />
+      <ProtoBuddy
+        initialMessages={history}
+        onSendMessage={handleSendMessage}
+        onStreamMessage={handleStreamMessage}
+        onExportBom={handleExportBom}
+      />
     </div>
   );
 };